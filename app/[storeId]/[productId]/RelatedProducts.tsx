@@ -1,70 +1,24 @@
 import Link from "next/link";
 import { OneTapBuyButtonCompact } from "@/components/ui/OneTapBuyButton";
-
-interface RelatedProduct {
-  id: string;
-  name: string;
-  price: string;
-  imageUrl?: string;
-  category: string;
-  buyUrl: string;
-  platform: "tiktok" | "shopee" | "taobao" | "generic";
-}
+import { loadStorefront, StorefrontProduct } from "@/lib/storefront/store-loader";
 
 interface RelatedProductsProps {
   storeId: string;
   currentProductId: string;
 }
 
-// Simulated data fetch - in production this would query by store/category
-async function getRelatedProducts(storeId: string, excludeId: string): Promise<RelatedProduct[]> {
-  // Simulate network delay
-  await new Promise((resolve) => setTimeout(resolve, 200));
-
-  const allProducts: RelatedProduct[] = [
-    {
-      id: "prod-1",
-      name: "Linen Blend Oversized Blazer",
-      price: "$89.00",
-      imageUrl: "/demo/blazer.jpg",
-      category: "Outerwear",
-      buyUrl: "https://shop.tiktok.com/demo",
-      platform: "tiktok",
-    },
-    {
-      id: "prod-2",
-      name: "Silk Midi Skirt",
-      price: "$124.00",
-      imageUrl: "/demo/skirt.jpg",
-      category: "Bottoms",
-      buyUrl: "https://shopee.com/demo",
-      platform: "shopee",
-    },
-    {
-      id: "prod-3",
-      name: "Woven Leather Sandals",
-      price: "$156.00",
-      imageUrl: "/demo/sandals.jpg",
-      category: "Footwear",
-      buyUrl: "https://shop.tiktok.com/demo",
-      platform: "tiktok",
-    },
-    {
-      id: "prod-4",
-      name: "Gold Chain Necklace",
-      price: "$42.00",
-      imageUrl: "/demo/necklace.jpg",
-      category: "Accessories",
-      buyUrl: "https://shopee.com/demo",
-      platform: "shopee",
-    },
-  ];
+// Other visible products from the same store
+function getRelatedProducts(storeId: string, excludeId: string): StorefrontProduct[] {
+  const storefront = loadStorefront(storeId);
+  if (!storefront) {
+    return [];
+  }
 
-  return allProducts.filter((p) => p.id !== excludeId).slice(0, 4);
+  return storefront.products.filter((p) => p.id !== excludeId).slice(0, 4);
 }
 
 export async function RelatedProducts({ storeId, currentProductId }: RelatedProductsProps) {
-  const products = await getRelatedProducts(storeId, currentProductId);
+  const products = getRelatedProducts(storeId, currentProductId);
 
   if (products.length === 0) return null;
 
@@ -1,11 +1,13 @@
 /**
  * Dynamic Product Page - Social-First Layout
  *
- * React Server Component for maximum speed.
+ * React Server Component for maximum speed, rendered from the persisted store.
  * Full-bleed video hero with Dirty Purple gradient transition.
+ * The buy button label follows the shopper's CTA experiment variant.
  */
 
 import { Suspense } from "react";
+import { cookies } from "next/headers";
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import { Badge } from "@/components/ui/Badge";
@@ -13,6 +15,11 @@ import { OneTapBuyButton, OneTapBuyButtonCompact } from "@/components/ui/OneTapB
 import { VideoHero } from "./VideoHero";
 import { AIHooks } from "./AIHooks";
 import { RelatedProducts } from "./RelatedProducts";
+import { loadStorefrontProduct } from "@/lib/storefront/store-loader";
+import { SESSION_COOKIE } from "@/lib/storefront/session";
+
+// Store edits must show up immediately
+export const dynamic = "force-dynamic";
 
 // Types
 interface ProductPageProps {
@@ -22,78 +29,33 @@ interface ProductPageProps {
   }>;
 }
 
-interface Product {
-  id: string;
-  name: string;
-  price: string;
-  description: string;
-  videoUrl: string;
-  posterUrl?: string;
-  buyUrl: string;
-  platform: "tiktok" | "shopee" | "taobao" | "generic";
-  category: string;
-  confidence: number;
-  aiHooks: string[];
-  colors?: string[];
-  creator: {
-    name: string;
-    handle: string;
-    avatarUrl?: string;
-  };
-}
+// Resolve the product from the persisted store (null -> 404)
+function getProduct(storeId: string, productId: string) {
+  const result = loadStorefrontProduct(storeId, productId, {
+    sessionId: cookies().get(SESSION_COOKIE)?.value,
+  });
+  if (!result) {
+    return null;
+  }
 
-// Simulated data fetch - in production this would be from database
-async function getProduct(storeId: string, productId: string): Promise<Product | null> {
-  // Simulate network delay for demo
-  await new Promise((resolve) => setTimeout(resolve, 100));
+  const { store, variants } = result.storefront;
 
-  // Demo product data
-  const products: Record<string, Product> = {
-    "prod-1": {
-      id: "prod-1",
-      name: "Linen Blend Oversized Blazer",
-      price: "$89.00",
-      description: "Effortlessly chic oversized blazer in a breathable linen blend. Perfect for layering over summer dresses or pairing with high-waisted trousers. The relaxed fit and natural fabric create that coveted Soho-cool aesthetic.",
-      videoUrl: "/demo/video.mp4",
-      posterUrl: "/demo/poster.jpg",
-      buyUrl: "https://shop.tiktok.com/demo",
-      platform: "tiktok",
-      category: "Outerwear",
-      confidence: 0.94,
-      aiHooks: ["Summer Essential", "Bestseller", "Sustainable", "Versatile"],
-      colors: ["Sand", "Ivory", "Sage"],
-      creator: {
-        name: "Sofia Martinez",
-        handle: "@sofia.style",
-      },
-    },
-    "prod-2": {
-      id: "prod-2",
-      name: "Silk Midi Skirt",
-      price: "$124.00",
-      description: "Luxurious silk midi skirt with a fluid drape that moves beautifully. High-waisted design flatters every figure. The champagne hue catches light like morning sun through gallery windows.",
-      videoUrl: "/demo/video.mp4",
-      posterUrl: "/demo/poster.jpg",
-      buyUrl: "https://shopee.com/demo",
-      platform: "shopee",
-      category: "Bottoms",
-      confidence: 0.91,
-      aiHooks: ["Trending Now", "Editorial Pick", "Limited Stock"],
-      colors: ["Champagne", "Blush"],
-      creator: {
-        name: "Sofia Martinez",
-        handle: "@sofia.style",
-      },
+  return {
+    ...result.product,
+    videoUrl: store.videoUrl || "",
+    posterUrl: store.thumbnail,
+    creator: {
+      name: store.creator,
+      handle: store.creatorHandle || "",
     },
+    ctaLabel: variants.ctaLabel,
   };
-
-  return products[productId] || null;
 }
 
 // Server Component
 export default async function ProductPage({ params }: ProductPageProps) {
   const { storeId, productId } = await params;
-  const product = await getProduct(storeId, productId);
+  const product = getProduct(storeId, productId);
 
   if (!product) {
     notFound();
@@ -173,7 +135,9 @@ export default async function ProductPage({ params }: ProductPageProps) {
               href={product.buyUrl}
               price={product.price}
               platform={product.platform}
-            />
+            >
+              {product.ctaLabel}
+            </OneTapBuyButton>
           </div>
 
           {/* AI-Generated Hooks */}
@@ -241,7 +205,7 @@ function RelatedProductsSkeleton() {
 // Generate metadata for SEO
 export async function generateMetadata({ params }: ProductPageProps) {
   const { storeId, productId } = await params;
-  const product = await getProduct(storeId, productId);
+  const product = getProduct(storeId, productId);
 
   if (!product) {
     return { title: "Product Not Found | Velolume" };
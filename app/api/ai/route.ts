@@ -1,13 +1,20 @@
 /**
  * API Route: /api/ai
  *
- * AI service status and manual processing trigger.
+ * AI service status (including provider circuit breakers, response cache,
+ * output validation metrics and registered prompt versions) and manual
+ * processing trigger.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getProcessorStatus, isProcessorReady } from "@/lib/ai/processor";
 import { triggerAIProcessing } from "@/lib/queue/worker";
 import { getJob } from "@/lib/store/job-store";
+import { CHECKPOINT_STAGES, isCheckpointStage } from "@/lib/ai/checkpoints";
+import { getCircuitStatus } from "@/lib/ai/circuit-breaker";
+import { getResponseCacheStats } from "@/lib/ai/response-cache";
+import { getOutputValidationStats } from "@/lib/ai/structured-output";
+import { listPrompts } from "@/lib/prompts";
 
 // Get AI service status
 export async function GET() {
@@ -18,6 +25,10 @@ export async function GET() {
     version: processorStatus.version,
     models: processorStatus.models,
     capabilities: processorStatus.capabilities,
+    circuits: getCircuitStatus(),
+    responseCache: getResponseCacheStats(),
+    outputValidation: getOutputValidationStats(),
+    prompts: listPrompts(),
     outputSchema: {
       transcription: { text: "string", language: "string", duration: "number" },
       products: [{
@@ -43,7 +54,7 @@ export async function GET() {
       sentiment: { overall: "positive|negative|neutral", score: "0-100", highlights: "string[]" },
     },
     instructions: processorStatus.ready
-      ? "AI processor v2.0 ready. Detects 5-15+ products per video. POST with { jobId } to process."
+      ? `AI processor v2.0 ready. Detects 5-15+ products per video. POST with { jobId } to process; completed stages are reused unless listed in force (${CHECKPOINT_STAGES.join(", ")}) or force is true.`
       : "Add OPENAI_API_KEY to .env.local to enable AI processing",
   });
 }
@@ -52,7 +63,7 @@ export async function GET() {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { jobId } = body;
+    const { jobId, force } = body;
 
     if (!jobId) {
       return NextResponse.json(
@@ -61,6 +72,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const validForce =
+      force === undefined ||
+      typeof force === "boolean" ||
+      (Array.isArray(force) && force.every(isCheckpointStage));
+    if (!validForce) {
+      return NextResponse.json(
+        { error: `force must be true or a list of stages: ${CHECKPOINT_STAGES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
     // Check if job exists
     const job = getJob(jobId);
     if (!job) {
@@ -71,7 +93,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Trigger AI processing
-    const result = await triggerAIProcessing(jobId);
+    const result = await triggerAIProcessing(jobId, force);
 
     if (!result.success) {
       return NextResponse.json(
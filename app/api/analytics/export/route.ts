@@ -0,0 +1,131 @@
+/**
+ * API Route: /api/analytics/export
+ *
+ * Streams raw events or daily rollups as CSV or NDJSON.
+ *
+ *   GET /api/analytics/export?kind=events|daily&format=csv|ndjson
+ *       &storeId=a,b          (repeat or comma-separate; omit for all stores)
+ *       &from=ISO&to=ISO      (default: last 30 days)
+ *       &columns=date,views   (default: all columns for the kind)
+ *       &byProduct=true       (daily only: add per-product rows)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  exportChunks,
+  resolveColumns,
+  EXPORT_FORMATS,
+  EXPORT_KINDS,
+  ExportFormat,
+  ExportKind,
+} from "@/lib/store/analytics-export";
+
+export const dynamic = "force-dynamic";
+
+// Rows are batched into chunks of roughly this many characters
+const CHUNK_SIZE = 64 * 1024;
+
+const encoder = new TextEncoder();
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const kind = (searchParams.get("kind") || "events") as ExportKind;
+    const format = (searchParams.get("format") || "csv") as ExportFormat;
+
+    if (!EXPORT_KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `Invalid kind. Must be one of: ${EXPORT_KINDS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Invalid format. Must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const to = searchParams.get("to") ? new Date(searchParams.get("to")!) : new Date();
+    const from = searchParams.get("from")
+      ? new Date(searchParams.get("from")!)
+      : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json(
+        { error: "from and to must be ISO timestamps with from before to" },
+        { status: 400 }
+      );
+    }
+
+    const columns = resolveColumns(kind, splitList(searchParams.getAll("columns")));
+    if (!columns.success) {
+      return NextResponse.json({ error: columns.error }, { status: 400 });
+    }
+
+    const storeIds = splitList(searchParams.getAll("storeId"));
+    const chunks = exportChunks({
+      kind,
+      format,
+      storeIds: storeIds.length > 0 ? storeIds : null,
+      from,
+      to,
+      columns: columns.columns!,
+      byProduct: searchParams.get("byProduct") === "true",
+    });
+
+    // Pull-based: the next batch is only produced when the client reads
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        try {
+          let batch = "";
+          while (batch.length < CHUNK_SIZE) {
+            const next = chunks.next();
+            if (next.done) {
+              if (batch) {
+                controller.enqueue(encoder.encode(batch));
+              }
+              controller.close();
+              return;
+            }
+            batch += next.value;
+          }
+          controller.enqueue(encoder.encode(batch));
+        } catch (error) {
+          console.error("[Analytics Export] Stream error:", error);
+          controller.error(error);
+        }
+      },
+      cancel() {
+        chunks.return?.();
+      },
+    });
+
+    const filename = `velolume-analytics-${kind}-${from.toISOString().substring(0, 10)}-to-${to
+      .toISOString()
+      .substring(0, 10)}.${format}`;
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[Analytics Export] Error:", error);
+    return NextResponse.json({ error: "Failed to export analytics" }, { status: 500 });
+  }
+}
+
+// ?storeId=a,b&storeId=c -> ["a", "b", "c"]
+function splitList(values: string[]): string[] {
+  return values
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
@@ -3,6 +3,16 @@
  *
  * Track and retrieve store analytics.
  * Supports view tracking, click events, and conversion metrics.
+ * Bot, duplicate and rate-capped events are dropped on POST and counted
+ * in the summary's `suppressed` field instead. Accepted events are tagged
+ * with the session's variant of each running storefront experiment.
+ *
+ * Time series (served from rollups):
+ *   GET /api/analytics?storeId=X&from=ISO&to=ISO&granularity=hour|day|month&metric=views
+ *
+ * Session reports (from raw events, default range last 30 days):
+ *   GET /api/analytics?storeId=X&type=funnel&from=ISO&to=ISO
+ *   GET /api/analytics?storeId=X&type=attribution&from=ISO&to=ISO&lookbackDays=30
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -12,15 +22,43 @@ import {
   getRecentEvents,
   getAllStoreAnalytics,
   getPulseData,
+  recordSuppressedEvent,
   EventType,
 } from "@/lib/store/analytics-store";
+import { filterEvent, getClientIp } from "@/lib/store/analytics-filter";
+import { getStorefrontVariants } from "@/lib/store/experiment-store";
+import {
+  queryAnalytics,
+  listBuckets,
+  ROLLUP_GRANULARITIES,
+  ROLLUP_METRICS,
+  MAX_TIMESERIES_BUCKETS,
+  RollupGranularity,
+  RollupMetric,
+} from "@/lib/store/analytics-rollups";
+import {
+  getFunnelReport,
+  getAttributionReport,
+  DEFAULT_ATTRIBUTION_LOOKBACK_DAYS,
+} from "@/lib/store/analytics-reports";
+
+// Default range for each granularity when `from` is omitted
+const DEFAULT_RANGE_DAYS: Record<RollupGranularity, number> = {
+  hour: 1,
+  day: 30,
+  month: 365,
+};
+
+const INVALID_RANGE_ERROR = "from and to must be ISO timestamps with from before to";
 
 // GET: Retrieve analytics data
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const storeId = searchParams.get("storeId");
-    const type = searchParams.get("type") || "summary"; // summary, events, pulse, all
+    // summary, events, pulse, timeseries, funnel, attribution, all
+    const type =
+      searchParams.get("type") || (searchParams.has("granularity") ? "timeseries" : "summary");
 
     if (type === "all") {
       const analytics = getAllStoreAnalytics();
@@ -36,6 +74,65 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(pulse);
     }
 
+    if (type === "timeseries") {
+      const granularity = (searchParams.get("granularity") || "day") as RollupGranularity;
+      const metric = (searchParams.get("metric") || "views") as RollupMetric;
+
+      if (!ROLLUP_GRANULARITIES.includes(granularity)) {
+        return NextResponse.json(
+          { error: `Invalid granularity. Must be one of: ${ROLLUP_GRANULARITIES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      if (!ROLLUP_METRICS.includes(metric)) {
+        return NextResponse.json(
+          { error: `Invalid metric. Must be one of: ${ROLLUP_METRICS.join(", ")}` },
+          { status: 400 }
+        );
+      }
+
+      const range = parseRange(searchParams, DEFAULT_RANGE_DAYS[granularity]);
+      if (!range) {
+        return NextResponse.json({ error: INVALID_RANGE_ERROR }, { status: 400 });
+      }
+      const { from, to } = range;
+      if (listBuckets(from, to, granularity).length > MAX_TIMESERIES_BUCKETS) {
+        return NextResponse.json(
+          { error: `Range too large: at most ${MAX_TIMESERIES_BUCKETS} ${granularity} buckets` },
+          { status: 400 }
+        );
+      }
+
+      const result = queryAnalytics({
+        storeId,
+        productId: searchParams.get("productId") || undefined,
+        from,
+        to,
+        granularity,
+        metric,
+      });
+      return NextResponse.json({ ...result, from: from.toISOString(), to: to.toISOString() });
+    }
+
+    if (type === "funnel" || type === "attribution") {
+      const range = parseRange(searchParams, 30);
+      if (!range) {
+        return NextResponse.json({ error: INVALID_RANGE_ERROR }, { status: 400 });
+      }
+
+      if (type === "funnel") {
+        return NextResponse.json(getFunnelReport(storeId, range));
+      }
+
+      const lookbackDays = parseInt(
+        searchParams.get("lookbackDays") || String(DEFAULT_ATTRIBUTION_LOOKBACK_DAYS)
+      );
+      if (isNaN(lookbackDays) || lookbackDays < 0) {
+        return NextResponse.json({ error: "lookbackDays must be a non-negative number" }, { status: 400 });
+      }
+      return NextResponse.json(getAttributionReport(storeId, range, lookbackDays));
+    }
+
     if (type === "events") {
       const limit = parseInt(searchParams.get("limit") || "50");
       const events = getRecentEvents(storeId, limit);
@@ -91,6 +188,21 @@ export async function POST(request: NextRequest) {
       device: metadata?.device || parseUserAgent(request.headers.get("user-agent")),
     };
 
+    // Drop bots, floods and double-fires before they reach the counters
+    const decision = filterEvent(
+      { storeId, eventType, productId, metadata: enrichedMetadata },
+      { userAgent: request.headers.get("user-agent"), ip: getClientIp(request.headers) }
+    );
+    if (!decision.allowed) {
+      recordSuppressedEvent(storeId, decision.reason!, decision.detail);
+      // 200 so beacons do not retry
+      return NextResponse.json({ success: true, suppressed: true, reason: decision.reason });
+    }
+
+    // Variants are re-derived from the session, never taken from the client
+    const { assignments } = getStorefrontVariants(storeId, enrichedMetadata.sessionId);
+    enrichedMetadata.experiments = Object.keys(assignments).length > 0 ? assignments : undefined;
+
     const event = trackEvent(storeId, eventType, productId, enrichedMetadata);
 
     return NextResponse.json({
@@ -103,6 +215,22 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Helper to read from/to query params, defaulting to the last `defaultDays`
+function parseRange(
+  searchParams: URLSearchParams,
+  defaultDays: number
+): { from: Date; to: Date } | null {
+  const to = searchParams.get("to") ? new Date(searchParams.get("to")!) : new Date();
+  const from = searchParams.get("from")
+    ? new Date(searchParams.get("from")!)
+    : new Date(to.getTime() - defaultDays * 24 * 60 * 60 * 1000);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+    return null;
+  }
+  return { from, to };
+}
+
 // Helper to parse user agent for device type
 function parseUserAgent(ua: string | null): string {
   if (!ua) return "unknown";
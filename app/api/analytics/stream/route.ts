@@ -0,0 +1,48 @@
+/**
+ * API Route: /api/analytics/stream
+ *
+ * Live analytics as Server-Sent Events.
+ *
+ *   GET /api/analytics/stream?storeId=X   one store
+ *   GET /api/analytics/stream             every store
+ *
+ * Events:
+ *   snapshot  current totals (and pulse data for a single store)
+ *   event     { event, totals } for each tracked event
+ *
+ * Reconnecting clients send Last-Event-ID to receive missed events.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createEventStream } from "@/lib/events/sse";
+import {
+  getStoreAnalytics,
+  getAllStoreAnalytics,
+  getPulseData,
+} from "@/lib/store/analytics-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const storeId = new URL(request.url).searchParams.get("storeId");
+
+    if (!storeId) {
+      return createEventStream(request, {
+        channel: "analytics",
+        snapshot: () => ({ analytics: getAllStoreAnalytics() }),
+      });
+    }
+
+    return createEventStream(request, {
+      channel: `analytics:${storeId}`,
+      snapshot: () => ({
+        analytics: getStoreAnalytics(storeId),
+        pulse: getPulseData(storeId),
+      }),
+    });
+  } catch (error) {
+    console.error("[Analytics Stream] Error:", error);
+    return NextResponse.json({ error: "Failed to open analytics stream" }, { status: 500 });
+  }
+}
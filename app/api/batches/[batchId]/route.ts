@@ -0,0 +1,31 @@
+/**
+ * API Route: /api/batches/[batchId]
+ *
+ * A batch with each item's ingestion and job status, aggregate progress
+ * and a summary (products found, failed URLs).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { describeBatch, getBatch } from "@/lib/store/batch-store";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { batchId: string };
+}
+
+// GET: Fetch a batch with progress
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const batch = getBatch(params.batchId);
+
+    if (!batch) {
+      return NextResponse.json({ error: "Batch not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ batch: describeBatch(batch) });
+  } catch (error) {
+    console.error("[Batches API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch batch" }, { status: 500 });
+  }
+}
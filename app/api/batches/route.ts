@@ -0,0 +1,76 @@
+/**
+ * API Route: /api/batches
+ *
+ * Ingest many video URLs as one tracked batch.
+ *
+ *   GET  /api/batches            recent batches with progress (?limit=)
+ *   POST /api/batches            JSON { urls, name?, priority? } or
+ *                                multipart form with a CSV `file` (+ name, priority)
+ *   GET  /api/batches/:batchId   one batch with per-item status and summary
+ *
+ * URLs are validated up front; valid ones are scraped and queued in the
+ * background with throttling (see lib/queue/batch-ingest.ts). Videos that
+ * were already ingested link to their existing job; `?reprocess=true`
+ * queues new runs for them instead.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createBatchIngestion, parseCsvUrls, BatchInput } from "@/lib/queue/batch-ingest";
+import { describeBatch, listBatches } from "@/lib/store/batch-store";
+import type { JobPriority } from "@/lib/store/job-store";
+
+export const dynamic = "force-dynamic";
+
+// GET: List recent batches, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get("limit") || "20");
+
+    const batches = listBatches(Number.isNaN(limit) ? 20 : limit).map(describeBatch);
+    return NextResponse.json({ batches, total: batches.length });
+  } catch (error) {
+    console.error("[Batches API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch batches" }, { status: 500 });
+  }
+}
+
+// POST: Create a batch from a URL list or CSV upload
+export async function POST(request: NextRequest) {
+  try {
+    let input: BatchInput;
+    const reprocess = new URL(request.url).searchParams.get("reprocess") === "true";
+
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+
+      if (!file || typeof file === "string") {
+        return NextResponse.json({ error: "CSV file is required" }, { status: 400 });
+      }
+
+      input = {
+        urls: parseCsvUrls(await file.text()),
+        name: (formData.get("name") as string | null) || file.name,
+        priority: (formData.get("priority") as JobPriority | null) || undefined,
+        source: "csv",
+        reprocess,
+      };
+    } else {
+      const body = await request.json();
+      const { urls, name, priority } = body;
+      input = { urls, name, priority, source: "urls", reprocess };
+    }
+
+    const result = createBatchIngestion(input);
+
+    if (!result.success || !result.batch) {
+      return NextResponse.json({ error: result.error, code: result.code }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, batch: describeBatch(result.batch) }, { status: 202 });
+  } catch (error) {
+    console.error("[Batches API] Error:", error);
+    return NextResponse.json({ error: "Failed to create batch" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * API Route: /api/costs
+ *
+ * AI spend from the cost ledger.
+ *
+ *   GET /api/costs    totals, grouped totals and recent entries
+ *
+ * Query:
+ *   jobId, storeId, creator    filter by who the calls were billed to
+ *   since, until               ISO timestamps (until is exclusive)
+ *   month=YYYY-MM              shorthand for one UTC month
+ *   groupBy                    model | task | job | store | creator | day | prompt (default: model)
+ *   limit                      recent entries to include (default 50)
+ *
+ * With jobId or creator, the response includes where that job or creator
+ * stands against its budget and hard cap.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { checkBudget, COST_BUDGET_CONFIG } from "@/lib/ai/cost-budget";
+import {
+  CostGroupBy,
+  groupCosts,
+  listCostEntries,
+  monthRange,
+  roundUSD,
+  summarizeCosts,
+} from "@/lib/store/cost-ledger";
+
+export const dynamic = "force-dynamic";
+
+const GROUP_BY: CostGroupBy[] = ["model", "task", "job", "store", "creator", "day", "prompt"];
+
+// GET: Report AI costs
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get("jobId") || undefined;
+    const storeId = searchParams.get("storeId") || undefined;
+    const creator = searchParams.get("creator")?.replace(/^@/, "").toLowerCase() || undefined;
+    const groupBy = (searchParams.get("groupBy") || "model") as CostGroupBy;
+    const limit = parseInt(searchParams.get("limit") || "50");
+
+    if (!GROUP_BY.includes(groupBy)) {
+      return NextResponse.json({ error: `groupBy must be one of: ${GROUP_BY.join(", ")}` }, { status: 400 });
+    }
+
+    let since = searchParams.get("since") || undefined;
+    let until = searchParams.get("until") || undefined;
+    const month = searchParams.get("month");
+    if (month) {
+      if (!/^\d{4}-\d{2}$/.test(month)) {
+        return NextResponse.json({ error: "month must be YYYY-MM" }, { status: 400 });
+      }
+      ({ since, until } = monthRange(new Date(`${month}-01T00:00:00Z`)));
+    }
+
+    const entries = listCostEntries({ jobId, storeId, creator, since, until });
+    const totals = summarizeCosts(entries);
+
+    return NextResponse.json({
+      filter: { jobId, storeId, creator, since, until },
+      totals: { ...totals, costUSD: roundUSD(totals.costUSD) },
+      groupBy,
+      groups: groupCosts(entries, groupBy),
+      budget: jobId || creator ? checkBudget({ jobId, creator }) : undefined,
+      limits: COST_BUDGET_CONFIG,
+      entries: entries.slice(0, Number.isNaN(limit) ? 50 : limit),
+    });
+  } catch (error) {
+    console.error("[Costs API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch costs" }, { status: 500 });
+  }
+}
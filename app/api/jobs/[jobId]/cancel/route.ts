@@ -0,0 +1,43 @@
+/**
+ * API Route: /api/jobs/[jobId]/cancel
+ *
+ * Cancel a job. A running worker stops at its next stage; queued messages
+ * for the job are acknowledged without processing. Cancelled is terminal.
+ *
+ * Body (optional): { reason?: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { cancelJob } from "@/lib/queue/job-control";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+const ERROR_STATUS = {
+  not_found: 404,
+  conflict: 409,
+  dispatch_failed: 502,
+};
+
+// POST: Cancel the job
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body?.reason === "string" ? body.reason : undefined;
+
+    const result = cancelJob(params.jobId, reason);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: result.code ? ERROR_STATUS[result.code] : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job: result.job });
+  } catch (error) {
+    console.error("[Jobs API] Error:", error);
+    return NextResponse.json({ error: "Failed to cancel job" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * API Route: /api/jobs/[jobId]/pause
+ *
+ * Pause a job. A running worker stops at its next stage; completed stages
+ * are kept for when the job is resumed.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { pauseJob } from "@/lib/queue/job-control";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+const ERROR_STATUS = {
+  not_found: 404,
+  conflict: 409,
+  dispatch_failed: 502,
+};
+
+// POST: Pause the job
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = pauseJob(params.jobId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: result.code ? ERROR_STATUS[result.code] : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job: result.job });
+  } catch (error) {
+    console.error("[Jobs API] Error:", error);
+    return NextResponse.json({ error: "Failed to pause job" }, { status: 500 });
+  }
+}
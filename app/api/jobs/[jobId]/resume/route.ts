@@ -0,0 +1,38 @@
+/**
+ * API Route: /api/jobs/[jobId]/resume
+ *
+ * Put a paused job back in the queue. Processing picks up after the last
+ * completed stage.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { resumeJob } from "@/lib/queue/job-control";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+const ERROR_STATUS = {
+  not_found: 404,
+  conflict: 409,
+  dispatch_failed: 502,
+};
+
+// POST: Resume the job
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = await resumeJob(params.jobId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: result.code ? ERROR_STATUS[result.code] : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job: result.job });
+  } catch (error) {
+    console.error("[Jobs API] Error:", error);
+    return NextResponse.json({ error: "Failed to resume job" }, { status: 500 });
+  }
+}
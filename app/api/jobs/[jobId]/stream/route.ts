@@ -0,0 +1,37 @@
+/**
+ * API Route: /api/jobs/[jobId]/stream
+ *
+ * Live updates for one job as Server-Sent Events.
+ *
+ * Events:
+ *   snapshot  { job } on connect
+ *   created | updated | log   { job } after each change
+ *
+ * Reconnecting clients send Last-Event-ID to receive missed events.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createEventStream } from "@/lib/events/sse";
+import { getJob } from "@/lib/store/job-store";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!getJob(params.jobId)) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return createEventStream(request, {
+      channel: `job:${params.jobId}`,
+      snapshot: () => ({ job: getJob(params.jobId) }),
+    });
+  } catch (error) {
+    console.error("[Jobs Stream] Error:", error);
+    return NextResponse.json({ error: "Failed to open job stream" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * API Route: /api/jobs/dead-letter/[jobId]/requeue
+ *
+ * Reopen a dead-lettered job as queued, with a fresh attempt budget,
+ * and send it back to the worker.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requeueDeadLetter } from "@/lib/queue/dead-letter";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+const ERROR_STATUS = {
+  not_found: 404,
+  conflict: 409,
+  dispatch_failed: 502,
+};
+
+// POST: Requeue the job
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = await requeueDeadLetter(params.jobId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: result.code ? ERROR_STATUS[result.code] : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job: result.job });
+  } catch (error) {
+    console.error("[Dead Letter API] Error:", error);
+    return NextResponse.json({ error: "Failed to requeue job" }, { status: 500 });
+  }
+}
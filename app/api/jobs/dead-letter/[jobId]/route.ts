@@ -0,0 +1,45 @@
+/**
+ * API Route: /api/jobs/dead-letter/[jobId]
+ *
+ * Inspect or discard one dead-lettered job.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDeadLetter, discardDeadLetter } from "@/lib/queue/dead-letter";
+import { getJob } from "@/lib/store/job-store";
+
+interface RouteContext {
+  params: { jobId: string };
+}
+
+// GET: Fetch the dead letter and the job's current record
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const deadLetter = getDeadLetter(params.jobId);
+
+    if (!deadLetter) {
+      return NextResponse.json({ error: "Dead letter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ deadLetter, job: getJob(params.jobId) });
+  } catch (error) {
+    console.error("[Dead Letter API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch dead letter" }, { status: 500 });
+  }
+}
+
+// DELETE: Discard the dead letter (the job stays failed)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const discarded = discardDeadLetter(params.jobId);
+
+    if (!discarded) {
+      return NextResponse.json({ error: "Dead letter not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Dead Letter API] Error:", error);
+    return NextResponse.json({ error: "Failed to discard dead letter" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * API Route: /api/jobs/dead-letter
+ *
+ * Jobs that failed permanently or exhausted their retries.
+ *
+ *   GET    /api/jobs/dead-letter                   list entries
+ *   GET    /api/jobs/dead-letter/:jobId            one entry with its job
+ *   POST   /api/jobs/dead-letter/:jobId/requeue    reopen and reprocess the job
+ *   DELETE /api/jobs/dead-letter/:jobId            discard (job stays failed)
+ */
+
+import { NextResponse } from "next/server";
+import { listDeadLetters } from "@/lib/queue/dead-letter";
+
+export const dynamic = "force-dynamic";
+
+// GET: List dead-lettered jobs, newest first
+export async function GET() {
+  try {
+    const deadLetters = listDeadLetters();
+    return NextResponse.json({ deadLetters, total: deadLetters.length });
+  } catch (error) {
+    console.error("[Dead Letter API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch dead letters" }, { status: 500 });
+  }
+}
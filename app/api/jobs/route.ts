@@ -2,19 +2,29 @@
  * API Route: /api/jobs
  *
  * Get job status and list all jobs.
+ * `?status=` accepts current stages and legacy status names.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getAllJobs, getJob, getJobStats, getJobsByStatus, JobStatus } from "@/lib/store/job-store";
+import { getAllJobs, getJob, getJobStats, getJobsByStatus } from "@/lib/store/job-store";
+import { toJobStatus, JOB_STATUSES } from "@/lib/store/job-state-machine";
 import { getQueueInfo } from "@/lib/queue/video-queue";
 
 // Get all jobs or filter by status
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const status = searchParams.get("status") as JobStatus | null;
+    const statusParam = searchParams.get("status");
+    const status = statusParam ? toJobStatus(statusParam) : null;
     const jobId = searchParams.get("id");
 
+    if (statusParam && !status) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${JOB_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
     // Get single job by ID
     if (jobId) {
       const job = getJob(jobId);
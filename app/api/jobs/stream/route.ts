@@ -0,0 +1,31 @@
+/**
+ * API Route: /api/jobs/stream
+ *
+ * Live updates for all jobs as Server-Sent Events (used by JobLoom).
+ *
+ * Events:
+ *   snapshot  { jobs } - the newest `limit` jobs (default 20)
+ *   created | updated | log   { job } after each change
+ *
+ * Reconnecting clients send Last-Event-ID to receive missed events.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createEventStream } from "@/lib/events/sse";
+import { getAllJobs } from "@/lib/store/job-store";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  try {
+    const limit = parseInt(new URL(request.url).searchParams.get("limit") || "20");
+
+    return createEventStream(request, {
+      channel: "jobs",
+      snapshot: () => ({ jobs: getAllJobs().slice(0, limit) }),
+    });
+  } catch (error) {
+    console.error("[Jobs Stream] Error:", error);
+    return NextResponse.json({ error: "Failed to open jobs stream" }, { status: 500 });
+  }
+}
@@ -2,7 +2,11 @@
  * API Route: /api/queue/worker
  *
  * Worker endpoint that processes queued video jobs.
- * Called by Upstash QStash in production, or directly in development.
+ * Called by Upstash QStash in production. Without QStash the local queue
+ * (lib/queue/local-queue.ts) runs the worker in-process instead.
+ * Failures the worker has handled (retry scheduled or dead-lettered) and
+ * messages for paused or cancelled jobs are acknowledged with 200 so
+ * QStash does not redeliver them.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -37,13 +41,18 @@ export async function POST(request: NextRequest) {
     const result = await processVideoJob(payload);
 
     if (!result.success) {
+      const handled = !!result.retryAt || !!result.deadLettered || !!result.skipped;
       return NextResponse.json(
         {
           success: false,
           error: result.message,
           jobId: result.jobId,
+          status: result.status,
+          retryAt: result.retryAt,
+          deadLettered: result.deadLettered,
+          skipped: result.skipped,
         },
-        { status: 422 }
+        { status: handled ? 200 : 422 }
       );
     }
 
@@ -0,0 +1,44 @@
+/**
+ * API Route: /api/reprocess/[runId]/accept
+ *
+ * Replace the store's AI-detected products and SEO with the reviewed run.
+ * Products that match a live one keep its ID, hidden flag and creator
+ * edits; products the creator added are carried over.
+ *
+ * If live products would be dropped (the new run did not detect them),
+ * returns 409 `confirmation_required` with the `storeImpact` unless the
+ * body sets `confirmDrops: true`.
+ *
+ * Accepts the expected store version (body `version` or an If-Match
+ * header) and returns 409 if the store was edited since.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { acceptReprocessRun, reprocessErrorStatus } from "@/lib/queue/reprocess";
+import { parseExpectedVersion } from "@/lib/store/store-repository";
+
+interface RouteContext {
+  params: { runId: string };
+}
+
+// POST: Accept the run into its store
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const expectedVersion = parseExpectedVersion(body?.version ?? request.headers.get("if-match"));
+
+    const result = acceptReprocessRun(params.runId, expectedVersion, { confirmDrops: body?.confirmDrops === true });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, storeImpact: result.storeImpact },
+        { status: reprocessErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, run: result.run, storeImpact: result.storeImpact });
+  } catch (error) {
+    console.error("[Reprocess API] Error:", error);
+    return NextResponse.json({ error: "Failed to accept reprocess run" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * API Route: /api/reprocess/[runId]/reject
+ *
+ * Keep the original run. A run whose job is still processing is cancelled.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { rejectReprocessRun, reprocessErrorStatus } from "@/lib/queue/reprocess";
+
+interface RouteContext {
+  params: { runId: string };
+}
+
+// POST: Reject the run
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = rejectReprocessRun(params.runId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: reprocessErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, run: result.run });
+  } catch (error) {
+    console.error("[Reprocess API] Error:", error);
+    return NextResponse.json({ error: "Failed to reject reprocess run" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * API Route: /api/reprocess/[runId]
+ *
+ * A reprocess run: both job IDs, processor versions, status and, once the
+ * new job has finished, the diff against the original run. Runs awaiting
+ * review also get `storeImpact` as of now: creator-added products carried
+ * over, creator edits kept, and live products accepting would drop.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getReprocessStoreImpact } from "@/lib/queue/reprocess";
+import { getReprocessRun } from "@/lib/store/reprocess-store";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { runId: string };
+}
+
+// GET: Fetch a run with its diff
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const run = getReprocessRun(params.runId);
+
+    if (!run) {
+      return NextResponse.json({ error: "Reprocess run not found" }, { status: 404 });
+    }
+
+    const storeImpact = run.status === "pending_review" ? getReprocessStoreImpact(run) : run.storeImpact;
+
+    return NextResponse.json({ run, storeImpact });
+  } catch (error) {
+    console.error("[Reprocess API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch reprocess run" }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * API Route: /api/reprocess
+ *
+ * Re-run completed jobs under the current processor and review the result
+ * before it replaces the live store (see lib/queue/reprocess.ts).
+ *
+ *   GET  /api/reprocess                  runs, newest first (?status=, ?storeId=, ?jobId=)
+ *   POST /api/reprocess                  { jobId } | { storeId } | { belowVersion?, limit? }
+ *   GET  /api/reprocess/:runId           one run with its diff
+ *   POST /api/reprocess/:runId/accept    swap the new run into the store
+ *   POST /api/reprocess/:runId/reject    keep the old run
+ *
+ * Without jobId or storeId, every completed job processed below
+ * `belowVersion` (default: the current processor version) is re-run.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { reprocessErrorStatus, reprocessJob, reprocessOutdated, reprocessStore } from "@/lib/queue/reprocess";
+import { listReprocessRuns, ReprocessRunStatus } from "@/lib/store/reprocess-store";
+import type { JobPriority } from "@/lib/store/job-store";
+
+export const dynamic = "force-dynamic";
+
+// GET: List reprocess runs
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const runs = listReprocessRuns({
+      status: (searchParams.get("status") as ReprocessRunStatus | null) || undefined,
+      storeId: searchParams.get("storeId") || undefined,
+      jobId: searchParams.get("jobId") || undefined,
+    });
+
+    return NextResponse.json({ runs, total: runs.length });
+  } catch (error) {
+    console.error("[Reprocess API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch reprocess runs" }, { status: 500 });
+  }
+}
+
+// POST: Start reprocessing a job, a store, or every outdated job
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { jobId, storeId, belowVersion, limit } = body;
+    const priority = body.priority as JobPriority | undefined;
+
+    if (jobId || storeId) {
+      const result = jobId ? await reprocessJob(jobId, { priority }) : await reprocessStore(storeId, { priority });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error, code: result.code },
+          { status: reprocessErrorStatus(result.code) }
+        );
+      }
+
+      return NextResponse.json({ success: true, run: result.run }, { status: 202 });
+    }
+
+    if (belowVersion !== undefined && typeof belowVersion !== "string") {
+      return NextResponse.json({ error: "belowVersion must be a version string" }, { status: 400 });
+    }
+
+    const result = await reprocessOutdated({
+      belowVersion,
+      limit: typeof limit === "number" && limit > 0 ? limit : undefined,
+      priority,
+    });
+
+    return NextResponse.json({ success: true, ...result }, { status: 202 });
+  } catch (error) {
+    console.error("[Reprocess API] Error:", error);
+    return NextResponse.json({ error: "Failed to start reprocessing" }, { status: 500 });
+  }
+}
@@ -15,10 +15,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   createJob,
+  getJob,
   updateJob,
   appendJobLog,
   JobStatus,
 } from "@/lib/store/job-store";
+import { insertStore, StoreEntry } from "@/lib/store/store-repository";
+import { buildStoreFromJob } from "@/lib/store/store-creator";
 
 // Velolume Noir Technical Log Events
 const VELOLUME_EVENTS: Array<{
@@ -29,28 +32,28 @@ const VELOLUME_EVENTS: Array<{
   delay: number;
 }> = [
   {
-    status: "ingest_start",
+    status: "processing",
     label: "[INGEST_START]",
     message: "Establishing SGP1 connection.",
     details: "→ Connecting to sgp1.digitaloceanspaces.com:443",
     delay: 2000,
   },
   {
-    status: "ai_whisper",
+    status: "transcribing",
     label: "[AI_WHISPER]",
     message: "Decoding audio artifacts.",
     details: "→ Model: whisper-large-v3 | Sample rate: 16kHz",
     delay: 2000,
   },
   {
-    status: "ai_vision",
+    status: "analyzing",
     label: "[AI_VISION]",
     message: "Sampling Soho-aesthetic keyframes.",
     details: "→ Extracting 24 frames | Resolution: 1080x1920",
     delay: 2000,
   },
   {
-    status: "soho_gen",
+    status: "generating",
     label: "[SOHO_GEN]",
     message: "Injecting Dirty Purple styles.",
     details: "→ Theme: Velolume Noir | Palette: #3D2B3D, #A38A7E, #F5F5F5",
@@ -173,9 +176,8 @@ async function simulateVelolumeFlow(jobId: string): Promise<void> {
   // Final delay before completion
   await new Promise((resolve) => setTimeout(resolve, 1500));
 
-  // Apply mock AI results and mark complete
+  // Apply mock AI results; the completion log entry finishes the job
   updateJob(jobId, {
-    status: "completed",
     transcription: MOCK_AI_RESPONSE.transcription.text,
     metadata: {
       title: MOCK_AI_RESPONSE.seo.title,
@@ -206,7 +208,7 @@ async function simulateVelolumeFlow(jobId: string): Promise<void> {
     },
   });
 
-  // Append completion log
+  // Append completion log (generating -> completed)
   appendJobLog(
     jobId,
     "completed",
@@ -218,55 +220,27 @@ async function simulateVelolumeFlow(jobId: string): Promise<void> {
 }
 
 // Auto-create store after simulation
-async function createStoreFromJob(jobId: string): Promise<any> {
-  const { readFileSync, writeFileSync, existsSync, mkdirSync } = await import("fs");
-  const { join } = await import("path");
-
-  const DATA_DIR = join(process.cwd(), "data");
-  const STORES_FILE = join(DATA_DIR, "stores.json");
-
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
+async function createStoreFromJob(jobId: string): Promise<StoreEntry | null> {
+  const job = getJob(jobId);
+  if (!job) {
+    return null;
   }
 
-  let stores: Record<string, any> = {};
-  if (existsSync(STORES_FILE)) {
-    try {
-      const data = JSON.parse(readFileSync(STORES_FILE, "utf-8"));
-      stores = data.stores || {};
-    } catch {
-      stores = {};
-    }
-  }
+  const store = buildStoreFromJob(job, { id: `store-${Date.now()}`, featured: true });
 
-  const storeId = `store-${Date.now()}`;
-  const store = {
-    id: storeId,
+  return insertStore({
+    ...store,
     name: "Sample Luxury Store",
     creator: "Velolume Studio",
     creatorHandle: "@velolume.studio",
     thumbnail: "/demo/luxury-poster.jpg",
-    productCount: MOCK_AI_RESPONSE.products.length,
-    views: 0,
+    videoUrl: undefined,
     status: "live",
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    featured: true,
-    jobId,
     theme: {
       name: "Velolume Noir",
       colors: MOCK_AI_RESPONSE.theme.colors,
     },
-  };
-
-  stores[storeId] = store;
-
-  writeFileSync(
-    STORES_FILE,
-    JSON.stringify({ stores, lastUpdated: new Date().toISOString() }, null, 2)
-  );
-
-  return store;
+  });
 }
 
 // POST: Start Velolume Noir simulation
@@ -283,7 +257,6 @@ export async function POST(request: NextRequest) {
     // Create the job with initial log entry
     const job = createJob({
       id: jobId,
-      status: "queued",
       source: "scrape",
       platform: "tiktok",
       originalUrl: url || "https://www.tiktok.com/@velolume.studio/video/luxury-showcase",
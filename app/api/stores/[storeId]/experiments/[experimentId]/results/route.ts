@@ -0,0 +1,34 @@
+/**
+ * API Route: /api/stores/[storeId]/experiments/[experimentId]/results
+ *
+ * Per-variant conversion (sessions with a buy / exposed sessions) with
+ * 95% confidence intervals, p-values against the control and, once the
+ * data supports it, a winner.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getExperiment } from "@/lib/store/experiment-store";
+import { getExperimentResults } from "@/lib/store/experiment-results";
+
+// Results read live events
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: { storeId: string; experimentId: string };
+}
+
+// GET: Compute the experiment's results
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const experiment = getExperiment(params.storeId, params.experimentId);
+
+    if (!experiment) {
+      return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(getExperimentResults(experiment));
+  } catch (error) {
+    console.error("[Experiments API] Error:", error);
+    return NextResponse.json({ error: "Failed to compute experiment results" }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * API Route: /api/stores/[storeId]/experiments/[experimentId]
+ *
+ * Read, edit, start/stop and delete a storefront experiment.
+ * PATCH accepts name, variants (drafts only) and status
+ * ("running" to start a draft, "stopped" to end a running experiment).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getExperiment,
+  updateExperiment,
+  deleteExperiment,
+  experimentErrorStatus,
+  ExperimentUpdate,
+} from "@/lib/store/experiment-store";
+
+interface RouteContext {
+  params: { storeId: string; experimentId: string };
+}
+
+// GET: Fetch an experiment
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const experiment = getExperiment(params.storeId, params.experimentId);
+
+    if (!experiment) {
+      return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ experiment });
+  } catch (error) {
+    console.error("[Experiments API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch experiment" }, { status: 500 });
+  }
+}
+
+// PATCH: Rename, edit variants or change status
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+
+    const updates: ExperimentUpdate = {};
+    if (body.name !== undefined) updates.name = body.name;
+    if (body.variants !== undefined) updates.variants = body.variants;
+    if (body.status !== undefined) updates.status = body.status;
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "No editable fields provided" }, { status: 400 });
+    }
+
+    const result = updateExperiment(params.storeId, params.experimentId, updates);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: experimentErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, experiment: result.experiment });
+  } catch (error) {
+    console.error("[Experiments API] Error:", error);
+    return NextResponse.json({ error: "Failed to update experiment" }, { status: 500 });
+  }
+}
+
+// DELETE: Remove an experiment (tagged events are kept)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const deleted = deleteExperiment(params.storeId, params.experimentId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Experiments API] Error:", error);
+    return NextResponse.json({ error: "Failed to delete experiment" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * API Route: /api/stores/[storeId]/experiments
+ *
+ * List and create storefront A/B experiments.
+ * New experiments start as drafts; PATCH status "running" to start one.
+ *
+ * POST body:
+ *   { name, kind: "theme" | "productOrder" | "ctaLabel", variants: [...] }
+ *   The first variant is the control, e.g.
+ *   variants: [{ id: "noir", theme: "velolume-noir" }, { id: "day", theme: "velolume-day" }]
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getStore } from "@/lib/store/store-repository";
+import {
+  listExperiments,
+  createExperiment,
+  experimentErrorStatus,
+} from "@/lib/store/experiment-store";
+
+interface RouteContext {
+  params: { storeId: string };
+}
+
+// GET: List the store's experiments, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!getStore(params.storeId)) {
+      return NextResponse.json({ error: "Store not found" }, { status: 404 });
+    }
+
+    const experiments = listExperiments(params.storeId);
+    return NextResponse.json({ experiments, total: experiments.length });
+  } catch (error) {
+    console.error("[Experiments API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch experiments" }, { status: 500 });
+  }
+}
+
+// POST: Create a draft experiment
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const { name, kind, variants } = body;
+
+    const result = createExperiment(params.storeId, { name, kind, variants });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: experimentErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, experiment: result.experiment }, { status: 201 });
+  } catch (error) {
+    console.error("[Experiments API] Error:", error);
+    return NextResponse.json({ error: "Failed to create experiment" }, { status: 500 });
+  }
+}
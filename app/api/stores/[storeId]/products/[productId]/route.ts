@@ -0,0 +1,84 @@
+/**
+ * API Route: /api/stores/[storeId]/products/[productId]
+ *
+ * Edit, hide/unhide or remove a single product inside a storefront.
+ * Writes accept the expected store version (body `version`, `?version=`
+ * or If-Match).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  updateStoreProduct,
+  removeStoreProduct,
+  parseExpectedVersion,
+  storeErrorStatus,
+  StoreProductUpdate,
+  STORE_PRODUCT_FIELDS,
+} from "@/lib/store/store-repository";
+
+interface RouteContext {
+  params: { storeId: string; productId: string };
+}
+
+// PATCH: Edit product fields (send { hidden: true } to hide it from shoppers).
+// Fields of the wrong type are rejected with 400 `invalid`.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const expectedVersion = parseExpectedVersion(body.version ?? request.headers.get("if-match"));
+
+    const updates: Record<string, unknown> = {};
+    for (const field of STORE_PRODUCT_FIELDS) {
+      if (body[field] !== undefined) {
+        updates[field] = body[field];
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "No editable fields provided" }, { status: 400 });
+    }
+
+    const result = updateStoreProduct(
+      params.storeId,
+      params.productId,
+      updates as StoreProductUpdate,
+      expectedVersion
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, currentVersion: result.currentVersion },
+        { status: storeErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, store: result.store });
+  } catch (error) {
+    console.error("[Stores API] Error:", error);
+    return NextResponse.json({ error: "Failed to update product" }, { status: 500 });
+  }
+}
+
+// DELETE: Remove a product from the store
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const expectedVersion = parseExpectedVersion(
+      searchParams.get("version") ?? request.headers.get("if-match")
+    );
+
+    const result = removeStoreProduct(params.storeId, params.productId, expectedVersion);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, currentVersion: result.currentVersion },
+        { status: storeErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, store: result.store });
+  } catch (error) {
+    console.error("[Stores API] Error:", error);
+    return NextResponse.json({ error: "Failed to remove product" }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * API Route: /api/stores/[storeId]/products
+ *
+ * List, add and reorder the products inside a storefront.
+ * Writes accept the expected store version (body `version` or If-Match).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getStore,
+  addStoreProduct,
+  reorderStoreProducts,
+  parseExpectedVersion,
+  storeErrorStatus,
+} from "@/lib/store/store-repository";
+
+interface RouteContext {
+  params: { storeId: string };
+}
+
+// GET: List products in display order (hidden products only with ?includeHidden=true)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const includeHidden = searchParams.get("includeHidden") === "true";
+
+    const store = getStore(params.storeId);
+    if (!store) {
+      return NextResponse.json({ error: "Store not found" }, { status: 404 });
+    }
+
+    const products = (store.products || []).filter((p) => includeHidden || !p.hidden);
+
+    return NextResponse.json({ products, total: products.length, version: store.version });
+  } catch (error) {
+    console.error("[Stores API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch products" }, { status: 500 });
+  }
+}
+
+// POST: Add a product (appended, or inserted at `position`). Missing fields
+// get defaults; fields of the wrong type are rejected with 400 `invalid`.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const { product, position } = body;
+    const expectedVersion = parseExpectedVersion(body.version ?? request.headers.get("if-match"));
+
+    if (!product || typeof product !== "object") {
+      return NextResponse.json({ error: "product is required" }, { status: 400 });
+    }
+
+    const result = addStoreProduct(
+      params.storeId,
+      {
+        name: product.name,
+        category: product.category || "other",
+        subcategory: product.subcategory || "",
+        colors: product.colors ?? [],
+        material: product.material ?? null,
+        style: product.style ?? null,
+        pattern: product.pattern ?? null,
+        brand: product.brand ?? null,
+        location: product.location ?? "",
+        description: product.description ?? "",
+        searchTerms: product.searchTerms ?? [],
+        estimatedPriceUSD: product.estimatedPriceUSD ?? null,
+        confidence: product.confidence ?? 1,
+        identifiability: product.identifiability ?? "high",
+        frameIndices: product.frameIndices ?? [],
+        hidden: product.hidden ?? false,
+      },
+      { expectedVersion, position: typeof position === "number" ? position : undefined }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, currentVersion: result.currentVersion },
+        { status: storeErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, store: result.store }, { status: 201 });
+  } catch (error) {
+    console.error("[Stores API] Error:", error);
+    return NextResponse.json({ error: "Failed to add product" }, { status: 500 });
+  }
+}
+
+// PUT: Reorder products ({ productIds: [...] } listing every product once)
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const { productIds } = body;
+    const expectedVersion = parseExpectedVersion(body.version ?? request.headers.get("if-match"));
+
+    if (!Array.isArray(productIds)) {
+      return NextResponse.json({ error: "productIds array is required" }, { status: 400 });
+    }
+
+    const result = reorderStoreProducts(params.storeId, productIds, expectedVersion);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, currentVersion: result.currentVersion },
+        { status: storeErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, store: result.store });
+  } catch (error) {
+    console.error("[Stores API] Error:", error);
+    return NextResponse.json({ error: "Failed to reorder products" }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * API Route: /api/stores/[storeId]
+ *
+ * Read, edit and delete a single storefront.
+ * PATCH and DELETE accept the expected store version (body `version`,
+ * `?version=` or an If-Match header) and return 409 if it is stale.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getStore,
+  patchStore,
+  pickStoreUpdate,
+  removeStore,
+  parseExpectedVersion,
+  storeErrorStatus,
+} from "@/lib/store/store-repository";
+
+interface RouteContext {
+  params: { storeId: string };
+}
+
+// GET: Fetch a store with its products
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const store = getStore(params.storeId);
+
+    if (!store) {
+      return NextResponse.json({ error: "Store not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ store }, { headers: { ETag: `"${store.version}"` } });
+  } catch (error) {
+    console.error("[Stores API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch store" }, { status: 500 });
+  }
+}
+
+// PATCH: Update store fields (name, status, theme, seo, ...)
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const expectedVersion = parseExpectedVersion(body.version ?? request.headers.get("if-match"));
+
+    const updates = pickStoreUpdate(body);
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: "No editable fields provided" }, { status: 400 });
+    }
+
+    const result = patchStore(params.storeId, updates, expectedVersion);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, currentVersion: result.currentVersion },
+        { status: storeErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true, store: result.store });
+  } catch (error) {
+    console.error("[Stores API] Error:", error);
+    return NextResponse.json({ error: "Failed to update store" }, { status: 500 });
+  }
+}
+
+// DELETE: Remove a store
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const expectedVersion = parseExpectedVersion(
+      searchParams.get("version") ?? request.headers.get("if-match")
+    );
+
+    const result = removeStore(params.storeId, expectedVersion);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code, currentVersion: result.currentVersion },
+        { status: storeErrorStatus(result.code) }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Stores API] Error:", error);
+    return NextResponse.json({ error: "Failed to delete store" }, { status: 500 });
+  }
+}
@@ -4,12 +4,18 @@
  * Direct video file upload endpoint.
  * Accepts MP4, MOV, WebM files up to 100MB.
  * Uploads directly to S3, skipping the scraper step.
+ * A file whose bytes were already ingested is not stored again: the
+ * existing job and store are returned with `duplicate` set, or with
+ * `?reprocess=true` a new run over the stored copy is queued.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import { randomUUID } from "crypto";
 import { enqueueVideoJob } from "@/lib/queue/video-queue";
+import { resolveDuplicate } from "@/lib/queue/ingest";
+import { hashVideo } from "@/lib/scraper/video-scraper";
+import { findContentByHash, registerContent } from "@/lib/store/content-store";
 
 // S3 Client for DigitalOcean Spaces
 const s3Client = new S3Client({
@@ -81,6 +87,30 @@ export async function POST(request: NextRequest) {
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
 
+    // Same bytes already stored: answer with the existing content
+    const contentHash = hashVideo(buffer);
+    const existing = findContentByHash(contentHash);
+    if (existing) {
+      const reprocess = new URL(request.url).searchParams.get("reprocess") === "true";
+      const { job, duplicate, reprocessed } = await resolveDuplicate(existing, "hash", { reprocess });
+
+      console.log(`[Upload] Duplicate of content ${existing.id}${reprocessed ? `, reprocessing as ${job?.id}` : ""}`);
+
+      return NextResponse.json({
+        success: true,
+        fileId: job?.id,
+        jobId: job?.id,
+        jobStatus: job?.status,
+        key: existing.key,
+        fileName: file.name,
+        fileSize: buffer.length,
+        fileSizeMB: (buffer.length / 1024 / 1024).toFixed(2),
+        endpoint: job?.endpoint,
+        duplicate: { contentId: existing.id, matchedBy: "hash", storeId: duplicate?.store?.id },
+        reprocessed: reprocessed || undefined,
+      });
+    }
+
     // Upload to S3
     console.log(`[Upload] Uploading to S3: ${key}`);
     const uploadCommand = new PutObjectCommand({
@@ -104,7 +134,9 @@ export async function POST(request: NextRequest) {
       originalUrl: `file://${fileName}`,
       size: buffer.length,
       contentType: fileType || "video/mp4",
+      contentId: fileId,
     });
+    registerContent(job, { contentHash });
 
     console.log(`[Upload] Job created and queued: ${fileId} (status: ${job.status})`);
 
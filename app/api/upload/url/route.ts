@@ -5,12 +5,17 @@
  * and uploads it directly to DigitalOcean Spaces.
  *
  * Supported platforms: TikTok, Instagram, YouTube Shorts, Xiaohongshu
+ *
+ * Submitting a video that was already ingested (same platform video ID,
+ * or the same bytes under another URL) returns the existing job and store
+ * with `duplicate` set. `?reprocess=true` queues a new run over the stored
+ * video instead.
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { scrapeAndUpload, validateUrl } from "@/lib/scraper/video-scraper";
+import { validateUrl } from "@/lib/scraper/video-scraper";
 import { getPlatformDisplayName } from "@/lib/scraper/platforms";
-import { enqueueVideoJob } from "@/lib/queue/video-queue";
+import { ingestUrl } from "@/lib/queue/ingest";
 
 export const maxDuration = 60; // Allow up to 60 seconds for video processing
 
@@ -18,6 +23,7 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { url } = body;
+    const reprocess = new URL(request.url).searchParams.get("reprocess") === "true";
 
     // Validate URL
     const validation = validateUrl(url);
@@ -33,10 +39,10 @@ export async function POST(request: NextRequest) {
 
     console.log(`[Scraper] Processing ${getPlatformDisplayName(validation.platform!)} URL: ${url}`);
 
-    // Scrape and upload
-    const result = await scrapeAndUpload(url);
+    // Scrape, upload and enqueue (or resolve to the existing content)
+    const result = await ingestUrl(url, { reprocess });
 
-    if (!result.success) {
+    if (!result.success || !result.job) {
       return NextResponse.json(
         {
           success: false,
@@ -47,32 +53,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log(`[Scraper] Successfully uploaded: ${result.key} (${result.size} bytes)`);
+    const { job, duplicate } = result;
 
-    // Enqueue for processing
-    const job = await enqueueVideoJob({
-      fileId: result.fileId,
-      key: result.key,
-      bucket: "auto-storefront-media",
-      source: "scrape",
-      platform: result.platform,
-      originalUrl: result.originalUrl,
-      size: result.size,
-      contentType: "video/mp4",
-    });
-
-    console.log(`[Scraper] Job queued: ${job.id} (status: ${job.status})`);
+    if (duplicate && !result.reprocessed) {
+      console.log(`[Scraper] Duplicate of content ${duplicate.contentId} (${duplicate.matchedBy}): job ${job.id}`);
+    } else {
+      console.log(`[Scraper] Job queued: ${job.id} (status: ${job.status})`);
+    }
 
     return NextResponse.json({
       success: true,
-      fileId: result.fileId,
+      fileId: job.id,
       jobId: job.id,
       jobStatus: job.status,
-      key: result.key,
+      key: job.key,
       platform: result.platform,
-      originalUrl: result.originalUrl,
-      endpoint: result.endpoint,
-      size: result.size,
+      originalUrl: url,
+      endpoint: job.endpoint,
+      size: job.size,
+      duplicate: duplicate
+        ? { contentId: duplicate.contentId, matchedBy: duplicate.matchedBy, storeId: duplicate.store?.id }
+        : undefined,
+      reprocessed: result.reprocessed || undefined,
     });
   } catch (error) {
     console.error("[Scraper] Error:", error);
@@ -0,0 +1,45 @@
+/**
+ * API Route: /api/webhooks/[webhookId]/deliveries
+ *
+ * Delivery log for a subscription: every attempt's status code or error.
+ * Filter with ?status=pending|succeeded|failed and cap with ?limit=.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { DeliveryStatus, getWebhook, listDeliveries } from "@/lib/webhooks/webhook-store";
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ["pending", "succeeded", "failed"];
+
+interface RouteContext {
+  params: { webhookId: string };
+}
+
+// GET: List deliveries, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    if (!getWebhook(params.webhookId)) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const limit = parseInt(searchParams.get("limit") || "50");
+
+    if (status && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${DELIVERY_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const deliveries = listDeliveries(params.webhookId, {
+      status: (status as DeliveryStatus) || undefined,
+      limit: Number.isNaN(limit) ? 50 : limit,
+    });
+
+    return NextResponse.json({ deliveries, total: deliveries.length });
+  } catch (error) {
+    console.error("[Webhooks API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch deliveries" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * API Route: /api/webhooks/[webhookId]
+ *
+ * Read, edit and delete a webhook subscription.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteWebhook,
+  getWebhook,
+  maskWebhook,
+  updateWebhook,
+  webhookErrorStatus,
+} from "@/lib/webhooks/webhook-store";
+
+interface RouteContext {
+  params: { webhookId: string };
+}
+
+// GET: Fetch a subscription (secret masked)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const webhook = getWebhook(params.webhookId);
+
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ webhook: maskWebhook(webhook) });
+  } catch (error) {
+    console.error("[Webhooks API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch webhook" }, { status: 500 });
+  }
+}
+
+// PATCH: Update url, events, description or active; rotateSecret issues a new secret
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const { url, events, description, active, rotateSecret } = body;
+
+    const result = updateWebhook(params.webhookId, {
+      url,
+      events,
+      description,
+      active,
+      rotateSecret: rotateSecret === true,
+    });
+
+    if (!result.success || !result.webhook) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: webhookErrorStatus(result.code) }
+      );
+    }
+
+    const webhook = rotateSecret === true ? result.webhook : maskWebhook(result.webhook);
+    return NextResponse.json({ success: true, webhook });
+  } catch (error) {
+    console.error("[Webhooks API] Error:", error);
+    return NextResponse.json({ error: "Failed to update webhook" }, { status: 500 });
+  }
+}
+
+// DELETE: Unsubscribe (the delivery log is kept)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const deleted = deleteWebhook(params.webhookId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Webhooks API] Error:", error);
+    return NextResponse.json({ error: "Failed to delete webhook" }, { status: 500 });
+  }
+}
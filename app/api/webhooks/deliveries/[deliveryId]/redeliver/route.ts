@@ -0,0 +1,29 @@
+/**
+ * API Route: /api/webhooks/deliveries/[deliveryId]/redeliver
+ *
+ * Send a logged event again as a new delivery (same event ID, so
+ * receivers that dedupe will ignore it if they already processed it).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { redeliver } from "@/lib/webhooks/webhook-dispatcher";
+
+interface RouteContext {
+  params: { deliveryId: string };
+}
+
+// POST: Queue a redelivery
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const result = redeliver(params.deliveryId);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error, code: result.code }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, delivery: result.delivery }, { status: 202 });
+  } catch (error) {
+    console.error("[Webhooks API] Error:", error);
+    return NextResponse.json({ error: "Failed to redeliver" }, { status: 500 });
+  }
+}
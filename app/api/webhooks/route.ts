@@ -0,0 +1,60 @@
+/**
+ * API Route: /api/webhooks
+ *
+ * Outbound webhook subscriptions for job and store lifecycle events.
+ *
+ *   GET    /api/webhooks                                   list subscriptions
+ *   POST   /api/webhooks                                   subscribe a URL
+ *   GET    /api/webhooks/:webhookId                        one subscription
+ *   PATCH  /api/webhooks/:webhookId                        edit or rotate secret
+ *   DELETE /api/webhooks/:webhookId                        unsubscribe
+ *   GET    /api/webhooks/:webhookId/deliveries             delivery log
+ *   POST   /api/webhooks/deliveries/:deliveryId/redeliver  send an event again
+ *
+ * Secrets are returned in full only by POST and by PATCH with rotateSecret.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createWebhook,
+  listWebhooks,
+  maskWebhook,
+  webhookErrorStatus,
+  WEBHOOK_EVENTS,
+} from "@/lib/webhooks/webhook-store";
+
+export const dynamic = "force-dynamic";
+
+// GET: List subscriptions (secrets masked)
+export async function GET() {
+  try {
+    const webhooks = listWebhooks().map(maskWebhook);
+    return NextResponse.json({ webhooks, total: webhooks.length, events: WEBHOOK_EVENTS });
+  } catch (error) {
+    console.error("[Webhooks API] Error:", error);
+    return NextResponse.json({ error: "Failed to fetch webhooks" }, { status: 500 });
+  }
+}
+
+// POST: Subscribe a URL to events
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { url, events, description, secret } = body;
+
+    const result = createWebhook({ url, events, description, secret });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, code: result.code },
+        { status: webhookErrorStatus(result.code) }
+      );
+    }
+
+    // Only time the secret is shown, unless it is rotated
+    return NextResponse.json({ success: true, webhook: result.webhook }, { status: 201 });
+  } catch (error) {
+    console.error("[Webhooks API] Error:", error);
+    return NextResponse.json({ error: "Failed to create webhook" }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { Zap, TrendingUp, Package, Clock, Play, Loader2 } from "lucide-react";
 import { MagicLinkInput } from "@/components/dashboard/MagicLinkInput";
 import { JobLoom } from "@/components/dashboard/JobLoom";
+import { BatchPanel } from "@/components/dashboard/BatchPanel";
 import { StoreGallery } from "@/components/dashboard/StoreGallery";
 import { Pulse } from "@/components/dashboard/Pulse";
 
@@ -112,13 +113,13 @@ export default function DashboardPage() {
 
       {/* Two Column Layout */}
       <div className="grid grid-cols-12 gap-6">
-        {/* Left: Job Loom */}
-        <div className="col-span-5">
+        {/* Left: Job Loom and batches */}
+        <div className="col-span-5 space-y-6">
           <JobLoom
-            pollInterval={3000}
             maxJobs={8}
             highlightJobId={highlightJobId}
           />
+          <BatchPanel />
         </div>
 
         {/* Right: Store Gallery */}
@@ -128,7 +129,7 @@ export default function DashboardPage() {
       </div>
 
       {/* Analytics Pulse */}
-      <Pulse pollInterval={5000} showRealtime={true} />
+      <Pulse showRealtime={true} />
     </div>
   );
 }
@@ -1,93 +1,47 @@
-"use client";
-
+/**
+ * Storefront Page
+ *
+ * Server-rendered from the persisted StoreEntry created by the pipeline.
+ * Draft stores are only visible with ?preview=true; archived stores
+ * render an unavailable notice. Theme and product order follow the
+ * shopper's experiment variants (keyed on the velolume_session cookie).
+ */
+
+import { cookies } from "next/headers";
+import { notFound } from "next/navigation";
+import Link from "next/link";
 import { GlassCard, GlassNav } from "@/components/ui/GlassCard";
 import { Button } from "@/components/ui/Button";
 import { Badge } from "@/components/ui/Badge";
 import { ProductCard } from "@/components/ui/ProductCard";
 import { VideoPlayer } from "@/components/ui/VideoPlayer";
-import Link from "next/link";
-import { useParams } from "next/navigation";
-
-// Demo data - in production this would come from the database
-const demoStore = {
-  id: "demo",
-  name: "Sofia's Summer Finds",
-  creator: "@sofia.style",
-  description: "Curated summer essentials from my latest TikTok haul. Each piece hand-picked for the perfect warm-weather aesthetic.",
-  videoUrl: "/demo/video.mp4",
-  posterUrl: "/demo/poster.jpg",
-  products: [
-    {
-      id: "prod-1",
-      name: "Linen Blend Oversized Blazer",
-      category: "Outerwear",
-      price: "$89.00",
-      imageUrl: "/demo/blazer.jpg",
-      colors: ["Sand", "Ivory", "Sage"],
-      confidence: 0.94,
-    },
-    {
-      id: "prod-2",
-      name: "Silk Midi Skirt",
-      category: "Bottoms",
-      price: "$124.00",
-      imageUrl: "/demo/skirt.jpg",
-      colors: ["Champagne", "Blush"],
-      confidence: 0.91,
-    },
-    {
-      id: "prod-3",
-      name: "Woven Leather Sandals",
-      category: "Footwear",
-      price: "$156.00",
-      imageUrl: "/demo/sandals.jpg",
-      colors: ["Tan", "Cognac"],
-      confidence: 0.88,
-    },
-    {
-      id: "prod-4",
-      name: "Gold Chain Layered Necklace",
-      category: "Accessories",
-      price: "$42.00",
-      imageUrl: "/demo/necklace.jpg",
-      colors: ["Gold"],
-      confidence: 0.96,
-    },
-    {
-      id: "prod-5",
-      name: "Raffia Tote Bag",
-      category: "Bags",
-      price: "$78.00",
-      imageUrl: "/demo/tote.jpg",
-      colors: ["Natural", "Black Trim"],
-      confidence: 0.89,
-    },
-    {
-      id: "prod-6",
-      name: "Cotton Ribbed Tank Top",
-      category: "Tops",
-      price: "$34.00",
-      imageUrl: "/demo/tank.jpg",
-      colors: ["White", "Black", "Oatmeal"],
-      confidence: 0.97,
-    },
-  ],
-  stats: {
-    views: "12.4K",
-    products: 6,
-    aiConfidence: "93%",
-  },
-};
-
-export default function StorePage() {
-  const params = useParams();
-  const storeId = params.storeId as string;
-
-  // In production, fetch store data based on storeId
-  const store = demoStore;
+import { loadStorefront } from "@/lib/storefront/store-loader";
+import { SESSION_COOKIE } from "@/lib/storefront/session";
+import { getTheme, themeToCSSVariables } from "@/lib/storefront/themes";
+
+// Store edits must show up immediately
+export const dynamic = "force-dynamic";
+
+interface StorePageProps {
+  params: { storeId: string };
+  searchParams: { preview?: string };
+}
+
+export default function StorePage({ params, searchParams }: StorePageProps) {
+  const storeId = params.storeId;
+  const storefront = loadStorefront(storeId, {
+    preview: searchParams.preview === "true",
+    sessionId: cookies().get(SESSION_COOKIE)?.value,
+  });
+
+  if (!storefront) {
+    notFound();
+  }
+
+  const { store, availability, products, stats, processing, variants } = storefront;
 
   return (
-    <div className="min-h-screen">
+    <div className="min-h-screen" style={variants.theme ? themeStyle(variants.theme) : undefined}>
       {/* Navigation */}
       <GlassNav>
         <div className="flex items-center justify-between">
@@ -96,7 +50,7 @@ export default function StorePage() {
           </Link>
           <div className="flex items-center gap-6">
             <span className="text-ivory-400 font-mono text-sm">
-              {store.creator}
+              {store.creatorHandle || store.creator}
             </span>
             <Button variant="ghost" size="sm">
               Share Store
@@ -113,8 +67,8 @@ export default function StorePage() {
             <div className="pl-asymmetric">
               <div className="sticky top-32">
                 <VideoPlayer
-                  src={store.videoUrl}
-                  poster={store.posterUrl}
+                  src={store.videoUrl || ""}
+                  poster={store.thumbnail}
                   aspectRatio="9/16"
                   className="max-w-sm mx-auto"
                 />
@@ -122,15 +76,15 @@ export default function StorePage() {
                 {/* Video stats */}
                 <div className="mt-6 flex justify-center gap-8">
                   <div className="text-center">
-                    <p className="font-mono text-xl text-mocha-400">{store.stats.views}</p>
+                    <p className="font-mono text-xl text-mocha-400">{formatCount(stats.views)}</p>
                     <p className="text-micro text-ivory-400 uppercase tracking-wider mt-1">Views</p>
                   </div>
                   <div className="text-center">
-                    <p className="font-mono text-xl text-mocha-400">{store.stats.products}</p>
+                    <p className="font-mono text-xl text-mocha-400">{stats.products}</p>
                     <p className="text-micro text-ivory-400 uppercase tracking-wider mt-1">Products</p>
                   </div>
                   <div className="text-center">
-                    <p className="font-mono text-xl text-mocha-400">{store.stats.aiConfidence}</p>
+                    <p className="font-mono text-xl text-mocha-400">{Math.round(stats.averageConfidence * 100)}%</p>
                     <p className="text-micro text-ivory-400 uppercase tracking-wider mt-1">AI Match</p>
                   </div>
                 </div>
@@ -139,6 +93,9 @@ export default function StorePage() {
 
             {/* Right - Store info offset */}
             <div className="pr-asymmetric pt-8">
+              {availability === "preview" && (
+                <Badge variant="warning" className="mb-4 mr-2">Draft Preview</Badge>
+              )}
               <Badge variant="accent" className="mb-4">AI-Curated Collection</Badge>
 
               <h1 className="text-headline text-ivory-100 mb-4">
@@ -146,7 +103,9 @@ export default function StorePage() {
               </h1>
 
               <p className="text-body text-ivory-400 leading-relaxed mb-8">
-                {store.description}
+                {availability === "archived"
+                  ? "This store has been archived by its creator and is no longer available."
+                  : store.seo?.description}
               </p>
 
               <div className="flex gap-4">
@@ -184,7 +143,7 @@ export default function StorePage() {
 
           {/* Product Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-gallery">
-            {store.products.map((product) => (
+            {products.map((product) => (
               <ProductCard
                 key={product.id}
                 id={product.id}
@@ -210,9 +169,13 @@ export default function StorePage() {
               How we built this store
             </h3>
             <p className="text-ivory-400 mb-6">
-              Our AI analyzed 47 frames, transcribed 2:34 of audio, and detected 6 distinct products
-              with an average confidence of 93%. Each product was matched to similar items across
-              our partner retailers.
+              Our AI
+              {processing
+                ? ` analyzed ${processing.framesAnalyzed} frames, transcribed ${formatDuration(processing.audioDuration)} of audio, and`
+                : ""}{" "}
+              detected {stats.products} distinct products with an average confidence of{" "}
+              {Math.round(stats.averageConfidence * 100)}%. Each product was matched to similar items
+              across our partner retailers.
             </p>
             <div className="flex justify-center gap-4">
               <Button variant="ghost" size="sm">View AI Report</Button>
@@ -236,3 +199,26 @@ export default function StorePage() {
     </div>
   );
 }
+
+// Theme experiment variant as CSS variables plus base colors
+function themeStyle(slug: string): React.CSSProperties {
+  const theme = getTheme(slug);
+  return {
+    ...themeToCSSVariables(theme),
+    backgroundColor: theme.colors.background,
+    color: theme.colors.text,
+  } as React.CSSProperties;
+}
+
+// 12400 -> "12.4K"
+function formatCount(value: number): string {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${(value / 1000).toFixed(1)}K`;
+  return value.toString();
+}
+
+// 154 -> "2:34"
+function formatDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, "0")}`;
+}
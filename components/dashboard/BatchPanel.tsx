@@ -0,0 +1,280 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  Layers,
+  Loader2,
+  RefreshCw,
+  Upload,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  AlertCircle,
+} from "lucide-react";
+
+interface BatchItem {
+  index: number;
+  url: string;
+  status: "invalid" | "pending" | "scraping" | "queued" | "failed";
+  jobId?: string;
+  jobStatus?: string;
+  error?: string;
+}
+
+interface Batch {
+  id: string;
+  name?: string;
+  source: "urls" | "csv";
+  createdAt: string;
+  items: BatchItem[];
+  summary: {
+    status: "ingesting" | "processing" | "completed";
+    progress: {
+      total: number;
+      invalid: number;
+      ingesting: number;
+      processing: number;
+      completed: number;
+      failed: number;
+      cancelled: number;
+      percent: number;
+    };
+    productsFound: number;
+    failures: Array<{ index: number; url: string; error: string }>;
+  };
+}
+
+interface BatchPanelProps {
+  pollInterval?: number;
+  maxBatches?: number;
+}
+
+type SubmitState = "idle" | "loading" | "error";
+
+const statusLabels: Record<Batch["summary"]["status"], string> = {
+  ingesting: "Ingesting",
+  processing: "Processing",
+  completed: "Completed",
+};
+
+export function BatchPanel({ pollInterval = 5000, maxBatches = 5 }: BatchPanelProps) {
+  const [batches, setBatches] = useState<Batch[] | null>(null);
+  const [urls, setUrls] = useState("");
+  const [submitState, setSubmitState] = useState<SubmitState>("idle");
+  const [message, setMessage] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/batches?limit=${maxBatches}`);
+      const data = await response.json();
+      setBatches(response.ok ? data.batches || [] : []);
+    } catch {
+      setBatches((current) => current || []);
+    }
+  }, [maxBatches]);
+
+  useEffect(() => {
+    fetchBatches();
+    const interval = setInterval(fetchBatches, pollInterval);
+    return () => clearInterval(interval);
+  }, [fetchBatches, pollInterval]);
+
+  // ============================================================================
+  // Submit Handlers
+  // ============================================================================
+  const submit = async (init: RequestInit) => {
+    setSubmitState("loading");
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/batches", { method: "POST", ...init });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create batch");
+      }
+
+      setSubmitState("idle");
+      setUrls("");
+      setExpandedId(data.batch.id);
+      fetchBatches();
+    } catch (error) {
+      setSubmitState("error");
+      setMessage(error instanceof Error ? error.message : "Unknown error");
+    }
+  };
+
+  const handleUrlsSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const list = urls
+      .split(/[\s,]+/)
+      .map((url) => url.trim())
+      .filter(Boolean);
+
+    if (list.length === 0) {
+      setSubmitState("error");
+      setMessage("Paste at least one URL");
+      return;
+    }
+
+    submit({
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ urls: list }),
+    });
+  };
+
+  const handleCsvChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append("file", file);
+    submit({ body: formData });
+    e.target.value = "";
+  };
+
+  const getItemIcon = (item: BatchItem) => {
+    if (item.status === "invalid" || item.status === "failed" || item.jobStatus === "failed") {
+      return <XCircle className="w-3 h-3 text-red-500" strokeWidth={1.5} />;
+    }
+    if (item.jobStatus === "completed") {
+      return <CheckCircle2 className="w-3 h-3 text-green-600" strokeWidth={1.5} />;
+    }
+    if (item.status === "pending") {
+      return <Clock className="w-3 h-3 text-industrial-dark/50" strokeWidth={1.5} />;
+    }
+    return <Loader2 className="w-3 h-3 text-velolume-500 animate-spin" strokeWidth={1.5} />;
+  };
+
+  return (
+    <div className="studio-card overflow-hidden">
+      {/* Header */}
+      <div className="px-6 py-4 border-b border-industrial-grey flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Layers className="w-5 h-5 text-velolume-500" strokeWidth={1.5} />
+          <h3 className="font-mono text-sm uppercase tracking-wider text-velolume-500">
+            Batch Ingestion
+          </h3>
+        </div>
+        <button
+          onClick={fetchBatches}
+          className="p-2 hover:bg-industrial-grey/50 rounded-lg transition-colors"
+          title="Refresh"
+        >
+          <RefreshCw className="w-4 h-4 text-industrial-dark" strokeWidth={1.5} />
+        </button>
+      </div>
+
+      {/* Input */}
+      <form onSubmit={handleUrlsSubmit} className="px-6 py-4 border-b border-industrial-grey space-y-3">
+        <textarea
+          value={urls}
+          onChange={(e) => setUrls(e.target.value)}
+          placeholder="Paste video URLs, one per line"
+          rows={3}
+          disabled={submitState === "loading"}
+          className="w-full px-3 py-2 bg-ivory-100 border border-industrial-grey font-mono text-xs text-velolume-500 placeholder:text-industrial-dark/40 focus:outline-none focus:border-velolume-500 resize-none"
+        />
+        <div className="flex items-center justify-between gap-3">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={submitState === "loading"}
+            className="flex items-center gap-2 text-industrial-dark hover:text-velolume-500 font-mono text-xs uppercase tracking-wider transition-colors disabled:opacity-50"
+          >
+            <Upload className="w-3 h-3" strokeWidth={1.5} />
+            Upload CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleCsvChange} className="hidden" />
+          <button
+            type="submit"
+            disabled={submitState === "loading"}
+            className="flex items-center gap-2 px-4 py-2 bg-velolume-500 text-ivory-100 font-mono text-xs uppercase tracking-wider hover:bg-velolume-600 transition-colors disabled:opacity-50"
+          >
+            {submitState === "loading" && <Loader2 className="w-3 h-3 animate-spin" strokeWidth={1.5} />}
+            Ingest Batch
+          </button>
+        </div>
+        {submitState === "error" && message && (
+          <p className="flex items-center gap-2 text-red-600 font-mono text-xs">
+            <AlertCircle className="w-3 h-3" strokeWidth={1.5} />
+            {message}
+          </p>
+        )}
+      </form>
+
+      {/* Batches */}
+      {batches === null ? (
+        <div className="p-8 flex items-center justify-center gap-3 text-industrial-dark">
+          <Loader2 className="w-4 h-4 animate-spin" strokeWidth={1.5} />
+          <span className="font-mono text-xs">Loading batches...</span>
+        </div>
+      ) : batches.length === 0 ? (
+        <p className="p-8 text-center text-industrial-dark/50 font-mono text-xs">No batches yet</p>
+      ) : (
+        <div className="divide-y divide-industrial-grey">
+          {batches.map((batch) => {
+            const { progress, status } = batch.summary;
+            const isExpanded = expandedId === batch.id;
+
+            return (
+              <div key={batch.id}>
+                <div
+                  className="px-6 py-4 cursor-pointer hover:bg-industrial-grey/30"
+                  onClick={() => setExpandedId(isExpanded ? null : batch.id)}
+                >
+                  <div className="flex items-center justify-between gap-4 mb-2">
+                    <p className="text-velolume-500 font-mono text-sm truncate">
+                      {batch.name || `${progress.total} URLs`}
+                    </p>
+                    <span className="text-industrial-dark/50 font-mono text-xs whitespace-nowrap">
+                      {statusLabels[status]} · {progress.percent}%
+                    </span>
+                  </div>
+
+                  <div className="h-1 bg-industrial-grey rounded-full overflow-hidden mb-2">
+                    <div
+                      className="h-full bg-velolume-500/70 rounded-full transition-all"
+                      style={{ width: `${progress.percent}%` }}
+                    />
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3 text-industrial-dark/50 font-mono text-[10px] uppercase tracking-wider">
+                    <span>{progress.completed} done</span>
+                    {progress.ingesting + progress.processing > 0 && (
+                      <span>{progress.ingesting + progress.processing} in progress</span>
+                    )}
+                    {progress.failed > 0 && <span className="text-red-500">{progress.failed} failed</span>}
+                    {progress.invalid > 0 && <span>{progress.invalid} invalid</span>}
+                    {batch.summary.productsFound > 0 && <span>{batch.summary.productsFound} products</span>}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="px-6 pb-4 space-y-1 max-h-64 overflow-y-auto">
+                    {batch.items.map((item) => (
+                      <div key={item.index} className="flex items-start gap-2 font-mono text-xs">
+                        <span className="mt-0.5">{getItemIcon(item)}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-velolume-500 truncate">{item.url}</p>
+                          {item.error && <p className="text-red-500/80 text-[10px]">{item.error}</p>}
+                        </div>
+                        <span className="text-industrial-dark/50 text-[10px] uppercase whitespace-nowrap">
+                          {item.jobStatus || item.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useRef } from "react";
 import Link from "next/link";
 import {
   Zap,
@@ -13,14 +13,18 @@ import {
   FileVideo,
   Mic,
   Brain,
-  Download,
-  Eraser,
-  Sparkles,
-  Palette,
   Terminal,
-  Server,
   Wand2,
+  CirclePause,
+  Ban,
 } from "lucide-react";
+import { useEventStream } from "@/hooks/useEventStream";
+import {
+  getStageDurations,
+  isTerminalStatus,
+  toJobStatus,
+  JobStageTiming,
+} from "@/lib/store/job-state-machine";
 
 interface LogEntry {
   timestamp: string;
@@ -37,6 +41,7 @@ interface Job {
   key?: string;
   createdAt: string;
   updatedAt?: string;
+  stages?: JobStageTiming[];
   log?: LogEntry[];
   metadata?: {
     title?: string;
@@ -51,8 +56,15 @@ interface Job {
   error?: string;
 }
 
+// Events sent by /api/jobs/stream
+type JobStreamEvents = {
+  snapshot: { jobs?: Job[] };
+  created: { job: Job };
+  updated: { job: Job };
+  log: { job: Job };
+};
+
 interface JobLoomProps {
-  pollInterval?: number;
   maxJobs?: number;
   highlightJobId?: string | null;
   showTechnicalLog?: boolean;
@@ -69,66 +81,55 @@ const statusConfig: Record<string, {
   uploaded: { label: "Uploaded", class: "job-status-queued", icon: FileVideo },
   transcribing: { label: "Transcribing", class: "job-status-transcribing", icon: Mic },
   analyzing: { label: "Analyzing", class: "job-status-analyzing", icon: Brain },
+  generating: { label: "Generating Store", class: "job-status-soho", icon: Wand2 },
+  retrying: { label: "Retrying", class: "job-status-pending", icon: RefreshCw },
   completed: { label: "Completed", class: "job-status-completed", icon: CheckCircle2 },
   failed: { label: "Failed", class: "job-status-failed", icon: XCircle },
-  // Velolume-specific statuses
-  fetching_source: { label: "Fetching Source", class: "job-status-fetching", icon: Download },
-  removing_watermark: { label: "Removing Watermark", class: "job-status-watermark", icon: Eraser },
-  transcribing_audio: { label: "Transcribing Audio", class: "job-status-transcribing", icon: Mic },
-  generating_soho_vibe: { label: "Generating Soho Vibe", class: "job-status-soho", icon: Palette },
-  // Velolume Noir technical log statuses
-  ingest_start: { label: "INGEST_START", class: "job-status-ingest", icon: Server },
-  ai_whisper: { label: "AI_WHISPER", class: "job-status-whisper", icon: Mic },
-  ai_vision: { label: "AI_VISION", class: "job-status-vision", icon: Sparkles },
-  soho_gen: { label: "SOHO_GEN", class: "job-status-soho", icon: Wand2 },
+  paused: { label: "Paused", class: "job-status-pending", icon: CirclePause },
+  cancelled: { label: "Cancelled", class: "job-status-failed", icon: Ban },
 };
 
 export function JobLoom({
-  pollInterval = 2000,
   maxJobs = 10,
   highlightJobId,
   showTechnicalLog = true,
 }: JobLoomProps) {
-  const [jobs, setJobs] = useState<Job[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<Job[] | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
   const logContainerRef = useRef<HTMLDivElement>(null);
 
-  const fetchJobs = useCallback(async () => {
-    try {
-      const response = await fetch(`/api/jobs?limit=${maxJobs}`);
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || "Failed to fetch jobs");
-      }
+  // Newest first, capped at maxJobs
+  const upsertJob = (job: Job) => {
+    setJobs((current) =>
+      [job, ...(current || []).filter((j) => j.id !== job.id)]
+        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+        .slice(0, maxJobs)
+    );
+    setLastUpdated(new Date());
+  };
 
+  const { status, reconnect } = useEventStream<JobStreamEvents>(`/api/jobs/stream?limit=${maxJobs}`, {
+    snapshot: (data) => {
       setJobs(data.jobs || []);
       setLastUpdated(new Date());
-      setError(null);
-
-      // Auto-expand job with active log
-      const activeJob = (data.jobs || []).find(
-        (j: Job) => j.log && j.log.length > 0 && j.status !== "completed" && j.status !== "failed"
-      );
-      if (activeJob && !expandedJobId) {
-        setExpandedJobId(activeJob.id);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Unknown error");
-    } finally {
-      setLoading(false);
-    }
-  }, [maxJobs, expandedJobId]);
+    },
+    created: (data) => upsertJob(data.job),
+    updated: (data) => upsertJob(data.job),
+    log: (data) => upsertJob(data.job),
+  });
 
-  // Initial fetch and polling
+  const error = status === "reconnecting" ? "Connection lost - reconnecting..." : null;
+
+  // Auto-expand job with active log
   useEffect(() => {
-    fetchJobs();
-    const interval = setInterval(fetchJobs, pollInterval);
-    return () => clearInterval(interval);
-  }, [fetchJobs, pollInterval]);
+    const activeJob = (jobs || []).find(
+      (j) => j.log && j.log.length > 0 && !isFinished(j.status)
+    );
+    if (activeJob && !expandedJobId) {
+      setExpandedJobId(activeJob.id);
+    }
+  }, [jobs, expandedJobId]);
 
   // Auto-scroll log container
   useEffect(() => {
@@ -137,8 +138,15 @@ export function JobLoom({
     }
   }, [jobs]);
 
+  // Legacy status names display as the stage they map to
   const getStatusConfig = (status: string) => {
-    return statusConfig[status] || statusConfig.pending;
+    return statusConfig[toJobStatus(status) || status] || statusConfig.pending;
+  };
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
   };
 
   const formatTime = (dateString: string) => {
@@ -170,7 +178,7 @@ export function JobLoom({
     return labels[platform || ""] || "Direct";
   };
 
-  if (loading && jobs.length === 0) {
+  if (jobs === null) {
     return (
       <div className="studio-card p-8">
         <div className="flex items-center justify-center gap-3 text-industrial-dark">
@@ -203,7 +211,7 @@ export function JobLoom({
             </span>
           )}
           <button
-            onClick={fetchJobs}
+            onClick={reconnect}
             className="p-2 hover:bg-industrial-grey/50 rounded-lg transition-colors"
             title="Refresh"
           >
@@ -236,7 +244,7 @@ export function JobLoom({
             const config = getStatusConfig(job.status);
             const StatusIcon = config.icon;
             const isHighlighted = highlightJobId === job.id;
-            const isProcessing = !["completed", "failed", "queued"].includes(job.status);
+            const isProcessing = !isFinished(job.status) && job.status !== "queued" && job.status !== "paused";
             const isExpanded = expandedJobId === job.id;
             const hasLog = job.log && job.log.length > 0;
 
@@ -290,6 +298,17 @@ export function JobLoom({
                           <span>{job.analysis.products.length} products</span>
                         )}
                       </div>
+
+                      {/* Per-stage durations */}
+                      {job.stages && job.stages.length > 1 && (
+                        <div className="flex flex-wrap items-center gap-3 mt-1 text-industrial-dark/40 font-mono text-[10px] uppercase tracking-wider">
+                          {getStageDurations(job.stages).map((stage) => (
+                            <span key={stage.stage} className={stage.active ? "text-velolume-500/70" : ""}>
+                              {getStatusConfig(stage.stage).label} {formatDuration(stage.durationMs)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
 
                     {/* Right: Actions */}
@@ -408,7 +427,7 @@ export function JobLoom({
         <div className="px-6 py-3 border-t border-industrial-grey bg-industrial-grey/20">
           <div className="flex items-center justify-between">
             <p className="text-industrial-dark/50 font-mono text-xs">
-              {jobs.length} jobs | Polling every {pollInterval / 1000}s
+              {jobs.length} jobs | {status === "open" ? "Live stream" : "Connecting..."}
             </p>
             {showTechnicalLog && (
               <span className="text-velolume-500/50 font-mono text-[10px] uppercase tracking-wider">
@@ -421,3 +440,9 @@ export function JobLoom({
     </div>
   );
 }
+
+// Completed, failed and cancelled jobs (legacy status names count as their stage)
+function isFinished(status: string): boolean {
+  const stage = toJobStatus(status);
+  return stage !== null && isTerminalStatus(stage);
+}
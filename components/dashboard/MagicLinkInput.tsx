@@ -66,7 +66,7 @@ export function MagicLinkInput({ onJobCreated }: MagicLinkInputProps) {
         }
 
         setUrlState("success");
-        setUrlMessage(`Job created: ${data.jobId}`);
+        setUrlMessage(data.duplicate ? `Already ingested: ${data.jobId}` : `Job created: ${data.jobId}`);
 
         if (onJobCreated) {
           onJobCreated(data.jobId);
@@ -212,7 +212,7 @@ export function MagicLinkInput({ onJobCreated }: MagicLinkInputProps) {
       const data = await uploadPromise;
 
       setFileState("success");
-      setFileMessage(`Uploaded! Job: ${data.jobId}`);
+      setFileMessage(data.duplicate ? `Already uploaded: ${data.jobId}` : `Uploaded! Job: ${data.jobId}`);
       setUploadProgress(100);
 
       if (onJobCreated) {
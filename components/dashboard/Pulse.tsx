@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useMemo } from "react";
 import {
   Activity,
   Eye,
@@ -13,6 +13,7 @@ import {
   Loader2,
   RefreshCw,
 } from "lucide-react";
+import { useEventStream } from "@/hooks/useEventStream";
 
 interface PulseData {
   views: number;
@@ -25,79 +26,107 @@ interface PulseData {
   trend: "up" | "down" | "stable";
 }
 
+interface StoreTotals {
+  storeId: string;
+  views: number;
+  clicks: number;
+  buys: number;
+  shares: number;
+}
+
+interface RecentActivity {
+  viewsLastHour: number;
+  clicksLastHour: number;
+  trend: "up" | "down" | "stable";
+}
+
+// Events sent by /api/analytics/stream
+type PulseStreamEvents = {
+  snapshot: { analytics: StoreTotals | StoreTotals[] | null; pulse?: RecentActivity }; // One store or every store
+  event: { totals: StoreTotals; event: { eventType: string } };
+};
+
 interface PulseProps {
   storeId?: string;
-  pollInterval?: number;
   showRealtime?: boolean;
 }
 
-export function Pulse({ storeId, pollInterval = 5000, showRealtime = true }: PulseProps) {
-  const [data, setData] = useState<PulseData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+// The last-hour window slides, so re-read it from the server now and then
+const PULSE_REFRESH_INTERVAL = 60000;
+
+export function Pulse({ storeId, showRealtime = true }: PulseProps) {
+  const [totals, setTotals] = useState<Record<string, StoreTotals> | null>(null);
+  const [recent, setRecent] = useState<RecentActivity>({
+    viewsLastHour: 0,
+    clicksLastHour: 0,
+    trend: "stable",
+  });
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
 
-  const fetchAnalytics = useCallback(async () => {
-    try {
-      // Fetch summary
-      const summaryUrl = storeId
-        ? `/api/analytics?storeId=${storeId}`
-        : `/api/analytics?type=all`;
-
-      const summaryRes = await fetch(summaryUrl);
-      const summaryData = await summaryRes.json();
-
-      // Fetch pulse data if we have a storeId
-      let pulseData = { viewsLastHour: 0, clicksLastHour: 0, trend: "stable" as const };
-      if (storeId) {
-        const pulseRes = await fetch(`/api/analytics?storeId=${storeId}&type=pulse`);
-        pulseData = await pulseRes.json();
-      }
+  const { status, reconnect } = useEventStream<PulseStreamEvents>(
+    storeId ? `/api/analytics/stream?storeId=${storeId}` : "/api/analytics/stream",
+    {
+      snapshot: (data) => {
+        // One store's analytics (or null), or the list for every store
+        const list = [data.analytics ?? []].flat();
+        setTotals(Object.fromEntries(list.map((store) => [store.storeId, store])));
+        if (data.pulse) {
+          setRecent(data.pulse);
+        }
+        setLastUpdated(new Date());
+      },
+      event: (data) => {
+        setTotals((current) => ({ ...current, [data.totals.storeId]: data.totals }));
+        if (data.event.eventType === "view" || data.event.eventType === "click") {
+          const key = data.event.eventType === "view" ? "viewsLastHour" : "clicksLastHour";
+          setRecent((current) => ({ ...current, [key]: current[key] + 1 }));
+        }
+        setLastUpdated(new Date());
+      },
+    }
+  );
 
-      // Aggregate if fetching all stores
-      if (!storeId && summaryData.analytics) {
-        const totals = summaryData.analytics.reduce(
-          (acc: any, store: any) => ({
-            views: acc.views + (store.views || 0),
-            clicks: acc.clicks + (store.clicks || 0),
-            buys: acc.buys + (store.buys || 0),
-            shares: acc.shares + (store.shares || 0),
-          }),
-          { views: 0, clicks: 0, buys: 0, shares: 0 }
-        );
-
-        setData({
-          ...totals,
-          conversionRate: totals.views > 0 ? (totals.buys / totals.views) * 100 : 0,
-          viewsLastHour: 0,
-          clicksLastHour: 0,
-          trend: "stable",
-        });
-      } else {
-        setData({
-          views: summaryData.views || 0,
-          clicks: summaryData.clicks || 0,
-          buys: summaryData.buys || 0,
-          shares: summaryData.shares || 0,
-          conversionRate: summaryData.conversionRate || 0,
-          ...pulseData,
-        });
+  useEffect(() => {
+    if (!storeId) {
+      return;
+    }
+    const interval = setInterval(async () => {
+      try {
+        const response = await fetch(`/api/analytics?storeId=${storeId}&type=pulse`);
+        if (response.ok) {
+          setRecent(await response.json());
+        }
+      } catch {
+        // The stream keeps the counters roughly current in the meantime
       }
+    }, PULSE_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [storeId]);
 
-      setLastUpdated(new Date());
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to fetch analytics");
-    } finally {
-      setLoading(false);
+  const data = useMemo<PulseData | null>(() => {
+    if (!totals) {
+      return null;
     }
-  }, [storeId]);
 
-  useEffect(() => {
-    fetchAnalytics();
-    const interval = setInterval(fetchAnalytics, pollInterval);
-    return () => clearInterval(interval);
-  }, [fetchAnalytics, pollInterval]);
+    const sum = Object.values(totals).reduce(
+      (acc, store) => ({
+        views: acc.views + (store.views || 0),
+        clicks: acc.clicks + (store.clicks || 0),
+        buys: acc.buys + (store.buys || 0),
+        shares: acc.shares + (store.shares || 0),
+      }),
+      { views: 0, clicks: 0, buys: 0, shares: 0 }
+    );
+
+    return {
+      ...sum,
+      conversionRate: sum.views > 0 ? (sum.buys / sum.views) * 100 : 0,
+      ...(storeId ? recent : { viewsLastHour: 0, clicksLastHour: 0, trend: "stable" as const }),
+    };
+  }, [totals, recent, storeId]);
+
+  const loading = data === null;
+  const error = status === "reconnecting" ? "Connection lost - reconnecting..." : null;
 
   const TrendIcon = data?.trend === "up" ? TrendingUp : data?.trend === "down" ? TrendingDown : Minus;
   const trendColor = data?.trend === "up" ? "text-green-500" : data?.trend === "down" ? "text-red-500" : "text-industrial-dark";
@@ -130,7 +159,7 @@ export function Pulse({ storeId, pollInterval = 5000, showRealtime = true }: Pul
           )}
         </div>
         <button
-          onClick={fetchAnalytics}
+          onClick={reconnect}
           className="p-2 hover:bg-industrial-grey/50 rounded-lg transition-colors"
           title="Refresh"
         >
@@ -225,7 +254,7 @@ export function Pulse({ storeId, pollInterval = 5000, showRealtime = true }: Pul
       <div className="px-6 py-3 border-t border-industrial-grey bg-industrial-grey/20">
         <div className="flex items-center justify-between">
           <p className="text-industrial-dark/50 font-mono text-xs">
-            {storeId ? `Store: ${storeId.substring(0, 12)}...` : "All Stores"} | Polling every {pollInterval / 1000}s
+            {storeId ? `Store: ${storeId.substring(0, 12)}...` : "All Stores"} | {status === "open" ? "Live stream" : "Connecting..."}
           </p>
           {lastUpdated && (
             <p className="text-industrial-dark/50 font-mono text-xs">
@@ -1,6 +1,7 @@
 "use client";
 
 import { useCallback, useEffect, useRef } from "react";
+import { SESSION_COOKIE, generateSessionId } from "@/lib/storefront/session";
 
 type EventType = "view" | "click" | "buy" | "share" | "scroll";
 
@@ -21,27 +22,47 @@ interface TrackEventOptions {
  *
  * // Track buy click
  * <button onClick={() => trackBuy(productId)}>Buy Now</button>
+ *
+ * // Share links carry the share event ID so buys can be attributed to it
+ * const shareId = await trackShare();
+ * const link = `${url}?share=${shareId}&utm_source=share`;
+ *
+ * The session ID follows the velolume_session cookie when middleware has
+ * set one, so events carry the session the server picked experiment
+ * variants for.
  */
 export function useAnalytics(storeId: string) {
   const sessionId = useRef<string | null>(null);
+  const visitorId = useRef<string | null>(null);
+  const landing = useRef<Record<string, string>>({});
   const hasTrackedView = useRef(false);
 
-  // Generate or retrieve session ID
+  // Generate or retrieve session and visitor IDs
   useEffect(() => {
     if (typeof window !== "undefined") {
-      let storedSessionId = sessionStorage.getItem("velolume_session");
+      let storedSessionId = readCookie(SESSION_COOKIE) || sessionStorage.getItem(SESSION_COOKIE);
       if (!storedSessionId) {
-        storedSessionId = `sess-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
-        sessionStorage.setItem("velolume_session", storedSessionId);
+        storedSessionId = generateSessionId();
       }
+      sessionStorage.setItem(SESSION_COOKIE, storedSessionId);
+      document.cookie = `${SESSION_COOKIE}=${storedSessionId}; path=/; samesite=lax`;
       sessionId.current = storedSessionId;
+
+      let storedVisitorId = localStorage.getItem("velolume_visitor");
+      if (!storedVisitorId) {
+        storedVisitorId = `vis-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+        localStorage.setItem("velolume_visitor", storedVisitorId);
+      }
+      visitorId.current = storedVisitorId;
+
+      landing.current = readLandingParams(window.location.search);
     }
   }, []);
 
   const track = useCallback(
-    async (eventType: EventType, options: TrackEventOptions = {}) => {
+    async (eventType: EventType, options: TrackEventOptions = {}): Promise<string | null> => {
       try {
-        await fetch("/api/analytics", {
+        const response = await fetch("/api/analytics", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -49,16 +70,21 @@ export function useAnalytics(storeId: string) {
             eventType,
             productId: options.productId,
             metadata: {
+              ...landing.current,
               ...options.metadata,
               source: options.source,
               sessionId: sessionId.current,
+              visitorId: visitorId.current,
               referrer: typeof document !== "undefined" ? document.referrer : undefined,
             },
           }),
         });
+        const data = await response.json();
+        return data.eventId || null;
       } catch (error) {
         // Silently fail - analytics shouldn't break the app
         console.debug("[Analytics] Failed to track event:", error);
+        return null;
       }
     },
     [storeId]
@@ -89,9 +115,7 @@ export function useAnalytics(storeId: string) {
   );
 
   const trackShare = useCallback(
-    (options?: TrackEventOptions) => {
-      track("share", options);
-    },
+    (options?: TrackEventOptions) => track("share", options),
     [track]
   );
 
@@ -112,6 +136,36 @@ export function useAnalytics(storeId: string) {
   };
 }
 
+/**
+ * Read a cookie value by name
+ */
+function readCookie(name: string): string | null {
+  const match = document.cookie.split("; ").find((pair) => pair.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.substring(name.length + 1)) : null;
+}
+
+/**
+ * UTM tags and share ID from the landing URL, in event metadata form
+ */
+function readLandingParams(search: string): Record<string, string> {
+  const params = new URLSearchParams(search);
+  const fields: Record<string, string> = {
+    utm_source: "utmSource",
+    utm_medium: "utmMedium",
+    utm_campaign: "utmCampaign",
+    share: "shareId",
+  };
+
+  const metadata: Record<string, string> = {};
+  for (const [param, field] of Object.entries(fields)) {
+    const value = params.get(param);
+    if (value) {
+      metadata[field] = value;
+    }
+  }
+  return metadata;
+}
+
 /**
  * Auto-track page view on component mount
  */
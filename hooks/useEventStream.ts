@@ -0,0 +1,63 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type StreamStatus = "connecting" | "open" | "reconnecting";
+
+// Payload of each event name the endpoint sends
+type StreamHandlers<Events> = { [Name in keyof Events]?: (data: Events[Name]) => void };
+
+/**
+ * Subscribe to a Server-Sent Events endpoint
+ *
+ * Usage:
+ * const { status, reconnect } = useEventStream<{ snapshot: { job: Job }; log: { job: Job } }>(`/api/jobs/${jobId}/stream`, {
+ *   snapshot: (data) => setJob(data.job),
+ *   log: (data) => setJob(data.job),
+ * });
+ *
+ * The browser reconnects on its own and sends Last-Event-ID, so missed
+ * events are replayed (or a fresh `snapshot` arrives). Pass a null URL
+ * to stay disconnected.
+ */
+export function useEventStream<Events extends Record<string, unknown>>(
+  url: string | null,
+  handlers: StreamHandlers<Events>
+) {
+  const [status, setStatus] = useState<StreamStatus>("connecting");
+  const [connection, setConnection] = useState(0);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Only the event names matter for wiring listeners
+  const eventNames = Object.keys(handlers).sort().join(",");
+
+  useEffect(() => {
+    if (!url || typeof window === "undefined") {
+      return;
+    }
+
+    setStatus("connecting");
+    const source = new EventSource(url);
+
+    source.onopen = () => setStatus("open");
+    source.onerror = () => setStatus("reconnecting");
+
+    for (const name of eventNames.split(",").filter(Boolean)) {
+      source.addEventListener(name, (event) => {
+        try {
+          handlersRef.current[name as keyof Events]?.(JSON.parse((event as MessageEvent).data));
+        } catch (error) {
+          console.debug(`[EventStream] Bad "${name}" event:`, error);
+        }
+      });
+    }
+
+    return () => source.close();
+  }, [url, eventNames, connection]);
+
+  // Drop the connection and start over with a fresh snapshot
+  const reconnect = useCallback(() => setConnection((n) => n + 1), []);
+
+  return { status, reconnect };
+}
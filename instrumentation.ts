@@ -0,0 +1,36 @@
+/**
+ * Velolume Instrumentation
+ *
+ * Runs once when the Next.js server starts, so work left over from before
+ * a restart resumes without waiting for the next request:
+ * - the local queue, when jobs run in-process (no QStash): jobs queued or
+ *   interrupted before the restart
+ * - batch ingestion: items still pending or mid-scrape
+ * - webhook deliveries: retries still pending
+ * - analytics compaction: finished days not rolled up yet, then nightly
+ */
+
+export async function register(): Promise<void> {
+  // The queue needs Node.js (persistence, ffmpeg), not the edge runtime
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { usesLocalQueue } = await import("@/lib/queue/video-queue");
+  if (usesLocalQueue()) {
+    const { startLocalQueue } = await import("@/lib/queue/local-queue");
+    startLocalQueue();
+    console.log("[Instrumentation] Local job queue started");
+  }
+
+  // Batches scrape in-process whichever queue runs the jobs
+  const { startBatchIngestion } = await import("@/lib/queue/batch-ingest");
+  startBatchIngestion();
+  console.log("[Instrumentation] Batch ingestion started");
+
+  const { startWebhookDeliveries } = await import("@/lib/webhooks/webhook-dispatcher");
+  startWebhookDeliveries();
+  console.log("[Instrumentation] Webhook deliveries started");
+
+  const { startAnalyticsCompaction } = await import("@/lib/store/analytics-rollups");
+  startAnalyticsCompaction();
+  console.log("[Instrumentation] Analytics compaction scheduled");
+}
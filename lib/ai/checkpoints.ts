@@ -0,0 +1,214 @@
+/**
+ * Processor Stage Checkpoints
+ *
+ * Saves the output of each processor stage per job so a failed or re-run
+ * job resumes from the last completed stage instead of re-downloading the
+ * video and re-calling Whisper and GPT-4o.
+ *
+ * Layout (CHECKPOINT_DIR, default data/checkpoints):
+ *
+ *   <jobId>/<processorVersion>/frames/000.jpg ...   selected frames
+ *   <jobId>/<processorVersion>/frames.json          frame manifest
+ *   <jobId>/<processorVersion>/transcript.json      text, language, segments
+ *   <jobId>/<processorVersion>/vision.json          products + visual
+ *   <jobId>/<processorVersion>/seo.json
+ *
+ * Keying by processor version means a new processor never reuses output
+ * from an older one.
+ */
+
+import { join } from "path";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { DATA_DIR } from "@/lib/db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CheckpointStage = "frames" | "transcript" | "vision" | "seo";
+
+export const CHECKPOINT_STAGES: CheckpointStage[] = ["frames", "transcript", "vision", "seo"];
+
+/**
+ * Stages whose output a stage is built from. Recomputing a stage
+ * invalidates everything downstream of it.
+ */
+export const STAGE_DEPENDENCIES: Record<CheckpointStage, CheckpointStage[]> = {
+  frames: [],
+  transcript: [],
+  vision: ["frames", "transcript"],
+  seo: ["transcript", "vision"],
+};
+
+export interface FramesCheckpoint {
+  frames: Buffer[];
+  timestamps: number[];
+  duration: number; // Video duration in seconds
+  extractedCount: number; // Frames extracted before selection
+}
+
+interface FramesManifest {
+  count: number;
+  timestamps: number[];
+  duration: number;
+  extractedCount: number;
+  savedAt: string;
+}
+
+export const CHECKPOINT_DIR = process.env.CHECKPOINT_DIR || join(DATA_DIR, "checkpoints");
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isCheckpointStage(value: unknown): value is CheckpointStage {
+  return typeof value === "string" && (CHECKPOINT_STAGES as string[]).includes(value);
+}
+
+/**
+ * Expand forced stages to include every stage that depends on them
+ */
+export function expandForcedStages(force: CheckpointStage[] | boolean | undefined): Set<CheckpointStage> {
+  if (force === true) return new Set(CHECKPOINT_STAGES);
+  if (!force) return new Set();
+
+  const forced = new Set(force);
+  // Stages are listed in dependency order, so one pass is enough
+  for (const stage of CHECKPOINT_STAGES) {
+    if (STAGE_DEPENDENCIES[stage].some((dependency) => forced.has(dependency))) {
+      forced.add(stage);
+    }
+  }
+  return forced;
+}
+
+function frameFileName(index: number): string {
+  return `${index.toString().padStart(3, "0")}.jpg`;
+}
+
+// ============================================================================
+// Checkpoint Store
+// ============================================================================
+
+export class CheckpointStore {
+  private readonly dir: string;
+
+  constructor(
+    readonly jobId: string,
+    readonly processorVersion: string,
+    baseDir: string = CHECKPOINT_DIR
+  ) {
+    this.dir = join(baseDir, jobId, processorVersion);
+  }
+
+  /**
+   * Whether a stage has a saved result
+   */
+  has(stage: CheckpointStage): boolean {
+    return existsSync(join(this.dir, `${stage}.json`));
+  }
+
+  /**
+   * Stages with a saved result, in pipeline order
+   */
+  completedStages(): CheckpointStage[] {
+    return CHECKPOINT_STAGES.filter((stage) => this.has(stage));
+  }
+
+  /**
+   * Read a JSON stage result. Null when missing or unreadable.
+   */
+  load<T>(stage: Exclude<CheckpointStage, "frames">): T | null {
+    const path = join(this.dir, `${stage}.json`);
+    if (!existsSync(path)) return null;
+
+    try {
+      return JSON.parse(readFileSync(path, "utf-8")) as T;
+    } catch (error) {
+      console.warn(`[Checkpoints] Ignoring unreadable ${stage} checkpoint for ${this.jobId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a JSON stage result
+   */
+  save<T>(stage: Exclude<CheckpointStage, "frames">, data: T): void {
+    this.ensureDir();
+    writeFileSync(join(this.dir, `${stage}.json`), JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * Read the selected frames. Null when missing or incomplete.
+   */
+  loadFrames(): FramesCheckpoint | null {
+    const manifestPath = join(this.dir, "frames.json");
+    if (!existsSync(manifestPath)) return null;
+
+    try {
+      const manifest = JSON.parse(readFileSync(manifestPath, "utf-8")) as FramesManifest;
+      const framesDir = join(this.dir, "frames");
+      const frames: Buffer[] = [];
+      for (let i = 0; i < manifest.count; i++) {
+        frames.push(readFileSync(join(framesDir, frameFileName(i))));
+      }
+
+      return {
+        frames,
+        timestamps: manifest.timestamps,
+        duration: manifest.duration,
+        extractedCount: manifest.extractedCount,
+      };
+    } catch (error) {
+      console.warn(`[Checkpoints] Ignoring incomplete frames checkpoint for ${this.jobId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Write the selected frames. The manifest goes last, so a crash
+   * mid-write leaves no checkpoint rather than a partial one.
+   */
+  saveFrames(checkpoint: FramesCheckpoint): void {
+    const framesDir = join(this.dir, "frames");
+    rmSync(join(this.dir, "frames.json"), { force: true });
+    rmSync(framesDir, { recursive: true, force: true });
+    mkdirSync(framesDir, { recursive: true });
+
+    checkpoint.frames.forEach((frame, i) => writeFileSync(join(framesDir, frameFileName(i)), frame));
+
+    const manifest: FramesManifest = {
+      count: checkpoint.frames.length,
+      timestamps: checkpoint.timestamps,
+      duration: checkpoint.duration,
+      extractedCount: checkpoint.extractedCount,
+      savedAt: new Date().toISOString(),
+    };
+    writeFileSync(join(this.dir, "frames.json"), JSON.stringify(manifest, null, 2));
+  }
+
+  /**
+   * Delete saved results for the given stages (all stages by default)
+   */
+  invalidate(stages: CheckpointStage[] = CHECKPOINT_STAGES): void {
+    for (const stage of stages) {
+      rmSync(join(this.dir, `${stage}.json`), { force: true });
+      if (stage === "frames") {
+        rmSync(join(this.dir, "frames"), { recursive: true, force: true });
+      }
+    }
+  }
+
+  private ensureDir(): void {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+  }
+}
+
+/**
+ * Delete every checkpoint for a job, across processor versions
+ */
+export function clearJobCheckpoints(jobId: string, baseDir: string = CHECKPOINT_DIR): void {
+  rmSync(join(baseDir, jobId), { recursive: true, force: true });
+}
@@ -0,0 +1,167 @@
+/**
+ * Provider Circuit Breakers
+ *
+ * One breaker per AI provider (openai, google), so an outage or sustained
+ * rate limiting stops requests to that provider instead of every task
+ * paying for its retries first:
+ *
+ * - closed: requests go through; consecutive retryable failures are counted
+ * - open: after CIRCUIT_FAILURE_THRESHOLD failures in a row, requests are
+ *   refused for CIRCUIT_COOLDOWN_MS and the router falls back to another
+ *   provider
+ * - half_open: after the cooldown one trial request is let through; success
+ *   closes the breaker, failure opens it again
+ *
+ * State is per process and not persisted.
+ */
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const CIRCUIT_BREAKER_CONFIG = {
+  failureThreshold: parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || "5"),
+  cooldownMs: parseInt(process.env.CIRCUIT_COOLDOWN_MS || "30000"),
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  trialInFlight: boolean; // half_open: the single trial request is running
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string; // When an open breaker lets a trial request through
+}
+
+/**
+ * Thrown when every model for a task sits behind an open breaker
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly providers: string[]) {
+    super(`AI provider circuit open: ${providers.join(", ")}`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForCircuits = globalThis as unknown as { velolumeCircuits?: Map<string, Circuit> };
+
+function circuits(): Map<string, Circuit> {
+  if (!globalForCircuits.velolumeCircuits) {
+    globalForCircuits.velolumeCircuits = new Map();
+  }
+  return globalForCircuits.velolumeCircuits;
+}
+
+function circuitFor(provider: string): Circuit {
+  let circuit = circuits().get(provider);
+  if (!circuit) {
+    circuit = { state: "closed", consecutiveFailures: 0, trialInFlight: false };
+    circuits().set(provider, circuit);
+  }
+  return circuit;
+}
+
+// ============================================================================
+// Breaker
+// ============================================================================
+
+/**
+ * Whether a request to the provider may go out now. Moves an open breaker
+ * whose cooldown has passed to half_open and claims its trial request.
+ */
+export function canRequest(provider: string, now: number = Date.now()): boolean {
+  const circuit = circuitFor(provider);
+
+  if (circuit.state === "open") {
+    if (now - (circuit.openedAt || 0) < CIRCUIT_BREAKER_CONFIG.cooldownMs) {
+      return false;
+    }
+    circuit.state = "half_open";
+    circuit.trialInFlight = false;
+  }
+
+  if (circuit.state === "half_open") {
+    if (circuit.trialInFlight) {
+      return false;
+    }
+    circuit.trialInFlight = true;
+  }
+
+  return true;
+}
+
+/**
+ * A request to the provider succeeded
+ */
+export function recordSuccess(provider: string): void {
+  const circuit = circuitFor(provider);
+  if (circuit.state !== "closed") {
+    console.log(`[CircuitBreaker] ${provider} recovered, closing`);
+  }
+  circuit.state = "closed";
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = undefined;
+  circuit.trialInFlight = false;
+}
+
+/**
+ * A request to the provider failed in a way that suggests an outage
+ * (rate limit, 5xx, network)
+ */
+export function recordFailure(provider: string, now: number = Date.now()): void {
+  const circuit = circuitFor(provider);
+  circuit.consecutiveFailures++;
+  circuit.trialInFlight = false;
+
+  const shouldOpen =
+    circuit.state === "half_open" || circuit.consecutiveFailures >= CIRCUIT_BREAKER_CONFIG.failureThreshold;
+  if (shouldOpen && circuit.state !== "open") {
+    console.warn(
+      `[CircuitBreaker] ${provider} open after ${circuit.consecutiveFailures} failures, retrying in ${CIRCUIT_BREAKER_CONFIG.cooldownMs}ms`
+    );
+  }
+  if (shouldOpen) {
+    circuit.state = "open";
+    circuit.openedAt = now;
+  }
+}
+
+/**
+ * Current state of every provider that has been called
+ */
+export function getCircuitStatus(): Record<string, CircuitStatus> {
+  const status: Record<string, CircuitStatus> = {};
+
+  circuits().forEach((circuit, provider) => {
+    status[provider] = {
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      openedAt: circuit.openedAt ? new Date(circuit.openedAt).toISOString() : undefined,
+      retryAt:
+        circuit.state === "open" && circuit.openedAt
+          ? new Date(circuit.openedAt + CIRCUIT_BREAKER_CONFIG.cooldownMs).toISOString()
+          : undefined,
+    };
+  });
+
+  return status;
+}
+
+/**
+ * Close every breaker (tests and manual recovery)
+ */
+export function resetCircuits(): void {
+  circuits().clear();
+}
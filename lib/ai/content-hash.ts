@@ -0,0 +1,25 @@
+/**
+ * Content Hashing
+ *
+ * SHA-256 helpers shared by the response cache and provider fixtures, so
+ * both address the same image by the same hash.
+ */
+
+import { createHash } from "crypto";
+
+export function sha256(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * SHA-256 of an image. Data URLs hash their decoded bytes, so a frame
+ * sent as a Buffer or as base64 gets the same hash.
+ */
+export function hashImage(image: Buffer | string): string {
+  if (Buffer.isBuffer(image)) {
+    return sha256(image);
+  }
+
+  const dataUrl = image.match(/^data:[^;,]+;base64,(.*)$/s);
+  return sha256(dataUrl ? Buffer.from(dataUrl[1], "base64") : image);
+}
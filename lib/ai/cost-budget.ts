@@ -0,0 +1,124 @@
+/**
+ * AI Cost Budgets
+ *
+ * Spend limits checked before every paid AI call, from the cost ledger
+ * (lib/store/cost-ledger.ts):
+ *
+ * - budget: once reached, calls are downgraded to a cheaper model tier
+ *   (see DOWNGRADE_MODEL in model-router.ts)
+ * - hard cap: once reached, calls are refused with BudgetExceededError,
+ *   which fails the job without retrying
+ *
+ * Limits apply per job (all attempts together) and per creator per UTC
+ * month. A limit of 0 is off. Checks run before a call, so the call that
+ * crosses a limit still completes.
+ */
+
+import { CostScope, getCreatorMonthlySpend, getJobSpend, roundUSD } from "@/lib/store/cost-ledger";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const COST_BUDGET_CONFIG = {
+  jobBudgetUSD: parseFloat(process.env.COST_JOB_BUDGET_USD || "0"),
+  jobHardCapUSD: parseFloat(process.env.COST_JOB_HARD_CAP_USD || "0"),
+  creatorMonthlyBudgetUSD: parseFloat(process.env.COST_CREATOR_MONTHLY_BUDGET_USD || "0"),
+  creatorMonthlyHardCapUSD: parseFloat(process.env.COST_CREATOR_MONTHLY_HARD_CAP_USD || "0"),
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BudgetAction = "allow" | "downgrade" | "stop";
+
+export interface BudgetLimit {
+  spentUSD: number;
+  budgetUSD: number | null;
+  hardCapUSD: number | null;
+}
+
+export interface BudgetStatus {
+  action: BudgetAction;
+  reason?: string; // Which limit was reached
+  job?: BudgetLimit;
+  creator?: BudgetLimit & { creator: string };
+}
+
+/**
+ * Thrown instead of making a call once a hard cap is reached
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly scope: CostScope,
+    readonly reason: string
+  ) {
+    super(`AI budget exceeded: ${reason}`);
+    this.name = "BudgetExceededError";
+  }
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Where a scope stands against its job and creator limits
+ */
+export function checkBudget(scope: CostScope = {}): BudgetStatus {
+  const status: BudgetStatus = { action: "allow" };
+
+  if (scope.jobId) {
+    status.job = limit(getJobSpend(scope.jobId), COST_BUDGET_CONFIG.jobBudgetUSD, COST_BUDGET_CONFIG.jobHardCapUSD);
+    applyLimit(status, status.job, `job ${scope.jobId}`);
+  }
+
+  if (scope.creator) {
+    const creatorLimit = limit(
+      getCreatorMonthlySpend(scope.creator),
+      COST_BUDGET_CONFIG.creatorMonthlyBudgetUSD,
+      COST_BUDGET_CONFIG.creatorMonthlyHardCapUSD
+    );
+    status.creator = { ...creatorLimit, creator: scope.creator };
+    applyLimit(status, creatorLimit, `creator ${scope.creator} this month`);
+  }
+
+  return status;
+}
+
+/**
+ * Check the budget before a call: throws at a hard cap, otherwise says
+ * whether to downgrade
+ */
+export function enforceBudget(scope?: CostScope): BudgetStatus {
+  const status = checkBudget(scope);
+  if (status.action === "stop") {
+    throw new BudgetExceededError(scope || {}, status.reason || "hard cap reached");
+  }
+  return status;
+}
+
+function limit(spentUSD: number, budgetUSD: number, hardCapUSD: number): BudgetLimit {
+  return {
+    spentUSD: roundUSD(spentUSD),
+    budgetUSD: budgetUSD > 0 ? budgetUSD : null,
+    hardCapUSD: hardCapUSD > 0 ? hardCapUSD : null,
+  };
+}
+
+// The strictest action wins: stop over downgrade over allow
+function applyLimit(status: BudgetStatus, limit: BudgetLimit, label: string): void {
+  if (limit.hardCapUSD !== null && limit.spentUSD >= limit.hardCapUSD) {
+    if (status.action !== "stop") {
+      status.action = "stop";
+      status.reason = `${label} spent $${limit.spentUSD.toFixed(4)} of $${limit.hardCapUSD.toFixed(2)} hard cap`;
+    }
+    return;
+  }
+
+  if (limit.budgetUSD !== null && limit.spentUSD >= limit.budgetUSD && status.action === "allow") {
+    status.action = "downgrade";
+    status.reason = `${label} spent $${limit.spentUSD.toFixed(4)} of $${limit.budgetUSD.toFixed(2)} budget`;
+  }
+}
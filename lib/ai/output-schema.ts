@@ -0,0 +1,231 @@
+/**
+ * Model Output Schemas
+ *
+ * Small declarative runtime schemas for the JSON a model returns, so
+ * callers validate an answer instead of patching missing fields by hand.
+ * Validation collects every problem with its path, e.g.
+ *
+ *   products[2].confidence: expected a number between 0 and 1, got "high"
+ *
+ * which is precise enough to send back to the model (structured-output.ts).
+ *
+ * Usage:
+ *   const HOOK = schema.object({
+ *     type: schema.enum(["question", "statement"]),
+ *     hookStrength: schema.number({ min: 0, max: 100 }),
+ *     emotionalTrigger: schema.nullable(schema.string()),
+ *   });
+ *   const result = validateOutput(HOOK, JSON.parse(content));
+ *   if (!result.ok) console.log(formatIssues(result.issues));
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ValidationIssue {
+  path: string; // "$" for the whole value, otherwise e.g. "products[2].confidence"
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+export interface OutputSchema<T> {
+  /** JSON-able summary, part of response cache keys */
+  readonly description: unknown;
+  /** Checked value, or undefined after adding issues */
+  check(value: unknown, path: string, issues: ValidationIssue[]): T | undefined;
+}
+
+export type InferOutput<S> = S extends OutputSchema<infer T> ? T : never;
+
+type Shape = Record<string, OutputSchema<unknown>>;
+
+// Keys whose schema accepts undefined are optional in the inferred type
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: undefined extends InferOutput<S[K]> ? K : never;
+}[keyof S];
+
+type ObjectOutput<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: InferOutput<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: InferOutput<S[K]>;
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a parsed model answer
+ */
+export function validateOutput<T>(outputSchema: OutputSchema<T>, value: unknown): ValidationResult<T> {
+  const issues: ValidationIssue[] = [];
+  const checked = outputSchema.check(value, "$", issues);
+  return issues.length === 0 ? { ok: true, value: checked as T } : { ok: false, issues };
+}
+
+/**
+ * One issue per line, for logs and repair prompts
+ */
+export function formatIssues(issues: ValidationIssue[], limit: number = 20): string {
+  const lines = issues.slice(0, limit).map((issue) => `- ${issue.path}: ${issue.message}`);
+  if (issues.length > limit) {
+    lines.push(`- ...and ${issues.length - limit} more`);
+  }
+  return lines.join("\n");
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path === "$" ? key : `${path}.${key}`;
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return "nothing";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  const text = JSON.stringify(value);
+  return text.length > 40 ? `${text.slice(0, 40)}...` : text;
+}
+
+function fail(issues: ValidationIssue[], path: string, expected: string, value: unknown): undefined {
+  issues.push({ path, message: `expected ${expected}, got ${describeValue(value)}` });
+  return undefined;
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+function string(): OutputSchema<string> {
+  return {
+    description: "string",
+    check: (value, path, issues) => (typeof value === "string" ? value : fail(issues, path, "a string", value)),
+  };
+}
+
+function number(options: { min?: number; max?: number; integer?: boolean } = {}): OutputSchema<number> {
+  const { min, max, integer } = options;
+  const kind = integer ? "an integer" : "a number";
+  const expected =
+    min !== undefined && max !== undefined
+      ? `${kind} between ${min} and ${max}`
+      : min !== undefined
+        ? `${kind} of at least ${min}`
+        : max !== undefined
+          ? `${kind} of at most ${max}`
+          : kind;
+
+  return {
+    description: { number: options },
+    check: (value, path, issues) => {
+      const valid =
+        typeof value === "number" &&
+        Number.isFinite(value) &&
+        (!integer || Number.isInteger(value)) &&
+        (min === undefined || value >= min) &&
+        (max === undefined || value <= max);
+      return valid ? (value as number) : fail(issues, path, expected, value);
+    },
+  };
+}
+
+function boolean(): OutputSchema<boolean> {
+  return {
+    description: "boolean",
+    check: (value, path, issues) => (typeof value === "boolean" ? value : fail(issues, path, "true or false", value)),
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): OutputSchema<T> {
+  return {
+    description: { enum: values },
+    check: (value, path, issues) =>
+      typeof value === "string" && (values as readonly string[]).includes(value)
+        ? (value as T)
+        : fail(issues, path, `one of ${values.join(", ")}`, value),
+  };
+}
+
+function array<T>(item: OutputSchema<T>, options: { min?: number } = {}): OutputSchema<T[]> {
+  return {
+    description: { array: item.description, ...options },
+    check: (value, path, issues) => {
+      if (!Array.isArray(value)) return fail(issues, path, "an array", value);
+      if (options.min !== undefined && value.length < options.min) {
+        issues.push({ path, message: `expected at least ${options.min} items, got ${value.length}` });
+        return undefined;
+      }
+
+      const before = issues.length;
+      const items = value.map((element, index) => item.check(element, childPath(path, index), issues));
+      return issues.length === before ? (items as T[]) : undefined;
+    },
+  };
+}
+
+/**
+ * An object with the given fields. Unknown keys are dropped, or kept as
+ * they are with `passthrough` (for open-ended attribute bags).
+ */
+function object<S extends Shape>(shape: S, options: { passthrough?: boolean } = {}): OutputSchema<ObjectOutput<S>> {
+  return {
+    description: { object: mapValues(shape, (field) => field.description), ...options },
+    check: (value, path, issues) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(issues, path, "an object", value);
+      }
+
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = options.passthrough ? { ...input } : {};
+      const before = issues.length;
+
+      for (const [key, field] of Object.entries(shape)) {
+        const checked = field.check(input[key], childPath(path, key), issues);
+        if (checked !== undefined) {
+          output[key] = checked;
+        }
+      }
+      return issues.length === before ? (output as ObjectOutput<S>) : undefined;
+    },
+  };
+}
+
+function nullable<T>(inner: OutputSchema<T>): OutputSchema<T | null> {
+  return {
+    description: { nullable: inner.description },
+    check: (value, path, issues) => (value === null ? null : inner.check(value, path, issues)),
+  };
+}
+
+/**
+ * A field the model may leave out. An explicit fallback is used when it
+ * does; it is part of the schema, so it is never applied silently.
+ */
+function optional<T>(inner: OutputSchema<T>): OutputSchema<T | undefined>;
+function optional<T>(inner: OutputSchema<T>, fallback: T): OutputSchema<T>;
+function optional<T>(inner: OutputSchema<T>, fallback?: T): OutputSchema<T | undefined> {
+  return {
+    description: { optional: inner.description, default: fallback },
+    check: (value, path, issues) => (value === undefined ? fallback : inner.check(value, path, issues)),
+  };
+}
+
+function mapValues<T, U>(record: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
+
+export const schema = {
+  string,
+  number,
+  boolean,
+  enum: oneOf,
+  array,
+  object,
+  nullable,
+  optional,
+};
@@ -10,10 +10,20 @@
  * - NEW: Supports Claim<T> wrapper for verified data
  *
  * Output is database-ready with consistent schema.
+ *
+ * Every AI call is billed to the cost ledger and checked against the cost
+ * budgets (cost-budget.ts) of the job and creator in `costScope`.
+ *
+ * Whisper and GPT-4o calls go through the AI provider (providers/), so
+ * AI_PROVIDER_MODE can record, replay or mock them.
+ *
+ * The vision answer is validated against VISION_OUTPUT and re-asked when
+ * it does not match (structured-output.ts).
+ *
+ * Prompts come from the prompt registry (lib/prompts); the ref of each
+ * one used is stamped on the cost ledger and in `meta.prompts`.
  */
 
-import OpenAI from "openai";
-import { toFile } from "openai";
 import { extractAudio, extractFrames } from "@/lib/video/frame-extractor";
 import {
   ProductDetectionClaim,
@@ -22,10 +32,22 @@ import {
   createTranscriptEvidence,
   Evidence,
 } from "@/lib/types/product-claims";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import {
+  CheckpointStage,
+  CheckpointStore,
+  FramesCheckpoint,
+  STAGE_DEPENDENCIES,
+  expandForcedStages,
+} from "./checkpoints";
+import { enforceBudget } from "./cost-budget";
+import { recordModelCost, recordTranscriptionCost, selectModel } from "./model-router";
+import type { CostScope } from "@/lib/store/cost-ledger";
+import { getAIProvider, isOfflineProvider } from "./providers";
+import { InferOutput, schema } from "./output-schema";
+import { validatedChat } from "./structured-output";
+import { renderPrompt } from "@/lib/prompts";
+
+export const PROCESSOR_VERSION = "2.1.0";
 
 // ============================================================================
 // Types - Database-Ready JSON Schema (EXPANDED)
@@ -132,6 +154,8 @@ export interface ProcessedVideoData {
     audioDuration: number;
     model: string;
     processorVersion: string;
+    resumedStages?: CheckpointStage[]; // Stages loaded from checkpoints
+    prompts?: Partial<Record<"vision" | "seo", string>>; // Prompt registry refs, e.g. "processor.vision@2.1.0"
   };
 }
 
@@ -142,51 +166,54 @@ export interface ProcessedVideoData {
 export interface ProcessorOptions {
   maxFrames?: number; // Max frames to analyze (default: 12)
   detailed?: boolean; // Detailed analysis (default: true)
+  jobId?: string; // Checkpoint stage outputs under this job so re-runs resume
+  force?: CheckpointStage[] | boolean; // Recompute these stages (true: all) and their dependents
+  onStage?: (stage: CheckpointStage) => void; // Runs as each stage starts, loaded or computed; throw to stop
+  beforeStage?: (stage: CheckpointStage) => void; // Runs before each computed stage; throw to stop
+  costScope?: CostScope; // Job, store and creator the AI calls are billed to
 }
 
 /**
  * Process video with full AI pipeline
  * Returns structured JSON ready for database storage
+ *
+ * With a jobId, each stage (frames, transcript, vision, seo) is saved as it
+ * completes and loaded on the next run, so only failed or forced stages run.
  */
 export async function processVideo(
   videoKey: string,
   options: ProcessorOptions = {}
 ): Promise<ProcessedVideoData> {
-  const { maxFrames = 12, detailed = true } = options;
+  const { maxFrames = 12, detailed = true, jobId, force, onStage, beforeStage, costScope } = options;
 
   console.log(`[Processor v2.1] Starting comprehensive AI processing for: ${videoKey}`);
   const startTime = Date.now();
 
-  // Step 1: Extract audio and frames in parallel
+  const checkpoints = jobId ? new CheckpointStore(jobId, PROCESSOR_VERSION) : null;
+  const forced = expandForcedStages(force);
+  if (checkpoints && forced.size > 0) {
+    console.log(`[Processor v2.1] Invalidating checkpoints: ${Array.from(forced).join(", ")}`);
+    checkpoints.invalidate(Array.from(forced));
+  }
+  const run: StageRun = { checkpoints, recomputed: new Set(), resumed: [], onStage, beforeStage };
+
+  // Steps 1-3: Select frames and transcribe audio in parallel
   // CHANGED: Request more frames, distributed across entire video
-  console.log(`[Processor v2.1] Extracting audio and frames (distributed across full video)...`);
-  const [audioBuffer, frameData] = await Promise.all([
-    extractAudio(videoKey),
-    extractFrames(videoKey, {
-      interval: 1, // Extract more frequently
-      maxFrames: maxFrames * 2 // Extract extra, then select best distribution
+  const [frameStage, transcription] = await Promise.all([
+    runFramesStage(run, videoKey, maxFrames),
+    runStage(run, "transcript", async () => {
+      console.log(`[Processor v2.1] Extracting and transcribing audio...`);
+      return transcribeWithWhisper(await extractAudio(videoKey), costScope);
     }),
   ]);
-
-  // Step 2: Select frames distributed across entire video
-  const distributedFrames = selectDistributedFrames(frameData.frames, maxFrames);
-  console.log(`[Processor v2.1] Selected ${distributedFrames.length} frames from ${frameData.frames.length} extracted`);
-
-  // NEW v2.1: Calculate frame timestamps based on video duration
-  const frameTimestamps = calculateFrameTimestamps(distributedFrames.length, frameData.duration);
-
-  // Step 3: Transcribe audio
-  console.log(`[Processor v2.1] Transcribing audio...`);
-  const transcription = await transcribeWithWhisper(audioBuffer);
+  const distributedFrames = frameStage.frames;
+  const frameTimestamps = frameStage.timestamps;
 
   // Step 4: Analyze frames with GPT-4o Vision (NEW COMPREHENSIVE PROMPT)
-  console.log(`[Processor v2.1] Analyzing ${distributedFrames.length} frames for ALL visible products...`);
-  const visionAnalysis = await analyzeWithGPT4Vision(
-    distributedFrames,
-    transcription.text,
-    detailed,
-    frameTimestamps
-  );
+  const visionAnalysis = await runStage(run, "vision", () => {
+    console.log(`[Processor v2.1] Analyzing ${distributedFrames.length} frames for ALL visible products...`);
+    return analyzeWithGPT4Vision(distributedFrames, transcription.text, detailed, frameTimestamps, costScope);
+  });
 
   // NEW v2.1: Find transcript mentions for products
   const productsWithMentions = findTranscriptMentions(
@@ -206,12 +233,10 @@ export async function processVideo(
   );
 
   // Step 5: Generate SEO data
-  console.log(`[Processor v2.1] Generating SEO metadata...`);
-  const seoData = await generateSEOData(
-    transcription.text,
-    productsWithMentions,
-    visionAnalysis.visual
-  );
+  const { prompt: seoPrompt, ...seoData } = await runStage(run, "seo", () => {
+    console.log(`[Processor v2.1] Generating SEO metadata...`);
+    return generateSEOData(transcription.text, productsWithMentions, visionAnalysis.visual, costScope);
+  });
 
   // Step 6: Analyze sentiment
   const sentiment = analyzeSentiment(transcription.text);
@@ -227,6 +252,7 @@ export async function processVideo(
       text: transcription.text,
       language: transcription.language,
       duration: transcription.duration,
+      segments: transcription.segments,
     },
     products: productsWithMentions,
     productClaims,
@@ -237,13 +263,93 @@ export async function processVideo(
     meta: {
       processedAt: new Date().toISOString(),
       framesAnalyzed: distributedFrames.length,
-      audioDuration: frameData.duration,
+      audioDuration: frameStage.duration,
       model: "gpt-4o + whisper-1",
-      processorVersion: "2.1.0",
+      processorVersion: PROCESSOR_VERSION,
+      resumedStages: run.resumed.length > 0 ? run.resumed : undefined,
+      prompts: { vision: visionAnalysis.prompt, seo: seoPrompt },
     },
   };
 }
 
+// ============================================================================
+// Stage Checkpointing
+// ============================================================================
+
+interface StageRun {
+  checkpoints: CheckpointStore | null;
+  recomputed: Set<CheckpointStage>; // Stages computed (not loaded) in this run
+  resumed: CheckpointStage[]; // Stages loaded from a checkpoint
+  onStage?: (stage: CheckpointStage) => void;
+  beforeStage?: (stage: CheckpointStage) => void;
+}
+
+/**
+ * A stage can be loaded from its checkpoint unless a stage it depends on
+ * was recomputed in this run
+ */
+function canResume(run: StageRun, stage: CheckpointStage): boolean {
+  return !!run.checkpoints && !STAGE_DEPENDENCIES[stage].some((dependency) => run.recomputed.has(dependency));
+}
+
+/**
+ * Load a JSON stage from its checkpoint, or compute and save it
+ */
+async function runStage<T>(
+  run: StageRun,
+  stage: Exclude<CheckpointStage, "frames">,
+  compute: () => Promise<T>
+): Promise<T> {
+  run.onStage?.(stage);
+  const saved = canResume(run, stage) ? run.checkpoints!.load<T>(stage) : null;
+  if (saved) {
+    console.log(`[Processor v2.1] Resuming ${stage} from checkpoint`);
+    run.resumed.push(stage);
+    return saved;
+  }
+
+  run.beforeStage?.(stage);
+  const result = await compute();
+  run.checkpoints?.save(stage, result);
+  run.recomputed.add(stage);
+  return result;
+}
+
+/**
+ * Load the selected frames from their checkpoint, or extract and save them
+ */
+async function runFramesStage(run: StageRun, videoKey: string, maxFrames: number): Promise<FramesCheckpoint> {
+  run.onStage?.("frames");
+  const saved = canResume(run, "frames") ? run.checkpoints!.loadFrames() : null;
+  if (saved) {
+    console.log(`[Processor v2.1] Resuming frames from checkpoint (${saved.frames.length} frames)`);
+    run.resumed.push("frames");
+    return saved;
+  }
+
+  run.beforeStage?.("frames");
+  console.log(`[Processor v2.1] Extracting frames (distributed across full video)...`);
+  const frameData = await extractFrames(videoKey, {
+    interval: 1, // Extract more frequently
+    maxFrames: maxFrames * 2 // Extract extra, then select best distribution
+  });
+
+  // Select frames distributed across entire video
+  const frames = selectDistributedFrames(frameData.frames, maxFrames);
+  console.log(`[Processor v2.1] Selected ${frames.length} frames from ${frameData.frames.length} extracted`);
+
+  const result: FramesCheckpoint = {
+    frames,
+    // NEW v2.1: Calculate frame timestamps based on video duration
+    timestamps: calculateFrameTimestamps(frames.length, frameData.duration),
+    duration: frameData.duration,
+    extractedCount: frameData.frames.length,
+  };
+  run.checkpoints?.saveFrames(result);
+  run.recomputed.add("frames");
+  return result;
+}
+
 // ============================================================================
 // Frame Timestamps Calculation (NEW v2.1)
 // ============================================================================
@@ -355,26 +461,24 @@ function selectDistributedFrames(frames: Buffer[], targetCount: number): Buffer[
 // Transcription (Whisper)
 // ============================================================================
 
-async function transcribeWithWhisper(audioBuffer: Buffer): Promise<{
-  text: string;
-  language: string;
-  duration: number;
-}> {
-  const audioFile = await toFile(audioBuffer, "audio.mp3", {
-    type: "audio/mpeg",
-  });
+async function transcribeWithWhisper(
+  audioBuffer: Buffer,
+  costScope?: CostScope
+): Promise<ProcessedVideoData["transcription"]> {
+  enforceBudget(costScope); // No cheaper transcription model to downgrade to
 
-  const response = await openai.audio.transcriptions.create({
-    file: audioFile,
+  const response = await getAIProvider().transcribe({
+    audio: audioBuffer,
     model: "whisper-1",
-    response_format: "verbose_json",
     prompt: "E-commerce product video. May include: Thai, Vietnamese, Indonesian, Malay, English, Chinese, Filipino, Tagalog, Japanese, Korean.",
   });
+  recordTranscriptionCost("whisper-1", response.duration || 0, costScope);
 
   return {
     text: response.text,
     language: response.language || "unknown",
     duration: response.duration || 0,
+    segments: response.segments,
   };
 }
 
@@ -382,223 +486,130 @@ async function transcribeWithWhisper(audioBuffer: Buffer): Promise<{
 // Vision Analysis (GPT-4o) - COMPLETELY REWRITTEN
 // ============================================================================
 
-const VISION_SYSTEM_PROMPT = `You are an expert visual product detector for social commerce. Your job is to identify EVERY monetizable product visible in video frames.
-
-CRITICAL INSTRUCTIONS:
-
-1. SCAN THE ENTIRE FRAME - not just the focal point or the product being promoted
-
-2. IDENTIFY ALL PRODUCTS the creator is:
-   - WEARING: clothing (top, bottom, dress, outerwear), shoes, accessories (bag, belt, hat, scarf), jewelry (earrings, necklace, bracelet, rings, watch), glasses/sunglasses
-   - HOLDING: phone, bag, drink, makeup products, skincare, tools, books
-   - USING: makeup being applied, skincare products, tech devices, furniture they're sitting on
-   - NEAR: home decor, furniture, plants, lamps, art, rugs visible in background
-
-3. For EACH product, provide:
-   - A SPECIFIC name (not "dress" but "midi wrap dress with floral print" or "black ribbed tank top")
-   - Visual attributes that would help someone SEARCH for this item
-   - Location in frame where the product appears
-   - Whether brand is visible (and what it is if you can read it)
-   - Your confidence that this specific item could be found for purchase online
-
-4. DO NOT SKIP items because they seem incidental. A phone case, water bottle, hair clip, or lamp can all be monetized.
-
-5. DO NOT merge multiple items. Earrings AND a necklace are TWO separate products. A top AND pants are TWO separate products.
-
-6. PRIORITIZE items by identifiability:
-   - HIGH: Clear view, good lighting, distinctive features, brand visible
-   - MEDIUM: Visible but partially obscured, angled, or generic style
-   - LOW: Edge of frame, blurry, very small, or extremely common item
-
-7. For CLOTHING specifically, always try to identify:
-   - Type (blouse, t-shirt, tank top, sweater, jacket, jeans, skirt, dress, etc.)
-   - Style (casual, formal, athletic, bohemian, minimalist, streetwear)
-   - Notable features (pattern, neckline, sleeve length, fit)
-
-You MUST respond with valid JSON only. No markdown, no explanation, just JSON.
-
-Required JSON schema:
-{
-  "products": [
-    {
-      "name": "Specific descriptive product name",
-      "category": "Clothing|Footwear|Accessories|Jewelry|Beauty|Skincare|Haircare|Tech|Home Decor|Furniture|Food & Beverage|Other",
-      "subcategory": "e.g., Midi Dress, Moisturizer, Wireless Earbuds, Table Lamp, Hoop Earrings",
-      "colors": ["primary color", "secondary color if applicable"],
-      "material": "silk|cotton|leather|denim|knit|metal|plastic|ceramic|glass|unknown",
-      "style": "casual|formal|streetwear|minimalist|bohemian|athletic|luxury|vintage|trendy",
-      "pattern": "solid|striped|floral|geometric|animal print|plaid|polka dot|abstract|none visible",
-      "brand": "Brand name if visible/readable, null if not",
-      "location": "face|head|ears|neck|upper_body|lower_body|full_body|hands|wrist|waist|feet|background|table|held|being_applied",
-      "description": "2-3 sentences describing the item as you would for a product listing. Include fit, style, and distinguishing features that make it searchable.",
-      "searchTerms": ["array", "of", "5-8", "terms", "someone", "would", "search", "on", "google", "or", "amazon"],
-      "estimatedPriceUSD": "$XX-$XX range or null if unknown",
-      "confidence": 0.0-1.0,
-      "identifiability": "high|medium|low",
-      "frameIndices": [0, 3, 5],
-      "boundingBox": {"x": 0.2, "y": 0.3, "width": 0.4, "height": 0.5}
-    }
-  ],
-  "visual": {
-    "dominantColors": ["color1", "color2", "color3"],
-    "aestheticStyle": "Minimalist|Luxury|Casual|Professional|Playful|Vintage|Bohemian|Streetwear|Glam|Natural",
-    "contentType": "Product Review|GRWM|OOTD|Tutorial|Haul|Unboxing|Lifestyle|Advertisement|Vlog|Talking Head",
-    "targetAudience": "e.g., Young Women 18-25, Beauty Enthusiasts, Fashion-forward Millennials",
-    "setting": "Bedroom|Bathroom|Living Room|Kitchen|Office|Studio|Outdoor|Store|Gym|Car|Restaurant|Unknown",
-    "lighting": "Natural|Studio|Ring Light|Low Light|Mixed|Golden Hour",
-    "scenes": [
-      {
-        "timestamp": "Frame X",
-        "description": "What's happening in this frame",
-        "setting": "Location/environment",
-        "mood": "Energetic|Calm|Professional|Fun|Intimate|Luxurious"
-      }
-    ]
-  }
-}`;
-
-const USER_PROMPT_TEMPLATE = `Analyze these {frameCount} video frames from a creator's social media content.
-
-CONTEXT FROM AUDIO TRANSCRIPTION:
-"{transcription}"
-
-YOUR TASK:
-1. Identify EVERY visible product across all frames
-2. For a typical lifestyle/fashion video, you should find 5-15+ products including:
-   - Full outfit breakdown (top, bottom, shoes - each as SEPARATE items)
-   - All jewelry pieces (earrings, necklace, rings, bracelet - each SEPARATE)
-   - Accessories (bag, belt, sunglasses, hair accessories)
-   - Any beauty/skincare products visible or being used
-   - Tech items (phone, earbuds, laptop)
-   - Background items (furniture, decor) if clearly visible
-
-3. For EACH product, provide enough detail that someone could SEARCH and FIND a similar item online
-
-4. Use the audio transcription to help identify products being discussed
+// Response format of the processor.vision prompt
+const VISION_PRODUCT_OUTPUT = schema.object({
+  name: schema.string(),
+  category: schema.enum([
+    "Clothing", "Footwear", "Accessories", "Jewelry", "Beauty", "Skincare", "Haircare",
+    "Tech", "Home Decor", "Furniture", "Food & Beverage", "Other",
+  ] as const),
+  subcategory: schema.string(),
+  colors: schema.array(schema.string()),
+  material: schema.nullable(schema.string()),
+  style: schema.nullable(schema.string()),
+  pattern: schema.nullable(schema.string()),
+  brand: schema.nullable(schema.string()),
+  location: schema.string(),
+  description: schema.string(),
+  searchTerms: schema.array(schema.string()),
+  estimatedPriceUSD: schema.nullable(schema.string()),
+  confidence: schema.number({ min: 0, max: 1 }),
+  identifiability: schema.enum(["high", "medium", "low"] as const),
+  frameIndices: schema.array(schema.number({ min: 0, integer: true }), { min: 1 }),
+  boundingBox: schema.optional(
+    schema.object({
+      x: schema.number({ min: 0, max: 1 }),
+      y: schema.number({ min: 0, max: 1 }),
+      width: schema.number({ min: 0, max: 1 }),
+      height: schema.number({ min: 0, max: 1 }),
+    })
+  ),
+});
 
-IMPORTANT:
-- Err on the side of OVER-DETECTION. Include items even if you're only 50-60% confident.
-- Low-confidence items can be filtered later, but MISSED items are lost revenue.
-- If the creator is wearing an outfit, that's minimum 2-5 products right there.
+const VISION_OUTPUT = schema.object({
+  products: schema.array(VISION_PRODUCT_OUTPUT),
+  visual: schema.object({
+    dominantColors: schema.array(schema.string()),
+    aestheticStyle: schema.string(),
+    contentType: schema.string(),
+    targetAudience: schema.string(),
+    setting: schema.string(),
+    lighting: schema.string(),
+    scenes: schema.array(
+      schema.object({
+        timestamp: schema.string(),
+        description: schema.string(),
+        setting: schema.string(),
+        mood: schema.string(),
+      })
+    ),
+  }),
+});
 
-Respond with JSON only.`;
+type VisionProduct = InferOutput<typeof VISION_PRODUCT_OUTPUT>;
 
 async function analyzeWithGPT4Vision(
   frames: Buffer[],
   transcription: string,
   detailed: boolean,
-  frameTimestamps: number[] = []
+  frameTimestamps: number[] = [],
+  costScope?: CostScope
 ): Promise<{
   products: ProductData[];
   visual: ProcessedVideoData["visual"];
+  prompt?: string; // Absent in checkpoints saved before the prompt registry
 }> {
   // Truncate transcription for context but keep more than before
   const truncatedTranscription = transcription.length > 1000
     ? transcription.substring(0, 1000) + "..."
     : transcription;
 
-  const userPrompt = USER_PROMPT_TEMPLATE
-    .replace("{frameCount}", frames.length.toString())
-    .replace("{transcription}", truncatedTranscription);
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: VISION_SYSTEM_PROMPT },
-      {
-        role: "user",
-        content: [
-          { type: "text", text: userPrompt },
-          ...frames.map((frame, i) => ({
-            type: "image_url" as const,
-            image_url: {
-              url: `data:image/jpeg;base64,${frame.toString("base64")}`,
-              detail: detailed ? "high" : ("low" as "high" | "low"),
-            },
-          })),
-        ],
-      },
-    ],
-    max_tokens: 4000, // Increased for more products
-    temperature: 0.3, // Slightly higher for more creative detection
-    response_format: { type: "json_object" },
+  const prompt = renderPrompt("processor.vision", {
+    frameCount: frames.length,
+    transcription: truncatedTranscription,
   });
 
-  const content = response.choices[0]?.message?.content || "{}";
+  // Over budget: gpt-4o-mini, with low-detail images to keep its image token count down
+  const selection = selectModel("gpt-4o", costScope);
+  const imageDetail = detailed && !selection.downgradedFrom ? "high" : "low";
 
-  let parsed;
-  try {
-    parsed = JSON.parse(content);
-  } catch (e) {
-    console.error("[Processor v2.1] Failed to parse GPT-4o response:", content);
-    parsed = { products: [], visual: {} };
-  }
+  // Every attempt, including re-asks after an invalid answer, is billed
+  const provider = getAIProvider();
+  const output = await validatedChat(
+    {
+      provider: "openai",
+      model: selection.config.model,
+      system: prompt.system,
+      prompt: prompt.text,
+      images: frames.map((frame) => ({ data: frame, detail: imageDetail })),
+      maxTokens: 4000, // Increased for more products
+      temperature: 0.3, // Slightly higher for more creative detection
+      json: true,
+    },
+    VISION_OUTPUT,
+    {
+      task: "product_detection",
+      send: async (request) => {
+        const response = await provider.chat(request);
+        recordModelCost(selection, "product_detection", response, costScope, prompt.ref);
+        return response;
+      },
+    }
+  );
 
   return {
-    products: normalizeProducts(parsed.products || [], frameTimestamps),
-    visual: normalizeVisual(parsed.visual || {}),
+    products: normalizeProducts(output.data.products, frameTimestamps),
+    visual: output.data.visual,
+    prompt: prompt.ref,
   };
 }
 
-function normalizeProducts(products: any[], frameTimestamps: number[] = []): ProductData[] {
-  return products.map((p, index) => {
-    const frameIndices = Array.isArray(p.frameIndices) ? p.frameIndices : [index];
-
+function normalizeProducts(products: VisionProduct[], frameTimestamps: number[] = []): ProductData[] {
+  return products.map(({ boundingBox, ...p }) => {
     // Calculate timestamps from frame indices
-    const timestamps = frameIndices.map((fi: number) =>
+    const timestamps = p.frameIndices.map((fi) =>
       frameTimestamps[fi] !== undefined ? frameTimestamps[fi] : fi * 1.0
     );
 
-    // Parse bounding box if provided
-    const boundingBoxes = p.boundingBox ? [{
-      frameIndex: frameIndices[0] || 0,
-      x: p.boundingBox.x || 0,
-      y: p.boundingBox.y || 0,
-      width: p.boundingBox.width || 0,
-      height: p.boundingBox.height || 0,
-    }] : undefined;
-
     return {
-      name: p.name || "Unknown Product",
-      category: p.category || "Other",
-      subcategory: p.subcategory || p.category || "General",
-      colors: Array.isArray(p.colors) ? p.colors : [],
-      material: p.material || null,
-      style: p.style || null,
-      pattern: p.pattern || null,
-      brand: p.brand || null,
-      location: p.location || "unknown",
-      description: p.description || "",
-      searchTerms: Array.isArray(p.searchTerms) ? p.searchTerms : [],
-      estimatedPriceUSD: p.estimatedPriceUSD || p.estimatedPrice || null,
-      confidence: typeof p.confidence === "number" ? p.confidence : 0.7,
-      identifiability: p.identifiability || "medium",
-      frameIndices,
+      ...p,
       // NEW v2.1: Evidence fields
       timestamps,
-      boundingBoxes,
-      transcriptMentions: p.transcriptMentions || undefined,
+      boundingBoxes: boundingBox ? [{ frameIndex: p.frameIndices[0], ...boundingBox }] : undefined,
     };
   });
 }
 
-function normalizeVisual(visual: any): ProcessedVideoData["visual"] {
-  return {
-    dominantColors: visual.dominantColors || [],
-    aestheticStyle: visual.aestheticStyle || "Modern",
-    contentType: visual.contentType || "Product Video",
-    targetAudience: visual.targetAudience || "General",
-    setting: visual.setting || "Unknown",
-    lighting: visual.lighting || "Unknown",
-    scenes: (visual.scenes || []).map((s: any) => ({
-      timestamp: s.timestamp || "Unknown",
-      description: s.description || "",
-      setting: s.setting || "Unknown",
-      mood: s.mood || "Neutral",
-    })),
-  };
-}
-
 // ============================================================================
 // Product Count Calculator (NEW)
 // ============================================================================
@@ -636,11 +647,20 @@ function calculateProductCounts(products: ProductData[]): ProcessedVideoData["pr
 // SEO Generation (UPDATED for more products)
 // ============================================================================
 
+// Response format of the processor.seo prompt
+const SEO_OUTPUT = schema.object({
+  keywords: schema.array(schema.string()),
+  tags: schema.array(schema.string()),
+  title: schema.string(),
+  description: schema.string(),
+});
+
 async function generateSEOData(
   transcription: string,
   products: ProductData[],
-  visual: ProcessedVideoData["visual"]
-): Promise<ProcessedVideoData["seo"]> {
+  visual: ProcessedVideoData["visual"],
+  costScope?: CostScope
+): Promise<ProcessedVideoData["seo"] & { prompt?: string }> {
   // Get top products by confidence for SEO focus
   const topProducts = products
     .sort((a, b) => b.confidence - a.confidence)
@@ -650,43 +670,40 @@ async function generateSEOData(
   const categories = [...new Set(products.map((p) => p.category))].join(", ");
   const allSearchTerms = [...new Set(products.flatMap((p) => p.searchTerms))].slice(0, 20);
 
-  const prompt = `Generate SEO metadata for an e-commerce product video.
-
-Top Products Featured: ${productNames || "Various products"}
-All Categories: ${categories || "General"}
-Product Search Terms: ${allSearchTerms.join(", ")}
-Visual Style: ${visual.aestheticStyle}
-Content Type: ${visual.contentType}
-Target Audience: ${visual.targetAudience}
-Transcription excerpt: "${transcription.substring(0, 400)}"
-
-Total products detected: ${products.length}
-
-Respond with JSON:
-{
-  "keywords": ["keyword1", "keyword2", ...] (15-20 search keywords covering all products),
-  "tags": ["tag1", "tag2", ...] (8-12 hashtag-style tags),
-  "title": "SEO-optimized title (60 chars max)",
-  "description": "SEO-optimized description mentioning key products (160 chars max)"
-}`;
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages: [{ role: "user", content: prompt }],
-    max_tokens: 600,
-    temperature: 0.3,
-    response_format: { type: "json_object" },
+  const prompt = renderPrompt("processor.seo", {
+    productNames: productNames || "Various products",
+    categories: categories || "General",
+    searchTerms: allSearchTerms.join(", "),
+    aestheticStyle: visual.aestheticStyle,
+    contentType: visual.contentType,
+    targetAudience: visual.targetAudience,
+    transcription: transcription.substring(0, 400),
+    productCount: products.length,
   });
 
-  const content = response.choices[0]?.message?.content || "{}";
-  const parsed = JSON.parse(content);
+  const selection = selectModel("gpt-4o-mini", costScope);
+  const provider = getAIProvider();
+  const output = await validatedChat(
+    {
+      provider: "openai",
+      model: selection.config.model,
+      prompt: prompt.text,
+      maxTokens: 600,
+      temperature: 0.3,
+      json: true,
+    },
+    SEO_OUTPUT,
+    {
+      task: "seo_generation",
+      send: async (request) => {
+        const response = await provider.chat(request);
+        recordModelCost(selection, "seo_generation", response, costScope, prompt.ref);
+        return response;
+      },
+    }
+  );
 
-  return {
-    keywords: parsed.keywords || [],
-    tags: parsed.tags || [],
-    title: parsed.title || "Product Video",
-    description: parsed.description || "",
-  };
+  return { ...output.data, prompt: prompt.ref };
 }
 
 // ============================================================================
@@ -746,13 +763,13 @@ function analyzeSentiment(text: string): ProcessedVideoData["sentiment"] {
 // ============================================================================
 
 export function isProcessorReady(): boolean {
-  return !!process.env.OPENAI_API_KEY;
+  return isOfflineProvider() || !!process.env.OPENAI_API_KEY;
 }
 
 export function getProcessorStatus() {
   return {
     ready: isProcessorReady(),
-    version: "2.1.0",
+    version: PROCESSOR_VERSION,
     models: {
       transcription: "whisper-1",
       vision: "gpt-4o",
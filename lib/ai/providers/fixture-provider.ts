@@ -0,0 +1,193 @@
+/**
+ * Record / Replay Providers
+ *
+ * RecordingProvider passes every call to another provider (normally live)
+ * and saves the request/response pair; ReplayProvider serves those pairs
+ * back without any network access.
+ *
+ * Layout (AI_FIXTURES_DIR, default tests/fixtures/ai):
+ *
+ *   <kind>/<key>.json     kind is chat, transcription, search or image
+ *
+ * The key is the SHA-256 of the request with images and audio replaced by
+ * their SHA-256, so the same frames and prompt always hit the same fixture.
+ * Requests are saved alongside responses so fixtures can be read and
+ * edited by hand.
+ */
+
+import { join } from "path";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { hashImage, sha256 } from "@/lib/ai/content-hash";
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResponse,
+  ImageRequest,
+  ImageResponse,
+  MissingFixtureError,
+  ProviderCallKind,
+  SearchRequest,
+  SearchResponse,
+  TranscriptionRequest,
+  TranscriptionResponse,
+} from "./types";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+export interface Fixture<T = unknown> {
+  kind: ProviderCallKind;
+  key: string;
+  request: Record<string, unknown>;
+  response: T;
+  recordedAt: string;
+}
+
+// Images are stored as base64 inside the JSON fixture
+interface StoredImageResponse {
+  status: number;
+  contentType: string;
+  base64: string;
+}
+
+/**
+ * What identifies a call: everything that changes its answer, with binary
+ * inputs hashed and transport options (API keys, retries, timeouts) left out
+ */
+export function canonicalRequest(
+  kind: ProviderCallKind,
+  request: ChatRequest | TranscriptionRequest | SearchRequest | ImageRequest
+): Record<string, unknown> {
+  switch (kind) {
+    case "chat": {
+      const chat = request as ChatRequest;
+      return {
+        provider: chat.provider,
+        model: chat.model,
+        system: chat.system,
+        prompt: chat.prompt,
+        images: (chat.images || []).map((image) => ({ sha256: hashImage(image.data), detail: image.detail })),
+        maxTokens: chat.maxTokens,
+        temperature: chat.temperature,
+        json: !!chat.json,
+      };
+    }
+    case "transcription": {
+      const transcription = request as TranscriptionRequest;
+      return { model: transcription.model, audio: sha256(transcription.audio), prompt: transcription.prompt };
+    }
+    case "search": {
+      const search = request as SearchRequest;
+      return { engine: search.engine, params: search.params };
+    }
+    case "image":
+      return { url: (request as ImageRequest).url };
+  }
+}
+
+export function fixtureKey(canonical: Record<string, unknown>): string {
+  return sha256(JSON.stringify(canonical));
+}
+
+function fixturePath(dir: string, kind: ProviderCallKind, key: string): string {
+  return join(dir, kind, `${key}.json`);
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+export class RecordingProvider implements AIProvider {
+  readonly mode = "record" as const;
+
+  constructor(
+    private readonly inner: AIProvider,
+    private readonly dir: string
+  ) {}
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    return this.record("chat", request, await this.inner.chat(request));
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    return this.record("transcription", request, await this.inner.transcribe(request));
+  }
+
+  async search(request: SearchRequest): Promise<SearchResponse> {
+    return this.record("search", request, await this.inner.search(request));
+  }
+
+  async fetchImage(request: ImageRequest): Promise<ImageResponse> {
+    const response = await this.inner.fetchImage(request);
+    const stored: StoredImageResponse = {
+      status: response.status,
+      contentType: response.contentType,
+      base64: response.data.toString("base64"),
+    };
+    this.write("image", request, stored);
+    return response;
+  }
+
+  private record<T>(
+    kind: ProviderCallKind,
+    request: ChatRequest | TranscriptionRequest | SearchRequest,
+    response: T
+  ): T {
+    this.write(kind, request, response);
+    return response;
+  }
+
+  private write(
+    kind: ProviderCallKind,
+    request: ChatRequest | TranscriptionRequest | SearchRequest | ImageRequest,
+    response: unknown
+  ): void {
+    const canonical = canonicalRequest(kind, request);
+    const key = fixtureKey(canonical);
+    const fixture: Fixture = { kind, key, request: canonical, response, recordedAt: new Date().toISOString() };
+
+    mkdirSync(join(this.dir, kind), { recursive: true });
+    writeFileSync(fixturePath(this.dir, kind, key), JSON.stringify(fixture, null, 2));
+    console.log(`[Providers] Recorded ${kind} fixture ${key.slice(0, 12)}`);
+  }
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+export class ReplayProvider implements AIProvider {
+  readonly mode = "replay" as const;
+
+  constructor(private readonly dir: string) {}
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    return this.read<ChatResponse>("chat", request);
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    return this.read<TranscriptionResponse>("transcription", request);
+  }
+
+  async search(request: SearchRequest): Promise<SearchResponse> {
+    return this.read<SearchResponse>("search", request);
+  }
+
+  async fetchImage(request: ImageRequest): Promise<ImageResponse> {
+    const stored = this.read<StoredImageResponse>("image", request);
+    return { status: stored.status, contentType: stored.contentType, data: Buffer.from(stored.base64, "base64") };
+  }
+
+  private read<T>(
+    kind: ProviderCallKind,
+    request: ChatRequest | TranscriptionRequest | SearchRequest | ImageRequest
+  ): T {
+    const key = fixtureKey(canonicalRequest(kind, request));
+    const path = fixturePath(this.dir, kind, key);
+    if (!existsSync(path)) {
+      throw new MissingFixtureError("replay", kind, key);
+    }
+    return (JSON.parse(readFileSync(path, "utf-8")) as Fixture<T>).response;
+  }
+}
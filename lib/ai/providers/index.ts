@@ -0,0 +1,96 @@
+/**
+ * AI Providers
+ *
+ * Main entry point for external AI calls (chat, Whisper, SerpAPI search,
+ * image downloads). Selects a provider from the environment:
+ *
+ *   AI_PROVIDER_MODE=live    (default) call OpenAI, Gemini and SerpAPI
+ *   AI_PROVIDER_MODE=record  call them and save fixtures to AI_FIXTURES_DIR
+ *   AI_PROVIDER_MODE=replay  serve fixtures from AI_FIXTURES_DIR, no network
+ *   AI_PROVIDER_MODE=mock    serve the scenario file at AI_MOCK_SCENARIO
+ *
+ * Replay and mock need no API keys, so the whole pipeline runs offline
+ * (CI, laptops). The response cache is only used live, so recordings
+ * capture every call and scenarios are never masked by a cached answer.
+ *
+ * Usage:
+ *   const { content } = await getAIProvider().chat({ provider: "openai", model: "gpt-4o", ... });
+ */
+
+import { join } from "path";
+import { RecordingProvider, ReplayProvider } from "./fixture-provider";
+import { LiveProvider } from "./live-provider";
+import { loadMockScenario, MockProvider, MockScenario } from "./mock-provider";
+import { AIProvider, PROVIDER_MODES, ProviderMode } from "./types";
+
+// Re-export types and providers
+export * from "./types";
+export { LiveProvider } from "./live-provider";
+export { RecordingProvider, ReplayProvider, canonicalRequest, fixtureKey } from "./fixture-provider";
+export { MockProvider, loadMockScenario } from "./mock-provider";
+export type { MockCall, MockRule, MockScenario } from "./mock-provider";
+
+export const AI_PROVIDER_CONFIG = {
+  mode: (process.env.AI_PROVIDER_MODE || "live") as ProviderMode,
+  fixturesDir: process.env.AI_FIXTURES_DIR || join(process.cwd(), "tests", "fixtures", "ai"),
+  mockScenario: process.env.AI_MOCK_SCENARIO || "",
+};
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Create a provider by mode (does not touch the shared instance)
+ */
+export function createAIProvider(
+  mode: ProviderMode,
+  options: { fixturesDir?: string; scenario?: MockScenario | string } = {}
+): AIProvider {
+  const fixturesDir = options.fixturesDir || AI_PROVIDER_CONFIG.fixturesDir;
+
+  switch (mode) {
+    case "live":
+      return new LiveProvider();
+    case "record":
+      return new RecordingProvider(new LiveProvider(), fixturesDir);
+    case "replay":
+      return new ReplayProvider(fixturesDir);
+    case "mock": {
+      const scenario = options.scenario || AI_PROVIDER_CONFIG.mockScenario;
+      if (!scenario) {
+        throw new Error("AI_PROVIDER_MODE=mock needs AI_MOCK_SCENARIO (path to a scenario JSON file)");
+      }
+      return new MockProvider(typeof scenario === "string" ? loadMockScenario(scenario) : scenario);
+    }
+    default:
+      throw new Error(`Unknown AI provider mode: ${mode} (expected ${PROVIDER_MODES.join(", ")})`);
+  }
+}
+
+/**
+ * Get the process-wide provider configured by AI_PROVIDER_MODE
+ */
+export function getAIProvider(): AIProvider {
+  if (!activeProvider) {
+    activeProvider = createAIProvider(AI_PROVIDER_CONFIG.mode);
+    if (activeProvider.mode !== "live") {
+      console.log(`[Providers] AI calls served in ${activeProvider.mode} mode`);
+    }
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the process-wide provider (scripts and tests)
+ */
+export function setAIProvider(provider: AIProvider): void {
+  activeProvider = provider;
+}
+
+/**
+ * Whether calls are served without the network (replay, mock), so API
+ * keys are not needed
+ */
+export function isOfflineProvider(): boolean {
+  const mode = getAIProvider().mode;
+  return mode === "replay" || mode === "mock";
+}
@@ -0,0 +1,183 @@
+/**
+ * Live AI Provider
+ *
+ * Calls OpenAI (chat, Whisper), Gemini and SerpAPI for real. Clients are
+ * created on first use, so importing the pipeline without API keys (replay
+ * and mock modes) never fails.
+ */
+
+import OpenAI, { toFile } from "openai";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { SHOPPING_CONFIG } from "@/lib/shopping/config";
+import type {
+  AIProvider,
+  ChatImage,
+  ChatRequest,
+  ChatResponse,
+  ImageRequest,
+  ImageResponse,
+  SearchRequest,
+  SearchResponse,
+  TranscriptionRequest,
+  TranscriptionResponse,
+} from "./types";
+
+export class LiveProvider implements AIProvider {
+  readonly mode = "live" as const;
+  private openaiClient: OpenAI | null = null;
+  private geminiClient: GoogleGenerativeAI | null = null;
+
+  private get openai(): OpenAI {
+    if (!this.openaiClient) {
+      this.openaiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    }
+    return this.openaiClient;
+  }
+
+  private get gemini(): GoogleGenerativeAI {
+    if (!this.geminiClient) {
+      this.geminiClient = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || "");
+    }
+    return this.geminiClient;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    return request.provider === "openai" ? this.chatOpenAI(request) : this.chatGemini(request);
+  }
+
+  private async chatOpenAI(request: ChatRequest): Promise<ChatResponse> {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+    if (request.system) {
+      messages.push({ role: "system", content: request.system });
+    }
+    messages.push({
+      role: "user",
+      content: request.images?.length
+        ? [
+            { type: "text", text: request.prompt },
+            ...request.images.map((image) => ({
+              type: "image_url" as const,
+              image_url: { url: imageUrl(image), detail: image.detail || "auto" },
+            })),
+          ]
+        : request.prompt,
+    });
+
+    const response = await this.openai.chat.completions.create(
+      {
+        model: request.model,
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+      },
+      request.retry === false ? { maxRetries: 0 } : undefined
+    );
+
+    return {
+      content: response.choices[0]?.message?.content ?? null,
+      inputTokens: response.usage?.prompt_tokens || 0,
+      outputTokens: response.usage?.completion_tokens || 0,
+    };
+  }
+
+  private async chatGemini(request: ChatRequest): Promise<ChatResponse> {
+    const model = this.gemini.getGenerativeModel({
+      model: request.model,
+      systemInstruction: request.system,
+      generationConfig: {
+        ...(request.json ? { responseMimeType: "application/json" } : {}),
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+      },
+    });
+
+    const imageParts = (request.images || []).map((image) => ({ inlineData: inlineImage(image) }));
+    const result = await model.generateContent(imageParts.length ? [request.prompt, ...imageParts] : request.prompt);
+    const response = result.response;
+    const content = response.text();
+
+    // Gemini doesn't always return exact counts: ~4 characters per token, ~500 per image
+    const usage = response.usageMetadata;
+    return {
+      content,
+      inputTokens:
+        usage?.promptTokenCount ||
+        estimateTokens((request.system || "") + request.prompt) + imageParts.length * 500,
+      outputTokens: usage?.candidatesTokenCount || estimateTokens(content),
+      estimatedUsage: !usage?.promptTokenCount || !usage?.candidatesTokenCount,
+    };
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    const file = await toFile(request.audio, "audio.mp3", { type: "audio/mpeg" });
+    const response = await this.openai.audio.transcriptions.create({
+      file,
+      model: request.model,
+      response_format: "verbose_json",
+      prompt: request.prompt,
+    });
+
+    return {
+      text: response.text,
+      language: response.language,
+      duration: response.duration,
+      segments: response.segments?.map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text,
+      })),
+    };
+  }
+
+  async search(request: SearchRequest): Promise<SearchResponse> {
+    const params = new URLSearchParams({
+      engine: request.engine,
+      ...request.params,
+      api_key: request.apiKey || SHOPPING_CONFIG.serpApiKey,
+    });
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), request.timeoutMs || SHOPPING_CONFIG.requestTimeoutMs);
+    try {
+      const response = await fetch(`${SHOPPING_CONFIG.serpApiUrl}?${params}`, { signal: controller.signal });
+      const body = (await response.json().catch(() => ({}))) as Record<string, unknown>;
+      return { status: response.status, body };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async fetchImage(request: ImageRequest): Promise<ImageResponse> {
+    const response = await fetch(request.url);
+    return {
+      status: response.status,
+      contentType: response.headers.get("content-type") || "image/jpeg",
+      data: Buffer.from(await response.arrayBuffer()),
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function imageUrl(image: ChatImage): string {
+  return Buffer.isBuffer(image.data) ? `data:image/jpeg;base64,${image.data.toString("base64")}` : image.data;
+}
+
+function inlineImage(image: ChatImage): { mimeType: string; data: string } {
+  if (Buffer.isBuffer(image.data)) {
+    return { mimeType: "image/jpeg", data: image.data.toString("base64") };
+  }
+
+  const dataUrl = image.data.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!dataUrl) {
+    throw new Error("Gemini images must be buffers or data URLs");
+  }
+  return { mimeType: dataUrl[1], data: dataUrl[2] };
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,159 @@
+/**
+ * Scripted Mock Provider
+ *
+ * Serves hand-written scenarios: an ordered list of rules, the first rule
+ * matching a call answers it. A scenario file (AI_MOCK_SCENARIO) looks like:
+ *
+ *   {
+ *     "name": "one dress, gpt-4o rate limited",
+ *     "rules": [
+ *       { "kind": "chat", "match": { "model": "gpt-4o" }, "error": { "status": 429 }, "times": 3 },
+ *       { "kind": "chat", "match": { "includes": "product detector" },
+ *         "response": { "products": [{ "name": "Red wrap dress" }] } },
+ *       { "kind": "transcription", "response": { "text": "Loving this dress", "language": "en", "duration": 12 } },
+ *       { "kind": "search", "response": { "shopping_results": [] } }
+ *     ]
+ *   }
+ *
+ * Chat responses may be a string or any JSON value (sent as its JSON text).
+ * Image responses are { contentType, base64 }. A call no rule matches fails
+ * with MissingFixtureError.
+ */
+
+import { readFileSync } from "fs";
+import {
+  AIProvider,
+  ChatRequest,
+  ChatResponse,
+  ImageRequest,
+  ImageResponse,
+  MissingFixtureError,
+  MockProviderError,
+  ProviderCallKind,
+  SearchRequest,
+  SearchResponse,
+  TranscriptionRequest,
+  TranscriptionResponse,
+} from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MockRule {
+  kind: ProviderCallKind;
+  match?: {
+    provider?: string; // chat: "openai" | "google"
+    model?: string;
+    includes?: string; // Substring of the prompt (chat, transcription), query params (search) or URL (image)
+  };
+  response?: unknown;
+  usage?: { inputTokens: number; outputTokens: number }; // chat
+  error?: { status: number; message?: string };
+  times?: number; // Answer this many calls, then stop matching
+}
+
+export interface MockScenario {
+  name?: string;
+  rules: MockRule[];
+}
+
+export interface MockCall {
+  kind: ProviderCallKind;
+  rule: number | null; // Index of the rule that answered, null when none matched
+  summary: string;
+}
+
+interface CallInfo {
+  kind: ProviderCallKind;
+  provider?: string;
+  model?: string;
+  text: string;
+}
+
+/**
+ * Read a scenario file
+ */
+export function loadMockScenario(path: string): MockScenario {
+  const scenario = JSON.parse(readFileSync(path, "utf-8")) as MockScenario;
+  if (!Array.isArray(scenario.rules)) {
+    throw new Error(`Mock scenario ${path} has no rules`);
+  }
+  return scenario;
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export class MockProvider implements AIProvider {
+  readonly mode = "mock" as const;
+  readonly calls: MockCall[] = []; // Every call in order, for assertions
+  private readonly used: number[];
+
+  constructor(private readonly scenario: MockScenario) {
+    this.used = scenario.rules.map(() => 0);
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const rule = this.answer({
+      kind: "chat",
+      provider: request.provider,
+      model: request.model,
+      text: `${request.system || ""}\n${request.prompt}`,
+    });
+    const content = typeof rule.response === "string" ? rule.response : JSON.stringify(rule.response ?? {});
+
+    return {
+      content,
+      inputTokens: rule.usage?.inputTokens || 0,
+      outputTokens: rule.usage?.outputTokens || 0,
+    };
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    const rule = this.answer({ kind: "transcription", model: request.model, text: request.prompt || "" });
+    return { text: "", ...(rule.response as Partial<TranscriptionResponse>) };
+  }
+
+  async search(request: SearchRequest): Promise<SearchResponse> {
+    const rule = this.answer({ kind: "search", text: JSON.stringify(request.params) });
+    return { status: 200, body: (rule.response as Record<string, unknown>) || {} };
+  }
+
+  async fetchImage(request: ImageRequest): Promise<ImageResponse> {
+    const rule = this.answer({ kind: "image", text: request.url });
+    const image = (rule.response || {}) as { contentType?: string; base64?: string };
+    return {
+      status: 200,
+      contentType: image.contentType || "image/jpeg",
+      data: Buffer.from(image.base64 || "", "base64"),
+    };
+  }
+
+  /**
+   * First unexhausted rule matching the call; throws its scripted error
+   */
+  private answer(call: CallInfo): MockRule {
+    const summary = [call.provider, call.model, call.text.slice(0, 80)].filter(Boolean).join(" ");
+    const index = this.scenario.rules.findIndex((rule, i) => {
+      if (rule.kind !== call.kind) return false;
+      if (rule.times !== undefined && this.used[i] >= rule.times) return false;
+      if (rule.match?.provider && rule.match.provider !== call.provider) return false;
+      if (rule.match?.model && rule.match.model !== call.model) return false;
+      return !rule.match?.includes || call.text.includes(rule.match.includes);
+    });
+
+    this.calls.push({ kind: call.kind, rule: index === -1 ? null : index, summary });
+    if (index === -1) {
+      throw new MissingFixtureError("mock", call.kind, summary);
+    }
+
+    this.used[index]++;
+    const rule = this.scenario.rules[index];
+    if (rule.error) {
+      throw new MockProviderError(rule.error.status, rule.error.message || `Mock ${call.kind} error ${rule.error.status}`);
+    }
+    return rule;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * AI Provider Types
+ *
+ * Provider-neutral requests and responses for every external call the AI
+ * pipeline makes. Call sites (ModelRouter, the processor, extractors, the
+ * product matcher and shopping search) only talk to these, so a call can
+ * be served live, recorded, replayed from a fixture or scripted.
+ */
+
+// ============================================================================
+// Modes
+// ============================================================================
+
+/**
+ * live    call OpenAI, Gemini and SerpAPI
+ * record  call them and save each request/response pair as a fixture
+ * replay  serve saved fixtures only; a call without one fails
+ * mock    serve responses from a hand-written scenario
+ */
+export type ProviderMode = "live" | "record" | "replay" | "mock";
+
+export const PROVIDER_MODES: ProviderMode[] = ["live", "record", "replay", "mock"];
+
+export type ProviderCallKind = "chat" | "transcription" | "search" | "image";
+
+// ============================================================================
+// Requests and Responses
+// ============================================================================
+
+export interface ChatImage {
+  data: Buffer | string; // Buffer, image URL or data URL
+  detail?: "high" | "low" | "auto"; // OpenAI only
+}
+
+/**
+ * One chat completion, with or without images
+ */
+export interface ChatRequest {
+  provider: "openai" | "google";
+  model: string; // API model name, e.g. "gpt-4o", "gemini-2.0-flash"
+  system?: string;
+  prompt: string;
+  images?: ChatImage[];
+  maxTokens: number;
+  temperature: number;
+  json?: boolean; // Ask for a JSON object response
+  retry?: boolean; // Let the SDK retry transient errors itself (default true)
+}
+
+export interface ChatResponse {
+  content: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedUsage?: boolean; // Provider returned no token counts
+}
+
+export interface TranscriptionRequest {
+  model: string; // e.g. "whisper-1"
+  audio: Buffer; // MP3
+  prompt?: string;
+}
+
+export interface TranscriptionResponse {
+  text: string;
+  language?: string;
+  duration?: number; // Seconds
+  segments?: Array<{ start: number; end: number; text: string }>;
+}
+
+/**
+ * A SerpAPI search. The API key defaults to SERP_API_KEY and is never
+ * written to fixtures.
+ */
+export interface SearchRequest {
+  engine: string; // e.g. "google_shopping"
+  params: Record<string, string>;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+export interface SearchResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+/**
+ * An image download, e.g. a shopping candidate's thumbnail
+ */
+export interface ImageRequest {
+  url: string;
+}
+
+export interface ImageResponse {
+  status: number;
+  contentType: string;
+  data: Buffer;
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+export interface AIProvider {
+  readonly mode: ProviderMode;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse>;
+  search(request: SearchRequest): Promise<SearchResponse>;
+  fetchImage(request: ImageRequest): Promise<ImageResponse>;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Replay or mock mode has no response for a call. Permanent: retrying
+ * cannot produce one.
+ */
+export class MissingFixtureError extends Error {
+  constructor(
+    readonly mode: ProviderMode,
+    readonly kind: ProviderCallKind,
+    readonly key: string
+  ) {
+    super(
+      mode === "replay"
+        ? `No recorded ${kind} fixture for ${key} (record it with AI_PROVIDER_MODE=record)`
+        : `Mock scenario has no ${kind} response for ${key}`
+    );
+    this.name = "MissingFixtureError";
+  }
+}
+
+/**
+ * A scripted provider error, e.g. a 429 to exercise fallback. Carries an
+ * HTTP status like the SDK errors it stands in for.
+ */
+export class MockProviderError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "MockProviderError";
+  }
+}
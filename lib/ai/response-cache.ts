@@ -0,0 +1,374 @@
+/**
+ * Model Response Cache
+ *
+ * Content-addressed cache for model calls, so re-running the same frames,
+ * product thumbnails or benchmark scripts does not pay for identical
+ * GPT-4o / Gemini calls twice.
+ *
+ * A response is keyed on the SHA-256 of:
+ * - the model that served it
+ * - the prompt template version (bump it when a prompt or its parsing
+ *   changes meaning without the prompt text changing)
+ * - the rendered prompt text and sampling parameters
+ * - the SHA-256 of each image, in order
+ *
+ * Layout (MODEL_CACHE_DIR, default data/model-cache):
+ *
+ *   <key[0..2]>/<key>.json     one response, with its usage and expiry
+ *
+ * Entries expire after MODEL_CACHE_TTL_MS (per call overridable) and are
+ * deleted when next read. Hit, miss and cost-saved counters are per process.
+ *
+ * The cache is only used with the live AI provider (lib/ai/providers), so
+ * record, replay and mock runs always reach their provider.
+ */
+
+import { join } from "path";
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { DATA_DIR } from "@/lib/db";
+import { hashImage, sha256 } from "./content-hash";
+import { ChatRequest, ChatResponse, getAIProvider } from "./providers";
+
+export { hashImage } from "./content-hash";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const RESPONSE_CACHE_CONFIG = {
+  enabled: process.env.MODEL_CACHE_ENABLED !== "false",
+  dir: process.env.MODEL_CACHE_DIR || join(DATA_DIR, "model-cache"),
+  ttlMs: parseInt(process.env.MODEL_CACHE_TTL_MS || String(7 * 24 * 60 * 60 * 1000)), // 7 days
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CacheKeyInput {
+  model: string;
+  promptVersion: string;
+  prompt: string | string[]; // Rendered prompt parts, e.g. [system, user]
+  images?: Array<Buffer | string>; // Buffers or image URLs (data URLs are decoded)
+  params?: Record<string, unknown>; // Sampling parameters, schema
+}
+
+export interface CachedResponse<T> {
+  key: string;
+  model: string;
+  task: string;
+  promptVersion: string;
+  data: T;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number; // What the original call cost, i.e. what each hit saves
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface CacheCounters {
+  hits: number;
+  misses: number;
+  costSavedUSD: number;
+}
+
+export interface ResponseCacheStats extends CacheCounters {
+  enabled: boolean;
+  dir: string;
+  ttlMs: number;
+  writes: number;
+  expired: number;
+  hitRate: number;
+  byTask: Record<string, CacheCounters>;
+}
+
+interface CacheMetrics extends CacheCounters {
+  writes: number;
+  expired: number;
+  byTask: Record<string, CacheCounters>;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForCache = globalThis as unknown as { velolumeResponseCacheMetrics?: CacheMetrics };
+
+function metrics(): CacheMetrics {
+  if (!globalForCache.velolumeResponseCacheMetrics) {
+    globalForCache.velolumeResponseCacheMetrics = emptyMetrics();
+  }
+  return globalForCache.velolumeResponseCacheMetrics;
+}
+
+function emptyMetrics(): CacheMetrics {
+  return { hits: 0, misses: 0, costSavedUSD: 0, writes: 0, expired: 0, byTask: {} };
+}
+
+function taskCounters(task: string): CacheCounters {
+  const byTask = metrics().byTask;
+  if (!byTask[task]) {
+    byTask[task] = { hits: 0, misses: 0, costSavedUSD: 0 };
+  }
+  return byTask[task];
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Content-addressed key for a model call
+ */
+export function responseCacheKey(input: CacheKeyInput): string {
+  return sha256(
+    JSON.stringify({
+      model: input.model,
+      promptVersion: input.promptVersion,
+      prompt: Array.isArray(input.prompt) ? input.prompt.map(sha256) : [sha256(input.prompt)],
+      images: (input.images || []).map(hashImage),
+      params: input.params || {},
+    })
+  );
+}
+
+function isCacheActive(): boolean {
+  return RESPONSE_CACHE_CONFIG.enabled && getAIProvider().mode === "live";
+}
+
+function entryPath(key: string): string {
+  return join(RESPONSE_CACHE_CONFIG.dir, key.slice(0, 2), `${key}.json`);
+}
+
+// ============================================================================
+// Disk Backend
+// ============================================================================
+
+/**
+ * Cached response for a key, counting a hit or miss for the task.
+ * Expired and unreadable entries are deleted and count as misses, as do
+ * entries `accept` rejects (e.g. answers that no longer pass validation).
+ */
+export function getCachedResponse<T>(
+  key: string,
+  task: string,
+  accept?: (data: T) => boolean
+): CachedResponse<T> | null {
+  if (!isCacheActive()) return null;
+
+  const entry = readEntry<T>(key);
+  const counters = taskCounters(task);
+
+  if (!entry || (accept && !accept(entry.data))) {
+    metrics().misses++;
+    counters.misses++;
+    return null;
+  }
+
+  metrics().hits++;
+  metrics().costSavedUSD += entry.costUSD;
+  counters.hits++;
+  counters.costSavedUSD += entry.costUSD;
+  return entry;
+}
+
+/**
+ * Store a response under its key
+ */
+export function setCachedResponse<T>(
+  entry: Omit<CachedResponse<T>, "createdAt" | "expiresAt">,
+  ttlMs: number = RESPONSE_CACHE_CONFIG.ttlMs
+): void {
+  if (!isCacheActive() || ttlMs <= 0) return;
+
+  const now = Date.now();
+  const path = entryPath(entry.key);
+  const stored: CachedResponse<T> = {
+    ...entry,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+  };
+
+  try {
+    mkdirSync(join(RESPONSE_CACHE_CONFIG.dir, entry.key.slice(0, 2)), { recursive: true });
+    // Write then rename, so a concurrent reader never sees half a file
+    writeFileSync(`${path}.tmp`, JSON.stringify(stored));
+    renameSync(`${path}.tmp`, path);
+    metrics().writes++;
+  } catch (error) {
+    // A cache that cannot be written only costs money, never the call
+    console.warn(`[ResponseCache] Failed to write ${entry.key}:`, error);
+  }
+}
+
+function readEntry<T>(key: string, now: number = Date.now()): CachedResponse<T> | null {
+  const path = entryPath(key);
+  if (!existsSync(path)) return null;
+
+  try {
+    const entry = JSON.parse(readFileSync(path, "utf-8")) as CachedResponse<T>;
+    if (new Date(entry.expiresAt).getTime() > now) {
+      return entry;
+    }
+    metrics().expired++;
+  } catch (error) {
+    console.warn(`[ResponseCache] Ignoring unreadable entry ${key}:`, error);
+  }
+
+  rmSync(path, { force: true });
+  return null;
+}
+
+/**
+ * Delete expired entries. Returns how many were removed.
+ */
+export function pruneResponseCache(now: number = Date.now()): number {
+  let removed = 0;
+
+  for (const key of listKeys()) {
+    const path = entryPath(key);
+    try {
+      const entry = JSON.parse(readFileSync(path, "utf-8")) as CachedResponse<unknown>;
+      if (new Date(entry.expiresAt).getTime() > now) continue;
+    } catch {
+      // Unreadable entries are removed too
+    }
+    rmSync(path, { force: true });
+    removed++;
+  }
+
+  return removed;
+}
+
+/**
+ * Delete every entry (the counters are kept)
+ */
+export function clearResponseCache(): void {
+  rmSync(RESPONSE_CACHE_CONFIG.dir, { recursive: true, force: true });
+}
+
+function listKeys(): string[] {
+  if (!existsSync(RESPONSE_CACHE_CONFIG.dir)) return [];
+
+  return readdirSync(RESPONSE_CACHE_CONFIG.dir).flatMap((shard) => {
+    const shardDir = join(RESPONSE_CACHE_CONFIG.dir, shard);
+    try {
+      return readdirSync(shardDir)
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => file.slice(0, -".json".length));
+    } catch {
+      return [];
+    }
+  });
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * Hit, miss and cost-saved counters since the process started
+ */
+export function getResponseCacheStats(): ResponseCacheStats {
+  const { hits, misses, costSavedUSD, writes, expired, byTask } = metrics();
+
+  return {
+    enabled: RESPONSE_CACHE_CONFIG.enabled,
+    dir: RESPONSE_CACHE_CONFIG.dir,
+    ttlMs: RESPONSE_CACHE_CONFIG.ttlMs,
+    hits,
+    misses,
+    writes,
+    expired,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+    costSavedUSD: roundSaved(costSavedUSD),
+    byTask: Object.fromEntries(
+      Object.entries(byTask).map(([task, counters]) => [
+        task,
+        { ...counters, costSavedUSD: roundSaved(counters.costSavedUSD) },
+      ])
+    ),
+  };
+}
+
+/**
+ * Zero the counters (tests)
+ */
+export function resetResponseCacheStats(): void {
+  globalForCache.velolumeResponseCacheMetrics = emptyMetrics();
+}
+
+function roundSaved(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// ============================================================================
+// Direct Chat Calls
+// ============================================================================
+
+export interface CachedChat extends ChatResponse {
+  cached: boolean;
+  costSaved: number; // Cost of the original call, when served from cache
+}
+
+/**
+ * A chat call through the AI provider for modules that call a model
+ * directly rather than through ModelRouter, served from the cache when
+ * the same model, prompt version, prompt text and images were seen before.
+ * With `accept`, only answers it approves (e.g. valid JSON) are cached.
+ */
+export async function cachedChat(
+  request: ChatRequest,
+  options: {
+    task: string;
+    promptVersion: string;
+    ttlMs?: number;
+    costOf?: (inputTokens: number, outputTokens: number) => number;
+    accept?: (content: string) => boolean;
+  }
+): Promise<CachedChat> {
+  const key = responseCacheKey({
+    model: request.model,
+    promptVersion: options.promptVersion,
+    prompt: [request.system || "", request.prompt],
+    images: (request.images || []).map((image) => image.data),
+    params: {
+      details: (request.images || []).map((image) => image.detail || "auto"),
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      json: !!request.json,
+    },
+  });
+
+  const accept = options.accept;
+  const hit = getCachedResponse<string | null>(
+    key,
+    options.task,
+    accept ? (content) => content !== null && accept(content) : undefined
+  );
+  if (hit) {
+    return {
+      content: hit.data,
+      inputTokens: hit.inputTokens,
+      outputTokens: hit.outputTokens,
+      cached: true,
+      costSaved: hit.costUSD,
+    };
+  }
+
+  const response = await getAIProvider().chat(request);
+  if (response.content !== null && (!options.accept || options.accept(response.content))) {
+    setCachedResponse(
+      {
+        key,
+        model: request.model,
+        task: options.task,
+        promptVersion: options.promptVersion,
+        data: response.content,
+        inputTokens: response.inputTokens,
+        outputTokens: response.outputTokens,
+        costUSD: options.costOf ? options.costOf(response.inputTokens, response.outputTokens) : 0,
+      },
+      options.ttlMs
+    );
+  }
+
+  return { ...response, cached: false, costSaved: 0 };
+}
@@ -0,0 +1,215 @@
+/**
+ * Run Diff
+ *
+ * Structured comparison of two processing runs of the same video, so an
+ * operator can see what a newer processor or prompt changed before the
+ * new run replaces the live store.
+ *
+ * Products are matched by normalized name within a category (falling back
+ * to name alone, for products whose category was reclassified). Unmatched
+ * products are reported as added or removed.
+ */
+
+import type { ProductData } from "./processor";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The parts of a run that are compared
+ */
+export interface RunResult {
+  processorVersion?: string;
+  products: ProductData[];
+  seo?: {
+    title: string;
+    description: string;
+    keywords: string[];
+    tags: string[];
+  };
+}
+
+export interface AttributeChange {
+  field: keyof ProductData;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ProductChange {
+  name: string;
+  category: string;
+  changes: AttributeChange[];
+  confidenceDelta: number; // after - before
+}
+
+export interface ProductSummary {
+  name: string;
+  category: string;
+  confidence: number;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+}
+
+export interface RunDiff {
+  fromVersion?: string;
+  toVersion?: string;
+  products: {
+    added: ProductSummary[];
+    removed: ProductSummary[];
+    changed: ProductChange[];
+    unchanged: number;
+  };
+  seo: {
+    title?: { before: string; after: string };
+    description?: { before: string; after: string };
+    keywords: ListChange;
+    tags: ListChange;
+  };
+  hasChanges: boolean;
+}
+
+// Compared product attributes (evidence fields change on every run and are ignored)
+const COMPARED_FIELDS: (keyof ProductData)[] = [
+  "category",
+  "subcategory",
+  "colors",
+  "material",
+  "style",
+  "pattern",
+  "brand",
+  "location",
+  "description",
+  "estimatedPriceUSD",
+  "identifiability",
+];
+
+// Confidence moves smaller than this are noise, not a change
+const CONFIDENCE_EPSILON = 0.01;
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+/**
+ * Compare a candidate run against the base run
+ */
+export function diffRuns(base: RunResult, candidate: RunResult): RunDiff {
+  const products = diffProducts(base.products, candidate.products);
+
+  const seoBefore = base.seo;
+  const seoAfter = candidate.seo;
+  const seo: RunDiff["seo"] = {
+    keywords: diffList(seoBefore?.keywords || [], seoAfter?.keywords || []),
+    tags: diffList(seoBefore?.tags || [], seoAfter?.tags || []),
+  };
+  if ((seoBefore?.title || "") !== (seoAfter?.title || "")) {
+    seo.title = { before: seoBefore?.title || "", after: seoAfter?.title || "" };
+  }
+  if ((seoBefore?.description || "") !== (seoAfter?.description || "")) {
+    seo.description = { before: seoBefore?.description || "", after: seoAfter?.description || "" };
+  }
+
+  const hasChanges =
+    products.added.length > 0 ||
+    products.removed.length > 0 ||
+    products.changed.length > 0 ||
+    seo.title !== undefined ||
+    seo.description !== undefined ||
+    seo.keywords.added.length + seo.keywords.removed.length > 0 ||
+    seo.tags.added.length + seo.tags.removed.length > 0;
+
+  return {
+    fromVersion: base.processorVersion,
+    toVersion: candidate.processorVersion,
+    products,
+    seo,
+    hasChanges,
+  };
+}
+
+function diffProducts(before: ProductData[], after: ProductData[]): RunDiff["products"] {
+  const unmatched = [...before];
+  const result: RunDiff["products"] = { added: [], removed: [], changed: [], unchanged: 0 };
+
+  for (const product of after) {
+    const index = findMatch(unmatched, product);
+    if (index === -1) {
+      result.added.push(summarize(product));
+      continue;
+    }
+
+    const [previous] = unmatched.splice(index, 1);
+    const changes = COMPARED_FIELDS.filter((field) => !sameValue(previous[field], product[field])).map(
+      (field) => ({ field, before: previous[field], after: product[field] })
+    );
+    const confidenceDelta = round(product.confidence - previous.confidence);
+
+    if (changes.length > 0 || Math.abs(confidenceDelta) >= CONFIDENCE_EPSILON) {
+      result.changed.push({ name: product.name, category: product.category, changes, confidenceDelta });
+    } else {
+      result.unchanged++;
+    }
+  }
+
+  result.removed = unmatched.map(summarize);
+  return result;
+}
+
+/**
+ * Same product in the other run: same name and category, else same name
+ */
+export function findMatch(products: Pick<ProductData, "name" | "category">[], product: ProductData): number {
+  const name = normalizeName(product.name);
+  const exact = products.findIndex(
+    (candidate) => normalizeName(candidate.name) === name && candidate.category === product.category
+  );
+  return exact !== -1 ? exact : products.findIndex((candidate) => normalizeName(candidate.name) === name);
+}
+
+function diffList(before: string[], after: string[]): ListChange {
+  const beforeSet = new Set(before.map((item) => item.toLowerCase()));
+  const afterSet = new Set(after.map((item) => item.toLowerCase()));
+  return {
+    added: after.filter((item) => !beforeSet.has(item.toLowerCase())),
+    removed: before.filter((item) => !afterSet.has(item.toLowerCase())),
+  };
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const left = a.map(String).map((item) => item.toLowerCase()).sort();
+    const right = b.map(String).map((item) => item.toLowerCase()).sort();
+    return left.length === right.length && left.every((item, index) => item === right[index]);
+  }
+  return (a ?? null) === (b ?? null);
+}
+
+function summarize(product: ProductData): ProductSummary {
+  return { name: product.name, category: product.category, confidence: product.confidence };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Compare dotted version strings ("2.1.0" < "2.10.0")
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map((part) => parseInt(part) || 0);
+  const right = b.split(".").map((part) => parseInt(part) || 0);
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
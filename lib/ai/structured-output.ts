@@ -0,0 +1,203 @@
+/**
+ * Structured Model Output
+ *
+ * Parses and validates a model's JSON answer against its task's output
+ * schema (output-schema.ts). An answer that is not JSON or does not match
+ * is sent back to the model with the list of problems, up to
+ * MODEL_REPAIR_ATTEMPTS times; after that the call fails with
+ * OutputValidationError instead of falling back to default values.
+ *
+ * Per-task counters (valid first time, repaired, failed, last problems)
+ * are exposed through GET /api/ai.
+ *
+ * Usage:
+ *   const { data } = await validatedChat(request, HOOK_OUTPUT, {
+ *     task: "hook_extraction",
+ *     send: (req) => getAIProvider().chat(req),
+ *   });
+ */
+
+import { formatIssues, OutputSchema, validateOutput, ValidationIssue, ValidationResult } from "./output-schema";
+import type { ChatRequest, ChatResponse } from "./providers";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const OUTPUT_VALIDATION_CONFIG = {
+  repairAttempts: parseInt(process.env.MODEL_REPAIR_ATTEMPTS || "2"), // Re-asks after the first answer
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ValidatedChat<T> {
+  data: T;
+  inputTokens: number; // Summed over every attempt
+  outputTokens: number;
+  repairs: number; // Re-asks it took
+}
+
+export interface OutputValidationCounters {
+  calls: number;
+  valid: number; // Valid on the first answer
+  repaired: number; // Valid after one or more re-asks
+  failed: number; // Still invalid after the last re-ask
+  invalidAnswers: number; // Every answer that failed validation
+  lastIssues: ValidationIssue[];
+  lastFailureAt: string | null;
+}
+
+export interface OutputValidationStats {
+  repairAttempts: number;
+  byTask: Record<string, OutputValidationCounters>;
+}
+
+/**
+ * Thrown when a model's answer still fails its schema after the last
+ * re-ask. Carries the tokens spent so the caller can still bill them.
+ */
+export class OutputValidationError extends Error {
+  constructor(
+    readonly task: string,
+    readonly issues: ValidationIssue[],
+    readonly repairs: number,
+    readonly inputTokens: number,
+    readonly outputTokens: number
+  ) {
+    super(`Invalid ${task} output after ${repairs} repairs: ${summarizeIssues(issues)}`);
+    this.name = "OutputValidationError";
+  }
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForValidation = globalThis as unknown as {
+  velolumeOutputValidationMetrics?: Record<string, OutputValidationCounters>;
+};
+
+function taskCounters(task: string): OutputValidationCounters {
+  if (!globalForValidation.velolumeOutputValidationMetrics) {
+    globalForValidation.velolumeOutputValidationMetrics = {};
+  }
+  const byTask = globalForValidation.velolumeOutputValidationMetrics;
+  if (!byTask[task]) {
+    byTask[task] = { calls: 0, valid: 0, repaired: 0, failed: 0, invalidAnswers: 0, lastIssues: [], lastFailureAt: null };
+  }
+  return byTask[task];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a model's raw answer and validate it; malformed JSON is an issue
+ * at the root like any other
+ */
+export function parseModelOutput<T>(content: string | null, outputSchema: OutputSchema<T>): ValidationResult<T> {
+  if (!content || !content.trim()) {
+    return { ok: false, issues: [{ path: "$", message: "expected a JSON object, got an empty response" }] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { ok: false, issues: [{ path: "$", message: `response is not valid JSON (${reason})` }] };
+  }
+  return validateOutput(outputSchema, parsed);
+}
+
+/**
+ * The original prompt followed by the rejected answer and what was wrong
+ * with it
+ */
+export function repairPrompt(prompt: string, content: string | null, issues: ValidationIssue[]): string {
+  const previous = (content || "").slice(0, 4000);
+
+  return `${prompt}
+
+Your previous response did not match the required JSON format:
+${previous}
+
+Problems:
+${formatIssues(issues)}
+
+Respond again with the complete corrected JSON only.`;
+}
+
+// ============================================================================
+// Repair Loop
+// ============================================================================
+
+/**
+ * Send a chat request and validate the answer, re-asking with the
+ * validation problems until it passes or the repair attempts run out
+ */
+export async function validatedChat<T>(
+  request: ChatRequest,
+  outputSchema: OutputSchema<T>,
+  options: { task: string; send: (request: ChatRequest) => Promise<ChatResponse>; repairAttempts?: number }
+): Promise<ValidatedChat<T>> {
+  const maxRepairs = options.repairAttempts ?? OUTPUT_VALIDATION_CONFIG.repairAttempts;
+  const counters = taskCounters(options.task);
+  counters.calls++;
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let current = request;
+
+  for (let repairs = 0; ; repairs++) {
+    const response = await options.send(current);
+    inputTokens += response.inputTokens;
+    outputTokens += response.outputTokens;
+
+    const result = parseModelOutput(response.content, outputSchema);
+    if (result.ok) {
+      if (repairs === 0) counters.valid++;
+      else counters.repaired++;
+      return { data: result.value, inputTokens, outputTokens, repairs };
+    }
+
+    counters.invalidAnswers++;
+    counters.lastIssues = result.issues.slice(0, 20);
+    console.warn(
+      `[StructuredOutput] Invalid ${options.task} output (attempt ${repairs + 1}/${maxRepairs + 1}): ${summarizeIssues(result.issues)}`
+    );
+
+    if (repairs >= maxRepairs) {
+      counters.failed++;
+      counters.lastFailureAt = new Date().toISOString();
+      throw new OutputValidationError(options.task, result.issues, repairs, inputTokens, outputTokens);
+    }
+    current = { ...request, prompt: repairPrompt(request.prompt, response.content, result.issues) };
+  }
+}
+
+function summarizeIssues(issues: ValidationIssue[]): string {
+  const shown = issues.slice(0, 3).map((issue) => `${issue.path}: ${issue.message}`);
+  return issues.length > 3 ? `${shown.join("; ")} (+${issues.length - 3} more)` : shown.join("; ");
+}
+
+// ============================================================================
+// Metrics
+// ============================================================================
+
+/**
+ * Validation counters per task since the process started
+ */
+export function getOutputValidationStats(): OutputValidationStats {
+  return {
+    repairAttempts: OUTPUT_VALIDATION_CONFIG.repairAttempts,
+    byTask: { ...(globalForValidation.velolumeOutputValidationMetrics || {}) },
+  };
+}
+
+/**
+ * Zero the counters (tests)
+ */
+export function resetOutputValidationStats(): void {
+  globalForValidation.velolumeOutputValidationMetrics = {};
+}
@@ -0,0 +1,165 @@
+/**
+ * Persistence Layer
+ *
+ * Main entry point for storage. Selects a driver from the environment:
+ *
+ *   PERSISTENCE_DRIVER=json    (default) data/*.json files
+ *   PERSISTENCE_DRIVER=sqlite  embedded SQLite at SQLITE_PATH (default data/velolume.db)
+ *
+ * Usage:
+ *   const jobs = getPersistence().collection<VideoJob>("jobs");
+ *   jobs.update(id, (job) => ({ ...job, status: "completed" }));
+ */
+
+import { join } from "path";
+import { JsonDriver } from "./json-driver";
+import { SqliteDriver } from "./sqlite-driver";
+import { CollectionName, DriverName, EventLogName, LoggedEvent, PersistenceDriver } from "./types";
+
+// Re-export types and drivers
+export * from "./types";
+export { JsonDriver } from "./json-driver";
+export { SqliteDriver } from "./sqlite-driver";
+export { MIGRATIONS, runMigrations } from "./migrations";
+
+export const DATA_DIR = join(process.cwd(), "data");
+
+export const PERSISTENCE_CONFIG = {
+  driver: (process.env.PERSISTENCE_DRIVER || "json") as DriverName,
+  sqlitePath: process.env.SQLITE_PATH || join(DATA_DIR, "velolume.db"),
+};
+
+let activeDriver: PersistenceDriver | null = null;
+
+/**
+ * Create a driver by name (does not touch the shared instance)
+ */
+export function createDriver(
+  name: DriverName,
+  options: { dataDir?: string; sqlitePath?: string } = {}
+): PersistenceDriver {
+  switch (name) {
+    case "json":
+      return new JsonDriver(options.dataDir || DATA_DIR);
+    case "sqlite":
+      return new SqliteDriver(options.sqlitePath || PERSISTENCE_CONFIG.sqlitePath);
+    default:
+      throw new Error(`Unknown persistence driver: ${name}`);
+  }
+}
+
+/**
+ * Get the process-wide driver configured by PERSISTENCE_DRIVER
+ */
+export function getPersistence(): PersistenceDriver {
+  if (!activeDriver) {
+    activeDriver = createDriver(PERSISTENCE_CONFIG.driver);
+  }
+  return activeDriver;
+}
+
+/**
+ * Replace the process-wide driver (scripts and tests)
+ */
+export function setPersistence(driver: PersistenceDriver): void {
+  activeDriver = driver;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+const ALL_COLLECTIONS: CollectionName[] = [
+  "jobs",
+  "stores",
+  "domains",
+  "analyticsAggregates",
+  "analyticsRollups",
+  "analyticsCompaction",
+  "experiments",
+  "deadLetters",
+  "queueItems",
+  "webhooks",
+  "webhookDeliveries",
+  "batches",
+  "contents",
+  "reprocessRuns",
+  "costTotals",
+];
+const ALL_EVENT_LOGS: EventLogName[] = ["analyticsEvents", "costEvents"];
+
+export interface ImportSummary {
+  collections: Record<CollectionName, number>;
+  events: Record<EventLogName, number>;
+}
+
+/**
+ * Copy every collection and event log from one driver into another.
+ *
+ * Documents are upserted by key, so re-running is safe. Events are only
+ * copied into an empty log to avoid duplicating history.
+ */
+export function importAll(source: PersistenceDriver, target: PersistenceDriver): ImportSummary {
+  const summary: ImportSummary = {
+    collections: {
+      jobs: 0,
+      stores: 0,
+      domains: 0,
+      analyticsAggregates: 0,
+      analyticsRollups: 0,
+      analyticsCompaction: 0,
+      experiments: 0,
+      deadLetters: 0,
+      queueItems: 0,
+      webhooks: 0,
+      webhookDeliveries: 0,
+      batches: 0,
+      contents: 0,
+      reprocessRuns: 0,
+      costTotals: 0,
+    },
+    events: { analyticsEvents: 0, costEvents: 0 },
+  };
+
+  target.transaction(() => {
+    for (const name of ALL_COLLECTIONS) {
+      const from = source.collection<Record<string, unknown>>(name);
+      const to = target.collection<Record<string, unknown>>(name);
+
+      const docs: Record<string, Record<string, unknown>> = {};
+      for (const doc of from.list()) {
+        docs[documentKey(name, doc)] = doc;
+      }
+      to.putMany(docs);
+      summary.collections[name] = Object.keys(docs).length;
+    }
+
+    for (const name of ALL_EVENT_LOGS) {
+      const to = target.eventLog<LoggedEvent>(name);
+      if (to.query({ limit: 1 }).length > 0) {
+        continue;
+      }
+
+      for (const event of source.eventLog<LoggedEvent>(name).query()) {
+        to.append(event);
+        summary.events[name]++;
+      }
+    }
+  });
+
+  return summary;
+}
+
+/**
+ * Key each collection is indexed by
+ */
+function documentKey(name: CollectionName, doc: Record<string, unknown>): string {
+  switch (name) {
+    case "domains":
+      return doc.domain as string;
+    case "analyticsAggregates":
+      return doc.storeId as string;
+    default:
+      return doc.id as string;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * JSON File Driver
+ *
+ * Keeps the original data/*.json file layout so existing data keeps working.
+ * Every write goes to a temp file first and is renamed into place, so a
+ * crash mid-write never leaves a truncated file behind. Event logs are
+ * day-partitioned NDJSON files (see ndjson-event-log.ts).
+ *
+ * Suitable for local development with a single process. Use the SQLite
+ * driver when several workers write at the same time.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "fs";
+import { join } from "path";
+import {
+  CollectionName,
+  DocumentCollection,
+  EventLog,
+  EventLogName,
+  LoggedEvent,
+  PersistenceDriver,
+} from "./types";
+import { NdjsonEventLog } from "./ndjson-event-log";
+
+interface FileLocation {
+  file: string;
+  key: string;
+}
+
+// Where each collection lives inside data/ (matches the pre-repository layout)
+const COLLECTION_FILES: Record<CollectionName, FileLocation> = {
+  jobs: { file: "jobs.json", key: "jobs" },
+  stores: { file: "stores.json", key: "stores" },
+  domains: { file: "domains.json", key: "domains" },
+  analyticsAggregates: { file: "analytics.json", key: "aggregates" },
+  analyticsRollups: { file: "analytics-rollups.json", key: "rollups" },
+  analyticsCompaction: { file: "analytics-rollups.json", key: "compaction" },
+  experiments: { file: "experiments.json", key: "experiments" },
+  deadLetters: { file: "dead-letters.json", key: "deadLetters" },
+  queueItems: { file: "queue.json", key: "items" },
+  webhooks: { file: "webhooks.json", key: "webhooks" },
+  webhookDeliveries: { file: "webhooks.json", key: "deliveries" },
+  batches: { file: "batches.json", key: "batches" },
+  contents: { file: "contents.json", key: "contents" },
+  reprocessRuns: { file: "reprocess-runs.json", key: "runs" },
+  costTotals: { file: "cost-ledger.json", key: "totals" },
+};
+
+// Day-partitioned NDJSON directories, plus where events lived before partitioning
+const EVENT_LOG_DIRS: Record<EventLogName, { dir: string; legacy?: FileLocation }> = {
+  analyticsEvents: { dir: "events/analytics", legacy: { file: "analytics.json", key: "events" } },
+  costEvents: { dir: "events/costs" },
+};
+
+type FileContents = Record<string, unknown> & { lastUpdated?: string };
+
+export class JsonDriver implements PersistenceDriver {
+  readonly name = "json" as const;
+  private readonly migratedLogs = new Set<EventLogName>();
+
+  constructor(private readonly dataDir: string) {}
+
+  collection<T>(name: CollectionName): DocumentCollection<T> {
+    const location = COLLECTION_FILES[name];
+
+    const read = (): Record<string, T> =>
+      (this.readFile(location.file)[location.key] as Record<string, T>) || {};
+
+    const write = (docs: Record<string, T>): void => {
+      const contents = this.readFile(location.file);
+      contents[location.key] = docs;
+      this.writeFile(location.file, contents);
+    };
+
+    return {
+      get: (id) => read()[id] || null,
+      getMany: (ids) => {
+        const docs = read();
+        const found: Record<string, T> = {};
+        for (const id of ids) {
+          if (docs[id]) {
+            found[id] = docs[id];
+          }
+        }
+        return found;
+      },
+      list: () => Object.values(read()),
+      put: (id, doc) => {
+        const docs = read();
+        docs[id] = doc;
+        write(docs);
+        return doc;
+      },
+      putMany: (updates) => {
+        write({ ...read(), ...updates });
+      },
+      update: (id, mutate) => {
+        const docs = read();
+        if (!docs[id]) {
+          return null;
+        }
+        docs[id] = mutate(docs[id]);
+        write(docs);
+        return docs[id];
+      },
+      delete: (id) => {
+        const docs = read();
+        if (!docs[id]) {
+          return false;
+        }
+        delete docs[id];
+        write(docs);
+        return true;
+      },
+    };
+  }
+
+  eventLog<T extends LoggedEvent>(name: EventLogName): EventLog<T> {
+    const { dir, legacy } = EVENT_LOG_DIRS[name];
+    const log = new NdjsonEventLog<T>(join(this.dataDir, dir));
+    if (legacy && !this.migratedLogs.has(name)) {
+      this.migrateLegacyEvents(log, legacy);
+      this.migratedLogs.add(name);
+    }
+    return log;
+  }
+
+  transaction<R>(fn: () => R): R {
+    // All file operations are synchronous, so nothing interleaves within a process
+    return fn();
+  }
+
+  close(): void {
+    // Nothing to release
+  }
+
+  /**
+   * Move events from the old single-file array into day partitions (runs once)
+   */
+  private migrateLegacyEvents<T extends LoggedEvent>(log: NdjsonEventLog<T>, legacy: FileLocation): void {
+    const contents = this.readFile(legacy.file);
+    const events = contents[legacy.key] as T[] | undefined;
+    if (!events) {
+      return;
+    }
+
+    for (const event of events) {
+      log.append(event);
+    }
+
+    delete contents[legacy.key];
+    this.writeFile(legacy.file, contents);
+  }
+
+  private readFile(file: string): FileContents {
+    const path = join(this.dataDir, file);
+    if (!existsSync(path)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(readFileSync(path, "utf-8"));
+    } catch {
+      return {};
+    }
+  }
+
+  private writeFile(file: string, contents: FileContents): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+
+    const path = join(this.dataDir, file);
+    const tempPath = `${path}.${process.pid}.tmp`;
+    contents.lastUpdated = new Date().toISOString();
+    writeFileSync(tempPath, JSON.stringify(contents, null, 2));
+    renameSync(tempPath, path);
+  }
+}
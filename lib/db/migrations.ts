@@ -0,0 +1,217 @@
+/**
+ * SQLite Schema Migrations
+ *
+ * Ordered, append-only list of schema changes. Each migration runs once
+ * inside a transaction and is recorded in `schema_migrations`.
+ *
+ * Never edit a migration that has shipped - add a new one instead.
+ */
+
+import type Database from "better-sqlite3";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "document_collections",
+    up: `
+      CREATE TABLE jobs (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE stores (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE domains (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE analytics_aggregates (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: "analytics_events",
+    up: `
+      CREATE TABLE analytics_events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        store_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_analytics_events_store_time ON analytics_events (store_id, timestamp);
+      CREATE INDEX idx_analytics_events_time ON analytics_events (timestamp);
+    `,
+  },
+  {
+    version: 3,
+    name: "analytics_rollups",
+    up: `
+      CREATE TABLE analytics_rollups (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE analytics_compaction (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 4,
+    name: "experiments",
+    up: `
+      CREATE TABLE experiments (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: "dead_letters",
+    up: `
+      CREATE TABLE dead_letters (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: "queue_items",
+    up: `
+      CREATE TABLE queue_items (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 7,
+    name: "webhooks",
+    up: `
+      CREATE TABLE webhooks (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: "batches",
+    up: `
+      CREATE TABLE batches (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 9,
+    name: "contents",
+    up: `
+      CREATE TABLE contents (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 10,
+    name: "reprocess_runs",
+    up: `
+      CREATE TABLE reprocess_runs (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 11,
+    name: "cost_ledger",
+    up: `
+      CREATE TABLE cost_events (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        store_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_cost_events_store_time ON cost_events (store_id, timestamp);
+      CREATE INDEX idx_cost_events_time ON cost_events (timestamp);
+      CREATE TABLE cost_totals (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+    `,
+  },
+];
+
+/**
+ * Apply any migrations newer than the database's current version.
+ * Returns the versions that were applied.
+ */
+export function runMigrations(db: Database.Database): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+
+  const row = db.prepare("SELECT MAX(version) AS version FROM schema_migrations").get() as {
+    version: number | null;
+  };
+  const currentVersion = row.version ?? 0;
+  const applied: number[] = [];
+
+  const record = db.prepare(
+    "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+  );
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) {
+      continue;
+    }
+
+    db.transaction(() => {
+      db.exec(migration.up);
+      record.run(migration.version, migration.name, new Date().toISOString());
+    }).immediate();
+
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
@@ -0,0 +1,104 @@
+/**
+ * NDJSON Event Log
+ *
+ * Append-only event log partitioned by UTC day:
+ *
+ *   data/events/<log>/2026-01-08.ndjson
+ *
+ * Appends never rewrite existing data, so the log can grow without the
+ * cost of the old single-file array. Queries only open the partitions
+ * that overlap the requested time range.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import { EventLog, EventQuery, LoggedEvent } from "./types";
+
+const PARTITION_PATTERN = /^(\d{4}-\d{2}-\d{2})\.ndjson$/;
+
+export class NdjsonEventLog<T extends LoggedEvent> implements EventLog<T> {
+  constructor(private readonly dir: string) {}
+
+  append(event: T): T {
+    if (!existsSync(this.dir)) {
+      mkdirSync(this.dir, { recursive: true });
+    }
+
+    const day = event.timestamp.substring(0, 10);
+    appendFileSync(join(this.dir, `${day}.ndjson`), `${JSON.stringify(event)}\n`);
+    return event;
+  }
+
+  query(query: EventQuery = {}): T[] {
+    return Array.from(this.iterate(query));
+  }
+
+  *iterate(query: EventQuery = {}): IterableIterator<T> {
+    const days = this.listPartitions().filter(
+      (day) =>
+        (!query.since || day >= query.since.substring(0, 10)) &&
+        (!query.until || day <= query.until.substring(0, 10))
+    );
+
+    const newestFirst = query.order === "desc";
+    if (newestFirst) {
+      days.reverse();
+    }
+
+    // Only one partition is held in memory at a time
+    let yielded = 0;
+    for (const day of days) {
+      let events = this.readPartition(day).filter(
+        (e) =>
+          (!query.storeId || e.storeId === query.storeId) &&
+          (!query.since || e.timestamp >= query.since) &&
+          (!query.until || e.timestamp < query.until)
+      );
+
+      if (newestFirst) {
+        events = events.reverse();
+      }
+
+      for (const event of events) {
+        // Partitions are visited in order, so we can stop early
+        if (query.limit !== undefined && yielded >= query.limit) {
+          return;
+        }
+        yielded++;
+        yield event;
+      }
+    }
+  }
+
+  /**
+   * Days that have a partition file, oldest first
+   */
+  listPartitions(): string[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+
+    return readdirSync(this.dir)
+      .map((file) => PARTITION_PATTERN.exec(file)?.[1])
+      .filter((day): day is string => !!day)
+      .sort();
+  }
+
+  private readPartition(day: string): T[] {
+    const content = readFileSync(join(this.dir, `${day}.ndjson`), "utf-8");
+    const events: T[] = [];
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // Skip a torn final line from an interrupted append
+      }
+    }
+
+    return events;
+  }
+}
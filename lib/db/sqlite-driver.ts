@@ -0,0 +1,218 @@
+/**
+ * SQLite Driver
+ *
+ * Embedded database backend (better-sqlite3). Runs in WAL mode so readers
+ * never block the writer, and wraps every read-modify-write in an
+ * IMMEDIATE transaction so concurrent workers serialize instead of
+ * losing each other's updates.
+ *
+ * Documents are stored as JSON text; columns that queries filter on
+ * (store_id, timestamp) are denormalized next to them.
+ */
+
+import { existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type Database from "better-sqlite3";
+import { runMigrations } from "./migrations";
+import {
+  CollectionName,
+  DocumentCollection,
+  EventLog,
+  EventLogName,
+  EventQuery,
+  LoggedEvent,
+  PersistenceDriver,
+} from "./types";
+
+const COLLECTION_TABLES: Record<CollectionName, string> = {
+  jobs: "jobs",
+  stores: "stores",
+  domains: "domains",
+  analyticsAggregates: "analytics_aggregates",
+  analyticsRollups: "analytics_rollups",
+  analyticsCompaction: "analytics_compaction",
+  experiments: "experiments",
+  deadLetters: "dead_letters",
+  queueItems: "queue_items",
+  webhooks: "webhooks",
+  webhookDeliveries: "webhook_deliveries",
+  batches: "batches",
+  contents: "contents",
+  reprocessRuns: "reprocess_runs",
+  costTotals: "cost_totals",
+};
+
+const EVENT_LOG_TABLES: Record<EventLogName, string> = {
+  analyticsEvents: "analytics_events",
+  costEvents: "cost_events",
+};
+
+// Rows fetched per page by EventLog.iterate
+const EVENT_PAGE_SIZE = 1000;
+
+export class SqliteDriver implements PersistenceDriver {
+  readonly name = "sqlite" as const;
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    // Loaded lazily so the JSON driver works without the native module installed
+    const BetterSqlite3 = require("better-sqlite3") as typeof Database;
+    this.db = new BetterSqlite3(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 5000");
+    this.db.pragma("synchronous = NORMAL");
+
+    const applied = runMigrations(this.db);
+    if (applied.length > 0) {
+      console.log(`[DB] Applied SQLite migrations: ${applied.join(", ")}`);
+    }
+  }
+
+  collection<T>(name: CollectionName): DocumentCollection<T> {
+    const table = COLLECTION_TABLES[name];
+    const db = this.db;
+
+    const selectOne = db.prepare(`SELECT data FROM ${table} WHERE id = ?`);
+    const selectAll = db.prepare(`SELECT data FROM ${table}`);
+    const upsert = db.prepare(
+      `INSERT INTO ${table} (id, data, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    );
+    const remove = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+
+    const get = (id: string): T | null => {
+      const row = selectOne.get(id) as { data: string } | undefined;
+      return row ? (JSON.parse(row.data) as T) : null;
+    };
+
+    const put = (id: string, doc: T): T => {
+      upsert.run(id, JSON.stringify(doc), new Date().toISOString());
+      return doc;
+    };
+
+    const getMany = (ids: string[]): Record<string, T> => {
+      const found: Record<string, T> = {};
+      // Stay well under SQLite's bound-parameter limit
+      for (let i = 0; i < ids.length; i += 500) {
+        const chunk = ids.slice(i, i + 500);
+        const rows = db
+          .prepare(`SELECT id, data FROM ${table} WHERE id IN (${chunk.map(() => "?").join(", ")})`)
+          .all(...chunk) as { id: string; data: string }[];
+        for (const row of rows) {
+          found[row.id] = JSON.parse(row.data) as T;
+        }
+      }
+      return found;
+    };
+
+    const putMany = db.transaction((docs: Record<string, T>): void => {
+      for (const [id, doc] of Object.entries(docs)) {
+        put(id, doc);
+      }
+    });
+
+    const update = db.transaction((id: string, mutate: (current: T) => T): T | null => {
+      const current = get(id);
+      if (!current) {
+        return null;
+      }
+      return put(id, mutate(current));
+    });
+
+    return {
+      get,
+      getMany,
+      list: () => (selectAll.all() as { data: string }[]).map((row) => JSON.parse(row.data) as T),
+      put,
+      putMany: (docs) => putMany.immediate(docs),
+      update: (id, mutate) => update.immediate(id, mutate),
+      delete: (id) => remove.run(id).changes > 0,
+    };
+  }
+
+  eventLog<T extends LoggedEvent>(name: EventLogName): EventLog<T> {
+    const table = EVENT_LOG_TABLES[name];
+    const insert = this.db.prepare(
+      `INSERT INTO ${table} (id, store_id, timestamp, data) VALUES (?, ?, ?, ?)`
+    );
+
+    const select = (query: EventQuery, afterSeq?: number) =>
+      this.selectEvents(table, query, afterSeq).all() as { seq: number; data: string }[];
+
+    return {
+      append: (event) => {
+        insert.run(event.id, event.storeId, event.timestamp, JSON.stringify(event));
+        return event;
+      },
+      query: (query: EventQuery = {}) => select(query).map((row) => JSON.parse(row.data) as T),
+      iterate: function* (query: EventQuery = {}) {
+        // Keyset pages instead of one open cursor, so writes can happen between pages
+        let remaining = query.limit ?? Infinity;
+        let afterSeq: number | undefined;
+
+        while (remaining > 0) {
+          const rows = select({ ...query, limit: Math.min(EVENT_PAGE_SIZE, remaining) }, afterSeq);
+          for (const row of rows) {
+            yield JSON.parse(row.data) as T;
+          }
+          if (rows.length < EVENT_PAGE_SIZE) {
+            return;
+          }
+          remaining -= rows.length;
+          afterSeq = rows[rows.length - 1].seq;
+        }
+      },
+    };
+  }
+
+  /**
+   * Prepared SELECT for an event query, with its parameters bound.
+   * `afterSeq` continues a previous page in the query's order.
+   */
+  private selectEvents(table: string, query: EventQuery, afterSeq?: number): Database.Statement {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const descending = query.order === "desc";
+
+    if (query.storeId) {
+      conditions.push("store_id = ?");
+      params.push(query.storeId);
+    }
+    if (query.since) {
+      conditions.push("timestamp >= ?");
+      params.push(query.since);
+    }
+    if (query.until) {
+      conditions.push("timestamp < ?");
+      params.push(query.until);
+    }
+    if (afterSeq !== undefined) {
+      conditions.push(descending ? "seq < ?" : "seq > ?");
+      params.push(afterSeq);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const order = descending ? "DESC" : "ASC";
+    const limit = query.limit !== undefined ? "LIMIT ?" : "";
+    if (query.limit !== undefined) {
+      params.push(query.limit);
+    }
+
+    return this.db
+      .prepare(`SELECT seq, data FROM ${table} ${where} ORDER BY seq ${order} ${limit}`)
+      .bind(...params);
+  }
+
+  transaction<R>(fn: () => R): R {
+    return this.db.transaction(fn).immediate();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
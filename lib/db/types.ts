@@ -0,0 +1,101 @@
+/**
+ * Persistence Types
+ *
+ * Repository interfaces shared by every storage driver.
+ * Store modules (jobs, stores, analytics, domains) only talk to these.
+ */
+
+// ============================================================================
+// Collections
+// ============================================================================
+
+/**
+ * Named document collections known to every driver.
+ * Adding a collection means adding it to each driver's layout map.
+ */
+export type CollectionName =
+  | "jobs"
+  | "stores"
+  | "domains"
+  | "analyticsAggregates"
+  | "analyticsRollups"
+  | "analyticsCompaction"
+  | "experiments"
+  | "deadLetters"
+  | "queueItems"
+  | "webhooks"
+  | "webhookDeliveries"
+  | "batches"
+  | "contents"
+  | "reprocessRuns"
+  | "costTotals";
+
+/**
+ * Named append-only logs known to every driver.
+ */
+export type EventLogName = "analyticsEvents" | "costEvents";
+
+/**
+ * Key/value document collection.
+ *
+ * `update` runs read-modify-write as one unit so concurrent writers
+ * cannot overwrite each other's changes.
+ */
+export interface DocumentCollection<T> {
+  get(id: string): T | null;
+  getMany(ids: string[]): Record<string, T>; // Missing IDs are omitted
+  list(): T[];
+  put(id: string, doc: T): T;
+  putMany(docs: Record<string, T>): void;
+  update(id: string, mutate: (current: T) => T): T | null;
+  delete(id: string): boolean;
+}
+
+// ============================================================================
+// Event Logs
+// ============================================================================
+
+/**
+ * Minimum shape of an entry in an append-only log.
+ */
+export interface LoggedEvent {
+  id: string;
+  storeId: string;
+  timestamp: string; // ISO-8601
+}
+
+export interface EventQuery {
+  storeId?: string;
+  since?: string; // inclusive ISO timestamp
+  until?: string; // exclusive ISO timestamp
+  limit?: number;
+  order?: "asc" | "desc";
+}
+
+export interface EventLog<T extends LoggedEvent> {
+  append(event: T): T;
+  query(query?: EventQuery): T[];
+  /**
+   * Same results as `query`, read lazily in pages so large ranges
+   * (exports) never sit in memory at once. Safe to interleave with appends.
+   */
+  iterate(query?: EventQuery): IterableIterator<T>;
+}
+
+// ============================================================================
+// Driver
+// ============================================================================
+
+export type DriverName = "json" | "sqlite";
+
+export interface PersistenceDriver {
+  readonly name: DriverName;
+  collection<T>(name: CollectionName): DocumentCollection<T>;
+  eventLog<T extends LoggedEvent>(name: EventLogName): EventLog<T>;
+  /**
+   * Run several operations atomically (a single SQLite transaction;
+   * a plain call for the JSON driver, which is synchronous per process).
+   */
+  transaction<R>(fn: () => R): R;
+  close(): void;
+}
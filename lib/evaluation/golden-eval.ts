@@ -0,0 +1,615 @@
+/**
+ * Golden-Dataset Evaluation
+ *
+ * Runs the product pipeline over labelled videos and scores it, so a
+ * change to a prompt, model or scoring rule can be judged by numbers
+ * rather than by eyeballing one-off *-test-results.json files.
+ *
+ * A dataset is a JSON file (tests/fixtures/golden/<name>.json):
+ *
+ *   {
+ *     "name": "ootd",
+ *     "videos": [
+ *       {
+ *         "id": "ootd-5bc6491c",
+ *         "videoKey": "raw/5bc6491c-....mp4",          // Input to processVideo
+ *         "framesDir": "test-output/frames-5bc6491c-...", // frame-NNN.jpg, input to matchProducts
+ *         "products": [
+ *           {
+ *             "id": "olive-sweater",
+ *             "name": "Olive Green Sweater",
+ *             "aliases": ["cable knit sweater"],
+ *             "category": "Clothing",                    // CATEGORY_SCHEMAS key parts
+ *             "subcategory": "Tops",
+ *             "attributes": { "neckline": "crew", "primaryColor": ["olive green", "olive"] },
+ *             "match": {
+ *               "searchQuery": "olive green cable knit crewneck sweater women",
+ *               "acceptedListings": [{ "title": "...", "source": "Abercrombie & Fitch" }]
+ *             }
+ *           }
+ *         ]
+ *       }
+ *     ]
+ *   }
+ *
+ * Each run measures:
+ * - detection: processVideo's products paired with the labels by name
+ *   similarity, giving precision and recall
+ * - attributes: matchProducts' reference profile against the labelled
+ *   values, per schema attribute ("Clothing:Tops" neckline)
+ * - matching: whether an accepted listing is ranked first (top-1) or in
+ *   the first three (top-3)
+ * - calibration: how well detection `confidence` and the top match's
+ *   verification confidence predict being right
+ *
+ * Frames and transcripts are reused from the eval job's checkpoints, the
+ * vision stage is always recomputed. Reports are stored per commit under
+ * GOLDEN_EVAL_DIR (default data/evals):
+ *
+ *   <dataset>/<commit>.json     full report ("<commit>-dirty" for uncommitted trees)
+ *   <dataset>/history.json      summary metrics of every stored run, oldest first
+ */
+
+import { join, resolve } from "path";
+import { execSync } from "child_process";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { DATA_DIR } from "@/lib/db";
+import { processVideo, ProductData } from "@/lib/ai/processor";
+import { getAIProvider } from "@/lib/ai/providers";
+import { getSchemaByKey } from "@/lib/matching/category-schemas";
+import { FusedProfile, matchProducts, MatchingOutput, MatchProductsOptions } from "@/lib/matching/product-matcher";
+import { listCostEntries, roundUSD } from "@/lib/store/cost-ledger";
+import {
+  attributeMatches,
+  Calibration,
+  calibration,
+  nameSimilarity,
+  normalizeValue,
+  pairBySimilarity,
+  precisionRecall,
+  PrecisionRecall,
+  Prediction,
+  ratio,
+  sameListingTitle,
+} from "./metrics";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const GOLDEN_EVAL_CONFIG = {
+  dir: process.env.GOLDEN_EVAL_DIR || join(DATA_DIR, "evals"),
+  // Minimum name similarity (0-1) for a detected product to count as a labelled one
+  detectionThreshold: parseFloat(process.env.GOLDEN_EVAL_MATCH_THRESHOLD || "0.5"),
+  commit: process.env.GOLDEN_EVAL_COMMIT || "", // Overrides `git rev-parse HEAD`, e.g. in CI
+};
+
+// Profile fields holding a schema attribute under another name
+const PROFILE_FIELDS: Record<string, keyof FusedProfile> = {
+  pattern: "patternType",
+  fabric: "material",
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GoldenAttributeValue = string | boolean | Array<string | boolean>; // Arrays list every acceptable value
+
+export interface GoldenListing {
+  title: string;
+  source?: string;
+  link?: string;
+}
+
+export interface GoldenProduct {
+  id: string;
+  name: string;
+  aliases?: string[]; // Other names a correct detection may use
+  category: string;
+  subcategory: string;
+  attributes?: Record<string, GoldenAttributeValue>;
+  match?: {
+    searchQuery?: string;
+    acceptedListings: GoldenListing[]; // Any of these ranked first counts as a top-1 hit
+  };
+}
+
+export interface GoldenVideo {
+  id: string;
+  videoKey: string;
+  framesDir?: string; // Without it, the video's products are not matched
+  products: GoldenProduct[];
+}
+
+export interface GoldenDataset {
+  name: string;
+  description?: string;
+  videos: GoldenVideo[];
+}
+
+export interface DetectedProduct {
+  name: string;
+  category: string;
+  subcategory: string;
+  confidence: number;
+  productId: string | null; // Labelled product it was paired with
+  similarity?: number;
+}
+
+export interface VideoDetection {
+  videoId: string;
+  detected: DetectedProduct[];
+  missed: string[]; // Labelled product IDs nothing was paired with
+  error?: string;
+}
+
+export interface AttributeResult {
+  attribute: string;
+  expected: GoldenAttributeValue;
+  predicted: string | boolean | null;
+  correct: boolean;
+}
+
+export interface ProductMatchResult {
+  videoId: string;
+  productId: string;
+  schema: string; // "Clothing:Tops"
+  attributes: AttributeResult[];
+  candidates: Array<{ rank: number; title: string; source: string; score: number }>; // First three
+  acceptedRank: number | null; // Rank of the best-ranked accepted listing
+  top1: boolean | null; // Null when the product has no accepted listings
+  top3: boolean | null;
+  topConfidence: number | null; // Top match verification confidence, 0-1
+  prompts: string[];
+  error?: string;
+}
+
+export interface AttributeAccuracy {
+  schema: string;
+  attribute: string;
+  labelled: number;
+  predicted: number; // Labelled values the pipeline gave an answer for
+  correct: number;
+  accuracy: number; // correct / labelled
+  coverage: number; // predicted / labelled
+}
+
+export interface GoldenEvalSummary {
+  precision: number;
+  recall: number;
+  f1: number;
+  attributeAccuracy: number;
+  top1Accuracy: number;
+  top3Accuracy: number;
+  detectionECE: number;
+  matchECE: number;
+  detectionCostUSD: number;
+}
+
+export type GoldenEvalStage = "detection" | "matching";
+
+export interface GoldenEvalReport {
+  dataset: string;
+  commit: string;
+  dirty: boolean; // Uncommitted changes in the tree when it ran
+  ranAt: string;
+  stages: GoldenEvalStage[]; // Metrics of stages not run are reported as 0
+  durationMs: number;
+  providerMode: string;
+  prompts: string[]; // Prompt registry refs used
+  summary: GoldenEvalSummary;
+  detection: PrecisionRecall & { calibration: Calibration; videos: VideoDetection[] };
+  attributes: {
+    labelled: number;
+    predicted: number;
+    correct: number;
+    accuracy: number;
+    bySchema: AttributeAccuracy[]; // Lowest accuracy first
+  };
+  matching: {
+    evaluated: number; // Products with accepted listings, failed runs included as misses
+    top1: number;
+    top3: number;
+    top1Accuracy: number;
+    top3Accuracy: number;
+    calibration: Calibration;
+    products: ProductMatchResult[];
+  };
+}
+
+export interface GoldenHistoryEntry {
+  commit: string;
+  dirty: boolean;
+  ranAt: string;
+  stages: GoldenEvalStage[];
+  summary: GoldenEvalSummary;
+}
+
+export interface GoldenEvalOptions {
+  detection?: boolean; // Run processVideo (default true)
+  matching?: boolean; // Run matchProducts (default true)
+}
+
+// ============================================================================
+// Datasets
+// ============================================================================
+
+/**
+ * Read and check a golden dataset file. Every product must name a
+ * category schema and only label attributes that schema defines.
+ */
+export function loadGoldenDataset(path: string): GoldenDataset {
+  const dataset = JSON.parse(readFileSync(path, "utf-8")) as GoldenDataset;
+
+  if (!dataset.name || !Array.isArray(dataset.videos) || dataset.videos.length === 0) {
+    throw new Error(`Golden dataset ${path} needs a name and at least one video`);
+  }
+
+  const productIds = new Set<string>();
+  for (const video of dataset.videos) {
+    if (!video.id || !video.videoKey || !Array.isArray(video.products)) {
+      throw new Error(`Golden dataset ${path}: every video needs an id, videoKey and products`);
+    }
+
+    for (const product of video.products) {
+      const where = `${path}: ${video.id}/${product.id}`;
+      if (!product.id || productIds.has(product.id)) {
+        throw new Error(`Golden dataset ${where}: product IDs must be present and unique`);
+      }
+      productIds.add(product.id);
+
+      const schemaKey = `${product.category}:${product.subcategory}`;
+      const schema = getSchemaByKey(schemaKey);
+      if (!schema) {
+        throw new Error(`Golden dataset ${where}: no category schema ${schemaKey}`);
+      }
+      const unknown = Object.keys(product.attributes || {}).filter((name) => !schema.attributes.includes(name));
+      if (unknown.length > 0) {
+        throw new Error(`Golden dataset ${where}: ${schemaKey} has no attributes ${unknown.join(", ")}`);
+      }
+      if (product.match && (!Array.isArray(product.match.acceptedListings) || product.match.acceptedListings.length === 0)) {
+        throw new Error(`Golden dataset ${where}: match needs at least one accepted listing`);
+      }
+    }
+  }
+
+  return dataset;
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Run detection and matching over every video in the dataset, one call
+ * at a time, and score them against the labels
+ */
+export async function runGoldenEval(dataset: GoldenDataset, options: GoldenEvalOptions = {}): Promise<GoldenEvalReport> {
+  const { detection = true, matching = true } = options;
+  const startTime = Date.now();
+  const ranAt = new Date(startTime).toISOString();
+  const { commit, dirty } = currentCommit();
+  const prompts = new Set<string>();
+  const videos: VideoDetection[] = [];
+  const products: ProductMatchResult[] = [];
+  let detectionCostUSD = 0;
+
+  console.log(`[GoldenEval] ${dataset.name}: ${dataset.videos.length} videos at ${commit}${dirty ? " (dirty)" : ""}`);
+
+  for (const video of dataset.videos) {
+    if (detection) {
+      const jobId = `golden-${dataset.name}-${video.id}`;
+      const result = await detectVideo(video, jobId, prompts);
+      detectionCostUSD += listCostEntries({ jobId, since: ranAt }).reduce((sum, entry) => sum + entry.costUSD, 0);
+      videos.push(result);
+      console.log(
+        `[GoldenEval] ${video.id}: ${result.error ? `detection failed (${result.error})` : `${result.detected.length} detected, ${result.missed.length} missed`}`
+      );
+    }
+
+    if (matching && video.framesDir) {
+      for (const product of video.products) {
+        if (!product.attributes && !product.match) continue;
+        const result = await matchProduct(video, product);
+        result.prompts.forEach((prompt) => prompts.add(prompt));
+        products.push(result);
+        console.log(
+          `[GoldenEval] ${video.id}/${product.id}: ` +
+            (result.error ? `matching failed (${result.error})` : `accepted rank ${result.acceptedRank ?? "-"}`)
+        );
+      }
+    } else if (matching) {
+      console.warn(`[GoldenEval] ${video.id}: no framesDir, skipping matching`);
+    }
+  }
+
+  const report = scoreReport(dataset.name, videos, products);
+  report.summary.detectionCostUSD = roundUSD(detectionCostUSD);
+
+  return {
+    dataset: dataset.name,
+    commit,
+    dirty,
+    ranAt,
+    stages: [detection && "detection", matching && "matching"].filter(Boolean) as GoldenEvalStage[],
+    durationMs: Date.now() - startTime,
+    providerMode: getAIProvider().mode,
+    prompts: [...prompts].sort(),
+    ...report,
+  };
+}
+
+async function detectVideo(video: GoldenVideo, jobId: string, prompts: Set<string>): Promise<VideoDetection> {
+  let detected: ProductData[];
+  try {
+    const result = await processVideo(video.videoKey, { jobId, force: ["vision"], costScope: { jobId } });
+    detected = result.products;
+    if (result.meta.prompts?.vision) prompts.add(result.meta.prompts.vision);
+  } catch (error) {
+    return {
+      videoId: video.id,
+      detected: [],
+      missed: video.products.map((product) => product.id),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const { pairs, unpairedLabels } = pairBySimilarity(
+    detected,
+    video.products,
+    detectionSimilarity,
+    GOLDEN_EVAL_CONFIG.detectionThreshold
+  );
+
+  return {
+    videoId: video.id,
+    detected: detected.map((product, index) => {
+      const pair = pairs.find((candidate) => candidate.prediction === index);
+      return {
+        name: product.name,
+        category: product.category,
+        subcategory: product.subcategory,
+        confidence: product.confidence,
+        productId: pair ? video.products[pair.label].id : null,
+        similarity: pair?.similarity,
+      };
+    }),
+    missed: unpairedLabels.map((index) => video.products[index].id),
+  };
+}
+
+/**
+ * Best name similarity to the label or its aliases. The processor's
+ * categories differ from the schema taxonomy (a tote is "Accessories"
+ * there, "Bags" here), so only the subcategory adds to the score.
+ */
+function detectionSimilarity(detected: ProductData, label: GoldenProduct): number {
+  const name = Math.max(...[label.name, ...(label.aliases || [])].map((candidate) => nameSimilarity(detected.name, candidate)));
+  const subcategory = nameSimilarity(detected.subcategory, label.subcategory) > 0 ? 0.2 : 0;
+  return Math.min(1, name + subcategory);
+}
+
+async function matchProduct(video: GoldenVideo, product: GoldenProduct): Promise<ProductMatchResult> {
+  // A failed run counts as unanswered attributes and a missed match
+  const result: ProductMatchResult = {
+    videoId: video.id,
+    productId: product.id,
+    schema: `${product.category}:${product.subcategory}`,
+    attributes: Object.entries(product.attributes || {}).map(([attribute, expected]) => ({
+      attribute,
+      expected,
+      predicted: null,
+      correct: false,
+    })),
+    candidates: [],
+    acceptedRank: null,
+    top1: product.match ? false : null,
+    top3: product.match ? false : null,
+    topConfidence: null,
+    prompts: [],
+  };
+
+  let output: MatchingOutput;
+  try {
+    output = await matchProducts({
+      framesDir: resolve(process.cwd(), video.framesDir || ""),
+      productName: product.name,
+      category: product.category as MatchProductsOptions["category"],
+      subcategory: product.subcategory,
+      searchTerms: product.match?.searchQuery ? [product.match.searchQuery] : [],
+    });
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    return result;
+  }
+
+  result.prompts = output.prompts;
+  result.attributes = result.attributes.map((label) => {
+    const predicted = profileValue(output.referenceProfile, label.attribute);
+    return { ...label, predicted, correct: attributeMatches(predicted, label.expected) };
+  });
+  result.candidates = output.candidates.slice(0, 3).map((candidate) => ({
+    rank: candidate.rank,
+    title: candidate.title,
+    source: candidate.source,
+    score: candidate.score,
+  }));
+  result.topConfidence = output.topMatch ? output.topMatch.verification.confidence / 100 : null;
+
+  if (product.match) {
+    const accepted = output.candidates.find((candidate) =>
+      product.match!.acceptedListings.some((listing) => isAcceptedListing(candidate, listing))
+    );
+    result.acceptedRank = accepted ? accepted.rank : null;
+    result.top1 = result.acceptedRank === 1;
+    result.top3 = result.acceptedRank !== null && result.acceptedRank <= 3;
+  }
+
+  return result;
+}
+
+function isAcceptedListing(candidate: { title: string; link: string }, listing: GoldenListing): boolean {
+  return (!!listing.link && candidate.link === listing.link) || sameListingTitle(candidate.title, listing.title);
+}
+
+function profileValue(profile: FusedProfile, attribute: string): string | boolean | null {
+  const field = (attribute in profile ? attribute : PROFILE_FIELDS[attribute]) as keyof FusedProfile | undefined;
+  const value = field ? profile[field] : undefined;
+  if (!value || typeof value !== "object") return null;
+  return normalizeValue(value.value) === null ? null : value.value;
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+function scoreReport(
+  dataset: string,
+  videos: VideoDetection[],
+  products: ProductMatchResult[]
+): Pick<GoldenEvalReport, "summary" | "detection" | "attributes" | "matching"> {
+  // Detection
+  const detected = videos.flatMap((video) => video.detected);
+  const truePositives = detected.filter((product) => product.productId).length;
+  const detectionScores = precisionRecall(
+    truePositives,
+    detected.length - truePositives,
+    videos.reduce((sum, video) => sum + video.missed.length, 0)
+  );
+  const detectionCalibration = calibration(
+    detected.map((product) => ({ confidence: product.confidence, correct: !!product.productId }))
+  );
+
+  // Attributes
+  const attributeStats = new Map<string, AttributeAccuracy>();
+  for (const product of products) {
+    for (const attribute of product.attributes) {
+      const key = `${product.schema}|${attribute.attribute}`;
+      const stats = attributeStats.get(key) || {
+        schema: product.schema,
+        attribute: attribute.attribute,
+        labelled: 0,
+        predicted: 0,
+        correct: 0,
+        accuracy: 0,
+        coverage: 0,
+      };
+      stats.labelled++;
+      if (attribute.predicted !== null) stats.predicted++;
+      if (attribute.correct) stats.correct++;
+      attributeStats.set(key, stats);
+    }
+  }
+  const bySchema = [...attributeStats.values()]
+    .map((stats) => ({ ...stats, accuracy: ratio(stats.correct, stats.labelled), coverage: ratio(stats.predicted, stats.labelled) }))
+    .sort((x, y) => x.accuracy - y.accuracy || x.schema.localeCompare(y.schema) || x.attribute.localeCompare(y.attribute));
+  const labelled = bySchema.reduce((sum, stats) => sum + stats.labelled, 0);
+  const predicted = bySchema.reduce((sum, stats) => sum + stats.predicted, 0);
+  const correct = bySchema.reduce((sum, stats) => sum + stats.correct, 0);
+
+  // Matching: products with accepted listings
+  const evaluated = products.filter((product) => product.top1 !== null);
+  const top1 = evaluated.filter((product) => product.top1).length;
+  const top3 = evaluated.filter((product) => product.top3).length;
+  const matchPredictions: Prediction[] = evaluated
+    .filter((product) => product.topConfidence !== null)
+    .map((product) => ({ confidence: product.topConfidence as number, correct: !!product.top1 }));
+  const matchCalibration = calibration(matchPredictions);
+
+  console.log(`[GoldenEval] ${dataset}: scored ${detected.length} detections, ${labelled} attributes, ${evaluated.length} matches`);
+
+  return {
+    summary: {
+      precision: detectionScores.precision,
+      recall: detectionScores.recall,
+      f1: detectionScores.f1,
+      attributeAccuracy: ratio(correct, labelled),
+      top1Accuracy: ratio(top1, evaluated.length),
+      top3Accuracy: ratio(top3, evaluated.length),
+      detectionECE: detectionCalibration.ece,
+      matchECE: matchCalibration.ece,
+      detectionCostUSD: 0,
+    },
+    detection: { ...detectionScores, calibration: detectionCalibration, videos },
+    attributes: { labelled, predicted, correct, accuracy: ratio(correct, labelled), bySchema },
+    matching: {
+      evaluated: evaluated.length,
+      top1,
+      top3,
+      top1Accuracy: ratio(top1, evaluated.length),
+      top3Accuracy: ratio(top3, evaluated.length),
+      calibration: matchCalibration,
+      products,
+    },
+  };
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * Commit the tree is at, and whether it has uncommitted changes
+ */
+function currentCommit(): { commit: string; dirty: boolean } {
+  if (GOLDEN_EVAL_CONFIG.commit) {
+    return { commit: GOLDEN_EVAL_CONFIG.commit.slice(0, 12), dirty: false };
+  }
+
+  try {
+    const commit = execSync("git rev-parse HEAD", { encoding: "utf-8", stdio: ["ignore", "pipe", "ignore"] }).trim();
+    const status = execSync("git status --porcelain --untracked-files=no", {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+    return { commit: commit.slice(0, 12), dirty: status.trim() !== "" };
+  } catch {
+    return { commit: "unknown", dirty: true };
+  }
+}
+
+/**
+ * Write a report under GOLDEN_EVAL_DIR/<dataset>/ and add its summary to
+ * the dataset's history, replacing an earlier run of the same commit.
+ * Returns the report's path.
+ */
+export function saveGoldenEvalReport(report: GoldenEvalReport): string {
+  const dir = join(GOLDEN_EVAL_CONFIG.dir, report.dataset);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  const path = join(dir, `${report.commit}${report.dirty ? "-dirty" : ""}.json`);
+  writeFileSync(path, JSON.stringify(report, null, 2));
+
+  const history = loadGoldenHistory(report.dataset).filter(
+    (entry) => entry.commit !== report.commit || entry.dirty !== report.dirty
+  );
+  history.push({
+    commit: report.commit,
+    dirty: report.dirty,
+    ranAt: report.ranAt,
+    stages: report.stages,
+    summary: report.summary,
+  });
+  history.sort((a, b) => a.ranAt.localeCompare(b.ranAt));
+  writeFileSync(join(dir, "history.json"), JSON.stringify(history, null, 2));
+
+  return path;
+}
+
+/**
+ * Summary metrics of every stored run of a dataset, oldest first
+ */
+export function loadGoldenHistory(dataset: string): GoldenHistoryEntry[] {
+  const path = join(GOLDEN_EVAL_CONFIG.dir, dataset, "history.json");
+  if (!existsSync(path)) return [];
+
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as GoldenHistoryEntry[];
+  } catch (error) {
+    console.warn(`[GoldenEval] Ignoring unreadable history for ${dataset}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Evaluation Metrics
+ *
+ * Pure scoring helpers for the golden-dataset evaluation (golden-eval.ts):
+ * pairing detected products with labelled ones, comparing attribute values
+ * and listing titles, and measuring how well a 0-1 confidence predicts
+ * being right.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PrecisionRecall {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number; // Share of the bin's predictions that were right
+}
+
+export interface Calibration {
+  samples: number;
+  ece: number; // Expected calibration error: count-weighted mean |accuracy - confidence|
+  brier: number; // Mean squared error of confidence against 0/1 outcomes
+  bins: CalibrationBin[]; // Non-empty bins only
+}
+
+export interface Prediction {
+  confidence: number; // 0-1
+  correct: boolean;
+}
+
+// Words that say nothing about which product a name refers to
+const STOP_WORDS = new Set(["a", "an", "and", "the", "with", "of", "for", "in", "women", "womens", "men", "mens"]);
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Similarity of two product names (0-1): Dice coefficient over their
+ * significant words, with plurals folded ("sunglasses" ~ "sunglass")
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = nameTokens(a);
+  const right = nameTokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of left) {
+    if (right.has(token)) shared++;
+  }
+  return round((2 * shared) / (left.size + right.size));
+}
+
+function nameTokens(name: string): Set<string> {
+  return new Set(
+    name
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token && !STOP_WORDS.has(token))
+      .map(singular)
+  );
+}
+
+function singular(token: string): string {
+  if (token.endsWith("sses")) return token.slice(0, -2);
+  return token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token;
+}
+
+/**
+ * Pair predictions with labels one-to-one, most similar pairs first.
+ * Pairs scoring below `threshold` stay unpaired.
+ */
+export function pairBySimilarity<P, L>(
+  predictions: P[],
+  labels: L[],
+  similarity: (prediction: P, label: L) => number,
+  threshold: number
+): { pairs: Array<{ prediction: number; label: number; similarity: number }>; unpairedPredictions: number[]; unpairedLabels: number[] } {
+  const scored: Array<{ prediction: number; label: number; similarity: number }> = [];
+  predictions.forEach((prediction, p) =>
+    labels.forEach((label, l) => {
+      const score = similarity(prediction, label);
+      if (score >= threshold) scored.push({ prediction: p, label: l, similarity: score });
+    })
+  );
+  scored.sort((x, y) => y.similarity - x.similarity || x.prediction - y.prediction || x.label - y.label);
+
+  const usedPredictions = new Set<number>();
+  const usedLabels = new Set<number>();
+  const pairs: typeof scored = [];
+  for (const candidate of scored) {
+    if (usedPredictions.has(candidate.prediction) || usedLabels.has(candidate.label)) continue;
+    usedPredictions.add(candidate.prediction);
+    usedLabels.add(candidate.label);
+    pairs.push(candidate);
+  }
+
+  return {
+    pairs,
+    unpairedPredictions: predictions.map((_, index) => index).filter((index) => !usedPredictions.has(index)),
+    unpairedLabels: labels.map((_, index) => index).filter((index) => !usedLabels.has(index)),
+  };
+}
+
+export function precisionRecall(truePositives: number, falsePositives: number, falseNegatives: number): PrecisionRecall {
+  const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 0;
+  const recall = truePositives + falseNegatives > 0 ? truePositives / (truePositives + falseNegatives) : 0;
+
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: round(precision),
+    recall: round(recall),
+    f1: precision + recall > 0 ? round((2 * precision * recall) / (precision + recall)) : 0,
+  };
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/**
+ * Whether a predicted attribute value matches the label. A label may list
+ * several acceptable values; strings ignore case, spaces and hyphens, and
+ * "true"/"false" strings equal booleans.
+ */
+export function attributeMatches(predicted: unknown, expected: string | boolean | Array<string | boolean>): boolean {
+  const accepted = Array.isArray(expected) ? expected : [expected];
+  const value = normalizeValue(predicted);
+  return value !== null && accepted.some((option) => normalizeValue(option) === value);
+}
+
+/**
+ * Normalized attribute value; null for missing and "unknown" answers
+ */
+export function normalizeValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).toLowerCase().replace(/[\s_-]+/g, " ").trim();
+  return text === "" || text === "unknown" || text === "not visible" ? null : text;
+}
+
+/**
+ * Whether two listing titles name the same listing
+ */
+export function sameListingTitle(a: string, b: string): boolean {
+  const normalize = (title: string) => title.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  return normalize(a) === normalize(b);
+}
+
+// ============================================================================
+// Calibration
+// ============================================================================
+
+/**
+ * Reliability of a confidence score over equal-width bins
+ */
+export function calibration(predictions: Prediction[], binCount: number = 10): Calibration {
+  if (predictions.length === 0) {
+    return { samples: 0, ece: 0, brier: 0, bins: [] };
+  }
+
+  const bins = Array.from({ length: binCount }, (_, index) => ({
+    from: index / binCount,
+    to: (index + 1) / binCount,
+    count: 0,
+    confidenceSum: 0,
+    correct: 0,
+  }));
+
+  let squaredError = 0;
+  for (const prediction of predictions) {
+    const confidence = Math.min(1, Math.max(0, prediction.confidence));
+    const bin = bins[Math.min(binCount - 1, Math.floor(confidence * binCount))];
+    bin.count++;
+    bin.confidenceSum += confidence;
+    if (prediction.correct) bin.correct++;
+    squaredError += (confidence - (prediction.correct ? 1 : 0)) ** 2;
+  }
+
+  let ece = 0;
+  const filled: CalibrationBin[] = [];
+  for (const bin of bins.filter((candidate) => candidate.count > 0)) {
+    const meanConfidence = bin.confidenceSum / bin.count;
+    const accuracy = bin.correct / bin.count;
+    ece += (bin.count / predictions.length) * Math.abs(accuracy - meanConfidence);
+    filled.push({
+      from: round(bin.from),
+      to: round(bin.to),
+      count: bin.count,
+      meanConfidence: round(meanConfidence),
+      accuracy: round(accuracy),
+    });
+  }
+
+  return { samples: predictions.length, ece: round(ece), brier: round(squaredError / predictions.length), bins: filled };
+}
+
+export function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? round(numerator / denominator) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,198 @@
+/**
+ * In-Process Event Bus
+ *
+ * Publish/subscribe for live dashboard updates. Store modules publish
+ * when data changes; SSE routes subscribe and forward to browsers.
+ *
+ * Every message gets a process-wide increasing ID, and each channel keeps
+ * a short replay buffer so a reconnecting client can send Last-Event-ID
+ * and receive what it missed. If the ID has already fallen out of the
+ * buffer (or the server restarted) the client gets a fresh snapshot.
+ *
+ * Buffers of channels nobody is subscribed to are dropped once idle for
+ * REPLAY_BUFFER_TTL_MS, and the least recently used ones beyond
+ * MAX_REPLAY_CHANNELS, so per-job and per-store channels do not pile up.
+ * A client resuming on a dropped channel gets a snapshot.
+ *
+ * Channels:
+ *   analytics            every tracked event
+ *   analytics:<storeId>  events for one store
+ *   jobs                 every job change
+ *   job:<jobId>          changes to one job
+ *
+ * Only reaches subscribers in the same Node process.
+ */
+
+import { EventEmitter } from "events";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BusMessage<T = unknown> {
+  id: number;
+  channel: string;
+  type: string;
+  data: T;
+  timestamp: string;
+}
+
+export type BusListener = (message: BusMessage) => void;
+
+// Messages kept per channel for Last-Event-ID replay
+const REPLAY_BUFFER_SIZE = 200;
+// Idle buffers of channels without subscribers are dropped after this
+const REPLAY_BUFFER_TTL_MS = 10 * 60 * 1000;
+// Most channels buffered at once
+const MAX_REPLAY_CHANNELS = 500;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface ReplayBuffer {
+  messages: BusMessage[];
+  evictedThrough: number; // Highest ID dropped from the buffer
+  lastPublishedAt: number;
+}
+
+interface BusState {
+  emitter: EventEmitter;
+  buffers: Map<string, ReplayBuffer>; // Least recently published first
+  // Random per boot so IDs from a previous server process never match
+  bootId: string;
+  nextId: number;
+  droppedThrough: number; // Highest ID in any dropped buffer
+  lastSweepAt: number;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForBus = globalThis as unknown as { velolumeEventBus?: BusState };
+
+function state(): BusState {
+  if (!globalForBus.velolumeEventBus) {
+    const emitter = new EventEmitter();
+    // One listener per open dashboard tab
+    emitter.setMaxListeners(0);
+    globalForBus.velolumeEventBus = {
+      emitter,
+      buffers: new Map(),
+      bootId: Math.random().toString(36).substring(2, 8),
+      nextId: 1,
+      droppedThrough: 0,
+      lastSweepAt: Date.now(),
+    };
+  }
+  return globalForBus.velolumeEventBus;
+}
+
+// ============================================================================
+// Publish / Subscribe
+// ============================================================================
+
+/**
+ * Publish a message to one or more channels
+ */
+export function publish<T>(channels: string | string[], type: string, data: T): void {
+  const bus = state();
+  const now = Date.now();
+  const timestamp = new Date(now).toISOString();
+
+  for (const channel of Array.isArray(channels) ? channels : [channels]) {
+    const message: BusMessage<T> = { id: bus.nextId++, channel, type, data, timestamp };
+
+    // A new buffer may replace a dropped one: IDs up to the drop cannot be replayed
+    const buffer = bus.buffers.get(channel) || { messages: [], evictedThrough: bus.droppedThrough, lastPublishedAt: now };
+    buffer.messages.push(message);
+    if (buffer.messages.length > REPLAY_BUFFER_SIZE) {
+      buffer.evictedThrough = buffer.messages.shift()!.id;
+    }
+    buffer.lastPublishedAt = now;
+    // Re-inserted so the map stays in least recently published order
+    bus.buffers.delete(channel);
+    bus.buffers.set(channel, buffer);
+
+    try {
+      bus.emitter.emit(channel, message);
+    } catch (error) {
+      // A broken subscriber must never fail the write that published
+      console.error(`[EventBus] Listener error on ${channel}:`, error);
+    }
+  }
+
+  if (bus.buffers.size > MAX_REPLAY_CHANNELS || now - bus.lastSweepAt >= SWEEP_INTERVAL_MS) {
+    sweepBuffers(bus, now);
+  }
+}
+
+/**
+ * Drop buffers of unsubscribed channels that are idle past the TTL, then
+ * the least recently published ones while over the channel cap
+ */
+function sweepBuffers(bus: BusState, now: number): void {
+  bus.lastSweepAt = now;
+  let excess = bus.buffers.size - MAX_REPLAY_CHANNELS;
+
+  for (const [channel, buffer] of bus.buffers) {
+    if (bus.emitter.listenerCount(channel) > 0) continue;
+    const idle = now - buffer.lastPublishedAt >= REPLAY_BUFFER_TTL_MS;
+    if (!idle && excess <= 0) continue;
+
+    bus.buffers.delete(channel);
+    bus.droppedThrough = Math.max(bus.droppedThrough, buffer.messages[buffer.messages.length - 1]?.id ?? 0);
+    excess--;
+  }
+}
+
+/**
+ * Subscribe to a channel. Returns the unsubscribe function.
+ */
+export function subscribe(channel: string, listener: BusListener): () => void {
+  const { emitter } = state();
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/**
+ * Format a message ID for the SSE `id:` field
+ */
+export function formatEventId(message: BusMessage): string {
+  return `${state().bootId}-${message.id}`;
+}
+
+/**
+ * ID marking "everything published so far", sent with snapshots so a
+ * client that reconnects later only replays newer messages
+ */
+export function currentEventId(): string {
+  const bus = state();
+  return `${bus.bootId}-${bus.nextId - 1}`;
+}
+
+/**
+ * Messages on a channel after a Last-Event-ID, or null when the gap
+ * cannot be filled (unknown ID, other server process, or buffer overrun)
+ */
+export function getMessagesSince(channel: string, lastEventId: string): BusMessage[] | null {
+  const bus = state();
+  const [bootId, rawId] = lastEventId.split("-");
+  const lastId = parseInt(rawId, 10);
+
+  if (bootId !== bus.bootId || isNaN(lastId) || lastId >= bus.nextId) {
+    return null;
+  }
+
+  const buffer = bus.buffers.get(channel);
+  if (!buffer) {
+    // The channel's buffer may have been dropped after this ID
+    return lastId < bus.droppedThrough ? null : [];
+  }
+  if (lastId < buffer.evictedThrough) {
+    return null;
+  }
+
+  return buffer.messages.filter((m) => m.id > lastId);
+}
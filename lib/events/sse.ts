@@ -0,0 +1,119 @@
+/**
+ * Server-Sent Events Responses
+ *
+ * Turns an event bus channel into a text/event-stream response.
+ *
+ * On connect the client gets either the messages it missed (when it sends
+ * a replayable Last-Event-ID) or a `snapshot` event with the current state.
+ * A comment line is sent periodically so proxies keep the connection open.
+ */
+
+import { NextRequest } from "next/server";
+import {
+  BusMessage,
+  currentEventId,
+  formatEventId,
+  getMessagesSince,
+  subscribe,
+} from "./event-bus";
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Suggested browser reconnect delay
+const RETRY_MS = 3000;
+
+export interface EventStreamOptions {
+  channel: string;
+  /** Current state, sent as a `snapshot` event when replay is not possible */
+  snapshot: () => unknown;
+}
+
+/**
+ * Format one SSE frame
+ */
+function frame(event: string, data: unknown, id?: string): string {
+  const lines = id ? [`id: ${id}`] : [];
+  lines.push(`event: ${event}`, `data: ${JSON.stringify(data)}`);
+  return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Stream a bus channel to the client until it disconnects
+ */
+export function createEventStream(request: NextRequest, options: EventStreamOptions): Response {
+  const encoder = new TextEncoder();
+  // EventSource sends the header; a query param lets non-browser clients resume too
+  const lastEventId =
+    request.headers.get("last-event-id") || new URL(request.url).searchParams.get("lastEventId");
+
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+          cleanup?.();
+        }
+      };
+
+      const forward = (message: BusMessage) =>
+        send(frame(message.type, message.data, formatEventId(message)));
+
+      // Subscribe before replaying so nothing published in between is lost
+      const pending: BusMessage[] = [];
+      let replaying = true;
+      const unsubscribe = subscribe(options.channel, (message) => {
+        if (replaying) {
+          pending.push(message);
+        } else {
+          forward(message);
+        }
+      });
+
+      send(`retry: ${RETRY_MS}\n\n`);
+
+      const missed = lastEventId ? getMessagesSince(options.channel, lastEventId) : null;
+      if (missed) {
+        missed.forEach(forward);
+      } else {
+        send(frame("snapshot", options.snapshot(), currentEventId()));
+      }
+
+      const lastSent = missed && missed.length > 0 ? missed[missed.length - 1].id : 0;
+      replaying = false;
+      pending.filter((m) => m.id > lastSent).forEach(forward);
+
+      const heartbeat = setInterval(() => send(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        cleanup = null;
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
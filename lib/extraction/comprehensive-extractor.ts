@@ -17,12 +17,21 @@
  * - GPT-4o: Product detection, reference extraction, visual tiebreaker
  * - Gemini Flash: Candidate extraction, hook/content analysis
  * - GPT-4o-mini: Text-only SEO generation
+ *
+ * Every answer is validated against its prompt's output schema
+ * (output-schemas.ts) and re-asked when it does not match, so products,
+ * hooks and angles are never padded with made-up defaults.
+ *
+ * Prompts are rendered from the prompt registry (lib/prompts); each cost
+ * breakdown entry carries the ref of the prompt it ran.
  */
 
-import { getModelRouter, type CostBreakdown } from "@/lib/ai/model-router";
+import { getModelRouter, recordTranscriptionCost, type CostBreakdown } from "@/lib/ai/model-router";
+import { enforceBudget } from "@/lib/ai/cost-budget";
+import { getAIProvider } from "@/lib/ai/providers";
+import { renderPrompt } from "@/lib/prompts";
+import type { CostScope } from "@/lib/store/cost-ledger";
 import { extractAudio, extractFrames } from "@/lib/video/frame-extractor";
-import OpenAI from "openai";
-import { toFile } from "openai";
 
 import type {
   ComprehensiveExtraction,
@@ -36,8 +45,15 @@ import type {
   SEOData,
   ExtractionMeta,
   ExtractionCosts,
-  ProductCategory,
 } from "./types";
+import {
+  CONTENT_OUTPUT,
+  HOOK_OUTPUT,
+  PRODUCT_DETECTION_OUTPUT,
+  SEO_OUTPUT,
+  VISUAL_OUTPUT,
+  type DetectedProduct,
+} from "./output-schemas";
 
 // ============================================================================
 // Configuration
@@ -46,227 +62,6 @@ import type {
 const EXTRACTOR_VERSION = "1.0.0";
 const DEFAULT_MAX_FRAMES = 12;
 
-// ============================================================================
-// Prompts
-// ============================================================================
-
-const PRODUCT_DETECTION_SYSTEM = `You are an expert visual product detector for social commerce. Your job is to identify EVERY monetizable product visible in video frames.
-
-CRITICAL INSTRUCTIONS:
-1. SCAN THE ENTIRE FRAME - not just the focal point
-2. IDENTIFY ALL PRODUCTS the creator is: WEARING, HOLDING, USING, NEAR
-3. For EACH product, provide specific searchable attributes
-4. Err on the side of OVER-DETECTION - include items even if 50-60% confident
-5. DO NOT merge items - earrings AND necklace are TWO separate products
-
-You MUST respond with valid JSON only.`;
-
-const PRODUCT_DETECTION_USER = `Analyze these {frameCount} video frames from a creator's content.
-
-CONTEXT FROM AUDIO: "{transcription}"
-
-Find EVERY visible product including:
-- Full outfit breakdown (top, bottom, shoes - SEPARATE items)
-- All jewelry pieces (earrings, necklace, rings, bracelet - SEPARATE)
-- Accessories (bag, belt, sunglasses, hair accessories)
-- Beauty/skincare products visible or being used
-- Tech items (phone, earbuds)
-- Background items (furniture, decor) if clearly visible
-
-Respond with JSON:
-{
-  "products": [
-    {
-      "name": "Specific descriptive product name",
-      "category": "Clothing|Footwear|Accessories|Jewelry|Beauty|Tech|Home|Bags|Other",
-      "subcategory": "e.g., Midi Dress, Hoop Earrings, Crossbody Bag",
-      "primaryColor": "main color",
-      "colorFamily": "neutral|warm|cool|earth|pastel|bright|dark",
-      "secondaryColors": ["if applicable"],
-      "pattern": "solid|striped|floral|plaid|etc",
-      "material": "cotton|silk|leather|metal|etc",
-      "style": "casual|formal|streetwear|minimalist|etc",
-      "location": "face|upper_body|lower_body|feet|hands|wrist|background|held",
-      "brand": "brand if visible, null otherwise",
-      "searchTerms": ["array", "of", "search", "terms"],
-      "estimatedPriceRange": "$XX-$XX or null",
-      "confidence": 0.0-1.0,
-      "identifiability": "high|medium|low",
-      "frameIndices": [0, 2, 5]
-    }
-  ]
-}`;
-
-const HOOK_ANALYSIS_SYSTEM = `You are an expert content strategist analyzing video hooks for social media.
-
-A "hook" is the opening 1-5 seconds that captures attention. Analyze:
-1. What type of hook is used
-2. What attention devices are employed
-3. What emotional triggers are activated
-4. How effective is the hook
-
-You MUST respond with valid JSON only.`;
-
-const HOOK_ANALYSIS_USER = `Analyze the OPENING of this video (first 3-5 seconds).
-
-TRANSCRIPTION: "{transcription}"
-
-Identify the hook strategy:
-
-{
-  "hook": {
-    "type": "question|statement|demonstration|problem|promise|social_proof|curiosity_gap|controversy|transformation|relatable|trend_reference|direct_address",
-    "startSeconds": 0,
-    "endSeconds": 3,
-    "duration": 3,
-    "transcript": "exact words spoken in first 3-5 seconds",
-    "visualDescription": "what's shown visually in opening",
-    "attentionDevices": ["text_overlay", "face_close_up", "product_reveal", "sound_effect", "quick_cuts", "zoom", "movement", "bright_colors"],
-    "emotionalTrigger": "curiosity|fomo|aspiration|relatability|humor|surprise|urgency|exclusivity|validation|null",
-    "hookStrength": 0-100,
-    "clarity": 0-100
-  }
-}`;
-
-const CONTENT_ANALYSIS_SYSTEM = `You are an expert content analyst identifying the strategic elements of creator videos.
-
-Analyze:
-1. ANGLE: The unique claim or perspective
-2. THEME: Narrative structure, format, pacing
-3. ENGAGEMENT: Calls to action, social proof, shareability
-
-You MUST respond with valid JSON only.`;
-
-const CONTENT_ANALYSIS_USER = `Analyze this video's content strategy.
-
-TRANSCRIPTION: "{transcription}"
-
-Identify:
-
-{
-  "angle": {
-    "type": "problem_solution|discovery|comparison|routine|review|tutorial|haul|favorites|lifestyle|transformation|recommendation|unboxing|first_impression|dupes|trend_test",
-    "uniqueClaim": "The main value proposition or claim",
-    "perspective": "Creator's point of view",
-    "differentiation": "What makes this different from similar content",
-    "targetAudience": "Who this is for",
-    "painPoint": "Problem addressed, if any",
-    "desiredOutcome": "What viewer should feel/do after",
-    "clarityScore": 0-100,
-    "believabilityScore": 0-100
-  },
-  "theme": {
-    "narrativeArc": "linear|hook_reveal|problem_solution|tutorial_steps|comparison|listicle|story|montage|reaction|day_in_life",
-    "format": "talking_head|voiceover_broll|text_only|grwm|ootd|haul|tutorial|vlog|transition|slideshow|duet_stitch",
-    "pacing": {
-      "overall": "fast|medium|slow",
-      "cutsPerMinute": 0,
-      "averageClipLength": 0,
-      "hasQuickCuts": true/false,
-      "hasPauses": true/false
-    },
-    "tone": ["casual", "energetic", "relatable"],
-    "aesthetic": "minimalist|maximalist|clean_girl|y2k|luxury|casual|bohemian|preppy|edgy|natural|glam",
-    "energy": "high|medium|low",
-    "editingStyle": {
-      "complexity": "simple|moderate|complex",
-      "transitions": ["cut", "zoom"],
-      "effects": ["filter", "text"],
-      "textOverlays": true/false,
-      "captionsPresent": true/false
-    },
-    "musicStyle": "trending_sound|original_audio|background_music|no_music|voiceover_only",
-    "voiceoverStyle": "direct_speaking|narration|text_to_speech|no_voice|asmr"
-  },
-  "engagement": {
-    "callToAction": {
-      "type": "follow|like|comment|share|link|buy|subscribe|save|null",
-      "text": "exact CTA text",
-      "timestamp": null,
-      "strength": "strong|moderate|soft"
-    },
-    "socialProof": [
-      {"type": "testimonial|statistics|celebrity|trend|reviews|before_after", "description": "..."}
-    ],
-    "engagementDrivers": ["question_asked", "relatable_content", "practical_tips"],
-    "shareabilityScore": 0-100,
-    "shareabilityFactors": ["reasons it would be shared"]
-  }
-}`;
-
-const VISUAL_ANALYSIS_SYSTEM = `You are an expert visual analyst for social media content.
-
-Analyze the visual characteristics including:
-- Color palette and harmony
-- Lighting quality and type
-- Composition and framing
-- Setting and environment
-- Production quality
-
-You MUST respond with valid JSON only.`;
-
-const VISUAL_ANALYSIS_USER = `Analyze the visual characteristics of these video frames.
-
-{
-  "visual": {
-    "dominantColors": ["color1", "color2", "color3"],
-    "colorPalette": ["full palette"],
-    "colorHarmony": "monochromatic|complementary|analogous|triadic|neutral",
-    "lighting": {
-      "type": "natural|studio|ring_light|mixed|low_light|golden_hour",
-      "quality": "professional|good|average|poor",
-      "consistency": true/false
-    },
-    "composition": {
-      "framing": "centered|rule_of_thirds|asymmetric|varied",
-      "cameraAngles": ["straight on", "slightly above"],
-      "cameraMovement": true/false,
-      "subjectPlacement": "center|left|right|varied"
-    },
-    "setting": {
-      "location": "bedroom|bathroom|living room|kitchen|etc",
-      "environment": "indoor|outdoor|mixed",
-      "background": "description of background",
-      "props": ["visible props"]
-    },
-    "quality": {
-      "resolution": "4k|1080p|720p|lower",
-      "stability": "stable|minor_shake|handheld",
-      "focus": "sharp|soft|varied"
-    }
-  }
-}`;
-
-const SEO_SYSTEM = `You are an SEO expert for social commerce content.
-
-Generate optimized metadata including:
-- Search keywords
-- Hashtags
-- Title and description
-- Niche categorization
-
-You MUST respond with valid JSON only.`;
-
-const SEO_USER = `Generate SEO metadata for this video.
-
-PRODUCTS: {products}
-TRANSCRIPTION: {transcription}
-CONTENT TYPE: {contentType}
-TARGET AUDIENCE: {targetAudience}
-
-{
-  "seo": {
-    "keywords": ["keyword1", "keyword2", ...15-20 keywords],
-    "hashtags": ["#hashtag1", "#hashtag2", ...8-12 hashtags],
-    "suggestedTitle": "SEO-optimized title (60 chars max)",
-    "suggestedDescription": "SEO description (160 chars max)",
-    "niche": "main niche category",
-    "subNiche": "specific sub-niche",
-    "trendAlignment": ["trends this aligns with"],
-    "searchTerms": ["long-tail search terms"]
-  }
-}`;
-
 // ============================================================================
 // Main Extractor Class
 // ============================================================================
@@ -278,11 +73,12 @@ export interface ExtractorOptions {
   skipContent?: boolean;
   skipVisual?: boolean;
   skipSEO?: boolean;
+  beforeStage?: (stage: string) => void; // Runs before each pipeline step; throw to stop (e.g. job cancelled)
+  costScope?: CostScope; // Job, store and creator the AI calls are billed to
 }
 
 export class ComprehensiveExtractor {
   private router = getModelRouter();
-  private openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
   /**
    * Extract complete "Digital DNA" from a video
@@ -297,7 +93,11 @@ export class ComprehensiveExtractor {
     console.log(`[Extractor] Starting comprehensive extraction for: ${videoKey}`);
     this.router.resetCosts();
 
+    const beforeStage = options.beforeStage || (() => {});
+    const scope = options.costScope;
+
     // Step 1: Extract audio and frames in parallel
+    beforeStage("extract");
     console.log(`[Extractor] Extracting audio and frames...`);
     const [audioBuffer, frameData] = await Promise.all([
       extractAudio(videoKey),
@@ -309,31 +109,36 @@ export class ComprehensiveExtractor {
     console.log(`[Extractor] Selected ${frames.length} frames from ${frameData.frames.length}`);
 
     // Step 2: Transcribe audio
+    beforeStage("transcribe");
     console.log(`[Extractor] Transcribing audio...`);
-    const transcription = await this.transcribeAudio(audioBuffer);
+    const transcription = await this.transcribeAudio(audioBuffer, scope);
 
     // Step 3: Run extractions in parallel where possible
+    beforeStage("analyze");
     console.log(`[Extractor] Running parallel extractions...`);
 
     const [products, hookResult, contentResult, visualResult] = await Promise.all([
-      options.skipProducts ? [] : this.extractProducts(frames, transcription.text),
-      options.skipHook ? null : this.extractHook(frames.slice(0, 3), transcription.text),
-      options.skipContent ? null : this.extractContent(frames, transcription.text),
-      options.skipVisual ? null : this.extractVisual(frames),
+      options.skipProducts ? [] : this.extractProducts(frames, transcription.text, scope),
+      options.skipHook ? null : this.extractHook(frames.slice(0, 3), transcription.text, scope),
+      options.skipContent ? null : this.extractContent(frames, transcription.text, scope),
+      options.skipVisual ? null : this.extractVisual(frames, scope),
     ]);
 
     // Step 4: Generate SEO (depends on products and content)
+    beforeStage("seo");
     console.log(`[Extractor] Generating SEO data...`);
     const seoResult = options.skipSEO ? null : await this.generateSEO(
       products,
       transcription.text,
       contentResult?.theme.format || "unknown",
-      contentResult?.angle.targetAudience || "general"
+      contentResult?.angle.targetAudience || "general",
+      scope
     );
 
     // Build result
     const costs = this.router.getCosts();
     const totalCost = this.router.getTotalCost();
+    const totalCostSaved = this.router.getTotalCostSaved();
 
     const result: ComprehensiveExtraction = {
       meta: {
@@ -344,8 +149,10 @@ export class ComprehensiveExtractor {
         framesAnalyzed: frames.length,
         productsDetected: products.length,
         totalDataPoints: this.countDataPoints(products, hookResult, contentResult, visualResult, seoResult),
+        prompts: [...new Set(costs.flatMap((cost) => (cost.prompt ? [cost.prompt] : [])))],
       },
       products: products.map(p => this.normalizeProduct(p)),
+      // Defaults only stand in for skipped steps; invalid answers throw
       hook: hookResult || this.getDefaultHook(),
       angle: contentResult?.angle || this.getDefaultAngle(),
       theme: contentResult?.theme || this.getDefaultTheme(),
@@ -376,12 +183,13 @@ export class ComprehensiveExtractor {
       seo: seoResult || this.getDefaultSEO(),
       costs: {
         totalCost,
+        totalCostSaved,
         breakdown: costs,
       },
     };
 
     const elapsed = Date.now() - startTime;
-    console.log(`[Extractor] Complete in ${elapsed}ms. Total cost: $${totalCost.toFixed(4)}`);
+    console.log(`[Extractor] Complete in ${elapsed}ms. Total cost: $${totalCost.toFixed(4)} (cache saved $${totalCostSaved.toFixed(4)})`);
 
     return result;
   }
@@ -392,88 +200,107 @@ export class ComprehensiveExtractor {
 
   private async extractProducts(
     frames: Buffer[],
-    transcription: string
-  ): Promise<any[]> {
+    transcription: string,
+    scope?: CostScope
+  ): Promise<DetectedProduct[]> {
     console.log(`[Extractor] Detecting products across ${frames.length} frames...`);
 
-    const userPrompt = PRODUCT_DETECTION_USER
-      .replace("{frameCount}", frames.length.toString())
-      .replace("{transcription}", transcription.slice(0, 500));
+    const prompt = renderPrompt("extraction.products", {
+      frameCount: frames.length,
+      transcription: transcription.slice(0, 500),
+    });
 
-    const result = await this.router.executeVisionTask<{ products: any[] }>(
+    const result = await this.router.executeVisionTask(
       "product_detection",
       frames,
-      PRODUCT_DETECTION_SYSTEM,
-      userPrompt
+      prompt.system!,
+      prompt.text,
+      PRODUCT_DETECTION_OUTPUT,
+      { scope, prompt: prompt.ref }
     );
 
-    console.log(`[Extractor] Detected ${result.data.products?.length || 0} products`);
-    return result.data.products || [];
+    console.log(`[Extractor] Detected ${result.data.products.length} products`);
+    return result.data.products;
   }
 
   private async extractHook(
     openingFrames: Buffer[],
-    transcription: string
-  ): Promise<ExtractedHook | null> {
+    transcription: string,
+    scope?: CostScope
+  ): Promise<ExtractedHook> {
     console.log(`[Extractor] Analyzing hook...`);
 
-    const userPrompt = HOOK_ANALYSIS_USER
-      .replace("{transcription}", transcription.slice(0, 200));
+    const prompt = renderPrompt("extraction.hook", { transcription: transcription.slice(0, 200) });
 
-    const result = await this.router.executeVisionTask<{ hook: ExtractedHook }>(
+    const result = await this.router.executeVisionTask(
       "hook_extraction",
       openingFrames,
-      HOOK_ANALYSIS_SYSTEM,
-      userPrompt
+      prompt.system!,
+      prompt.text,
+      HOOK_OUTPUT,
+      { scope, prompt: prompt.ref }
     );
 
-    return result.data.hook || null;
+    const { startSeconds, endSeconds, duration, attentionDevices, ...hook } = result.data.hook;
+    return {
+      ...hook,
+      timestamp: { startSeconds, endSeconds, duration },
+      attentionDevice: attentionDevices,
+    };
   }
 
   private async extractContent(
     frames: Buffer[],
-    transcription: string
-  ): Promise<{ angle: ExtractedAngle; theme: ExtractedTheme; engagement: EngagementSignals } | null> {
+    transcription: string,
+    scope?: CostScope
+  ): Promise<{ angle: ExtractedAngle; theme: ExtractedTheme; engagement: EngagementSignals }> {
     console.log(`[Extractor] Analyzing content (angle, theme, engagement)...`);
 
-    const userPrompt = CONTENT_ANALYSIS_USER
-      .replace("{transcription}", transcription);
+    const prompt = renderPrompt("extraction.content", { transcription });
 
-    const result = await this.router.executeVisionTask<{
-      angle: ExtractedAngle;
-      theme: ExtractedTheme;
-      engagement: EngagementSignals;
-    }>(
+    const result = await this.router.executeVisionTask(
       "content_analysis",
       frames,
-      CONTENT_ANALYSIS_SYSTEM,
-      userPrompt
+      prompt.system!,
+      prompt.text,
+      CONTENT_OUTPUT,
+      { scope, prompt: prompt.ref }
     );
 
-    return result.data;
+    return {
+      angle: result.data.angle,
+      theme: result.data.theme as ExtractedTheme,
+      engagement: result.data.engagement as EngagementSignals,
+    };
   }
 
   private async extractVisual(
-    frames: Buffer[]
-  ): Promise<VisualAnalysis | null> {
+    frames: Buffer[],
+    scope?: CostScope
+  ): Promise<VisualAnalysis> {
     console.log(`[Extractor] Analyzing visual characteristics...`);
 
-    const result = await this.router.executeVisionTask<{ visual: VisualAnalysis }>(
+    const prompt = renderPrompt("extraction.visual");
+
+    const result = await this.router.executeVisionTask(
       "content_analysis", // Use same task type for consistent model
       frames,
-      VISUAL_ANALYSIS_SYSTEM,
-      VISUAL_ANALYSIS_USER
+      prompt.system!,
+      prompt.text,
+      VISUAL_OUTPUT,
+      { scope, prompt: prompt.ref }
     );
 
-    return result.data.visual || null;
+    return result.data.visual as VisualAnalysis;
   }
 
   private async generateSEO(
-    products: any[],
+    products: DetectedProduct[],
     transcription: string,
     contentType: string,
-    targetAudience: string
-  ): Promise<SEOData | null> {
+    targetAudience: string,
+    scope?: CostScope
+  ): Promise<SEOData> {
     console.log(`[Extractor] Generating SEO metadata...`);
 
     const productSummary = products
@@ -481,41 +308,43 @@ export class ComprehensiveExtractor {
       .map(p => p.name)
       .join(", ");
 
-    const userPrompt = SEO_USER
-      .replace("{products}", productSummary || "Various products")
-      .replace("{transcription}", transcription.slice(0, 300))
-      .replace("{contentType}", contentType)
-      .replace("{targetAudience}", targetAudience);
+    const prompt = renderPrompt("extraction.seo", {
+      products: productSummary || "Various products",
+      transcription: transcription.slice(0, 300),
+      contentType,
+      targetAudience,
+    });
 
-    const result = await this.router.executeTextTask<{ seo: SEOData }>(
+    const result = await this.router.executeTextTask(
       "seo_generation",
-      SEO_SYSTEM,
-      userPrompt
+      prompt.system!,
+      prompt.text,
+      SEO_OUTPUT,
+      { scope, prompt: prompt.ref }
     );
 
-    return result.data.seo || null;
+    return result.data.seo as SEOData;
   }
 
   // ============================================================================
   // Audio Transcription
   // ============================================================================
 
-  private async transcribeAudio(audioBuffer: Buffer): Promise<{
+  private async transcribeAudio(audioBuffer: Buffer, scope?: CostScope): Promise<{
     text: string;
     language: string;
     duration: number;
   }> {
-    const audioFile = await toFile(audioBuffer, "audio.mp3", {
-      type: "audio/mpeg",
-    });
+    enforceBudget(scope); // No cheaper transcription model to downgrade to
 
-    const response = await this.openai.audio.transcriptions.create({
-      file: audioFile,
+    const response = await getAIProvider().transcribe({
+      audio: audioBuffer,
       model: "whisper-1",
-      response_format: "verbose_json",
       prompt: "E-commerce product video. May include: English, Thai, Vietnamese, Indonesian, Malay, Chinese, Filipino, Japanese, Korean.",
     });
 
+    recordTranscriptionCost("whisper-1", response.duration || 0, scope);
+
     return {
       text: response.text,
       language: response.language || "unknown",
@@ -541,33 +370,31 @@ export class ComprehensiveExtractor {
     return selected;
   }
 
-  private normalizeProduct(p: any): ExtractedProduct {
+  private normalizeProduct(p: DetectedProduct): ExtractedProduct {
+    const {
+      name, category, subcategory, location, frameIndices, searchTerms,
+      estimatedPriceRange, brand, confidence, identifiability,
+      ...attributes // Colors, pattern, material, style and any category-specific extras
+    } = p;
+
     return {
-      name: p.name || "Unknown Product",
-      category: (p.category || "Other") as ProductCategory,
-      subcategory: p.subcategory || p.category || "General",
-      attributes: {
-        primaryColor: p.primaryColor || "unknown",
-        colorFamily: p.colorFamily || "unknown",
-        secondaryColors: p.secondaryColors || [],
-        pattern: p.pattern || "solid",
-        material: p.material || "unknown",
-        style: p.style || "casual",
-        ...p, // Include any additional attributes
-      },
-      location: p.location || "unknown",
+      name,
+      category,
+      subcategory,
+      attributes: attributes as ExtractedProduct["attributes"],
+      location,
       visibility: {
-        framesVisible: p.frameIndices?.length || 1,
+        framesVisible: frameIndices.length,
         totalFrames: 12,
         averageVisibility: "partial",
-        bestFrameIndex: p.frameIndices?.[0] || 0,
+        bestFrameIndex: frameIndices[0],
       },
-      frameIndices: p.frameIndices || [0],
-      searchTerms: p.searchTerms || [],
-      estimatedPriceRange: p.estimatedPriceRange || null,
-      brand: p.brand || null,
-      confidence: p.confidence || 0.7,
-      identifiability: p.identifiability || "medium",
+      frameIndices,
+      searchTerms,
+      estimatedPriceRange,
+      brand,
+      confidence,
+      identifiability,
     };
   }
 
@@ -10,7 +10,12 @@
  * Uses Claim<T> wrapper with evidence for all extracted data.
  */
 
-import OpenAI from "openai";
+import { calculateModelCost, MODELS } from "@/lib/ai/model-router";
+import { isOfflineProvider } from "@/lib/ai/providers";
+import { cachedChat } from "@/lib/ai/response-cache";
+import { parseModelOutput, validatedChat } from "@/lib/ai/structured-output";
+import { renderPrompt } from "@/lib/prompts";
+import { HOOK_ANALYSIS_OUTPUT } from "./output-schemas";
 import {
   Claim,
   Evidence,
@@ -91,6 +96,7 @@ export interface HookAnalysis {
   hookWindow: HookWindow;
   framesAnalyzed: number;
   modelVersion: string;
+  prompt: string;                // Prompt registry ref, e.g. "hook.analysis@1.0.0"
   extractedAt: Date;
   processingTimeMs: number;
 }
@@ -145,21 +151,6 @@ const HOOK_TYPE_PATTERNS: Record<HookType, string[]> = {
 
 const MODEL_VERSION = "gpt-4o-2024-01-25";
 
-// =============================================================================
-// OPENAI CLIENT
-// =============================================================================
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
-
 // =============================================================================
 // HOOK WINDOW DETECTION
 // =============================================================================
@@ -265,58 +256,6 @@ function preClassifyHookType(transcript: string | null): HookType[] {
 // GPT-4o HOOK ANALYSIS
 // =============================================================================
 
-const HOOK_ANALYSIS_PROMPT = `You are an expert content strategist analyzing video hooks. A "hook" is the opening of a video designed to capture attention and stop viewers from scrolling.
-
-HOOK WINDOW CONTEXT:
-- Content Type: {contentType}
-- Hook Window: {startSeconds}s - {endSeconds}s
-- Primary Hook: 0 - {primaryEndSeconds}s (most critical)
-
-TRANSCRIPT IN HOOK WINDOW:
-{transcript}
-
-PATTERN HINTS (from text analysis):
-{patternHints}
-
-Analyze the opening frames and classify the hook.
-
-HOOK TYPES (choose primary + optional secondary):
-- question: Opens with a question ("Have you ever...?")
-- statement: Bold claim or discovery ("I found the best...")
-- pov: Point of view scenario ("POV: you just...")
-- controversy: Provocative/contrarian take ("Unpopular opinion...")
-- teaser: Promise of payoff later ("Wait for it...")
-- listicle: Numbered list format ("5 things you need...")
-- problem: Addresses pain point ("Struggling with...?")
-- visual_hook: Striking visual that creates curiosity (no text needed)
-- trend_sound: Uses recognizable trending audio as the hook
-- story: Narrative opening ("Story time...")
-- result_first: Shows outcome/transformation immediately
-- direct_value: Explicitly states what viewer will learn
-
-EFFECTIVENESS SCORING (0-100 total):
-1. Clarity of Promise (0-25): Does viewer immediately know what they'll get?
-2. Pattern Interrupt (0-25): How well does it stop the scroll? (unusual, surprising, striking)
-3. Speed to Value (0-25): How fast does the promise/payoff arrive?
-4. Content Alignment (0-25): Does hook style match content type? (short-form = punchy, long-form = can build)
-
-Respond with JSON only:
-{
-  "hookType": "primary hook type",
-  "secondaryHookType": "secondary type or null",
-  "hookTypeConfidence": 0.0-1.0,
-  "textOverlay": "exact on-screen text if visible, or null",
-  "visualDescription": "1-2 sentence description of visual hook elements",
-  "audioType": "trending_sound|original_audio|voiceover|music_only|silent|mixed",
-  "effectiveness": {
-    "clarityOfPromise": 0-25,
-    "patternInterrupt": 0-25,
-    "speedToValue": 0-25,
-    "contentAlignment": 0-25,
-    "reasoning": "2-3 sentences explaining the scores"
-  }
-}`;
-
 async function analyzeHookWithGPT4o(
   frames: Buffer[],
   hookWindow: HookWindow,
@@ -330,77 +269,49 @@ async function analyzeHookWithGPT4o(
   visualDescription: string;
   audioType: AudioType;
   effectiveness: EffectivenessBreakdown;
+  prompt: string;
 }> {
-  const openai = getOpenAI();
-
-  const prompt = HOOK_ANALYSIS_PROMPT
-    .replace("{contentType}", hookWindow.contentType)
-    .replace("{startSeconds}", hookWindow.startSeconds.toString())
-    .replace("{endSeconds}", hookWindow.endSeconds.toString())
-    .replace("{primaryEndSeconds}", hookWindow.primaryEndSeconds.toString())
-    .replace("{transcript}", transcript || "(No transcript in hook window)")
-    .replace("{patternHints}", patternHints.length > 0 ? patternHints.join(", ") : "None detected");
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      {
-        role: "user",
-        content: [
-          { type: "text", text: prompt },
-          ...frames.slice(0, 4).map((frame) => ({  // Limit to 4 frames for cost
-            type: "image_url" as const,
-            image_url: {
-              url: `data:image/jpeg;base64,${frame.toString("base64")}`,
-              detail: "high" as const,
-            },
-          })),
-        ],
-      },
-    ],
-    max_tokens: 800,
-    temperature: 0.2,
-    response_format: { type: "json_object" },
+  const prompt = renderPrompt("hook.analysis", {
+    contentType: hookWindow.contentType,
+    startSeconds: hookWindow.startSeconds,
+    endSeconds: hookWindow.endSeconds,
+    primaryEndSeconds: hookWindow.primaryEndSeconds,
+    transcript: transcript || "(No transcript in hook window)",
+    patternHints: patternHints.length > 0 ? patternHints.join(", ") : "None detected",
   });
 
-  const content = response.choices[0]?.message?.content || "{}";
-  let parsed;
-
-  try {
-    parsed = JSON.parse(content);
-  } catch {
-    console.error("[HookExtractor] Failed to parse GPT-4o response:", content);
-    parsed = {};
-  }
-
-  // Validate and normalize response
-  const validHookTypes = new Set([
-    "question", "statement", "pov", "controversy", "teaser", "listicle",
-    "problem", "visual_hook", "trend_sound", "story", "result_first", "direct_value", "unknown"
-  ]);
-
-  const validAudioTypes = new Set([
-    "trending_sound", "original_audio", "voiceover", "music_only", "silent", "mixed"
-  ]);
+  const { data } = await validatedChat(
+    {
+      provider: "openai",
+      model: "gpt-4o",
+      prompt: prompt.text,
+      images: frames.slice(0, 4).map((frame) => ({ data: frame, detail: "high" as const })), // Limit to 4 frames for cost
+      maxTokens: 800,
+      temperature: 0.2,
+      json: true,
+    },
+    HOOK_ANALYSIS_OUTPUT,
+    {
+      task: "hook_extraction",
+      send: (request) =>
+        cachedChat(request, {
+          task: "hook_extraction",
+          promptVersion: prompt.ref,
+          costOf: (inputTokens, outputTokens) => calculateModelCost(MODELS["gpt-4o"], inputTokens, outputTokens),
+          accept: (content) => parseModelOutput(content, HOOK_ANALYSIS_OUTPUT).ok,
+        }),
+    }
+  );
 
   return {
-    hookType: validHookTypes.has(parsed.hookType) ? parsed.hookType : "unknown",
-    secondaryHookType: parsed.secondaryHookType && validHookTypes.has(parsed.secondaryHookType)
-      ? parsed.secondaryHookType
-      : null,
-    confidence: typeof parsed.hookTypeConfidence === "number"
-      ? Math.min(Math.max(parsed.hookTypeConfidence, 0), 1)
-      : 0.7,
-    textOverlay: parsed.textOverlay || null,
-    visualDescription: parsed.visualDescription || "Visual content analyzed",
-    audioType: validAudioTypes.has(parsed.audioType) ? parsed.audioType : "mixed",
-    effectiveness: {
-      clarityOfPromise: Math.min(Math.max(parsed.effectiveness?.clarityOfPromise || 15, 0), 25),
-      patternInterrupt: Math.min(Math.max(parsed.effectiveness?.patternInterrupt || 15, 0), 25),
-      speedToValue: Math.min(Math.max(parsed.effectiveness?.speedToValue || 15, 0), 25),
-      contentAlignment: Math.min(Math.max(parsed.effectiveness?.contentAlignment || 15, 0), 25),
-      reasoning: parsed.effectiveness?.reasoning || "Analysis complete",
-    },
+    hookType: data.hookType,
+    secondaryHookType: data.secondaryHookType,
+    confidence: data.hookTypeConfidence,
+    textOverlay: data.textOverlay || null,
+    visualDescription: data.visualDescription,
+    audioType: data.audioType,
+    effectiveness: data.effectiveness,
+    prompt: prompt.ref,
   };
 }
 
@@ -527,6 +438,7 @@ export async function extractHook(input: HookExtractionInput): Promise<HookAnaly
     hookWindow,
     framesAnalyzed: filteredFrames.frames.length,
     modelVersion: MODEL_VERSION,
+    prompt: analysis.prompt,
     extractedAt: now,
     processingTimeMs: processingTime,
   };
@@ -656,7 +568,7 @@ export async function extractHooksBatch(
 // =============================================================================
 
 export function isHookExtractorReady(): boolean {
-  return !!process.env.OPENAI_API_KEY;
+  return isOfflineProvider() || !!process.env.OPENAI_API_KEY;
 }
 
 export function getHookExtractorStatus() {
@@ -0,0 +1,180 @@
+/**
+ * Extraction Output Schemas
+ *
+ * Runtime schemas for the JSON each ComprehensiveExtractor prompt asks
+ * for. They follow the prompts' response formats, which are flatter than
+ * the stored types (e.g. a hook's startSeconds/endSeconds become its
+ * timestamp); the extractor maps validated answers onto the types.
+ */
+
+import { InferOutput, schema } from "@/lib/ai/output-schema";
+import type {
+  AngleType,
+  AttentionDevice,
+  EmotionalTrigger,
+  HookType,
+  ProductCategory,
+  ProductLocation,
+} from "./types";
+import type { AudioType, HookType as HookAnalysisType } from "./hook-extractor";
+
+// ============================================================================
+// Allowed Values
+// ============================================================================
+
+const PRODUCT_CATEGORIES: readonly ProductCategory[] = [
+  "Clothing", "Footwear", "Accessories", "Jewelry", "Beauty", "Skincare",
+  "Haircare", "Tech", "Home", "Bags", "Other",
+];
+
+const PRODUCT_LOCATIONS: readonly ProductLocation[] = [
+  "face", "head", "ears", "neck", "upper_body", "lower_body", "full_body", "hands",
+  "wrist", "waist", "feet", "background", "table", "held", "being_applied",
+];
+
+const HOOK_TYPES: readonly HookType[] = [
+  "question", "statement", "demonstration", "problem", "promise", "social_proof",
+  "curiosity_gap", "controversy", "transformation", "relatable", "trend_reference",
+  "direct_address",
+];
+
+const ATTENTION_DEVICES: readonly AttentionDevice[] = [
+  "text_overlay", "face_close_up", "product_reveal", "sound_effect", "music_drop",
+  "quick_cuts", "zoom", "movement", "bright_colors", "contrast", "pattern_interrupt",
+];
+
+const EMOTIONAL_TRIGGERS: readonly EmotionalTrigger[] = [
+  "curiosity", "fomo", "aspiration", "relatability", "humor", "surprise", "urgency",
+  "exclusivity", "validation",
+];
+
+const ANGLE_TYPES: readonly AngleType[] = [
+  "problem_solution", "discovery", "comparison", "routine", "review", "tutorial",
+  "haul", "favorites", "lifestyle", "transformation", "recommendation", "unboxing",
+  "first_impression", "dupes", "trend_test",
+];
+
+const score = () => schema.number({ min: 0, max: 100 });
+
+// ============================================================================
+// Products
+// ============================================================================
+
+// Extra keys (category-specific attributes) are kept for the attribute bag
+export const DETECTED_PRODUCT_OUTPUT = schema.object(
+  {
+    name: schema.string(),
+    category: schema.enum(PRODUCT_CATEGORIES),
+    subcategory: schema.string(),
+    primaryColor: schema.string(),
+    colorFamily: schema.string(),
+    secondaryColors: schema.optional(schema.array(schema.string()), []),
+    pattern: schema.string(),
+    material: schema.string(),
+    style: schema.string(),
+    location: schema.enum(PRODUCT_LOCATIONS),
+    brand: schema.nullable(schema.string()),
+    searchTerms: schema.array(schema.string()),
+    estimatedPriceRange: schema.nullable(schema.string()),
+    confidence: schema.number({ min: 0, max: 1 }),
+    identifiability: schema.enum(["high", "medium", "low"] as const),
+    frameIndices: schema.array(schema.number({ min: 0, integer: true }), { min: 1 }),
+  },
+  { passthrough: true }
+);
+
+export const PRODUCT_DETECTION_OUTPUT = schema.object({
+  products: schema.array(DETECTED_PRODUCT_OUTPUT),
+});
+
+export type DetectedProduct = InferOutput<typeof DETECTED_PRODUCT_OUTPUT>;
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export const HOOK_OUTPUT = schema.object({
+  hook: schema.object({
+    type: schema.enum(HOOK_TYPES),
+    startSeconds: schema.number({ min: 0 }),
+    endSeconds: schema.number({ min: 0 }),
+    duration: schema.number({ min: 0 }),
+    transcript: schema.string(),
+    visualDescription: schema.string(),
+    attentionDevices: schema.array(schema.enum(ATTENTION_DEVICES)),
+    emotionalTrigger: schema.nullable(schema.enum(EMOTIONAL_TRIGGERS)),
+    hookStrength: score(),
+    clarity: score(),
+  }),
+});
+
+// Hook extractor (hook-extractor.ts), which has its own hook taxonomy
+const HOOK_ANALYSIS_TYPES: readonly HookAnalysisType[] = [
+  "question", "statement", "pov", "controversy", "teaser", "listicle", "problem",
+  "visual_hook", "trend_sound", "story", "result_first", "direct_value", "unknown",
+];
+
+const AUDIO_TYPES: readonly AudioType[] = [
+  "trending_sound", "original_audio", "voiceover", "music_only", "silent", "mixed",
+];
+
+const effectivenessScore = () => schema.number({ min: 0, max: 25 });
+
+export const HOOK_ANALYSIS_OUTPUT = schema.object({
+  hookType: schema.enum(HOOK_ANALYSIS_TYPES),
+  secondaryHookType: schema.optional(schema.nullable(schema.enum(HOOK_ANALYSIS_TYPES)), null),
+  hookTypeConfidence: schema.number({ min: 0, max: 1 }),
+  textOverlay: schema.optional(schema.nullable(schema.string()), null),
+  visualDescription: schema.string(),
+  audioType: schema.enum(AUDIO_TYPES),
+  effectiveness: schema.object({
+    clarityOfPromise: effectivenessScore(),
+    patternInterrupt: effectivenessScore(),
+    speedToValue: effectivenessScore(),
+    contentAlignment: effectivenessScore(),
+    reasoning: schema.string(),
+  }),
+});
+
+// ============================================================================
+// Content (angle, theme, engagement)
+// ============================================================================
+
+export const ANGLE_OUTPUT = schema.object({
+  type: schema.enum(ANGLE_TYPES),
+  uniqueClaim: schema.string(),
+  perspective: schema.string(),
+  differentiation: schema.string(),
+  targetAudience: schema.string(),
+  painPoint: schema.nullable(schema.string()),
+  desiredOutcome: schema.nullable(schema.string()),
+  clarityScore: score(),
+  believabilityScore: score(),
+});
+
+// Theme and engagement are stored as the model returns them
+export const CONTENT_OUTPUT = schema.object({
+  angle: ANGLE_OUTPUT,
+  theme: schema.object({ format: schema.string() }, { passthrough: true }),
+  engagement: schema.object({}, { passthrough: true }),
+});
+
+// ============================================================================
+// Visual and SEO
+// ============================================================================
+
+export const VISUAL_OUTPUT = schema.object({
+  visual: schema.object({}, { passthrough: true }),
+});
+
+export const SEO_OUTPUT = schema.object({
+  seo: schema.object(
+    {
+      keywords: schema.array(schema.string()),
+      hashtags: schema.array(schema.string()),
+      suggestedTitle: schema.string(),
+      suggestedDescription: schema.string(),
+    },
+    { passthrough: true }
+  ),
+});
@@ -498,15 +498,20 @@ export interface ExtractionMeta {
   framesAnalyzed: number;
   productsDetected: number;
   totalDataPoints: number;
+  prompts?: string[]; // Prompt registry refs used, e.g. "extraction.hook@1.0.0"
 }
 
 export interface ExtractionCosts {
   totalCost: number;
+  totalCostSaved?: number; // Avoided by response cache hits
   breakdown: {
     model: string;
     task: string;
     inputTokens: number;
     outputTokens: number;
     cost: number;
+    cached?: boolean;
+    costSaved?: number;
+    prompt?: string; // Prompt registry ref of the call
   }[];
 }
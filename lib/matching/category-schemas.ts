@@ -20,6 +20,8 @@
  * @module lib/matching/category-schemas
  */
 
+import { OutputSchema, schema } from "@/lib/ai/output-schema";
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -173,7 +175,8 @@ export interface CategorySchema {
   dealBreakers: string[];
   weights: AttributeWeight[];
   totalPoints: number;
-  extractionPrompt: string;
+  extractionPrompt: string; // Registered as prompt categoryPromptId() (lib/prompts/templates/category.ts)
+  extractionPromptVersion?: string; // Semver of extractionPrompt, 1.0.0 when absent; bump when editing it
   fuzzyMatching?: {
     [attribute: string]: {
       families: Record<string, string[]>;
@@ -4419,6 +4422,35 @@ export function getSchema(category: ProductCategory, subcategory: Subcategory):
   return CATEGORY_SCHEMAS[key] || null;
 }
 
+export type ExtractedAttributeValues = Record<string, string | boolean | number | null>;
+
+/**
+ * Runtime schema for a flat attribute extraction answer: hasX / isX flags
+ * are booleans, confidence is 0-1, every other attribute a string.
+ * Attributes listed in `nullable` may also be null.
+ */
+export function attributeOutputSchema<T = ExtractedAttributeValues>(
+  attributes: string[],
+  options: { nullable?: string[] } = {}
+): OutputSchema<T> {
+  const shape: Record<string, OutputSchema<string | boolean | number | null>> = {};
+
+  for (const attribute of attributes) {
+    const field: OutputSchema<string | boolean> = /^(has|is)[A-Z]/.test(attribute) ? schema.boolean() : schema.string();
+    shape[attribute] = options.nullable?.includes(attribute) ? schema.nullable(field) : field;
+  }
+  shape.confidence = schema.number({ min: 0, max: 1 });
+
+  return schema.object(shape) as unknown as OutputSchema<T>;
+}
+
+/**
+ * Runtime schema for answers to a category schema's extraction prompt
+ */
+export function getAttributeOutputSchema(categorySchema: CategorySchema): OutputSchema<ExtractedAttributeValues> {
+  return attributeOutputSchema(categorySchema.attributes);
+}
+
 /**
  * Get schema by key (e.g., "Clothing:Tops")
  */
@@ -4549,6 +4581,15 @@ export function inferSubcategory(productName: string, category: ProductCategory)
   }
 }
 
+/**
+ * Prompt registry ID of a schema's extraction prompt, e.g.
+ * "category.accessories.hair-accessories" for Accessories:Hair Accessories
+ */
+export function categoryPromptId(categorySchema: CategorySchema): string {
+  const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `category.${slug(categorySchema.category)}.${slug(categorySchema.subcategory)}`;
+}
+
 /**
  * Get all available category keys
  */
@@ -20,9 +20,15 @@
  * @module lib/matching/product-matcher
  */
 
-import OpenAI from "openai";
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
+import { calculateModelCost, MODELS } from "@/lib/ai/model-router";
+import { getAIProvider, isOfflineProvider } from "@/lib/ai/providers";
+import { cachedChat } from "@/lib/ai/response-cache";
+import type { OutputSchema } from "@/lib/ai/output-schema";
+import { parseModelOutput, validatedChat } from "@/lib/ai/structured-output";
+import { promptRef, renderPrompt } from "@/lib/prompts";
+import { attributeOutputSchema } from "./category-schemas";
 
 // ============================================================================
 // TYPES
@@ -201,6 +207,7 @@ export interface MatchingOutput {
   framesAnalyzed: number;
   // NEW v2.1: Overall verification state
   verification?: VerificationState;
+  prompts: string[]; // Prompt registry refs used, e.g. "matching.attributes.clothing@2.0.0"
 }
 
 // ============================================================================
@@ -330,241 +337,84 @@ const SLEEVE_GROUPS: Record<string, string[]> = {
   sleeveless: ["sleeveless", "tank", "no sleeve"],
 };
 
-// ============================================================================
-// OPENAI CLIENT
-// ============================================================================
-
-let openaiClient: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
+function gpt4oCost(inputTokens: number, outputTokens: number): number {
+  return calculateModelCost(MODELS["gpt-4o"], inputTokens, outputTokens);
 }
 
 // ============================================================================
 // ATTRIBUTE EXTRACTION - CATEGORY-SPECIFIC PROMPTS
 // ============================================================================
 
-// Clothing prompt (sweaters, tops, shorts, pants, dresses)
-const CLOTHING_EXTRACTION_PROMPT = (purpose: string) => `You are a precise clothing attribute extractor.
-
-CONTEXT: ${purpose}
-
-Extract these attributes. Use "not_visible" if cannot be determined.
-
-**COLOR:**
-- primaryColor: Exact color name (e.g., "olive green", "navy blue")
-- colorFamily: Broad family (green, blue, red, neutral, etc.)
-- colorTone: muted/earthy, bright/vivid, pastel, dark
-
-**STYLE:**
-- neckline: crew, mock, v-neck, turtleneck, scoop, boat, collared, off-shoulder, or "not_applicable"
-- sleeveLength: long, short, 3/4, sleeveless, or "not_applicable"
-- bodyLength: crop, regular, long, or "not_applicable"
-- fit: fitted, relaxed, oversized, or "not_visible"
-
-**MATERIAL/TEXTURE:**
-- knitType: cable, ribbed, waffle, chunky, smooth, or "not_applicable"
-- material: cotton, wool, denim, acrylic, cashmere, blend, or "unknown"
-- texture: chunky/thick, medium, fine/thin
-
-**DETAILS:**
-- hasButtons: true/false
-- hasZipper: true/false
-- hasPattern: true/false
-- patternType: solid, striped, colorblock, etc.
-
-**CONFIDENCE:** (0.0-1.0)
-
-Respond with flat JSON (no nested objects).`;
-
-// Footwear prompt (loafers, sneakers, boots, heels, sandals)
-const FOOTWEAR_EXTRACTION_PROMPT = (purpose: string) => `You are a precise footwear attribute extractor.
-
-CONTEXT: ${purpose}
-
-Extract these attributes. Use "not_visible" if cannot be determined.
-
-**COLOR:**
-- primaryColor: Exact color name
-- colorFamily: Broad family
-- finish: matte, glossy/patent, suede, textured
-
-**STYLE:**
-- toeShape: round, pointed, square, almond, or "not_visible"
-- heelHeight: flat, low, mid, high
-- heelType: none, block, stiletto, wedge, platform
-- closure: slip-on, lace-up, buckle, zipper, velcro
-
-**MATERIAL:**
-- material: leather, suede, canvas, synthetic, fabric
-- upperMaterial: same as material
-- soleMaterial: rubber, leather, synthetic
-
-**DETAILS:**
-- hasAccents: true/false (buckles, bows, studs, tassels)
-- accentType: buckle, bow, tassel, chain, or "none"
-
-**CONFIDENCE:** (0.0-1.0)
-
-Respond with flat JSON (no nested objects).`;
-
-// Sunglasses prompt
-const SUNGLASSES_EXTRACTION_PROMPT = (purpose: string) => `You are a precise eyewear attribute extractor.
-
-CONTEXT: ${purpose}
-
-Extract these attributes. Use "not_visible" if cannot be determined.
-
-**FRAME:**
-- primaryColor: Frame color (exact)
-- colorFamily: Broad family
-- frameColor: Same as primaryColor
-- frameMaterial: plastic, metal, acetate, mixed
-- framePattern: solid, tortoiseshell, gradient, patterned
-- frameShape: oversized, round, square, cat-eye, aviator, rectangular, oval
-
-**LENSES:**
-- lensColor: black, brown, gray, blue, gradient, mirrored
-- lensTint: dark, medium, light
-
-**STYLE:**
-- style: classic, trendy, sporty, vintage, luxury
-- material: Same as frameMaterial
-
-**CONFIDENCE:** (0.0-1.0)
-
-Respond with flat JSON (no nested objects).`;
-
-// Earrings prompt
-const EARRINGS_EXTRACTION_PROMPT = (purpose: string) => `You are a precise jewelry attribute extractor.
-
-CONTEXT: ${purpose}
-
-Extract these attributes. Use "not_visible" if cannot be determined.
-
-**MATERIAL:**
-- primaryColor: Metal color (gold, silver, rose gold, bronze, copper)
-- colorFamily: yellow/gold, silver/white, rose, bronze
-- material: Same as metalColor description
-- metalColor: gold, silver, rose gold, bronze
-- metalFinish: polished, matte, brushed, hammered
-
-**STYLE:**
-- earringType: hoop, stud, drop, dangle, huggie, chandelier, threader
-- size: small, medium, large, oversized
-- shape: round, oval, geometric, irregular
-
-**DETAILS:**
-- hasGemstones: true/false
-- gemstoneType: diamond, pearl, crystal, or "none"
-- style: minimalist, statement, classic, bohemian, trendy
-
-**CONFIDENCE:** (0.0-1.0)
-
-Respond with flat JSON (no nested objects).`;
-
-// Get the appropriate extraction prompt based on category
-function getExtractionPrompt(category: ProductCategory, subcategory: string, purpose: string): string {
+// Registry ID (lib/prompts/templates/matching.ts) of the extraction prompt for a category
+function getExtractionPromptId(category: ProductCategory, subcategory: string): string {
   switch (category) {
     case "Footwear":
-      return FOOTWEAR_EXTRACTION_PROMPT(purpose);
+      return "matching.attributes.footwear";
     case "Accessories":
       if (subcategory.toLowerCase().includes("sunglass") || subcategory.toLowerCase().includes("eyewear")) {
-        return SUNGLASSES_EXTRACTION_PROMPT(purpose);
+        return "matching.attributes.sunglasses";
       }
       // Default to clothing-like for bags, scarves
-      return CLOTHING_EXTRACTION_PROMPT(purpose);
+      return "matching.attributes.clothing";
     case "Jewelry":
-      if (subcategory.toLowerCase().includes("earring")) {
-        return EARRINGS_EXTRACTION_PROMPT(purpose);
-      }
-      // Default to earrings schema for other jewelry
-      return EARRINGS_EXTRACTION_PROMPT(purpose);
+      // Earrings schema for all jewelry
+      return "matching.attributes.earrings";
     case "Clothing":
     default:
-      return CLOTHING_EXTRACTION_PROMPT(purpose);
+      return "matching.attributes.clothing";
   }
 }
 
-// Parse extraction response based on category
-function parseExtractionResponse(parsed: any, category: ProductCategory, subcategory: string): ProductAttributes {
+// ============================================================================
+// ATTRIBUTE EXTRACTION - OUTPUT SCHEMAS
+// ============================================================================
+
+// One per prompt above: the attributes it asks for, validated before scoring
+const CLOTHING_OUTPUT = attributeOutputSchema<ClothingAttributes>(
+  [
+    "primaryColor", "colorFamily", "colorTone", "neckline", "sleeveLength", "bodyLength", "fit",
+    "knitType", "material", "texture", "hasButtons", "hasZipper", "hasPattern", "patternType",
+  ],
+  { nullable: ["patternType"] }
+);
+
+const FOOTWEAR_OUTPUT = attributeOutputSchema<FootwearAttributes>(
+  [
+    "primaryColor", "colorFamily", "finish", "toeShape", "heelHeight", "heelType", "closure",
+    "material", "upperMaterial", "soleMaterial", "hasAccents", "accentType",
+  ],
+  { nullable: ["accentType"] }
+);
+
+const SUNGLASSES_OUTPUT = attributeOutputSchema<SunglassesAttributes>([
+  "primaryColor", "colorFamily", "frameColor", "frameMaterial", "framePattern", "frameShape",
+  "lensColor", "lensTint", "style", "material",
+]);
+
+const EARRINGS_OUTPUT = attributeOutputSchema<EarringsAttributes>(
+  [
+    "primaryColor", "colorFamily", "material", "metalColor", "metalFinish", "earringType", "size",
+    "shape", "hasGemstones", "gemstoneType", "style",
+  ],
+  { nullable: ["gemstoneType"] }
+);
+
+// Output schema matching getExtractionPromptId's choice of prompt
+function getExtractionOutputSchema(category: ProductCategory, subcategory: string): OutputSchema<ProductAttributes> {
   switch (category) {
     case "Footwear":
-      return {
-        primaryColor: parsed.primaryColor || "unknown",
-        colorFamily: parsed.colorFamily || "unknown",
-        material: parsed.material || parsed.upperMaterial || "unknown",
-        finish: parsed.finish || "unknown",
-        toeShape: parsed.toeShape || "not_visible",
-        heelHeight: parsed.heelHeight || "flat",
-        heelType: parsed.heelType || "none",
-        closure: parsed.closure || "slip-on",
-        upperMaterial: parsed.upperMaterial || parsed.material || "unknown",
-        soleMaterial: parsed.soleMaterial || "rubber",
-        hasAccents: parsed.hasAccents || false,
-        accentType: parsed.accentType || null,
-        confidence: parsed.confidence || parsed.CONFIDENCE || 0.5,
-      } as FootwearAttributes;
-
+      return FOOTWEAR_OUTPUT;
     case "Accessories":
       if (subcategory.toLowerCase().includes("sunglass") || subcategory.toLowerCase().includes("eyewear")) {
-        return {
-          primaryColor: parsed.primaryColor || parsed.frameColor || "unknown",
-          colorFamily: parsed.colorFamily || "unknown",
-          material: parsed.material || parsed.frameMaterial || "unknown",
-          frameColor: parsed.frameColor || parsed.primaryColor || "unknown",
-          frameMaterial: parsed.frameMaterial || parsed.material || "unknown",
-          framePattern: parsed.framePattern || "solid",
-          frameShape: parsed.frameShape || "not_visible",
-          lensColor: parsed.lensColor || "not_visible",
-          lensTint: parsed.lensTint || "medium",
-          style: parsed.style || "trendy",
-          confidence: parsed.confidence || parsed.CONFIDENCE || 0.5,
-        } as SunglassesAttributes;
+        return SUNGLASSES_OUTPUT;
       }
-      // Fall through to clothing for bags, scarves
-      break;
-
+      return CLOTHING_OUTPUT;
     case "Jewelry":
-      return {
-        primaryColor: parsed.primaryColor || parsed.metalColor || "unknown",
-        colorFamily: parsed.colorFamily || "unknown",
-        material: parsed.material || parsed.metalColor || "unknown",
-        metalColor: parsed.metalColor || parsed.primaryColor || "unknown",
-        metalFinish: parsed.metalFinish || "polished",
-        earringType: parsed.earringType || "not_visible",
-        size: parsed.size || "medium",
-        shape: parsed.shape || "not_visible",
-        hasGemstones: parsed.hasGemstones || false,
-        gemstoneType: parsed.gemstoneType || null,
-        style: parsed.style || "minimalist",
-        confidence: parsed.confidence || parsed.CONFIDENCE || 0.5,
-      } as EarringsAttributes;
+      return EARRINGS_OUTPUT;
+    case "Clothing":
+    default:
+      return CLOTHING_OUTPUT;
   }
-
-  // Default: Clothing
-  return {
-    primaryColor: parsed.primaryColor || "unknown",
-    colorFamily: parsed.colorFamily || "unknown",
-    colorTone: parsed.colorTone || "unknown",
-    neckline: parsed.neckline || "not_visible",
-    sleeveLength: parsed.sleeveLength || "not_visible",
-    bodyLength: parsed.bodyLength || "not_visible",
-    fit: parsed.fit || "not_visible",
-    knitType: parsed.knitType || "not_visible",
-    material: parsed.material || "unknown",
-    texture: parsed.texture || "not_visible",
-    hasButtons: parsed.hasButtons || false,
-    hasZipper: parsed.hasZipper || false,
-    hasPattern: parsed.hasPattern || false,
-    patternType: parsed.patternType || "solid",
-    confidence: parsed.confidence || parsed.CONFIDENCE || 0.5,
-  } as ClothingAttributes;
 }
 
 async function extractAttributesFromImage(
@@ -573,31 +423,35 @@ async function extractAttributesFromImage(
   purpose: string,
   subcategory: string = ""
 ): Promise<ProductAttributes | null> {
-  const openai = getOpenAI();
   const productCategory = category as ProductCategory;
-  const prompt = getExtractionPrompt(productCategory, subcategory, purpose);
+  const prompt = renderPrompt(getExtractionPromptId(productCategory, subcategory), { purpose });
+  const outputSchema = getExtractionOutputSchema(productCategory, subcategory);
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: prompt },
-            { type: "image_url", image_url: { url: imageBase64, detail: "high" } },
-          ],
-        },
-      ],
-      max_tokens: 600,
-      temperature: 0.1,
-      response_format: { type: "json_object" },
-    });
-
-    const content = response.choices[0].message.content || "{}";
-    const parsed = JSON.parse(content);
+    const response = await validatedChat(
+      {
+        provider: "openai",
+        model: "gpt-4o",
+        prompt: prompt.text,
+        images: [{ data: imageBase64, detail: "high" }],
+        maxTokens: 600,
+        temperature: 0.1,
+        json: true,
+      },
+      outputSchema,
+      {
+        task: "attribute_extraction",
+        send: (request) =>
+          cachedChat(request, {
+            task: "attribute_extraction",
+            promptVersion: prompt.ref,
+            costOf: gpt4oCost,
+            accept: (content) => parseModelOutput(content, outputSchema).ok,
+          }),
+      }
+    );
 
-    return parseExtractionResponse(parsed, productCategory, subcategory);
+    return response.data;
   } catch (error) {
     console.error("[ProductMatcher] Attribute extraction error:", error);
     return null;
@@ -1467,58 +1321,31 @@ async function runVisualTiebreaker(
   candidate1ImageBase64: string,
   candidate2: MatchResult,
   candidate2ImageBase64: string
-): Promise<{ winner: MatchResult; loser: MatchResult; visualScores: [number, number] }> {
-  const openai = getOpenAI();
-
-  const prompt = `You are comparing shopping results to a product from a creator's video.
-
-Image 1: Reference product from video
-Image 2: Shopping candidate A - "${candidate1.title}"
-Image 3: Shopping candidate B - "${candidate2.title}"
-
-Both candidates have similar attribute scores. Your job is to break the tie using visual similarity.
-
-For EACH candidate, score 0-100 based on:
-- Does it LOOK like the same item?
-- Color accuracy
-- Style accuracy
-- Overall visual match
-
-Be strict. A fan should believe this is the same or nearly identical item.
-
-Respond with JSON:
-{
-  "candidateA": {
-    "visualScore": 75,
-    "reasoning": "Color matches but neckline looks different"
-  },
-  "candidateB": {
-    "visualScore": 82,
-    "reasoning": "Very close visual match, similar texture"
-  },
-  "winner": "A" or "B"
-}`;
+): Promise<{ winner: MatchResult; loser: MatchResult; visualScores: [number, number]; prompt: string }> {
+  const rendered = renderPrompt("matching.visual_tiebreaker", {
+    candidateA: candidate1.title,
+    candidateB: candidate2.title,
+  });
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: prompt },
-            { type: "image_url", image_url: { url: referenceImageBase64, detail: "high" } },
-            { type: "image_url", image_url: { url: candidate1ImageBase64, detail: "low" } },
-            { type: "image_url", image_url: { url: candidate2ImageBase64, detail: "low" } },
-          ],
-        },
-      ],
-      max_tokens: 500,
-      temperature: 0.1,
-      response_format: { type: "json_object" },
-    });
-
-    const content = response.choices[0].message.content || "{}";
+    const response = await cachedChat(
+      {
+        provider: "openai",
+        model: "gpt-4o",
+        prompt: rendered.text,
+        images: [
+          { data: referenceImageBase64, detail: "high" },
+          { data: candidate1ImageBase64, detail: "low" },
+          { data: candidate2ImageBase64, detail: "low" },
+        ],
+        maxTokens: 500,
+        temperature: 0.1,
+        json: true,
+      },
+      { task: "visual_tiebreaker", promptVersion: rendered.ref, costOf: gpt4oCost }
+    );
+
+    const content = response.content || "{}";
     const parsed = JSON.parse(content);
 
     const scoreA = parsed.candidateA?.visualScore || 50;
@@ -1530,14 +1357,14 @@ Respond with JSON:
     candidate2.tiebreakerUsed = true;
 
     if (parsed.winner === "A" || scoreA > scoreB) {
-      return { winner: candidate1, loser: candidate2, visualScores: [scoreA, scoreB] };
+      return { winner: candidate1, loser: candidate2, visualScores: [scoreA, scoreB], prompt: rendered.ref };
     } else {
-      return { winner: candidate2, loser: candidate1, visualScores: [scoreA, scoreB] };
+      return { winner: candidate2, loser: candidate1, visualScores: [scoreA, scoreB], prompt: rendered.ref };
     }
   } catch (error) {
     console.error("[ProductMatcher] Visual tiebreaker error:", error);
     // Fall back to original order
-    return { winner: candidate1, loser: candidate2, visualScores: [50, 50] };
+    return { winner: candidate1, loser: candidate2, visualScores: [50, 50], prompt: rendered.ref };
   }
 }
 
@@ -1550,11 +1377,13 @@ async function searchGoogleShopping(
   apiKey: string,
   limit: number = 10
 ): Promise<ShoppingCandidate[]> {
-  const url = `https://serpapi.com/search.json?engine=google_shopping&q=${encodeURIComponent(query)}&api_key=${apiKey}&num=${limit}`;
-
   try {
-    const response = await fetch(url);
-    const data = await response.json();
+    const { body } = await getAIProvider().search({
+      engine: "google_shopping",
+      params: { q: query, num: String(limit) },
+      apiKey,
+    });
+    const data = body as { shopping_results?: any[] };
 
     if (!data.shopping_results) {
       return [];
@@ -1612,12 +1441,9 @@ function buildSearchQuery(profile: FusedProfile, productName: string): string {
 
 async function fetchImageAsBase64(url: string): Promise<string | null> {
   try {
-    const response = await fetch(url);
-    if (!response.ok) return null;
-    const buffer = await response.arrayBuffer();
-    const base64 = Buffer.from(buffer).toString("base64");
-    const contentType = response.headers.get("content-type") || "image/jpeg";
-    return `data:${contentType};base64,${base64}`;
+    const response = await getAIProvider().fetchImage({ url });
+    if (response.status < 200 || response.status >= 300) return null;
+    return `data:${response.contentType};base64,${response.data.toString("base64")}`;
   } catch {
     return null;
   }
@@ -1682,7 +1508,7 @@ export async function matchProducts(options: MatchProductsOptions): Promise<Matc
   console.log(`[ProductMatcher] Step 4: Searching Google Shopping...`);
   let shoppingCandidates: ShoppingCandidate[] = [];
 
-  if (serpApiKey) {
+  if (serpApiKey || isOfflineProvider()) {
     shoppingCandidates = await searchGoogleShopping(searchQuery, serpApiKey, maxCandidates);
   } else {
     console.warn("[ProductMatcher] No SERP_API_KEY - skipping shopping search");
@@ -1720,6 +1546,8 @@ export async function matchProducts(options: MatchProductsOptions): Promise<Matc
   // Sort by score descending
   scoredCandidates.sort((a, b) => b.score - a.score);
 
+  const prompts = [promptRef(getExtractionPromptId(category, subcategory))];
+
   // Step 7: Visual tiebreaker if needed
   let tiebreakerUsed = false;
 
@@ -1737,7 +1565,7 @@ export async function matchProducts(options: MatchProductsOptions): Promise<Matc
       const img2 = await fetchImageAsBase64(top2.thumbnail);
 
       if (img1 && img2) {
-        const { winner, loser, visualScores } = await runVisualTiebreaker(
+        const { winner, loser, visualScores, prompt } = await runVisualTiebreaker(
           referenceImageBase64,
           top1,
           img1,
@@ -1753,6 +1581,7 @@ export async function matchProducts(options: MatchProductsOptions): Promise<Matc
 
         winner.flags.push("Tiebreaker used: visual verification");
         tiebreakerUsed = true;
+        prompts.push(prompt);
 
         console.log(`[ProductMatcher] Tiebreaker result: ${winner.title} (visual: ${visualScores[0]}) > ${loser.title} (visual: ${visualScores[1]})`);
       }
@@ -1780,6 +1609,7 @@ export async function matchProducts(options: MatchProductsOptions): Promise<Matc
     framesAnalyzed: extractions.length,
     // NEW v2.1: Overall verification state from top match
     verification: topMatch ? topMatch.verification : undefined,
+    prompts,
   };
 }
 
@@ -0,0 +1,436 @@
+/**
+ * Prompt Evaluation
+ *
+ * Runs two versions of a registered prompt over a stored fixture set and
+ * reports how far their answers agree, field by field, and what each
+ * version cost and how long it took.
+ *
+ * A fixture set is a JSON file:
+ *
+ *   {
+ *     "name": "visual-ranking",
+ *     "promptId": "matching.visual_ranking",
+ *     "model": "gpt-4o",                      // key in MODELS
+ *     "maxTokens": 1500,
+ *     "temperature": 0.1,
+ *     "cases": [
+ *       {
+ *         "id": "olive-sweater",
+ *         "variables": { "candidateCount": 2, "lastImage": 3 },
+ *         "images": [{ "path": "test-output/crop.jpg" }, { "url": "https://..." }]
+ *       }
+ *     ]
+ *   }
+ *
+ * Image paths are relative to the working directory; URLs are downloaded
+ * through the AI provider, so AI_PROVIDER_MODE=replay or mock runs a set
+ * without network access. A case whose images cannot be loaded is
+ * reported as failed for both versions. Calls are billed to the cost
+ * ledger as the "prompt_eval" task.
+ *
+ * Agreement compares the two answers leaf by leaf. Array elements are
+ * compared by position and reported under one field ("rankings[].score");
+ * arrays of plain values are compared as sets; strings ignore case and
+ * surrounding whitespace. A field only one version returned counts as a
+ * disagreement.
+ *
+ * Usage:
+ *   const report = await runPromptEval(loadPromptEvalSet(path), "1.0.0", "2.0.0");
+ *   savePromptEvalReport(report);
+ */
+
+import { join, resolve } from "path";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { DATA_DIR } from "@/lib/db";
+import { MODELS, recordModelCost } from "@/lib/ai/model-router";
+import { ChatImage, getAIProvider } from "@/lib/ai/providers";
+import { getPrompt, renderPrompt } from "@/lib/prompts";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const PROMPT_EVAL_CONFIG = {
+  dir: process.env.PROMPT_EVAL_DIR || join(DATA_DIR, "prompt-evals"),
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptEvalCase {
+  id: string;
+  description?: string;
+  variables: Record<string, string | number>;
+  images?: Array<{ path?: string; url?: string; detail?: ChatImage["detail"] }>;
+}
+
+export interface PromptEvalSet {
+  name: string;
+  description?: string;
+  promptId: string;
+  model: string; // Key in MODELS, e.g. "gpt-4o"
+  maxTokens?: number;
+  temperature?: number;
+  cases: PromptEvalCase[];
+}
+
+export interface PromptEvalRun {
+  latencyMs: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  output: unknown; // Parsed JSON answer, null when the call or parse failed
+  error?: string;
+}
+
+export interface PromptEvalCaseResult {
+  id: string;
+  a: PromptEvalRun;
+  b: PromptEvalRun;
+  agreement: number | null; // Share of compared leaves that agree; null when either run failed
+}
+
+export interface FieldAgreement {
+  field: string; // e.g. "rankings[].score"
+  compared: number; // Leaves both versions returned
+  agreed: number;
+  onlyA: number; // Leaves only version A returned
+  onlyB: number;
+  agreement: number; // agreed / (compared + onlyA + onlyB)
+  meanAbsDiff?: number; // Numeric fields: mean |A - B| over compared leaves
+}
+
+export interface PromptVersionStats {
+  ref: string;
+  calls: number;
+  failed: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUSD: number;
+  avgCostUSD: number;
+  avgLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+export interface PromptEvalReport {
+  set: string;
+  promptId: string;
+  model: string;
+  ranAt: string;
+  cases: number;
+  versions: { a: PromptVersionStats; b: PromptVersionStats };
+  agreement: {
+    overall: number; // Over every leaf of every case both versions answered
+    fields: FieldAgreement[]; // Least agreement first
+  };
+  results: PromptEvalCaseResult[];
+}
+
+// ============================================================================
+// Fixture Sets
+// ============================================================================
+
+/**
+ * Read and check a fixture set file
+ */
+export function loadPromptEvalSet(path: string): PromptEvalSet {
+  const set = JSON.parse(readFileSync(path, "utf-8")) as PromptEvalSet;
+
+  if (!set.name || !set.promptId || !Array.isArray(set.cases) || set.cases.length === 0) {
+    throw new Error(`Prompt eval set ${path} needs a name, promptId and at least one case`);
+  }
+  if (!MODELS[set.model]) {
+    throw new Error(`Prompt eval set ${path}: unknown model "${set.model}" (one of ${Object.keys(MODELS).join(", ")})`);
+  }
+  getPrompt(set.promptId); // Throws PromptNotFoundError
+
+  return set;
+}
+
+async function loadCaseImages(evalCase: PromptEvalCase): Promise<ChatImage[]> {
+  const images: ChatImage[] = [];
+
+  for (const image of evalCase.images || []) {
+    if (image.path) {
+      const path = resolve(process.cwd(), image.path);
+      if (!existsSync(path)) {
+        throw new Error(`Case ${evalCase.id}: image ${image.path} not found`);
+      }
+      images.push({ data: readFileSync(path), detail: image.detail });
+    } else if (image.url) {
+      const response = await getAIProvider().fetchImage({ url: image.url });
+      if (response.status >= 400) {
+        throw new Error(`Case ${evalCase.id}: image ${image.url} returned ${response.status}`);
+      }
+      images.push({ data: response.data, detail: image.detail });
+    }
+  }
+
+  return images;
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Run versions A and B of the set's prompt on every case, one call at a
+ * time, and compare their answers
+ */
+export async function runPromptEval(set: PromptEvalSet, versionA: string, versionB: string): Promise<PromptEvalReport> {
+  const definitionA = getPrompt(set.promptId, versionA);
+  const definitionB = getPrompt(set.promptId, versionB);
+  const results: PromptEvalCaseResult[] = [];
+  const fields = new Map<string, FieldCounters>();
+
+  console.log(`[PromptEval] ${set.name}: ${set.promptId} ${versionA} vs ${versionB} on ${set.cases.length} cases`);
+
+  for (const evalCase of set.cases) {
+    let a: PromptEvalRun;
+    let b: PromptEvalRun;
+    try {
+      const images = await loadCaseImages(evalCase);
+      a = await runCase(set, definitionA.version, evalCase, images);
+      b = await runCase(set, definitionB.version, evalCase, images);
+    } catch (error) {
+      // Neither version ran; the case counts as failed for both
+      const message = error instanceof Error ? error.message : String(error);
+      a = failedRun(message);
+      b = failedRun(message);
+    }
+
+    let agreement: number | null = null;
+    if (!a.error && !b.error) {
+      const caseFields = compareOutputs(a.output, b.output);
+      mergeFieldCounters(fields, caseFields);
+      agreement = overallAgreement(caseFields);
+    }
+
+    results.push({ id: evalCase.id, a, b, agreement });
+    console.log(
+      `[PromptEval] ${evalCase.id}: ${agreement === null ? "failed" : `${Math.round(agreement * 100)}% agreement`} ` +
+        `(A ${a.latencyMs}ms $${a.costUSD.toFixed(4)}, B ${b.latencyMs}ms $${b.costUSD.toFixed(4)})`
+    );
+  }
+
+  return {
+    set: set.name,
+    promptId: set.promptId,
+    model: set.model,
+    ranAt: new Date().toISOString(),
+    cases: set.cases.length,
+    versions: {
+      a: versionStats(`${set.promptId}@${definitionA.version}`, results.map((result) => result.a)),
+      b: versionStats(`${set.promptId}@${definitionB.version}`, results.map((result) => result.b)),
+    },
+    agreement: {
+      overall: overallAgreement(fields),
+      fields: [...fields.entries()]
+        .map(([field, counters]) => toFieldAgreement(field, counters))
+        .sort((x, y) => x.agreement - y.agreement || x.field.localeCompare(y.field)),
+    },
+    results,
+  };
+}
+
+async function runCase(
+  set: PromptEvalSet,
+  version: string,
+  evalCase: PromptEvalCase,
+  images: ChatImage[]
+): Promise<PromptEvalRun> {
+  const config = MODELS[set.model];
+  const startTime = Date.now();
+
+  try {
+    const prompt = renderPrompt(set.promptId, evalCase.variables, version);
+    const response = await getAIProvider().chat({
+      provider: config.provider,
+      model: config.model,
+      system: prompt.system,
+      prompt: prompt.text,
+      images,
+      maxTokens: set.maxTokens || 2000,
+      temperature: set.temperature ?? 0.1,
+      json: true,
+    });
+    const latencyMs = Date.now() - startTime;
+    const entry = recordModelCost({ modelId: set.model, config }, "prompt_eval", response, {}, prompt.ref);
+
+    const run: PromptEvalRun = {
+      latencyMs,
+      inputTokens: response.inputTokens,
+      outputTokens: response.outputTokens,
+      costUSD: entry.costUSD,
+      output: null,
+    };
+    try {
+      run.output = JSON.parse(response.content || "");
+    } catch {
+      run.error = "response is not valid JSON";
+    }
+    return run;
+  } catch (error) {
+    return { ...failedRun(error instanceof Error ? error.message : String(error)), latencyMs: Date.now() - startTime };
+  }
+}
+
+function failedRun(error: string): PromptEvalRun {
+  return { latencyMs: 0, inputTokens: 0, outputTokens: 0, costUSD: 0, output: null, error };
+}
+
+function versionStats(ref: string, runs: PromptEvalRun[]): PromptVersionStats {
+  const costUSD = runs.reduce((sum, run) => sum + run.costUSD, 0);
+  const latencies = runs.map((run) => run.latencyMs);
+
+  return {
+    ref,
+    calls: runs.length,
+    failed: runs.filter((run) => run.error).length,
+    inputTokens: runs.reduce((sum, run) => sum + run.inputTokens, 0),
+    outputTokens: runs.reduce((sum, run) => sum + run.outputTokens, 0),
+    costUSD: roundCost(costUSD),
+    avgCostUSD: runs.length > 0 ? roundCost(costUSD / runs.length) : 0,
+    avgLatencyMs: runs.length > 0 ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / runs.length) : 0,
+    maxLatencyMs: Math.max(0, ...latencies),
+  };
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+// ============================================================================
+// Field Agreement
+// ============================================================================
+
+interface FieldCounters {
+  compared: number;
+  agreed: number;
+  onlyA: number;
+  onlyB: number;
+  absDiffSum: number;
+  numeric: number; // Compared leaves where both values were numbers
+}
+
+/**
+ * Per-field agreement between two answers
+ */
+function compareOutputs(a: unknown, b: unknown): Map<string, FieldCounters> {
+  const leavesA = flattenLeaves(a);
+  const leavesB = flattenLeaves(b);
+  const fields = new Map<string, FieldCounters>();
+
+  for (const path of new Set([...leavesA.keys(), ...leavesB.keys()])) {
+    const field = path.replace(/\[\d+\]/g, "[]");
+    const counters = fields.get(field) || emptyCounters();
+    fields.set(field, counters);
+
+    if (!leavesB.has(path)) {
+      counters.onlyA++;
+      continue;
+    }
+    if (!leavesA.has(path)) {
+      counters.onlyB++;
+      continue;
+    }
+
+    const valueA = leavesA.get(path);
+    const valueB = leavesB.get(path);
+    counters.compared++;
+    if (normalizeLeaf(valueA) === normalizeLeaf(valueB)) {
+      counters.agreed++;
+    }
+    if (typeof valueA === "number" && typeof valueB === "number") {
+      counters.numeric++;
+      counters.absDiffSum += Math.abs(valueA - valueB);
+    }
+  }
+
+  return fields;
+}
+
+// Leaf path -> value. Objects and arrays of objects are descended into;
+// arrays of plain values are leaves.
+function flattenLeaves(value: unknown, path: string = "$", leaves: Map<string, unknown> = new Map()): Map<string, unknown> {
+  if (Array.isArray(value) && value.some((item) => typeof item === "object" && item !== null)) {
+    value.forEach((item, index) => flattenLeaves(item, `${path}[${index}]`, leaves));
+  } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenLeaves(child, path === "$" ? key : `${path}.${key}`, leaves);
+    }
+  } else {
+    leaves.set(path, value);
+  }
+  return leaves;
+}
+
+function normalizeLeaf(value: unknown): string {
+  if (typeof value === "string") return JSON.stringify(value.trim().toLowerCase());
+  if (Array.isArray(value)) return JSON.stringify([...new Set(value.map(normalizeLeaf))].sort());
+  return JSON.stringify(value ?? null);
+}
+
+function emptyCounters(): FieldCounters {
+  return { compared: 0, agreed: 0, onlyA: 0, onlyB: 0, absDiffSum: 0, numeric: 0 };
+}
+
+function mergeFieldCounters(into: Map<string, FieldCounters>, from: Map<string, FieldCounters>): void {
+  for (const [field, counters] of from) {
+    const total = into.get(field) || emptyCounters();
+    total.compared += counters.compared;
+    total.agreed += counters.agreed;
+    total.onlyA += counters.onlyA;
+    total.onlyB += counters.onlyB;
+    total.absDiffSum += counters.absDiffSum;
+    total.numeric += counters.numeric;
+    into.set(field, total);
+  }
+}
+
+function overallAgreement(fields: Map<string, FieldCounters>): number {
+  let agreed = 0;
+  let total = 0;
+  for (const counters of fields.values()) {
+    agreed += counters.agreed;
+    total += counters.compared + counters.onlyA + counters.onlyB;
+  }
+  return total > 0 ? roundRatio(agreed / total) : 1;
+}
+
+function toFieldAgreement(field: string, counters: FieldCounters): FieldAgreement {
+  const total = counters.compared + counters.onlyA + counters.onlyB;
+  return {
+    field,
+    compared: counters.compared,
+    agreed: counters.agreed,
+    onlyA: counters.onlyA,
+    onlyB: counters.onlyB,
+    agreement: total > 0 ? roundRatio(counters.agreed / total) : 1,
+    meanAbsDiff: counters.numeric > 0 ? roundRatio(counters.absDiffSum / counters.numeric) : undefined,
+  };
+}
+
+function roundRatio(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+// ============================================================================
+// Reports
+// ============================================================================
+
+/**
+ * Write a report to PROMPT_EVAL_DIR. Returns its path.
+ */
+export function savePromptEvalReport(report: PromptEvalReport): string {
+  if (!existsSync(PROMPT_EVAL_CONFIG.dir)) {
+    mkdirSync(PROMPT_EVAL_CONFIG.dir, { recursive: true });
+  }
+
+  const versions = `${report.versions.a.ref.split("@")[1]}-vs-${report.versions.b.ref.split("@")[1]}`;
+  const stamp = report.ranAt.replace(/[:.]/g, "-");
+  const path = join(PROMPT_EVAL_CONFIG.dir, `${report.set}-${versions}-${stamp}.json`);
+  writeFileSync(path, JSON.stringify(report, null, 2));
+  return path;
+}
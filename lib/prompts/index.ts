@@ -0,0 +1,29 @@
+/**
+ * Prompt Registry Module
+ *
+ * Registers every prompt template (templates/) and exports the registry,
+ * so importing "@/lib/prompts" is enough to render any prompt by ID.
+ */
+
+// Templates (registered on import)
+import "./templates/processor";
+import "./templates/extraction";
+import "./templates/hook";
+import "./templates/matching";
+import "./templates/category";
+
+// Registry
+export {
+  definePrompt,
+  getPrompt,
+  getPromptVersions,
+  promptRef,
+  listPrompts,
+  renderPrompt,
+  compareVersions,
+  PromptNotFoundError,
+  PromptVariableError,
+  PROMPT_REGISTRY_CONFIG,
+  type PromptDefinition,
+  type RenderedPrompt,
+} from "./registry";
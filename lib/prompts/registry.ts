@@ -0,0 +1,221 @@
+/**
+ * Prompt Registry
+ *
+ * Every prompt sent to a model is registered here under an ID and a
+ * semantic version, with the variables its template takes:
+ *
+ *   definePrompt({
+ *     id: "extraction.hook",
+ *     version: "1.0.0",
+ *     system: "You are an expert content strategist...",
+ *     template: "TRANSCRIPTION: \"{transcription}\" ...",
+ *     variables: ["transcription"],
+ *   });
+ *
+ * Versions follow semver: bump the patch for wording fixes, the minor
+ * version for changes that should not alter the answer's shape, the major
+ * version when the response format changes. Old versions stay registered
+ * so they can be evaluated against new ones (evaluation.ts).
+ *
+ * Callers render the active version, which is the latest unless pinned
+ * with PROMPT_VERSIONS ("extraction.hook@1.0.0,processor.vision@2.1.0"),
+ * and stamp its ref ("extraction.hook@1.0.0") on the call's metadata and
+ * cache key.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PromptDefinition {
+  id: string; // Dotted name, e.g. "processor.vision"
+  version: string; // Semantic version, e.g. "2.1.0"
+  description?: string;
+  system?: string; // System message, when the prompt has one
+  template: string; // User message, with {variable} placeholders
+  variables: string[];
+}
+
+export interface RenderedPrompt {
+  id: string;
+  version: string;
+  ref: string; // "id@version", stamped on call metadata
+  system?: string;
+  text: string;
+}
+
+export class PromptNotFoundError extends Error {
+  constructor(readonly id: string, readonly version?: string) {
+    super(version ? `Prompt ${id}@${version} is not registered` : `Prompt ${id} is not registered`);
+    this.name = "PromptNotFoundError";
+  }
+}
+
+export class PromptVariableError extends Error {
+  constructor(ref: string, message: string) {
+    super(`Prompt ${ref}: ${message}`);
+    this.name = "PromptVariableError";
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const PROMPT_REGISTRY_CONFIG = {
+  pinned: parsePins(process.env.PROMPT_VERSIONS || ""),
+};
+
+function parsePins(value: string): Record<string, string> {
+  const pins: Record<string, string> = {};
+  for (const entry of value.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const at = entry.lastIndexOf("@");
+    if (at > 0) {
+      pins[entry.slice(0, at)] = entry.slice(at + 1);
+    }
+  }
+  return pins;
+}
+
+// id -> versions, kept sorted oldest first
+const registry = new Map<string, PromptDefinition[]>();
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)$/;
+
+// ============================================================================
+// Registration
+// ============================================================================
+
+/**
+ * Register a prompt version. Its placeholders must match `variables`
+ * exactly, so a typo fails at startup rather than reaching the model.
+ */
+export function definePrompt(definition: PromptDefinition): PromptDefinition {
+  const ref = `${definition.id}@${definition.version}`;
+  if (!SEMVER.test(definition.version)) {
+    throw new PromptVariableError(ref, `version must be MAJOR.MINOR.PATCH`);
+  }
+
+  const used = new Set(
+    [definition.system || "", definition.template].flatMap((text) => [...text.matchAll(PLACEHOLDER)].map((match) => match[1]))
+  );
+  const declared = new Set(definition.variables);
+  const undeclared = [...used].filter((name) => !declared.has(name));
+  const unused = definition.variables.filter((name) => !used.has(name));
+  if (undeclared.length > 0 || unused.length > 0) {
+    throw new PromptVariableError(
+      ref,
+      [
+        undeclared.length > 0 ? `undeclared placeholders ${undeclared.join(", ")}` : "",
+        unused.length > 0 ? `unused variables ${unused.join(", ")}` : "",
+      ].filter(Boolean).join("; ")
+    );
+  }
+
+  const versions = registry.get(definition.id) || [];
+  if (versions.some((existing) => existing.version === definition.version)) {
+    throw new PromptVariableError(ref, "already registered");
+  }
+  versions.push(definition);
+  versions.sort((a, b) => compareVersions(a.version, b.version));
+  registry.set(definition.id, versions);
+
+  return definition;
+}
+
+/**
+ * Order two semantic versions (negative when a is older)
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.match(SEMVER)?.slice(1).map(Number) || [0, 0, 0];
+  const pb = b.match(SEMVER)?.slice(1).map(Number) || [0, 0, 0];
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+/**
+ * A prompt version; without a version, the active one (pinned or latest)
+ */
+export function getPrompt(id: string, version?: string): PromptDefinition {
+  const versions = registry.get(id);
+  if (!versions || versions.length === 0) {
+    throw new PromptNotFoundError(id);
+  }
+
+  const wanted = version || PROMPT_REGISTRY_CONFIG.pinned[id];
+  if (!wanted) {
+    return versions[versions.length - 1];
+  }
+
+  const match = versions.find((definition) => definition.version === wanted);
+  if (!match) {
+    throw new PromptNotFoundError(id, wanted);
+  }
+  return match;
+}
+
+/**
+ * Ref ("id@version") of a prompt version, the active one by default
+ */
+export function promptRef(id: string, version?: string): string {
+  return `${id}@${getPrompt(id, version).version}`;
+}
+
+/**
+ * Registered versions of a prompt, oldest first
+ */
+export function getPromptVersions(id: string): string[] {
+  return (registry.get(id) || []).map((definition) => definition.version);
+}
+
+/**
+ * Every registered prompt with its versions and the active one
+ */
+export function listPrompts(): Array<{ id: string; versions: string[]; active: string; description?: string }> {
+  return [...registry.keys()].sort().map((id) => {
+    const active = getPrompt(id);
+    return { id, versions: getPromptVersions(id), active: active.version, description: active.description };
+  });
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Fill a prompt's placeholders. Every declared variable must be given.
+ */
+export function renderPrompt(
+  prompt: string | PromptDefinition,
+  variables: Record<string, string | number> = {},
+  version?: string
+): RenderedPrompt {
+  const definition = typeof prompt === "string" ? getPrompt(prompt, version) : prompt;
+  const ref = `${definition.id}@${definition.version}`;
+
+  const missing = definition.variables.filter((name) => variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new PromptVariableError(ref, `missing variables ${missing.join(", ")}`);
+  }
+
+  // One pass, so a value containing "{name}" is never substituted again
+  const fill = (text: string) =>
+    text.replace(PLACEHOLDER, (placeholder, name: string) =>
+      definition.variables.includes(name) ? String(variables[name]) : placeholder
+    );
+
+  return {
+    id: definition.id,
+    version: definition.version,
+    ref,
+    system: definition.system === undefined ? undefined : fill(definition.system),
+    text: fill(definition.template),
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Category Schema Prompts
+ *
+ * Registers the extraction prompt of every category schema
+ * (lib/matching/category-schemas.ts) as categoryPromptId(schema), e.g.
+ * "category.clothing.tops". The prompt text stays next to the attributes
+ * it asks for; its version is the schema's extractionPromptVersion.
+ */
+
+import { CATEGORY_SCHEMAS, categoryPromptId } from "@/lib/matching/category-schemas";
+import { definePrompt } from "../registry";
+
+for (const categorySchema of Object.values(CATEGORY_SCHEMAS)) {
+  definePrompt({
+    id: categoryPromptId(categorySchema),
+    version: categorySchema.extractionPromptVersion || "1.0.0",
+    description: `${categorySchema.category} ${categorySchema.subcategory} attributes`,
+    template: `${categorySchema.extractionPrompt}
+
+{context}`,
+    variables: ["context"],
+  });
+}
@@ -0,0 +1,270 @@
+/**
+ * Extraction Prompts
+ *
+ * Prompts of the ComprehensiveExtractor (lib/extraction), one per "Digital
+ * DNA" step. Response formats are validated by lib/extraction/output-schemas.ts.
+ */
+
+import { definePrompt } from "../registry";
+
+// ============================================================================
+// Products
+// ============================================================================
+
+definePrompt({
+  id: "extraction.products",
+  version: "1.0.0",
+  description: "Every product across the frames, with searchable attributes",
+  system: `You are an expert visual product detector for social commerce. Your job is to identify EVERY monetizable product visible in video frames.
+
+CRITICAL INSTRUCTIONS:
+1. SCAN THE ENTIRE FRAME - not just the focal point
+2. IDENTIFY ALL PRODUCTS the creator is: WEARING, HOLDING, USING, NEAR
+3. For EACH product, provide specific searchable attributes
+4. Err on the side of OVER-DETECTION - include items even if 50-60% confident
+5. DO NOT merge items - earrings AND necklace are TWO separate products
+
+You MUST respond with valid JSON only.`,
+  template: `Analyze these {frameCount} video frames from a creator's content.
+
+CONTEXT FROM AUDIO: "{transcription}"
+
+Find EVERY visible product including:
+- Full outfit breakdown (top, bottom, shoes - SEPARATE items)
+- All jewelry pieces (earrings, necklace, rings, bracelet - SEPARATE)
+- Accessories (bag, belt, sunglasses, hair accessories)
+- Beauty/skincare products visible or being used
+- Tech items (phone, earbuds)
+- Background items (furniture, decor) if clearly visible
+
+Respond with JSON:
+{
+  "products": [
+    {
+      "name": "Specific descriptive product name",
+      "category": "Clothing|Footwear|Accessories|Jewelry|Beauty|Tech|Home|Bags|Other",
+      "subcategory": "e.g., Midi Dress, Hoop Earrings, Crossbody Bag",
+      "primaryColor": "main color",
+      "colorFamily": "neutral|warm|cool|earth|pastel|bright|dark",
+      "secondaryColors": ["if applicable"],
+      "pattern": "solid|striped|floral|plaid|etc",
+      "material": "cotton|silk|leather|metal|etc",
+      "style": "casual|formal|streetwear|minimalist|etc",
+      "location": "face|upper_body|lower_body|feet|hands|wrist|background|held",
+      "brand": "brand if visible, null otherwise",
+      "searchTerms": ["array", "of", "search", "terms"],
+      "estimatedPriceRange": "$XX-$XX or null",
+      "confidence": 0.0-1.0,
+      "identifiability": "high|medium|low",
+      "frameIndices": [0, 2, 5]
+    }
+  ]
+}`,
+  variables: ["frameCount", "transcription"],
+});
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+definePrompt({
+  id: "extraction.hook",
+  version: "1.0.0",
+  description: "Hook type, timing, attention devices and strength of the opening seconds",
+  system: `You are an expert content strategist analyzing video hooks for social media.
+
+A "hook" is the opening 1-5 seconds that captures attention. Analyze:
+1. What type of hook is used
+2. What attention devices are employed
+3. What emotional triggers are activated
+4. How effective is the hook
+
+You MUST respond with valid JSON only.`,
+  template: `Analyze the OPENING of this video (first 3-5 seconds).
+
+TRANSCRIPTION: "{transcription}"
+
+Identify the hook strategy:
+
+{
+  "hook": {
+    "type": "question|statement|demonstration|problem|promise|social_proof|curiosity_gap|controversy|transformation|relatable|trend_reference|direct_address",
+    "startSeconds": 0,
+    "endSeconds": 3,
+    "duration": 3,
+    "transcript": "exact words spoken in first 3-5 seconds",
+    "visualDescription": "what's shown visually in opening",
+    "attentionDevices": ["text_overlay", "face_close_up", "product_reveal", "sound_effect", "quick_cuts", "zoom", "movement", "bright_colors"],
+    "emotionalTrigger": "curiosity|fomo|aspiration|relatability|humor|surprise|urgency|exclusivity|validation|null",
+    "hookStrength": 0-100,
+    "clarity": 0-100
+  }
+}`,
+  variables: ["transcription"],
+});
+
+// ============================================================================
+// Content (angle, theme, engagement)
+// ============================================================================
+
+definePrompt({
+  id: "extraction.content",
+  version: "1.0.0",
+  description: "Angle, theme and engagement signals",
+  system: `You are an expert content analyst identifying the strategic elements of creator videos.
+
+Analyze:
+1. ANGLE: The unique claim or perspective
+2. THEME: Narrative structure, format, pacing
+3. ENGAGEMENT: Calls to action, social proof, shareability
+
+You MUST respond with valid JSON only.`,
+  template: `Analyze this video's content strategy.
+
+TRANSCRIPTION: "{transcription}"
+
+Identify:
+
+{
+  "angle": {
+    "type": "problem_solution|discovery|comparison|routine|review|tutorial|haul|favorites|lifestyle|transformation|recommendation|unboxing|first_impression|dupes|trend_test",
+    "uniqueClaim": "The main value proposition or claim",
+    "perspective": "Creator's point of view",
+    "differentiation": "What makes this different from similar content",
+    "targetAudience": "Who this is for",
+    "painPoint": "Problem addressed, if any",
+    "desiredOutcome": "What viewer should feel/do after",
+    "clarityScore": 0-100,
+    "believabilityScore": 0-100
+  },
+  "theme": {
+    "narrativeArc": "linear|hook_reveal|problem_solution|tutorial_steps|comparison|listicle|story|montage|reaction|day_in_life",
+    "format": "talking_head|voiceover_broll|text_only|grwm|ootd|haul|tutorial|vlog|transition|slideshow|duet_stitch",
+    "pacing": {
+      "overall": "fast|medium|slow",
+      "cutsPerMinute": 0,
+      "averageClipLength": 0,
+      "hasQuickCuts": true/false,
+      "hasPauses": true/false
+    },
+    "tone": ["casual", "energetic", "relatable"],
+    "aesthetic": "minimalist|maximalist|clean_girl|y2k|luxury|casual|bohemian|preppy|edgy|natural|glam",
+    "energy": "high|medium|low",
+    "editingStyle": {
+      "complexity": "simple|moderate|complex",
+      "transitions": ["cut", "zoom"],
+      "effects": ["filter", "text"],
+      "textOverlays": true/false,
+      "captionsPresent": true/false
+    },
+    "musicStyle": "trending_sound|original_audio|background_music|no_music|voiceover_only",
+    "voiceoverStyle": "direct_speaking|narration|text_to_speech|no_voice|asmr"
+  },
+  "engagement": {
+    "callToAction": {
+      "type": "follow|like|comment|share|link|buy|subscribe|save|null",
+      "text": "exact CTA text",
+      "timestamp": null,
+      "strength": "strong|moderate|soft"
+    },
+    "socialProof": [
+      {"type": "testimonial|statistics|celebrity|trend|reviews|before_after", "description": "..."}
+    ],
+    "engagementDrivers": ["question_asked", "relatable_content", "practical_tips"],
+    "shareabilityScore": 0-100,
+    "shareabilityFactors": ["reasons it would be shared"]
+  }
+}`,
+  variables: ["transcription"],
+});
+
+// ============================================================================
+// Visual
+// ============================================================================
+
+definePrompt({
+  id: "extraction.visual",
+  version: "1.0.0",
+  description: "Color, lighting, composition, setting and production quality",
+  system: `You are an expert visual analyst for social media content.
+
+Analyze the visual characteristics including:
+- Color palette and harmony
+- Lighting quality and type
+- Composition and framing
+- Setting and environment
+- Production quality
+
+You MUST respond with valid JSON only.`,
+  template: `Analyze the visual characteristics of these video frames.
+
+{
+  "visual": {
+    "dominantColors": ["color1", "color2", "color3"],
+    "colorPalette": ["full palette"],
+    "colorHarmony": "monochromatic|complementary|analogous|triadic|neutral",
+    "lighting": {
+      "type": "natural|studio|ring_light|mixed|low_light|golden_hour",
+      "quality": "professional|good|average|poor",
+      "consistency": true/false
+    },
+    "composition": {
+      "framing": "centered|rule_of_thirds|asymmetric|varied",
+      "cameraAngles": ["straight on", "slightly above"],
+      "cameraMovement": true/false,
+      "subjectPlacement": "center|left|right|varied"
+    },
+    "setting": {
+      "location": "bedroom|bathroom|living room|kitchen|etc",
+      "environment": "indoor|outdoor|mixed",
+      "background": "description of background",
+      "props": ["visible props"]
+    },
+    "quality": {
+      "resolution": "4k|1080p|720p|lower",
+      "stability": "stable|minor_shake|handheld",
+      "focus": "sharp|soft|varied"
+    }
+  }
+}`,
+  variables: [],
+});
+
+// ============================================================================
+// SEO
+// ============================================================================
+
+definePrompt({
+  id: "extraction.seo",
+  version: "1.0.0",
+  description: "SEO keywords, hashtags, title and niche",
+  system: `You are an SEO expert for social commerce content.
+
+Generate optimized metadata including:
+- Search keywords
+- Hashtags
+- Title and description
+- Niche categorization
+
+You MUST respond with valid JSON only.`,
+  template: `Generate SEO metadata for this video.
+
+PRODUCTS: {products}
+TRANSCRIPTION: {transcription}
+CONTENT TYPE: {contentType}
+TARGET AUDIENCE: {targetAudience}
+
+{
+  "seo": {
+    "keywords": ["keyword1", "keyword2", ...15-20 keywords],
+    "hashtags": ["#hashtag1", "#hashtag2", ...8-12 hashtags],
+    "suggestedTitle": "SEO-optimized title (60 chars max)",
+    "suggestedDescription": "SEO description (160 chars max)",
+    "niche": "main niche category",
+    "subNiche": "specific sub-niche",
+    "trendAlignment": ["trends this aligns with"],
+    "searchTerms": ["long-tail search terms"]
+  }
+}`,
+  variables: ["products", "transcription", "contentType", "targetAudience"],
+});
@@ -0,0 +1,65 @@
+/**
+ * Hook Prompts
+ *
+ * Prompt of the standalone hook extractor (lib/extraction/hook-extractor.ts).
+ */
+
+import { definePrompt } from "../registry";
+
+definePrompt({
+  id: "hook.analysis",
+  version: "1.0.0",
+  description: "Hook type, on-screen text, audio type and effectiveness breakdown",
+  template: `You are an expert content strategist analyzing video hooks. A "hook" is the opening of a video designed to capture attention and stop viewers from scrolling.
+
+HOOK WINDOW CONTEXT:
+- Content Type: {contentType}
+- Hook Window: {startSeconds}s - {endSeconds}s
+- Primary Hook: 0 - {primaryEndSeconds}s (most critical)
+
+TRANSCRIPT IN HOOK WINDOW:
+{transcript}
+
+PATTERN HINTS (from text analysis):
+{patternHints}
+
+Analyze the opening frames and classify the hook.
+
+HOOK TYPES (choose primary + optional secondary):
+- question: Opens with a question ("Have you ever...?")
+- statement: Bold claim or discovery ("I found the best...")
+- pov: Point of view scenario ("POV: you just...")
+- controversy: Provocative/contrarian take ("Unpopular opinion...")
+- teaser: Promise of payoff later ("Wait for it...")
+- listicle: Numbered list format ("5 things you need...")
+- problem: Addresses pain point ("Struggling with...?")
+- visual_hook: Striking visual that creates curiosity (no text needed)
+- trend_sound: Uses recognizable trending audio as the hook
+- story: Narrative opening ("Story time...")
+- result_first: Shows outcome/transformation immediately
+- direct_value: Explicitly states what viewer will learn
+
+EFFECTIVENESS SCORING (0-100 total):
+1. Clarity of Promise (0-25): Does viewer immediately know what they'll get?
+2. Pattern Interrupt (0-25): How well does it stop the scroll? (unusual, surprising, striking)
+3. Speed to Value (0-25): How fast does the promise/payoff arrive?
+4. Content Alignment (0-25): Does hook style match content type? (short-form = punchy, long-form = can build)
+
+Respond with JSON only:
+{
+  "hookType": "primary hook type",
+  "secondaryHookType": "secondary type or null",
+  "hookTypeConfidence": 0.0-1.0,
+  "textOverlay": "exact on-screen text if visible, or null",
+  "visualDescription": "1-2 sentence description of visual hook elements",
+  "audioType": "trending_sound|original_audio|voiceover|music_only|silent|mixed",
+  "effectiveness": {
+    "clarityOfPromise": 0-25,
+    "patternInterrupt": 0-25,
+    "speedToValue": 0-25,
+    "contentAlignment": 0-25,
+    "reasoning": "2-3 sentences explaining the scores"
+  }
+}`,
+  variables: ["contentType", "startSeconds", "endSeconds", "primaryEndSeconds", "transcript", "patternHints"],
+});
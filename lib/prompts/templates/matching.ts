@@ -0,0 +1,322 @@
+/**
+ * Matching Prompts
+ *
+ * Attribute extraction and visual comparison prompts of the product
+ * matcher (lib/matching/product-matcher.ts).
+ */
+
+import { definePrompt } from "../registry";
+
+// ============================================================================
+// Attribute Extraction
+// ============================================================================
+
+definePrompt({
+  id: "matching.attributes.clothing",
+  version: "2.0.0",
+  description: "Clothing attributes (sweaters, tops, shorts, pants, dresses)",
+  template: `You are a precise clothing attribute extractor.
+
+CONTEXT: {purpose}
+
+Extract these attributes. Use "not_visible" if cannot be determined.
+
+**COLOR:**
+- primaryColor: Exact color name (e.g., "olive green", "navy blue")
+- colorFamily: Broad family (green, blue, red, neutral, etc.)
+- colorTone: muted/earthy, bright/vivid, pastel, dark
+
+**STYLE:**
+- neckline: crew, mock, v-neck, turtleneck, scoop, boat, collared, off-shoulder, or "not_applicable"
+- sleeveLength: long, short, 3/4, sleeveless, or "not_applicable"
+- bodyLength: crop, regular, long, or "not_applicable"
+- fit: fitted, relaxed, oversized, or "not_visible"
+
+**MATERIAL/TEXTURE:**
+- knitType: cable, ribbed, waffle, chunky, smooth, or "not_applicable"
+- material: cotton, wool, denim, acrylic, cashmere, blend, or "unknown"
+- texture: chunky/thick, medium, fine/thin
+
+**DETAILS:**
+- hasButtons: true/false
+- hasZipper: true/false
+- hasPattern: true/false
+- patternType: solid, striped, colorblock, etc.
+
+**CONFIDENCE:** (0.0-1.0)
+
+Respond with flat JSON (no nested objects).`,
+  variables: ["purpose"],
+});
+
+definePrompt({
+  id: "matching.attributes.footwear",
+  version: "2.0.0",
+  description: "Footwear attributes (loafers, sneakers, boots, heels, sandals)",
+  template: `You are a precise footwear attribute extractor.
+
+CONTEXT: {purpose}
+
+Extract these attributes. Use "not_visible" if cannot be determined.
+
+**COLOR:**
+- primaryColor: Exact color name
+- colorFamily: Broad family
+- finish: matte, glossy/patent, suede, textured
+
+**STYLE:**
+- toeShape: round, pointed, square, almond, or "not_visible"
+- heelHeight: flat, low, mid, high
+- heelType: none, block, stiletto, wedge, platform
+- closure: slip-on, lace-up, buckle, zipper, velcro
+
+**MATERIAL:**
+- material: leather, suede, canvas, synthetic, fabric
+- upperMaterial: same as material
+- soleMaterial: rubber, leather, synthetic
+
+**DETAILS:**
+- hasAccents: true/false (buckles, bows, studs, tassels)
+- accentType: buckle, bow, tassel, chain, or "none"
+
+**CONFIDENCE:** (0.0-1.0)
+
+Respond with flat JSON (no nested objects).`,
+  variables: ["purpose"],
+});
+
+definePrompt({
+  id: "matching.attributes.sunglasses",
+  version: "2.0.0",
+  description: "Eyewear attributes",
+  template: `You are a precise eyewear attribute extractor.
+
+CONTEXT: {purpose}
+
+Extract these attributes. Use "not_visible" if cannot be determined.
+
+**FRAME:**
+- primaryColor: Frame color (exact)
+- colorFamily: Broad family
+- frameColor: Same as primaryColor
+- frameMaterial: plastic, metal, acetate, mixed
+- framePattern: solid, tortoiseshell, gradient, patterned
+- frameShape: oversized, round, square, cat-eye, aviator, rectangular, oval
+
+**LENSES:**
+- lensColor: black, brown, gray, blue, gradient, mirrored
+- lensTint: dark, medium, light
+
+**STYLE:**
+- style: classic, trendy, sporty, vintage, luxury
+- material: Same as frameMaterial
+
+**CONFIDENCE:** (0.0-1.0)
+
+Respond with flat JSON (no nested objects).`,
+  variables: ["purpose"],
+});
+
+definePrompt({
+  id: "matching.attributes.earrings",
+  version: "2.0.0",
+  description: "Earring and other jewelry attributes",
+  template: `You are a precise jewelry attribute extractor.
+
+CONTEXT: {purpose}
+
+Extract these attributes. Use "not_visible" if cannot be determined.
+
+**MATERIAL:**
+- primaryColor: Metal color (gold, silver, rose gold, bronze, copper)
+- colorFamily: yellow/gold, silver/white, rose, bronze
+- material: Same as metalColor description
+- metalColor: gold, silver, rose gold, bronze
+- metalFinish: polished, matte, brushed, hammered
+
+**STYLE:**
+- earringType: hoop, stud, drop, dangle, huggie, chandelier, threader
+- size: small, medium, large, oversized
+- shape: round, oval, geometric, irregular
+
+**DETAILS:**
+- hasGemstones: true/false
+- gemstoneType: diamond, pearl, crystal, or "none"
+- style: minimalist, statement, classic, bohemian, trendy
+
+**CONFIDENCE:** (0.0-1.0)
+
+Respond with flat JSON (no nested objects).`,
+  variables: ["purpose"],
+});
+
+// ============================================================================
+// Visual Tiebreaker
+// ============================================================================
+
+definePrompt({
+  id: "matching.visual_tiebreaker",
+  version: "1.0.0",
+  description: "Visual score for the two closest candidates (reference, A, B images)",
+  template: `You are comparing shopping results to a product from a creator's video.
+
+Image 1: Reference product from video
+Image 2: Shopping candidate A - "{candidateA}"
+Image 3: Shopping candidate B - "{candidateB}"
+
+Both candidates have similar attribute scores. Your job is to break the tie using visual similarity.
+
+For EACH candidate, score 0-100 based on:
+- Does it LOOK like the same item?
+- Color accuracy
+- Style accuracy
+- Overall visual match
+
+Be strict. A fan should believe this is the same or nearly identical item.
+
+Respond with JSON:
+{
+  "candidateA": {
+    "visualScore": 75,
+    "reasoning": "Color matches but neckline looks different"
+  },
+  "candidateB": {
+    "visualScore": 82,
+    "reasoning": "Very close visual match, similar texture"
+  },
+  "winner": "A" or "B"
+}`,
+  variables: ["candidateA", "candidateB"],
+});
+
+// ============================================================================
+// Visual Ranking
+// ============================================================================
+
+// Candidate ranking prompts compared by scripts/test-prompt-comparison.ts.
+// Image 1 is the reference, images 2..lastImage the candidates.
+
+definePrompt({
+  id: "matching.visual_ranking",
+  version: "1.0.0",
+  description: "Rank candidates by visual similarity",
+  template: `Image 1 is a product from a creator's video (an olive green knit crop sweater). Images 2-{lastImage} are shopping results.
+
+Rank images 2-{lastImage} by how closely they visually match the product in Image 1.
+
+For each shopping result, provide:
+- Rank (1-{candidateCount}, where 1 is best match)
+- Similarity score (0-100, where 100 is identical)
+- Reasoning (1 sentence explaining why)
+
+Consider: color match, knit texture/pattern, crop length, sleeve style, neckline, overall silhouette.
+
+Respond in this exact JSON format:
+{
+  "rankings": [
+    {
+      "imageNumber": 2,
+      "rank": 1,
+      "similarityScore": 85,
+      "reasoning": "Very close color match and similar cable knit texture"
+    }
+  ]
+}`,
+  variables: ["candidateCount", "lastImage"],
+});
+
+definePrompt({
+  id: "matching.visual_ranking",
+  version: "2.0.0",
+  description: "Weighted color/style/material/vibe score per candidate",
+  template: `Image 1 shows an olive green knit crop sweater from a creator's video. Images 2-{lastImage} are shopping results.
+
+For each shopping result (Images 2-{lastImage}), score 0-100 based on these weighted criteria:
+
+**Color Match (40 points max):**
+- 40: Exact same shade of olive green
+- 30: Very close shade (slightly lighter/darker)
+- 20: Similar green family but noticeably different
+- 10: Different color family
+- 0: Completely different color
+
+**Style Match (30 points max):**
+- 30: Same neckline, sleeve length, and crop length
+- 20: 2 of 3 match
+- 10: 1 of 3 match
+- 0: None match
+
+**Material/Texture Match (20 points max):**
+- 20: Same knit pattern and texture
+- 15: Similar knit style
+- 10: Different knit but same category (sweater)
+- 0: Different material entirely
+
+**Overall Vibe (10 points max):**
+- 10: A fan would definitely think this is the same item
+- 5: A fan might think it's similar
+- 0: A fan would not confuse these items
+
+Provide the total score (sum of all categories) and a brief breakdown.
+
+Respond in JSON format:
+{
+  "rankings": [
+    {
+      "imageNumber": 2,
+      "totalScore": 75,
+      "breakdown": {
+        "color": 35,
+        "style": 20,
+        "material": 15,
+        "vibe": 5
+      },
+      "reasoning": "Close color match but different neckline style"
+    }
+  ]
+}`,
+  variables: ["lastImage"],
+});
+
+definePrompt({
+  id: "matching.visual_ranking",
+  version: "3.0.0",
+  description: "Start at 100 and deduct penalties per difference",
+  template: `You are a strict product verification system. Your job is to determine if shopping results match a product shown in a creator's video.
+
+**Reference Product (Image 1):** Olive green knit crop sweater
+
+**Shopping Results:** Images 2-{lastImage}
+
+**Scoring Guidelines (BE STRICT):**
+- 90-100: NEARLY IDENTICAL - A fan would be 95%+ confident this is the exact same item
+- 70-89: VERY SIMILAR - Same style, very close color, minor differences only
+- 50-69: SOMEWHAT SIMILAR - Same category, some shared features, but noticeable differences
+- 30-49: LOOSELY RELATED - Same general type but clearly different item
+- 0-29: NOT A MATCH - Different product entirely
+
+**Penalty Triggers (deduct points heavily):**
+- Wrong color shade (not olive green): -30 points
+- Wrong neckline (crew vs mock vs v-neck): -20 points
+- Wrong sleeve style (long vs short vs 3/4): -15 points
+- Wrong length (crop vs regular vs long): -20 points
+- Wrong material look (cable knit vs ribbed vs waffle): -15 points
+
+Start at 100 and deduct for each difference you observe.
+
+Respond in JSON format:
+{
+  "rankings": [
+    {
+      "imageNumber": 2,
+      "score": 65,
+      "penalties": [
+        { "issue": "neckline is mock neck instead of crew", "deduction": -20 },
+        { "issue": "slightly different shade of green", "deduction": -15 }
+      ],
+      "reasoning": "Good color and crop length but wrong neckline style"
+    }
+  ]
+}`,
+  variables: ["lastImage"],
+});
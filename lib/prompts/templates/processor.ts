@@ -0,0 +1,148 @@
+/**
+ * Processor Prompts
+ *
+ * Prompts of the unified AI processor (lib/ai/processor.ts): one GPT-4o
+ * vision call for products and visual analysis, one text call for SEO.
+ */
+
+import { definePrompt } from "../registry";
+
+// ============================================================================
+// Vision
+// ============================================================================
+
+definePrompt({
+  id: "processor.vision",
+  version: "2.1.0",
+  description: "Every product in the frames plus visual analysis (products[], visual)",
+  system: `You are an expert visual product detector for social commerce. Your job is to identify EVERY monetizable product visible in video frames.
+
+CRITICAL INSTRUCTIONS:
+
+1. SCAN THE ENTIRE FRAME - not just the focal point or the product being promoted
+
+2. IDENTIFY ALL PRODUCTS the creator is:
+   - WEARING: clothing (top, bottom, dress, outerwear), shoes, accessories (bag, belt, hat, scarf), jewelry (earrings, necklace, bracelet, rings, watch), glasses/sunglasses
+   - HOLDING: phone, bag, drink, makeup products, skincare, tools, books
+   - USING: makeup being applied, skincare products, tech devices, furniture they're sitting on
+   - NEAR: home decor, furniture, plants, lamps, art, rugs visible in background
+
+3. For EACH product, provide:
+   - A SPECIFIC name (not "dress" but "midi wrap dress with floral print" or "black ribbed tank top")
+   - Visual attributes that would help someone SEARCH for this item
+   - Location in frame where the product appears
+   - Whether brand is visible (and what it is if you can read it)
+   - Your confidence that this specific item could be found for purchase online
+
+4. DO NOT SKIP items because they seem incidental. A phone case, water bottle, hair clip, or lamp can all be monetized.
+
+5. DO NOT merge multiple items. Earrings AND a necklace are TWO separate products. A top AND pants are TWO separate products.
+
+6. PRIORITIZE items by identifiability:
+   - HIGH: Clear view, good lighting, distinctive features, brand visible
+   - MEDIUM: Visible but partially obscured, angled, or generic style
+   - LOW: Edge of frame, blurry, very small, or extremely common item
+
+7. For CLOTHING specifically, always try to identify:
+   - Type (blouse, t-shirt, tank top, sweater, jacket, jeans, skirt, dress, etc.)
+   - Style (casual, formal, athletic, bohemian, minimalist, streetwear)
+   - Notable features (pattern, neckline, sleeve length, fit)
+
+You MUST respond with valid JSON only. No markdown, no explanation, just JSON.
+
+Required JSON schema:
+{
+  "products": [
+    {
+      "name": "Specific descriptive product name",
+      "category": "Clothing|Footwear|Accessories|Jewelry|Beauty|Skincare|Haircare|Tech|Home Decor|Furniture|Food & Beverage|Other",
+      "subcategory": "e.g., Midi Dress, Moisturizer, Wireless Earbuds, Table Lamp, Hoop Earrings",
+      "colors": ["primary color", "secondary color if applicable"],
+      "material": "silk|cotton|leather|denim|knit|metal|plastic|ceramic|glass|unknown",
+      "style": "casual|formal|streetwear|minimalist|bohemian|athletic|luxury|vintage|trendy",
+      "pattern": "solid|striped|floral|geometric|animal print|plaid|polka dot|abstract|none visible",
+      "brand": "Brand name if visible/readable, null if not",
+      "location": "face|head|ears|neck|upper_body|lower_body|full_body|hands|wrist|waist|feet|background|table|held|being_applied",
+      "description": "2-3 sentences describing the item as you would for a product listing. Include fit, style, and distinguishing features that make it searchable.",
+      "searchTerms": ["array", "of", "5-8", "terms", "someone", "would", "search", "on", "google", "or", "amazon"],
+      "estimatedPriceUSD": "$XX-$XX range or null if unknown",
+      "confidence": 0.0-1.0,
+      "identifiability": "high|medium|low",
+      "frameIndices": [0, 3, 5],
+      "boundingBox": {"x": 0.2, "y": 0.3, "width": 0.4, "height": 0.5}
+    }
+  ],
+  "visual": {
+    "dominantColors": ["color1", "color2", "color3"],
+    "aestheticStyle": "Minimalist|Luxury|Casual|Professional|Playful|Vintage|Bohemian|Streetwear|Glam|Natural",
+    "contentType": "Product Review|GRWM|OOTD|Tutorial|Haul|Unboxing|Lifestyle|Advertisement|Vlog|Talking Head",
+    "targetAudience": "e.g., Young Women 18-25, Beauty Enthusiasts, Fashion-forward Millennials",
+    "setting": "Bedroom|Bathroom|Living Room|Kitchen|Office|Studio|Outdoor|Store|Gym|Car|Restaurant|Unknown",
+    "lighting": "Natural|Studio|Ring Light|Low Light|Mixed|Golden Hour",
+    "scenes": [
+      {
+        "timestamp": "Frame X",
+        "description": "What's happening in this frame",
+        "setting": "Location/environment",
+        "mood": "Energetic|Calm|Professional|Fun|Intimate|Luxurious"
+      }
+    ]
+  }
+}`,
+  template: `Analyze these {frameCount} video frames from a creator's social media content.
+
+CONTEXT FROM AUDIO TRANSCRIPTION:
+"{transcription}"
+
+YOUR TASK:
+1. Identify EVERY visible product across all frames
+2. For a typical lifestyle/fashion video, you should find 5-15+ products including:
+   - Full outfit breakdown (top, bottom, shoes - each as SEPARATE items)
+   - All jewelry pieces (earrings, necklace, rings, bracelet - each SEPARATE)
+   - Accessories (bag, belt, sunglasses, hair accessories)
+   - Any beauty/skincare products visible or being used
+   - Tech items (phone, earbuds, laptop)
+   - Background items (furniture, decor) if clearly visible
+
+3. For EACH product, provide enough detail that someone could SEARCH and FIND a similar item online
+
+4. Use the audio transcription to help identify products being discussed
+
+IMPORTANT:
+- Err on the side of OVER-DETECTION. Include items even if you're only 50-60% confident.
+- Low-confidence items can be filtered later, but MISSED items are lost revenue.
+- If the creator is wearing an outfit, that's minimum 2-5 products right there.
+
+Respond with JSON only.`,
+  variables: ["frameCount", "transcription"],
+});
+
+// ============================================================================
+// SEO
+// ============================================================================
+
+definePrompt({
+  id: "processor.seo",
+  version: "2.1.0",
+  description: "SEO keywords, tags, title and description from detected products",
+  template: `Generate SEO metadata for an e-commerce product video.
+
+Top Products Featured: {productNames}
+All Categories: {categories}
+Product Search Terms: {searchTerms}
+Visual Style: {aestheticStyle}
+Content Type: {contentType}
+Target Audience: {targetAudience}
+Transcription excerpt: "{transcription}"
+
+Total products detected: {productCount}
+
+Respond with JSON:
+{
+  "keywords": ["keyword1", "keyword2", ...] (15-20 search keywords covering all products),
+  "tags": ["tag1", "tag2", ...] (8-12 hashtag-style tags),
+  "title": "SEO-optimized title (60 chars max)",
+  "description": "SEO-optimized description mentioning key products (160 chars max)"
+}`,
+  variables: ["productNames", "categories", "searchTerms", "aestheticStyle", "contentType", "targetAudience", "transcription", "productCount"],
+});
@@ -0,0 +1,260 @@
+/**
+ * Batch Ingestion
+ *
+ * Scrapes and enqueues many video URLs as one tracked batch
+ * (see lib/store/batch-store.ts for the record and its progress).
+ *
+ * - Every URL is checked with validateUrl up front; invalid and duplicate
+ *   URLs are kept in the batch as "invalid" items so the summary shows them.
+ * - Scraping is throttled: at most BATCH_INGEST_CONCURRENCY scrapes at a
+ *   time, started at least BATCH_INGEST_INTERVAL_MS apart, so onboarding a
+ *   creator does not hammer the platform. Processing is then throttled by
+ *   the job queue itself.
+ * - Batch jobs default to the low priority lane so they do not hold up
+ *   videos submitted one at a time.
+ * - Items that were being scraped when the process stopped are retried on
+ *   the next start.
+ * - Videos that were already ingested resolve to their existing job (see
+ *   ingest.ts), unless the batch was created with `reprocess`.
+ */
+
+import { validateUrl } from "@/lib/scraper/video-scraper";
+import {
+  Batch,
+  BatchItem,
+  generateBatchId,
+  insertBatch,
+  listBatches,
+  updateBatchItem,
+} from "@/lib/store/batch-store";
+import type { JobPriority } from "@/lib/store/job-store";
+import { ingestUrl } from "./ingest";
+import { PRIORITIES } from "./local-queue";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const BATCH_INGEST_CONFIG = {
+  maxItems: parseInt(process.env.BATCH_MAX_ITEMS || "100"),
+  concurrency: Math.max(1, parseInt(process.env.BATCH_INGEST_CONCURRENCY || "2")),
+  intervalMs: parseInt(process.env.BATCH_INGEST_INTERVAL_MS || "1500"),
+};
+
+export interface BatchInput {
+  urls: string[];
+  name?: string;
+  source?: Batch["source"];
+  priority?: JobPriority;
+  reprocess?: boolean; // Queue new runs for videos that were already ingested
+}
+
+export interface BatchIngestResult {
+  success: boolean;
+  batch?: Batch;
+  error?: string;
+  code?: "invalid";
+}
+
+interface IngestState {
+  started: boolean;
+  active: Set<string>; // "<batchId>:<index>" being scraped
+  lastStartAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForIngest = globalThis as unknown as { velolumeBatchIngest?: IngestState };
+
+function ingestState(): IngestState {
+  if (!globalForIngest.velolumeBatchIngest) {
+    globalForIngest.velolumeBatchIngest = { started: false, active: new Set(), lastStartAt: 0, timer: null };
+  }
+  return globalForIngest.velolumeBatchIngest;
+}
+
+function itemKey(batchId: string, index: number): string {
+  return `${batchId}:${index}`;
+}
+
+// ============================================================================
+// Input
+// ============================================================================
+
+/**
+ * URLs from an uploaded CSV: every cell that looks like a URL, in order.
+ * Header rows and other columns (captions, dates) are ignored.
+ */
+export function parseCsvUrls(csv: string): string[] {
+  return csv
+    .split(/\r?\n/)
+    .flatMap((line) => line.split(","))
+    .map((cell) => cell.trim().replace(/^"|"$/g, "").trim())
+    .filter((cell) => /^https?:\/\//i.test(cell));
+}
+
+/**
+ * Create a batch and start ingesting its valid URLs
+ */
+export function createBatchIngestion(input: BatchInput): BatchIngestResult {
+  if (!Array.isArray(input.urls) || input.urls.length === 0) {
+    return { success: false, code: "invalid", error: "At least one URL is required" };
+  }
+  if (input.urls.length > BATCH_INGEST_CONFIG.maxItems) {
+    return {
+      success: false,
+      code: "invalid",
+      error: `Too many URLs (${input.urls.length}). Maximum per batch: ${BATCH_INGEST_CONFIG.maxItems}`,
+    };
+  }
+  if (input.priority !== undefined && !PRIORITIES.includes(input.priority)) {
+    return { success: false, code: "invalid", error: `Invalid priority. Must be one of: ${PRIORITIES.join(", ")}` };
+  }
+
+  const now = new Date().toISOString();
+  const seen = new Map<string, number>();
+
+  const items: BatchItem[] = input.urls.map((raw, index) => {
+    const url = typeof raw === "string" ? raw.trim() : raw;
+    const validation = validateUrl(url);
+
+    if (!validation.valid) {
+      return { index, url: String(url ?? ""), status: "invalid", error: validation.error, updatedAt: now };
+    }
+    if (seen.has(url)) {
+      return { index, url, status: "invalid", error: `Duplicate of item ${seen.get(url)}`, updatedAt: now };
+    }
+
+    seen.set(url, index);
+    return { index, url, platform: validation.platform, status: "pending", updatedAt: now };
+  });
+
+  if (seen.size === 0) {
+    return { success: false, code: "invalid", error: "None of the URLs can be scraped" };
+  }
+
+  const batch = insertBatch({
+    id: generateBatchId(),
+    name: input.name?.trim() || undefined,
+    source: input.source || "urls",
+    priority: input.priority || "low",
+    reprocess: input.reprocess || undefined,
+    items,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  console.log(`[Batch] Created ${batch.id}: ${seen.size} URL(s) to ingest, ${items.length - seen.size} invalid`);
+
+  startBatchIngestion();
+  pump();
+  return { success: true, batch };
+}
+
+/**
+ * Retry items left mid-scrape by a previous process and resume ingestion.
+ * Called at server start (instrumentation.ts) and by every new batch;
+ * safe to call repeatedly.
+ */
+export function startBatchIngestion(): void {
+  const state = ingestState();
+  if (state.started) return;
+  state.started = true;
+
+  for (const batch of listBatches()) {
+    for (const item of batch.items) {
+      if (item.status === "scraping" && !state.active.has(itemKey(batch.id, item.index))) {
+        updateBatchItem(batch.id, item.index, { status: "pending" });
+      }
+    }
+  }
+
+  pump();
+}
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+/**
+ * Oldest batch's first pending item
+ */
+function nextPendingItem(state: IngestState): { batch: Batch; item: BatchItem } | null {
+  const batches = listBatches().reverse();
+
+  for (const batch of batches) {
+    const item = batch.items.find(
+      (candidate) => candidate.status === "pending" && !state.active.has(itemKey(batch.id, candidate.index))
+    );
+    if (item) {
+      return { batch, item };
+    }
+  }
+  return null;
+}
+
+/**
+ * Start scrapes up to the concurrency limit, spaced by the interval
+ */
+function pump(): void {
+  const state = ingestState();
+
+  while (state.active.size < BATCH_INGEST_CONFIG.concurrency) {
+    const next = nextPendingItem(state);
+    if (!next) return;
+
+    const wait = state.lastStartAt + BATCH_INGEST_CONFIG.intervalMs - Date.now();
+    if (wait > 0) {
+      if (!state.timer) {
+        state.timer = setTimeout(() => {
+          state.timer = null;
+          pump();
+        }, wait);
+      }
+      return;
+    }
+
+    state.lastStartAt = Date.now();
+    ingest(next.batch, next.item, state);
+  }
+}
+
+function ingest(batch: Batch, item: BatchItem, state: IngestState): void {
+  const key = itemKey(batch.id, item.index);
+  state.active.add(key);
+  updateBatchItem(batch.id, item.index, { status: "scraping" });
+
+  scrapeAndQueue(batch, item)
+    .catch((error) => {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`[Batch] ${batch.id} item ${item.index} failed:`, message);
+      updateBatchItem(batch.id, item.index, { status: "failed", error: message });
+    })
+    .finally(() => {
+      state.active.delete(key);
+      pump();
+    });
+}
+
+async function scrapeAndQueue(batch: Batch, item: BatchItem): Promise<void> {
+  const result = await ingestUrl(item.url, {
+    priority: batch.priority,
+    batchId: batch.id,
+    reprocess: batch.reprocess,
+  });
+
+  if (!result.success || !result.job) {
+    updateBatchItem(batch.id, item.index, { status: "failed", error: result.error || "Scrape failed" });
+    return;
+  }
+
+  updateBatchItem(batch.id, item.index, {
+    status: "queued",
+    jobId: result.job.id,
+    duplicate: result.duplicate?.matchedBy,
+    error: undefined,
+  });
+  console.log(
+    `[Batch] ${batch.id} item ${item.index} ${result.duplicate && !result.reprocessed ? "matched existing" : "queued as"} job ${result.job.id}`
+  );
+}
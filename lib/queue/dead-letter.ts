@@ -0,0 +1,131 @@
+/**
+ * Dead-Letter Queue
+ *
+ * Video jobs that failed permanently or ran out of retries. Each entry keeps
+ * the queue payload and failure history so the job can be inspected and
+ * either requeued (reopened with a fresh attempt budget) or discarded
+ * (the job stays failed).
+ */
+
+import { getPersistence } from "@/lib/db";
+import { getJob, reopenJob, updateJobStatus, JobFailure, VideoJob } from "@/lib/store/job-store";
+import { dispatchJob, QueueJobPayload } from "./video-queue";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DeadLetterReason = "permanent" | "exhausted";
+
+export interface DeadLetter {
+  id: string; // Job ID
+  jobId: string;
+  payload: QueueJobPayload;
+  reason: DeadLetterReason;
+  error: string;
+  attempts: number;
+  failures: JobFailure[];
+  deadLetteredAt: string;
+}
+
+export interface DeadLetterResult {
+  success: boolean;
+  job?: VideoJob;
+  error?: string;
+  code?: "not_found" | "conflict" | "dispatch_failed";
+}
+
+function deadLettersCollection() {
+  return getPersistence().collection<DeadLetter>("deadLetters");
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List dead letters, newest first
+ */
+export function listDeadLetters(): DeadLetter[] {
+  return deadLettersCollection()
+    .list()
+    .sort((a, b) => new Date(b.deadLetteredAt).getTime() - new Date(a.deadLetteredAt).getTime());
+}
+
+/**
+ * Get a job's dead letter
+ */
+export function getDeadLetter(jobId: string): DeadLetter | null {
+  return deadLettersCollection().get(jobId);
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Move a failed job to the dead-letter list
+ */
+export function addDeadLetter(
+  job: VideoJob,
+  payload: QueueJobPayload,
+  reason: DeadLetterReason,
+  error: string
+): DeadLetter {
+  const entry: DeadLetter = {
+    id: job.id,
+    jobId: job.id,
+    payload,
+    reason,
+    error,
+    attempts: job.attempts || 0,
+    failures: job.failures || [],
+    deadLetteredAt: new Date().toISOString(),
+  };
+
+  console.warn(`[DeadLetter] Job ${job.id} dead-lettered (${reason}): ${error}`);
+  return deadLettersCollection().put(job.id, entry);
+}
+
+/**
+ * Reopen a dead-lettered job and send it back to the worker
+ */
+export async function requeueDeadLetter(jobId: string): Promise<DeadLetterResult> {
+  const entry = getDeadLetter(jobId);
+  if (!entry) {
+    return { success: false, code: "not_found", error: "Dead letter not found" };
+  }
+
+  const reopened = reopenJob(jobId);
+  if (!reopened.success) {
+    // The job itself is gone: nothing left to requeue
+    if (reopened.code === "not_found") {
+      deadLettersCollection().delete(jobId);
+    }
+    return {
+      success: false,
+      code: reopened.code === "not_found" ? "not_found" : "conflict",
+      error: reopened.error,
+    };
+  }
+
+  try {
+    await dispatchJob(entry.payload);
+  } catch (error) {
+    // Could not reach the queue: put everything back as it was
+    const message = error instanceof Error ? error.message : "Unknown error";
+    updateJobStatus(jobId, "failed", `Requeue failed: ${message}`);
+    return { success: false, code: "dispatch_failed", error: `Failed to requeue job: ${message}` };
+  }
+  deadLettersCollection().delete(jobId);
+
+  console.log(`[DeadLetter] Job ${jobId} requeued`);
+  return { success: true, job: getJob(jobId) || reopened.job };
+}
+
+/**
+ * Drop a dead letter; the job stays failed
+ */
+export function discardDeadLetter(jobId: string): boolean {
+  return deadLettersCollection().delete(jobId);
+}
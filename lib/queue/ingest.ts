@@ -0,0 +1,181 @@
+/**
+ * Idempotent Ingestion
+ *
+ * Entry point for turning a submitted video into a job without storing or
+ * processing the same video twice (see lib/store/content-store.ts):
+ *
+ * 1. A URL whose platform video ID (or normalized URL) was seen before
+ *    resolves to the existing content without scraping.
+ * 2. Otherwise the video is downloaded and hashed; bytes we already have
+ *    are not uploaded again and resolve to the existing content.
+ * 3. New videos are uploaded, queued and registered.
+ *
+ * A duplicate returns the existing job and store. With `reprocess` it
+ * queues a new run over the already-stored video instead.
+ *
+ * Concurrent submissions of the same URL share one ingestion.
+ */
+
+import { randomUUID } from "crypto";
+import { scrapeAndUpload } from "@/lib/scraper/video-scraper";
+import {
+  addContentSource,
+  ContentRecord,
+  describeDuplicate,
+  DuplicateMatch,
+  DuplicateMatchType,
+  findContentByHash,
+  findContentBySource,
+  getSourceKey,
+  linkContentRun,
+  registerContent,
+} from "@/lib/store/content-store";
+import { getJob, JobPriority, VideoJob } from "@/lib/store/job-store";
+import { enqueueVideoJob } from "./video-queue";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IngestOptions {
+  reprocess?: boolean; // Queue a new run when the video was already ingested
+  priority?: JobPriority;
+  batchId?: string;
+}
+
+export interface IngestResult {
+  success: boolean;
+  job?: VideoJob; // New job, or the latest run of a duplicate
+  duplicate?: DuplicateMatch; // Set when the video was already ingested
+  reprocessed?: boolean; // `job` is a new run of existing content
+  platform?: string;
+  error?: string;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForIngest = globalThis as unknown as { velolumeIngestInFlight?: Map<string, Promise<IngestResult>> };
+
+function inFlight(): Map<string, Promise<IngestResult>> {
+  if (!globalForIngest.velolumeIngestInFlight) {
+    globalForIngest.velolumeIngestInFlight = new Map();
+  }
+  return globalForIngest.velolumeIngestInFlight;
+}
+
+// ============================================================================
+// Ingestion
+// ============================================================================
+
+/**
+ * Scrape and queue a social video URL, unless it was ingested before
+ */
+export async function ingestUrl(url: string, options: IngestOptions = {}): Promise<IngestResult> {
+  const sourceKey = getSourceKey(url);
+  const pending = inFlight().get(sourceKey);
+
+  if (pending) {
+    // Same URL submitted while the first submission is still scraping
+    await pending.catch(() => undefined);
+    const content = findContentBySource(url);
+    if (content) {
+      return resolveDuplicate(content, "source", options);
+    }
+  }
+
+  const ingestion = ingestNewUrl(url, options);
+  inFlight().set(sourceKey, ingestion);
+  try {
+    return await ingestion;
+  } finally {
+    if (inFlight().get(sourceKey) === ingestion) {
+      inFlight().delete(sourceKey);
+    }
+  }
+}
+
+async function ingestNewUrl(url: string, options: IngestOptions): Promise<IngestResult> {
+  const bySource = findContentBySource(url);
+  if (bySource) {
+    return resolveDuplicate(bySource, "source", options);
+  }
+
+  const match: { content?: ContentRecord } = {};
+  const result = await scrapeAndUpload(url, {
+    skipUpload: (contentHash) => {
+      match.content = findContentByHash(contentHash) || undefined;
+      return match.content !== undefined;
+    },
+  });
+
+  if (!result.success) {
+    return { success: false, error: result.error, platform: result.platform };
+  }
+
+  if (match.content) {
+    // Same video under a different URL: remember this one too
+    addContentSource(match.content.id, url);
+    console.log(`[Ingest] ${url} matches stored content ${match.content.id} by hash`);
+    return { ...(await resolveDuplicate(match.content, "hash", options)), platform: result.platform };
+  }
+
+  const job = await enqueueVideoJob({
+    fileId: result.fileId,
+    key: result.key,
+    bucket: process.env.SPACES_BUCKET || "auto-storefront-media",
+    source: "scrape",
+    platform: result.platform,
+    originalUrl: result.originalUrl,
+    size: result.size,
+    contentType: "video/mp4",
+    priority: options.priority,
+    batchId: options.batchId,
+    contentId: result.fileId,
+  });
+
+  registerContent(job, { sourceUrl: url, contentHash: result.contentHash });
+  return { success: true, job, platform: result.platform };
+}
+
+/**
+ * Answer a duplicate submission: the existing run, or a new one with
+ * `reprocess` (or when the existing run has been deleted)
+ */
+export async function resolveDuplicate(
+  content: ContentRecord,
+  matchedBy: DuplicateMatchType,
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const duplicate = describeDuplicate(content, matchedBy);
+
+  if (!options.reprocess && duplicate.job) {
+    return { success: true, job: duplicate.job, duplicate, platform: content.platform };
+  }
+
+  const job = await reprocessContent(content, options);
+  return { success: true, job, duplicate, reprocessed: true, platform: content.platform };
+}
+
+/**
+ * Queue a new processing run over an already-stored video
+ */
+export async function reprocessContent(content: ContentRecord, options: IngestOptions = {}): Promise<VideoJob> {
+  const original = getJob(content.id);
+
+  const job = await enqueueVideoJob({
+    fileId: randomUUID(),
+    key: content.key,
+    bucket: content.bucket,
+    source: original?.source || "direct",
+    platform: content.platform,
+    originalUrl: original?.originalUrl,
+    size: content.size,
+    contentType: content.contentType,
+    priority: options.priority,
+    batchId: options.batchId,
+    contentId: content.id,
+  });
+
+  linkContentRun(content.id, job.id);
+  console.log(`[Ingest] Reprocessing content ${content.id} as job ${job.id}`);
+  return job;
+}
@@ -0,0 +1,158 @@
+/**
+ * Job Control
+ *
+ * Cancel, pause and resume video jobs.
+ *
+ * Requests take effect in the store right away. A worker that is already
+ * running the job notices at its next stage boundary (assertJobActive) or
+ * when the store rejects its next update, and stops before spending more
+ * on AI calls. Queue messages that arrive for a paused or cancelled job are
+ * acknowledged without processing.
+ *
+ * Each worker run holds the job under a run ID (startJobRun). Pausing
+ * ends the run, so after a resume the old run cannot continue alongside
+ * the new one, and a job that is mid-run cannot be started twice.
+ *
+ * - cancel: terminal. The job's processor checkpoints are deleted.
+ * - pause: checkpoints are kept, so resuming skips completed stages.
+ * - resume: back to queued and dispatched again.
+ */
+
+import { getJob, appendJobLog, updateJobStatus, JobMutationResult, JobStatus, VideoJob } from "@/lib/store/job-store";
+import { clearJobCheckpoints } from "@/lib/ai/checkpoints";
+import { dispatchJob, jobPayload } from "./video-queue";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface JobControlResult {
+  success: boolean;
+  job?: VideoJob;
+  error?: string;
+  code?: "not_found" | "conflict" | "dispatch_failed";
+}
+
+/**
+ * Thrown at a stage boundary when the job was cancelled or paused, or its
+ * run was superseded
+ */
+export class JobInterruptedError extends Error {
+  constructor(
+    readonly jobId: string,
+    readonly status: JobStatus,
+    message: string = `Job ${jobId} was ${status}`
+  ) {
+    super(message);
+    this.name = "JobInterruptedError";
+  }
+}
+
+/**
+ * Whether queue messages for a job in this status should be dropped
+ */
+export function isInterruptedStatus(status: JobStatus): boolean {
+  return status === "cancelled" || status === "paused";
+}
+
+/**
+ * Throw if the job was cancelled or paused since the worker picked it up,
+ * or, given the worker's run ID, if the run no longer holds the job
+ */
+export function assertJobActive(jobId: string, runId?: string): void {
+  const job = getJob(jobId);
+  if (!job) {
+    throw new JobInterruptedError(jobId, "cancelled", `Job ${jobId} was deleted`);
+  }
+  if (isInterruptedStatus(job.status)) {
+    throw new JobInterruptedError(jobId, job.status);
+  }
+  if (runId && job.runId !== runId) {
+    throw new JobInterruptedError(jobId, job.status, `Job ${jobId} was taken over by another run`);
+  }
+}
+
+/**
+ * Throw for a worker update the store rejected: the job was paused,
+ * cancelled or taken over since the run started
+ */
+export function assertJobUpdated(jobId: string, result: JobMutationResult): VideoJob {
+  if (result.success && result.job) {
+    return result.job;
+  }
+  const status = getJob(jobId)?.status || "cancelled";
+  throw new JobInterruptedError(jobId, status, `Job ${jobId} update rejected: ${result.error}`);
+}
+
+// ============================================================================
+// Controls
+// ============================================================================
+
+/**
+ * Cancel a job and delete its intermediate files
+ */
+export function cancelJob(jobId: string, reason?: string): JobControlResult {
+  const result = appendJobLog(jobId, "cancelled", "Job cancelled", reason);
+  if (!result.success) {
+    return toControlFailure(result.code, result.error);
+  }
+
+  clearJobCheckpoints(jobId);
+  console.log(`[JobControl] Job ${jobId} cancelled`);
+  return { success: true, job: result.job };
+}
+
+/**
+ * Pause a job. A running worker stops at its next stage.
+ */
+export function pauseJob(jobId: string): JobControlResult {
+  const job = getJob(jobId);
+  if (job?.status === "paused") {
+    return { success: false, code: "conflict", error: "Job is already paused" };
+  }
+
+  const result = appendJobLog(jobId, "paused", "Job paused");
+  if (!result.success) {
+    return toControlFailure(result.code, result.error);
+  }
+
+  console.log(`[JobControl] Job ${jobId} paused`);
+  return { success: true, job: result.job };
+}
+
+/**
+ * Put a paused job back in the queue
+ */
+export async function resumeJob(jobId: string): Promise<JobControlResult> {
+  const job = getJob(jobId);
+  if (!job) {
+    return { success: false, code: "not_found", error: "Job not found" };
+  }
+  if (job.status !== "paused") {
+    return { success: false, code: "conflict", error: `Cannot resume a ${job.status} job` };
+  }
+
+  const result = appendJobLog(jobId, "queued", "Job resumed");
+  if (!result.success) {
+    return toControlFailure(result.code, result.error);
+  }
+
+  try {
+    await dispatchJob(jobPayload(job));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    updateJobStatus(jobId, "failed", `Resume failed: ${message}`);
+    return { success: false, code: "dispatch_failed", error: `Failed to resume job: ${message}` };
+  }
+
+  console.log(`[JobControl] Job ${jobId} resumed`);
+  return { success: true, job: getJob(jobId) || result.job };
+}
+
+function toControlFailure(code: string | undefined, error: string | undefined): JobControlResult {
+  return {
+    success: false,
+    code: code === "not_found" ? "not_found" : "conflict",
+    error,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Local Job Queue
+ *
+ * In-process queue for self-hosted and dev mode (no QStash). Runs the
+ * worker directly with a concurrency limit, so ten uploads do not start
+ * ten ffmpeg processes and ten GPT-4o batches at once.
+ *
+ * - Priority lanes: high (creator-initiated) → normal → low (backfills).
+ *   A lane only runs when every higher lane has nothing ready.
+ * - Fairness: within a lane, stores/creators (fairness keys) take turns;
+ *   each key's jobs run FIFO.
+ * - Delays: retries wait in the queue until their backoff has passed.
+ * - Persistence: items live in the "queueItems" collection (data/queue.json
+ *   or SQLite). Items that were running when the process stopped are
+ *   picked up again on the next start.
+ *
+ * One item per job: dispatching a job that is already waiting replaces its
+ * item, so a job is never run twice in parallel from this queue.
+ *
+ * Configure with LOCAL_QUEUE_CONCURRENCY (default 2).
+ */
+
+import { getPersistence } from "@/lib/db";
+import type { JobPriority } from "@/lib/store/job-store";
+import type { QueueJobPayload } from "./video-queue";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LocalQueueItem {
+  id: string; // Job ID
+  token: string; // Distinguishes a re-dispatched item from the one it replaced
+  payload: QueueJobPayload;
+  priority: JobPriority;
+  fairnessKey: string;
+  enqueuedAt: string;
+  availableAt: string; // Not run before this (retry backoff)
+  startedAt?: string; // Set while a worker runs the item
+}
+
+export interface LocalQueueDepth {
+  pending: number; // Ready to run
+  delayed: number; // Waiting for their backoff
+  running: number;
+  byPriority: Record<JobPriority, number>; // Pending + delayed per lane
+}
+
+export const LOCAL_QUEUE_CONFIG = {
+  concurrency: Math.max(1, parseInt(process.env.LOCAL_QUEUE_CONCURRENCY || "2")),
+};
+
+export const PRIORITIES: JobPriority[] = ["high", "normal", "low"];
+
+interface RunnerState {
+  started: boolean;
+  running: Set<string>; // Job IDs being processed by this process
+  lastServed: Map<string, number>; // Fairness key → last start time
+  timer: ReturnType<typeof setTimeout> | null;
+  timerAt: number | null;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForQueue = globalThis as unknown as { velolumeLocalQueue?: RunnerState };
+
+function runner(): RunnerState {
+  if (!globalForQueue.velolumeLocalQueue) {
+    globalForQueue.velolumeLocalQueue = {
+      started: false,
+      running: new Set(),
+      lastServed: new Map(),
+      timer: null,
+      timerAt: null,
+    };
+  }
+  return globalForQueue.velolumeLocalQueue;
+}
+
+function itemsCollection() {
+  return getPersistence().collection<LocalQueueItem>("queueItems");
+}
+
+// ============================================================================
+// Queue Operations
+// ============================================================================
+
+/**
+ * Add a job to the local queue, to run no earlier than `delayMs` from now
+ */
+export function enqueueLocal(payload: QueueJobPayload, delayMs: number = 0): LocalQueueItem {
+  startLocalQueue();
+
+  const now = Date.now();
+  const item: LocalQueueItem = {
+    id: payload.jobId,
+    token: Math.random().toString(36).substring(2, 10),
+    payload,
+    priority: payload.priority || "normal",
+    fairnessKey: payload.fairnessKey || defaultFairnessKey(payload),
+    enqueuedAt: new Date(now).toISOString(),
+    availableAt: new Date(now + delayMs).toISOString(),
+  };
+
+  itemsCollection().put(item.id, item);
+  pump();
+  return item;
+}
+
+/**
+ * Queue depth, for getQueueInfo()
+ */
+export function getLocalQueueDepth(): LocalQueueDepth {
+  startLocalQueue();
+
+  const now = Date.now();
+  const depth: LocalQueueDepth = {
+    pending: 0,
+    delayed: 0,
+    running: runner().running.size,
+    byPriority: { high: 0, normal: 0, low: 0 },
+  };
+
+  for (const item of itemsCollection().list()) {
+    if (item.startedAt) continue;
+    if (new Date(item.availableAt).getTime() > now) {
+      depth.delayed++;
+    } else {
+      depth.pending++;
+    }
+    depth.byPriority[item.priority]++;
+  }
+
+  return depth;
+}
+
+/**
+ * Recover items left running by a previous process and start processing.
+ * Called at server start (instrumentation.ts) and lazily by every queue
+ * operation; safe to call repeatedly.
+ */
+export function startLocalQueue(): void {
+  const state = runner();
+  if (state.started) return;
+  state.started = true;
+
+  const stale = itemsCollection()
+    .list()
+    .filter((item) => item.startedAt && !state.running.has(item.id));
+  for (const item of stale) {
+    itemsCollection().update(item.id, (current) => ({ ...current, startedAt: undefined }));
+  }
+  if (stale.length > 0) {
+    console.log(`[LocalQueue] Recovered ${stale.length} interrupted job(s)`);
+  }
+
+  pump();
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Store or creator a job belongs to, when the caller did not say.
+ * Scraped videos use the creator handle from the URL.
+ */
+function defaultFairnessKey(payload: QueueJobPayload): string {
+  const handle = payload.data.originalUrl?.match(/\/@([\w.-]+)/)?.[1];
+  if (handle) {
+    return `creator:${handle.toLowerCase()}`;
+  }
+  return `source:${payload.data.platform || payload.data.source}`;
+}
+
+/**
+ * Next item to run: highest lane with ready items, then the fairness key
+ * served least recently, then that key's oldest item
+ */
+function selectNext(items: LocalQueueItem[], now: number, state: RunnerState): LocalQueueItem | null {
+  const ready = items.filter(
+    (item) => !item.startedAt && !state.running.has(item.id) && new Date(item.availableAt).getTime() <= now
+  );
+
+  for (const priority of PRIORITIES) {
+    const lane = ready
+      .filter((item) => item.priority === priority)
+      .sort((a, b) => a.enqueuedAt.localeCompare(b.enqueuedAt));
+    if (lane.length === 0) continue;
+
+    // Oldest item per key (lane is sorted, so the first seen wins)
+    const heads = new Map<string, LocalQueueItem>();
+    for (const item of lane) {
+      if (!heads.has(item.fairnessKey)) {
+        heads.set(item.fairnessKey, item);
+      }
+    }
+
+    return Array.from(heads.values()).sort(
+      (a, b) =>
+        (state.lastServed.get(a.fairnessKey) || 0) - (state.lastServed.get(b.fairnessKey) || 0) ||
+        a.enqueuedAt.localeCompare(b.enqueuedAt)
+    )[0];
+  }
+
+  return null;
+}
+
+/**
+ * Start items until the concurrency limit is reached, then wake up again
+ * when the next delayed item becomes ready
+ */
+function pump(): void {
+  const state = runner();
+  const now = Date.now();
+
+  while (state.running.size < LOCAL_QUEUE_CONFIG.concurrency) {
+    const next = selectNext(itemsCollection().list(), now, state);
+    if (!next) break;
+    start(next, state);
+  }
+
+  scheduleWake(state, now);
+}
+
+function scheduleWake(state: RunnerState, now: number): void {
+  const nextAt = itemsCollection()
+    .list()
+    .filter((item) => !item.startedAt)
+    .map((item) => new Date(item.availableAt).getTime())
+    .filter((at) => at > now)
+    .sort((a, b) => a - b)[0];
+
+  if (nextAt === undefined || (state.timerAt !== null && state.timerAt <= nextAt)) {
+    return;
+  }
+
+  if (state.timer) clearTimeout(state.timer);
+  state.timerAt = nextAt;
+  state.timer = setTimeout(() => {
+    state.timer = null;
+    state.timerAt = null;
+    pump();
+  }, nextAt - now);
+}
+
+function start(item: LocalQueueItem, state: RunnerState): void {
+  state.running.add(item.id);
+  state.lastServed.set(item.fairnessKey, Date.now());
+  itemsCollection().update(item.id, (current) => ({ ...current, startedAt: new Date().toISOString() }));
+
+  console.log(
+    `[LocalQueue] Starting job ${item.id} (${item.priority}, ${item.fairnessKey}; ${state.running.size}/${LOCAL_QUEUE_CONFIG.concurrency} running)`
+  );
+
+  run(item)
+    .catch((error) => {
+      console.error(`[LocalQueue] Job ${item.id} crashed:`, error);
+    })
+    .finally(() => {
+      state.running.delete(item.id);
+      // A retry may have replaced the item while it ran: only remove our own
+      if (itemsCollection().get(item.id)?.token === item.token) {
+        itemsCollection().delete(item.id);
+      }
+      pump();
+    });
+}
+
+async function run(item: LocalQueueItem): Promise<void> {
+  const { processVideoJob, handleJobFailure } = await import("./worker");
+
+  try {
+    const result = await processVideoJob(item.payload);
+    console.log(`[LocalQueue] Job ${item.id} finished: ${result.status}`);
+  } catch (error) {
+    // The worker handles pipeline errors itself; this is anything it missed
+    await handleJobFailure(item.payload, error);
+  }
+}
@@ -0,0 +1,422 @@
+/**
+ * Reprocessing
+ *
+ * Re-runs completed jobs under the current processor so a new processor
+ * version or prompt can be compared against what is live:
+ *
+ * 1. A new job processes the same stored video (the base job is untouched).
+ *    Reprocess jobs do not create a store.
+ * 2. When it completes, the run diffs both results (lib/ai/run-diff.ts) and
+ *    waits for review.
+ * 3. Accepting swaps the new products and SEO into the base job's store;
+ *    rejecting keeps the old run. Products the creator added are carried
+ *    over and their edits to re-detected products kept; dropping live
+ *    products the new run did not find needs explicit confirmation.
+ *
+ * Runs can target one job, one store, or every job processed below a
+ * processor version.
+ */
+
+import { randomUUID } from "crypto";
+import { compareVersions, diffRuns, findMatch } from "@/lib/ai/run-diff";
+import { PROCESSOR_VERSION, ProductData } from "@/lib/ai/processor";
+import { linkContentRun } from "@/lib/store/content-store";
+import { getAllJobs, getJob, JobPriority } from "@/lib/store/job-store";
+import {
+  findRunByCandidate,
+  generateRunId,
+  getReprocessRun,
+  jobRunResult,
+  listReprocessRuns,
+  OPEN_RUN_STATUSES,
+  ReprocessRun,
+  saveReprocessRun,
+  StoreMergeImpact,
+  updateReprocessRun,
+} from "@/lib/store/reprocess-store";
+import {
+  findStoreByJobId,
+  generateProductId,
+  getStore,
+  replaceStoreRun,
+  StoreEntry,
+  StoreErrorCode,
+  StoreProduct,
+  STORE_PRODUCT_FIELDS,
+} from "@/lib/store/store-repository";
+import { cancelJob } from "./job-control";
+import { enqueueVideoJob } from "./video-queue";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReprocessErrorCode = "not_found" | "conflict" | "invalid" | "dispatch_failed" | "confirmation_required";
+
+export interface ReprocessResult {
+  success: boolean;
+  run?: ReprocessRun;
+  storeImpact?: StoreMergeImpact; // On accept, and when it needs confirmation
+  error?: string;
+  code?: ReprocessErrorCode | StoreErrorCode;
+}
+
+// Fields a creator edit is kept for (hidden is always kept)
+const CREATOR_FIELDS = STORE_PRODUCT_FIELDS.filter((field) => field !== "hidden");
+
+export interface BulkReprocessResult {
+  belowVersion: string;
+  started: ReprocessRun[];
+  failed: Array<{ jobId: string; error: string }>;
+}
+
+// ============================================================================
+// Starting Runs
+// ============================================================================
+
+/**
+ * Re-run a completed job under the current processor
+ */
+export async function reprocessJob(jobId: string, options: { priority?: JobPriority } = {}): Promise<ReprocessResult> {
+  const base = getJob(jobId);
+  if (!base) {
+    return { success: false, code: "not_found", error: "Job not found" };
+  }
+  if (base.status !== "completed") {
+    return { success: false, code: "conflict", error: `Cannot reprocess a ${base.status} job` };
+  }
+
+  const open = listReprocessRuns({ jobId }).find(
+    (run) => run.baseJobId === jobId && OPEN_RUN_STATUSES.includes(run.status)
+  );
+  if (open) {
+    return { success: false, code: "conflict", error: `Job already has an open reprocess run (${open.id})` };
+  }
+
+  // Saved before queueing so a fast worker always finds its run
+  const now = new Date().toISOString();
+  const run = saveReprocessRun({
+    id: generateRunId(),
+    baseJobId: base.id,
+    candidateJobId: randomUUID(),
+    storeId: findStoreByJobId(base.id)?.id,
+    fromVersion: jobRunResult(base).processorVersion,
+    status: "running",
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  try {
+    await enqueueVideoJob({
+      fileId: run.candidateJobId,
+      key: base.key,
+      bucket: base.bucket,
+      source: base.source,
+      platform: base.platform,
+      originalUrl: base.originalUrl,
+      size: base.size,
+      contentType: base.contentType,
+      priority: options.priority || "low",
+      contentId: base.contentId,
+      reprocessOf: base.id,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    updateReprocessRun(run.id, { status: "failed", error: message });
+    return { success: false, code: "dispatch_failed", error: `Failed to queue reprocess job: ${message}` };
+  }
+
+  if (base.contentId) {
+    linkContentRun(base.contentId, run.candidateJobId);
+  }
+
+  console.log(`[Reprocess] Job ${base.id} re-running as ${run.candidateJobId} (run ${run.id})`);
+  return { success: true, run };
+}
+
+/**
+ * Re-run the job behind a store
+ */
+export async function reprocessStore(
+  storeId: string,
+  options: { priority?: JobPriority } = {}
+): Promise<ReprocessResult> {
+  const store = getStore(storeId);
+  if (!store) {
+    return { success: false, code: "not_found", error: "Store not found" };
+  }
+
+  return reprocessJob(store.jobId, options);
+}
+
+/**
+ * Re-run every completed job processed below a processor version (default:
+ * the current one). Jobs that already have a run under review, accepted or
+ * rejected are skipped.
+ */
+export async function reprocessOutdated(
+  options: { belowVersion?: string; limit?: number; priority?: JobPriority } = {}
+): Promise<BulkReprocessResult> {
+  const belowVersion = options.belowVersion || PROCESSOR_VERSION;
+  const reviewed = new Set(
+    listReprocessRuns()
+      .filter((run) => run.status !== "failed")
+      .map((run) => run.baseJobId)
+  );
+
+  const outdated = getAllJobs().filter((job) => {
+    if (job.status !== "completed" || reviewed.has(job.id)) return false;
+    // Reprocess runs only count once accepted into a store
+    if (job.reprocessOf && !findStoreByJobId(job.id)) return false;
+    const version = jobRunResult(job).processorVersion || "0";
+    return compareVersions(version, belowVersion) < 0;
+  });
+
+  const result: BulkReprocessResult = { belowVersion, started: [], failed: [] };
+  for (const job of options.limit ? outdated.slice(0, options.limit) : outdated) {
+    const started = await reprocessJob(job.id, { priority: options.priority });
+    if (started.success) {
+      result.started.push(started.run!);
+    } else {
+      result.failed.push({ jobId: job.id, error: started.error || "Reprocess failed" });
+    }
+  }
+
+  console.log(
+    `[Reprocess] ${result.started.length} of ${outdated.length} jobs below ${belowVersion} re-running`
+  );
+  return result;
+}
+
+// ============================================================================
+// Review
+// ============================================================================
+
+/**
+ * Diff a finished reprocess job against its base and hold it for review.
+ * Called by the worker in place of store creation.
+ */
+export function completeReprocessRun(candidateJobId: string): ReprocessRun | null {
+  const run = findRunByCandidate(candidateJobId);
+  const base = run ? getJob(run.baseJobId) : null;
+  const candidate = getJob(candidateJobId);
+  if (!run || run.status !== "running" || !candidate?.analysis) {
+    return null;
+  }
+
+  const after = jobRunResult(candidate);
+  const diff = diffRuns(base ? jobRunResult(base) : { products: [] }, after);
+  const store = run.storeId ? getStore(run.storeId) : null;
+  const storeImpact = store ? mergeStoreProducts(store, after.products).impact : undefined;
+
+  console.log(
+    `[Reprocess] Run ${run.id}: +${diff.products.added.length} -${diff.products.removed.length} ~${diff.products.changed.length} products`
+  );
+  return updateReprocessRun(run.id, {
+    status: "pending_review",
+    toVersion: after.processorVersion,
+    diff,
+    storeImpact,
+  });
+}
+
+/**
+ * What accepting a run would do to its store's products now. Null when
+ * the run has no store or its job is gone.
+ */
+export function getReprocessStoreImpact(run: ReprocessRun): StoreMergeImpact | null {
+  const store = run.storeId ? getStore(run.storeId) : null;
+  const candidate = getJob(run.candidateJobId);
+  if (!store || !candidate?.analysis) return null;
+  return mergeStoreProducts(store, jobRunResult(candidate).products).impact;
+}
+
+/**
+ * Replace the store's AI-detected products and SEO with the new run.
+ * Products that match a live one keep its ID, hidden flag and creator
+ * edits; products the creator added are carried over. When live products
+ * would be dropped, nothing changes unless `confirmDrops` is set.
+ */
+export function acceptReprocessRun(
+  runId: string,
+  expectedVersion?: number,
+  options: { confirmDrops?: boolean } = {}
+): ReprocessResult {
+  const run = getReprocessRun(runId);
+  if (!run) {
+    return { success: false, code: "not_found", error: "Reprocess run not found" };
+  }
+  if (run.status !== "pending_review") {
+    return { success: false, code: "conflict", error: `Cannot accept a ${run.status} run` };
+  }
+  if (!run.storeId) {
+    return { success: false, code: "invalid", error: "Base job has no store to update" };
+  }
+
+  const candidate = getJob(run.candidateJobId);
+  const store = getStore(run.storeId);
+  if (!candidate || !store) {
+    return { success: false, code: "not_found", error: candidate ? "Store not found" : "Job not found" };
+  }
+  if (candidate.status !== "completed") {
+    return { success: false, code: "conflict", error: `Reprocess job is ${candidate.status}` };
+  }
+
+  const { products, seo } = jobRunResult(candidate);
+  const { merged, impact } = mergeStoreProducts(store, products);
+
+  if (impact.dropped.length > 0 && !options.confirmDrops) {
+    updateReprocessRun(run.id, { storeImpact: impact });
+    return {
+      success: false,
+      code: "confirmation_required",
+      error: `Accepting removes ${impact.dropped.length} live product(s) the new run did not detect; resend with confirmDrops`,
+      storeImpact: impact,
+    };
+  }
+
+  const replaced = replaceStoreRun(store.id, { jobId: candidate.id, products: merged, seo }, expectedVersion);
+  if (!replaced.success) {
+    return { success: false, code: replaced.code, error: replaced.error };
+  }
+
+  const accepted = updateReprocessRun(run.id, {
+    status: "accepted",
+    storeImpact: impact,
+    decidedAt: new Date().toISOString(),
+  });
+  console.log(
+    `[Reprocess] Run ${run.id} accepted into store ${store.id} ` +
+      `(${impact.carried.length} carried, ${impact.preserved.length} with edits kept, ${impact.dropped.length} dropped)`
+  );
+  return { success: true, run: accepted || run, storeImpact: impact };
+}
+
+// ============================================================================
+// Store Merge
+// ============================================================================
+
+/**
+ * Merge a new run's products into a store. Each live product is traced
+ * back to the AI product it came from in the store's current run; those
+ * with no origin were added by the creator. Fields that differ from the
+ * origin are creator edits and win over the new run's values.
+ */
+function mergeStoreProducts(
+  store: StoreEntry,
+  products: ProductData[]
+): { merged: StoreProduct[]; impact: StoreMergeImpact } {
+  const baseJob = getJob(store.jobId);
+  const baseProducts = baseJob ? [...jobRunResult(baseJob).products] : [];
+  const impact: StoreMergeImpact = { carried: [], preserved: [], dropped: [] };
+
+  const live = (store.products || []).map((product) => ({ product, origin: takeOrigin(baseProducts, product) }));
+  // Matched on what the AI called the product, so a renamed product is still found
+  const anchors = live.map(({ product, origin }) => origin || product);
+
+  const merged: StoreProduct[] = products.map((product) => {
+    const index = findMatch(anchors, product);
+    if (index === -1) {
+      return { ...product, id: generateProductId() };
+    }
+    anchors.splice(index, 1);
+    const [{ product: previous, origin }] = live.splice(index, 1);
+
+    if (!origin) {
+      impact.carried.push({ id: previous.id, name: previous.name });
+      return previous;
+    }
+
+    const edited = editedFields(previous, origin);
+    if (edited.length > 0) {
+      impact.preserved.push({ id: previous.id, name: previous.name, fields: edited });
+    }
+    const edits = Object.fromEntries(edited.map((field) => [field, previous[field]]));
+    return { ...product, ...edits, id: previous.id, hidden: previous.hidden };
+  });
+
+  for (const { product, origin } of live) {
+    if (origin) {
+      impact.dropped.push({
+        id: product.id,
+        name: product.name,
+        edited: editedFields(product, origin).length > 0,
+        hidden: !!product.hidden,
+      });
+    } else {
+      impact.carried.push({ id: product.id, name: product.name });
+      merged.push(product);
+    }
+  }
+
+  return { merged, impact };
+}
+
+/**
+ * Remove and return the AI product a live product came from: same name
+ * and category, else same category and frames (the creator renamed it)
+ */
+function takeOrigin(baseProducts: ProductData[], product: StoreProduct): ProductData | null {
+  let index = findMatch(baseProducts, product);
+  if (index === -1) {
+    const frames = JSON.stringify(product.frameIndices);
+    index = baseProducts.findIndex(
+      (candidate) => candidate.category === product.category && JSON.stringify(candidate.frameIndices) === frames
+    );
+  }
+  return index === -1 ? null : baseProducts.splice(index, 1)[0];
+}
+
+// Fields the origin lacks (runs from before the field existed) hold store defaults, not edits
+function editedFields(product: StoreProduct, origin: ProductData): (keyof StoreProduct)[] {
+  const values = origin as Partial<StoreProduct>;
+  return CREATOR_FIELDS.filter(
+    (field) => values[field] !== undefined && JSON.stringify(product[field] ?? null) !== JSON.stringify(values[field])
+  );
+}
+
+/**
+ * Keep the old run. A run still processing is cancelled.
+ */
+export function rejectReprocessRun(runId: string): ReprocessResult {
+  const run = getReprocessRun(runId);
+  if (!run) {
+    return { success: false, code: "not_found", error: "Reprocess run not found" };
+  }
+  if (!OPEN_RUN_STATUSES.includes(run.status)) {
+    return { success: false, code: "conflict", error: `Cannot reject a ${run.status} run` };
+  }
+
+  if (run.status === "running") {
+    cancelJob(run.candidateJobId, "Reprocess run rejected");
+  }
+
+  const rejected = updateReprocessRun(run.id, { status: "rejected", decidedAt: new Date().toISOString() });
+  console.log(`[Reprocess] Run ${run.id} rejected`);
+  return { success: true, run: rejected || run };
+}
+
+// ============================================================================
+// API Helpers
+// ============================================================================
+
+/**
+ * HTTP status for a failed reprocess request
+ */
+export function reprocessErrorStatus(code: ReprocessResult["code"]): number {
+  switch (code) {
+    case "not_found":
+    case "product_not_found":
+      return 404;
+    case "conflict":
+    case "version_conflict":
+    case "confirmation_required":
+      return 409;
+    case "invalid":
+      return 400;
+    case "dispatch_failed":
+      return 502;
+    default:
+      return 500;
+  }
+}
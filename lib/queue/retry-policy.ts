@@ -0,0 +1,171 @@
+/**
+ * Job Retry Policy
+ *
+ * Classifies processing errors as retryable (rate limits, timeouts, 5xx,
+ * dropped connections) or permanent (bad input, auth, missing objects,
+ * cost hard caps, missing AI fixtures, unrepairable model output), and
+ * computes exponential backoff with jitter between attempts.
+ *
+ * Unrecognised errors are treated as permanent, so a bug does not burn
+ * AI credits on every retry.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ErrorClassification {
+  retryable: boolean;
+  reason: string; // e.g. "http_429", "timeout", "ECONNRESET", "http_401"
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const RETRY_CONFIG = {
+  maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || "4"),
+  baseDelayMs: parseInt(process.env.JOB_RETRY_BASE_DELAY_MS || "5000"),
+  maxDelayMs: parseInt(process.env.JOB_RETRY_MAX_DELAY_MS || "300000"),
+};
+
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+
+// Node / undici network error codes
+const RETRYABLE_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ECONNABORTED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "ENOTFOUND",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_HEADERS_TIMEOUT",
+  "UND_ERR_BODY_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+// AWS SDK (DigitalOcean Spaces) error names
+const RETRYABLE_AWS_NAMES = new Set([
+  "TimeoutError",
+  "RequestTimeout",
+  "RequestTimeoutException",
+  "SlowDown",
+  "ServiceUnavailable",
+  "InternalError",
+  "ThrottlingException",
+]);
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Decide whether an error from the pipeline is worth retrying
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (!error || typeof error !== "object") {
+    return { retryable: false, reason: "unknown" };
+  }
+
+  const err = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    code?: unknown;
+    name?: unknown;
+    message?: unknown;
+    cause?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  // HTTP status: OpenAI SDK (status), AWS SDK ($metadata), generic (statusCode)
+  const status = [err.status, err.$metadata?.httpStatusCode, err.statusCode].find(
+    (value): value is number => typeof value === "number"
+  );
+  if (status !== undefined) {
+    return { retryable: RETRYABLE_STATUS.has(status) || status >= 500, reason: `http_${status}` };
+  }
+
+  if (typeof err.code === "string" && RETRYABLE_CODES.has(err.code)) {
+    return { retryable: true, reason: err.code };
+  }
+
+  if (typeof err.name === "string") {
+    // A cost hard cap only lifts when the budget is raised
+    if (err.name === "BudgetExceededError") {
+      return { retryable: false, reason: "budget_exceeded" };
+    }
+    // Replay or mock mode has no response for the call; only recording one helps
+    if (err.name === "MissingFixtureError") {
+      return { retryable: false, reason: "fixture_missing" };
+    }
+    // The model kept answering outside its output schema, even when re-asked
+    if (err.name === "OutputValidationError") {
+      return { retryable: false, reason: "invalid_output" };
+    }
+    // Every AI provider for the task is cooling down after an outage
+    if (err.name === "CircuitOpenError") {
+      return { retryable: true, reason: "circuit_open" };
+    }
+    if (RETRYABLE_AWS_NAMES.has(err.name)) {
+      return { retryable: true, reason: err.name };
+    }
+    // OpenAI SDK connection failures carry no status
+    if (err.name === "APIConnectionError" || err.name === "APIConnectionTimeoutError") {
+      return { retryable: true, reason: "connection" };
+    }
+  }
+
+  const message = typeof err.message === "string" ? err.message : "";
+  if (/timed? ?out|rate limit|temporarily unavailable|socket hang up/i.test(message)) {
+    return { retryable: true, reason: "timeout" };
+  }
+  // Errors that only report the status in their message ("HTTP 503", "status: 429");
+  // other numbers ("processed 500 frames") are not statuses
+  const statusInMessage = message.match(/\b(?:status|HTTP|code)[: ]+(4\d\d|5\d\d)\b/i);
+  if (statusInMessage) {
+    const code = parseInt(statusInMessage[1]);
+    return { retryable: RETRYABLE_STATUS.has(code) || code >= 500, reason: `http_${code}` };
+  }
+
+  // fetch() wraps network errors: TypeError("fetch failed", { cause })
+  if (err.cause) {
+    return classifyError(err.cause);
+  }
+
+  return { retryable: false, reason: "unknown" };
+}
+
+// ============================================================================
+// Backoff
+// ============================================================================
+
+/**
+ * Delay before the next attempt, after `attempt` attempts have run.
+ * Exponential (base * 2^(attempt-1)), capped, with "equal jitter":
+ * half the delay is fixed and half is random, so retries spread out.
+ */
+export function backoffDelayMs(
+  attempt: number,
+  config: { baseDelayMs: number; maxDelayMs: number },
+  random: () => number = Math.random
+): number {
+  const exponential = config.baseDelayMs * Math.pow(2, Math.max(0, attempt - 1));
+  const capped = Math.min(config.maxDelayMs, exponential);
+  return Math.round(capped / 2 + random() * (capped / 2));
+}
+
+/**
+ * Backoff before a job's next attempt
+ */
+export function retryDelayMs(attempt: number, random: () => number = Math.random): number {
+  return backoffDelayMs(attempt, RETRY_CONFIG, random);
+}
+
+/**
+ * Whether another attempt is allowed after `attempt` attempts
+ */
+export function shouldRetry(classification: ErrorClassification, attempt: number): boolean {
+  return classification.retryable && attempt < RETRY_CONFIG.maxAttempts;
+}
@@ -4,11 +4,18 @@
  * Uses Upstash QStash for serverless job processing.
  * No dedicated worker server needed - QStash calls our API endpoints.
  *
- * For local development, we use a simple in-process queue.
+ * For local development and self-hosting, jobs go through the in-process
+ * queue (local-queue.ts): concurrency-limited, with priority lanes and
+ * per-store/creator fairness. Priorities only apply to the local queue.
+ *
+ * Retries (see worker.ts and retry-policy.ts) are re-dispatched through
+ * dispatchJob with a delay: a delayed QStash message in production, a
+ * delayed local queue item otherwise.
  */
 
 import { Client } from "@upstash/qstash";
-import { createJob, updateJobStatus, VideoJob, JobStatus } from "@/lib/store/job-store";
+import { createJob, updateJobStatus, VideoJob, JobPriority } from "@/lib/store/job-store";
+import { enqueueLocal, getLocalQueueDepth, LocalQueueDepth, LOCAL_QUEUE_CONFIG } from "./local-queue";
 
 // QStash client (only initialized if credentials are available)
 const qstashClient = process.env.QSTASH_TOKEN
@@ -21,6 +28,8 @@ const WORKER_URL = process.env.WORKER_URL || "http://localhost:3000/api/queue/wo
 export interface QueueJobPayload {
   jobId: string;
   action: "process_video";
+  priority?: JobPriority; // Local queue lane (default: normal)
+  fairnessKey?: string; // Store or creator (default: from the source URL)
   data: {
     fileId: string;
     key: string;
@@ -44,13 +53,31 @@ export async function enqueueVideoJob(payload: {
   originalUrl?: string;
   size?: number;
   contentType?: string;
+  priority?: JobPriority;
+  fairnessKey?: string;
+  batchId?: string;
+  contentId?: string;
+  reprocessOf?: string;
 }): Promise<VideoJob> {
-  const { fileId, key, bucket, source, platform, originalUrl, size, contentType } = payload;
+  const {
+    fileId,
+    key,
+    bucket,
+    source,
+    platform,
+    originalUrl,
+    size,
+    contentType,
+    priority,
+    fairnessKey,
+    batchId,
+    contentId,
+    reprocessOf,
+  } = payload;
 
   // Create job record in store
   const job = createJob({
     id: fileId,
-    status: "queued",
     source,
     platform,
     originalUrl,
@@ -59,80 +86,76 @@ export async function enqueueVideoJob(payload: {
     endpoint: `https://${bucket}.sgp1.digitaloceanspaces.com/${key}`,
     size,
     contentType: contentType || "video/mp4",
+    priority,
+    fairnessKey,
+    batchId,
+    contentId,
+    reprocessOf,
   });
 
   // Queue the job
-  const queuePayload: QueueJobPayload = {
-    jobId: fileId,
+  try {
+    await dispatchJob(jobPayload(job));
+  } catch (error) {
+    console.error(`[Queue] Failed to enqueue job ${fileId}:`, error);
+    updateJobStatus(fileId, "failed", "Failed to enqueue job");
+    throw error;
+  }
+
+  return job;
+}
+
+/**
+ * Queue payload for processing an existing job
+ */
+export function jobPayload(job: VideoJob): QueueJobPayload {
+  return {
+    jobId: job.id,
     action: "process_video",
+    priority: job.priority,
+    fairnessKey: job.fairnessKey,
     data: {
-      fileId,
-      key,
-      bucket,
-      source,
-      platform,
-      originalUrl,
-      size,
+      fileId: job.id,
+      key: job.key,
+      bucket: job.bucket,
+      source: job.source,
+      platform: job.platform,
+      originalUrl: job.originalUrl,
+      size: job.size,
     },
   };
-
-  if (qstashClient && process.env.NODE_ENV === "production") {
-    // Production: Use QStash
-    try {
-      await qstashClient.publishJSON({
-        url: WORKER_URL,
-        body: queuePayload,
-        retries: 3,
-        delay: 0,
-      });
-      console.log(`[Queue] Job ${fileId} enqueued via QStash`);
-    } catch (error) {
-      console.error(`[Queue] Failed to enqueue job ${fileId}:`, error);
-      updateJobStatus(fileId, "failed", "Failed to enqueue job");
-      throw error;
-    }
-  } else {
-    // Development: Use local processing
-    console.log(`[Queue] Job ${fileId} queued locally (dev mode)`);
-    // Trigger local worker asynchronously
-    processJobLocally(queuePayload).catch((err) => {
-      console.error(`[Queue] Local processing failed for ${fileId}:`, err);
-    });
-  }
-
-  return job;
 }
 
 /**
- * Local job processing for development
+ * Deliver a payload to the worker, now or after `delayMs`
  */
-async function processJobLocally(payload: QueueJobPayload): Promise<void> {
+export async function dispatchJob(payload: QueueJobPayload, delayMs: number = 0): Promise<void> {
   const { jobId } = payload;
 
-  // Small delay to simulate queue behavior
-  await new Promise((resolve) => setTimeout(resolve, 100));
-
-  try {
-    // Call the worker endpoint locally
-    const response = await fetch(`http://localhost:3000/api/queue/worker`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-local-dev": "true", // Skip signature verification in dev
-      },
-      body: JSON.stringify(payload),
+  if (qstashClient && process.env.NODE_ENV === "production") {
+    // Production: Use QStash. Its own retries only cover delivery; the
+    // worker acknowledges failures it has handled (retry or dead letter).
+    await qstashClient.publishJSON({
+      url: WORKER_URL,
+      body: payload,
+      retries: 3,
+      delay: Math.ceil(delayMs / 1000),
     });
+    console.log(`[Queue] Job ${jobId} enqueued via QStash${delayMs > 0 ? ` (delay ${delayMs}ms)` : ""}`);
+    return;
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`Worker returned ${response.status}: ${error}`);
-    }
+  // Development / self-hosted: in-process queue
+  enqueueLocal(payload, delayMs);
+  console.log(`[Queue] Job ${jobId} queued locally${delayMs > 0 ? ` (delay ${delayMs}ms)` : ""}`);
+}
 
-    console.log(`[Queue] Local job ${jobId} processed successfully`);
-  } catch (error) {
-    console.error(`[Queue] Local job ${jobId} failed:`, error);
-    updateJobStatus(jobId, "failed", error instanceof Error ? error.message : "Unknown error");
-  }
+/**
+ * Whether jobs run in the in-process queue. Same condition as
+ * dispatchJob: QStash only delivers in production.
+ */
+export function usesLocalQueue(): boolean {
+  return !qstashClient || process.env.NODE_ENV !== "production";
 }
 
 /**
@@ -142,11 +165,17 @@ export function getQueueInfo(): {
   mode: "qstash" | "local";
   workerUrl: string;
   configured: boolean;
+  local?: LocalQueueDepth & { concurrency: number }; // When jobs run in-process
 } {
+  const runsLocally = usesLocalQueue();
+
   return {
-    mode: qstashClient ? "qstash" : "local",
+    mode: runsLocally ? "local" : "qstash",
     workerUrl: WORKER_URL,
     configured: !!qstashClient,
+    local: runsLocally
+      ? { ...getLocalQueueDepth(), concurrency: LOCAL_QUEUE_CONFIG.concurrency }
+      : undefined,
   };
 }
 
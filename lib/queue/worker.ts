@@ -3,15 +3,59 @@
  *
  * Handles queued video jobs with full AI processing pipeline:
  * 1. Updates status to "processing"
- * 2. Runs unified AI processor (transcription + vision)
- * 3. Stores structured JSON results
+ * 2. Runs unified AI processor, moving the job through "transcribing"
+ *    (frames + Whisper), "analyzing" (vision) and "generating" (SEO) as
+ *    each stage starts
+ * 3. Stores structured JSON results and builds the store
  * 4. Marks as completed
+ *
+ * Jobs that are already completed or failed are not picked up again.
+ *
+ * Errors are classified (retry-policy.ts): retryable ones schedule another
+ * attempt with exponential backoff, permanent ones and exhausted retries
+ * fail the job and move it to the dead-letter list.
+ *
+ * Processor stages are checkpointed per job, so a retry or manual re-run
+ * resumes after the last completed stage.
+ *
+ * Each run holds the job under its own run ID, so a job that is mid-run
+ * is not started again. Between stages the worker checks whether the job
+ * was cancelled or paused (job-control.ts) and stops if so; a job update
+ * the store rejects stops the run the same way.
+ *
+ * Reprocess jobs (reprocess.ts) do not create a store: their results are
+ * diffed against the original run and held for review instead.
  */
 
-import { getJob, updateJob, updateJobStatus, VideoJob } from "@/lib/store/job-store";
-import { QueueJobPayload } from "./video-queue";
+import { randomUUID } from "crypto";
+import {
+  getJob,
+  startJobRun,
+  updateJob,
+  updateJobRun,
+  JobFailure,
+  JobMutationResult,
+  JobStatus,
+  JobUpdate,
+  VideoJob,
+} from "@/lib/store/job-store";
+import { dispatchJob, QueueJobPayload } from "./video-queue";
+import { classifyError, retryDelayMs, shouldRetry, RETRY_CONFIG } from "./retry-policy";
+import { addDeadLetter } from "./dead-letter";
+import { assertJobActive, assertJobUpdated, isInterruptedStatus, JobInterruptedError } from "./job-control";
 import { processVideo, isProcessorReady, ProcessedVideoData } from "@/lib/ai/processor";
+import { CheckpointStage, clearJobCheckpoints } from "@/lib/ai/checkpoints";
 import { createStoreFromJob } from "@/lib/store/store-creator";
+import { jobCostScope } from "@/lib/store/cost-ledger";
+import { completeReprocessRun } from "./reprocess";
+
+// Job status while each processor stage runs, so stage timings follow the pipeline
+const STAGE_STATUSES: Record<CheckpointStage, JobStatus> = {
+  frames: "transcribing",
+  transcript: "transcribing",
+  vision: "analyzing",
+  seo: "generating",
+};
 
 export interface WorkerResult {
   success: boolean;
@@ -19,6 +63,9 @@ export interface WorkerResult {
   status: string;
   message: string;
   data?: ProcessedVideoData;
+  retryAt?: string; // Another attempt is scheduled
+  deadLettered?: boolean;
+  skipped?: boolean; // Not processed: the job was paused or cancelled
 }
 
 /**
@@ -42,52 +89,189 @@ export async function processVideoJob(payload: QueueJobPayload): Promise<WorkerR
     };
   }
 
-  // Update status to processing
-  updateJobStatus(jobId, "processing");
+  if (isInterruptedStatus(job.status)) {
+    console.log(`[Worker] Job ${jobId} is ${job.status}, skipping`);
+    return interruptedResult(jobId, job.status);
+  }
+
+  // Claim the job for this run, update status to processing and count the attempt
+  const runId = randomUUID();
+  const started = startJobRun(jobId, runId, "processing", {
+    attempts: (job.attempts || 0) + 1,
+    nextAttemptAt: undefined,
+  });
+  if (!started.success) {
+    console.error(`[Worker] Job ${jobId} not started: ${started.error}`);
+    return {
+      success: false,
+      jobId,
+      status: job.status,
+      message: started.error || "Job cannot be started",
+    };
+  }
 
   try {
     switch (action) {
       case "process_video":
-        return await handleProcessVideo(job, data);
+        return await handleProcessVideo(job, data, runId);
       default:
         throw new Error(`Unknown action: ${action}`);
     }
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    console.error(`[Worker] Job ${jobId} failed:`, errorMessage);
+    if (error instanceof JobInterruptedError) {
+      return handleInterruption(error);
+    }
+    return handleJobFailure(payload, error, runId);
+  }
+}
 
-    updateJobStatus(jobId, "failed", errorMessage);
+/**
+ * Stop work on a job that was cancelled or paused mid-run
+ */
+function handleInterruption(error: JobInterruptedError): WorkerResult {
+  console.log(`[Worker] Job ${error.jobId} ${error.status} mid-run, stopping`);
+  if (error.status === "cancelled") {
+    // Stages may have saved checkpoints after the cancel cleaned up
+    clearJobCheckpoints(error.jobId);
+  }
+  return interruptedResult(error.jobId, error.status);
+}
 
-    return {
-      success: false,
-      jobId,
-      status: "failed",
-      message: errorMessage,
-    };
+function interruptedResult(jobId: string, status: string): WorkerResult {
+  return {
+    success: false,
+    jobId,
+    status,
+    message: `Job is ${status}`,
+    skipped: true,
+  };
+}
+
+/**
+ * Retry a failed attempt after a backoff, or fail the job and dead-letter it.
+ * Given the failed run's ID, nothing is changed once another run holds the job.
+ */
+export async function handleJobFailure(
+  payload: QueueJobPayload,
+  error: unknown,
+  runId?: string
+): Promise<WorkerResult> {
+  const { jobId } = payload;
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  const job = getJob(jobId);
+
+  if (!job) {
+    return { success: false, jobId, status: "error", message: errorMessage };
+  }
+  if (isInterruptedStatus(job.status)) {
+    return interruptedResult(jobId, job.status);
   }
+
+  const update = (updates: JobUpdate): JobMutationResult =>
+    runId ? updateJobRun(jobId, runId, updates) : updateJob(jobId, updates);
+
+  // A job that never reached the worker still uses up an attempt
+  const started = job.status !== "queued" && job.status !== "retrying";
+  const attempt = started ? job.attempts || 1 : (job.attempts || 0) + 1;
+  const classification = classifyError(error);
+  const failures: JobFailure[] = [
+    ...(job.failures || []),
+    {
+      attempt,
+      at: new Date().toISOString(),
+      stage: job.status,
+      error: errorMessage,
+      reason: classification.reason,
+      retryable: classification.retryable,
+    },
+  ];
+
+  console.error(
+    `[Worker] Job ${jobId} attempt ${attempt}/${RETRY_CONFIG.maxAttempts} failed (${classification.reason}):`,
+    errorMessage
+  );
+
+  if (shouldRetry(classification, attempt)) {
+    const delayMs = retryDelayMs(attempt);
+    const retryAt = new Date(Date.now() + delayMs).toISOString();
+    const retrying = update({
+      status: "retrying",
+      attempts: attempt,
+      failures,
+      nextAttemptAt: retryAt,
+      error: errorMessage,
+    });
+
+    if (retrying.success) {
+      try {
+        await dispatchJob(payload, delayMs);
+        return {
+          success: false,
+          jobId,
+          status: "retrying",
+          message: `Attempt ${attempt} failed: ${errorMessage}. Retrying at ${retryAt}`,
+          retryAt,
+        };
+      } catch (dispatchError) {
+        console.error(`[Worker] Could not schedule retry for ${jobId}:`, dispatchError);
+        // Retrying ended the run, so the job is failed without it
+        runId = undefined;
+      }
+    } else if (retrying.code === "superseded") {
+      return { success: false, jobId, status: job.status, message: retrying.error || errorMessage };
+    }
+  }
+
+  const failed = update({
+    status: "failed",
+    attempts: attempt,
+    failures,
+    nextAttemptAt: undefined,
+    error: errorMessage,
+  });
+  if (!failed.success) {
+    // Finished elsewhere in the meantime
+    return { success: false, jobId, status: job.status, message: failed.error || errorMessage };
+  }
+
+  addDeadLetter(failed.job!, payload, classification.retryable ? "exhausted" : "permanent", errorMessage);
+
+  return {
+    success: false,
+    jobId,
+    status: "failed",
+    message: errorMessage,
+    deadLettered: true,
+  };
 }
 
 /**
- * Handle video processing with unified AI pipeline
+ * Handle video processing with unified AI pipeline. Every job update goes
+ * through the run, so a rejected one stops it (JobInterruptedError).
  */
 async function handleProcessVideo(
   job: VideoJob,
-  data: QueueJobPayload["data"]
+  data: QueueJobPayload["data"],
+  runId: string,
+  force?: CheckpointStage[] | boolean
 ): Promise<WorkerResult> {
   const { fileId, key, source, platform } = data;
+  const updateRun = (updates: JobUpdate): VideoJob => assertJobUpdated(fileId, updateJobRun(fileId, runId, updates));
 
   console.log(`[Worker] Processing video: ${key}`);
   console.log(`[Worker] Source: ${source}, Platform: ${platform || "direct upload"}`);
 
   // Mark as uploaded (video is in S3)
-  updateJobStatus(fileId, "uploaded");
+  updateRun({ status: "uploaded" });
 
   // Check if AI processor is ready
   if (!isProcessorReady()) {
     console.log(`[Worker] AI processor not ready - OPENAI_API_KEY not set`);
 
-    updateJob(fileId, {
+    // Parked until AI processing is triggered, which starts a new run
+    updateRun({
       status: "uploaded",
+      runId: undefined,
       metadata: {
         ...job.metadata,
         title: job.metadata?.title,
@@ -108,58 +292,63 @@ async function handleProcessVideo(
     };
   }
 
-  // Run AI pipeline
-  try {
-    // Update status for transcription phase
-    updateJobStatus(fileId, "transcribing");
-
-    // Process with unified AI processor v2.0
-    console.log(`[Worker] Starting AI processing v2.0 for ${fileId}`);
-    const processedData = await processVideo(key, {
-      maxFrames: 12,
-      detailed: true,
-    });
+  // Run AI pipeline (errors propagate to the caller)
+  assertJobActive(fileId, runId);
 
-    // Update status for analysis phase
-    updateJobStatus(fileId, "analyzing");
+  // Process with unified AI processor v2.0, moving the job through its stages
+  console.log(`[Worker] Starting AI processing v2.0 for ${fileId}`);
+  const processedData = await processVideo(key, {
+    maxFrames: 12,
+    detailed: true,
+    jobId: fileId,
+    force,
+    onStage: (stage) => updateRun({ status: STAGE_STATUSES[stage] }),
+    beforeStage: () => assertJobActive(fileId, runId),
+    costScope: jobCostScope(job),
+  });
 
-    // Store results in job
-    updateJob(fileId, {
-      status: "completed",
-      transcription: processedData.transcription.text,
-      metadata: {
-        ...job.metadata,
-        duration: processedData.transcription.duration,
-        title: processedData.seo.title,
+  // Store results in job
+  updateRun({
+    status: "generating",
+    transcription: processedData.transcription.text,
+    metadata: {
+      ...job.metadata,
+      duration: processedData.transcription.duration,
+      title: processedData.seo.title,
+    },
+    analysis: {
+      products: processedData.products.map((p) => p.name),
+      keywords: processedData.seo.keywords,
+      sentiment: processedData.sentiment.overall,
+      // Full structured data for database
+      visionData: {
+        dominantColors: processedData.visual.dominantColors,
+        aestheticStyle: processedData.visual.aestheticStyle,
+        contentType: processedData.visual.contentType,
+        targetAudience: processedData.visual.targetAudience,
+        setting: processedData.visual.setting,
+        lighting: processedData.visual.lighting,
+        productDetails: processedData.products,
+        productCounts: processedData.productCounts,
+        scenes: processedData.visual.scenes,
+        summary: processedData.seo.description,
       },
-      analysis: {
-        products: processedData.products.map((p) => p.name),
-        keywords: processedData.seo.keywords,
-        sentiment: processedData.sentiment.overall,
-        // Full structured data for database
-        visionData: {
-          dominantColors: processedData.visual.dominantColors,
-          aestheticStyle: processedData.visual.aestheticStyle,
-          contentType: processedData.visual.contentType,
-          targetAudience: processedData.visual.targetAudience,
-          setting: processedData.visual.setting,
-          lighting: processedData.visual.lighting,
-          productDetails: processedData.products,
-          productCounts: processedData.productCounts,
-          scenes: processedData.visual.scenes,
-          summary: processedData.seo.description,
-        },
-        // Additional structured data
-        seo: processedData.seo,
-        sentimentData: processedData.sentiment,
-        processingMeta: processedData.meta,
-      },
-    });
+      // Additional structured data
+      seo: processedData.seo,
+      sentimentData: processedData.sentiment,
+      processingMeta: processedData.meta,
+    },
+  });
 
-    console.log(`[Worker] Job ${fileId} completed successfully`);
-    console.log(`[Worker] Found ${processedData.products.length} products (${processedData.productCounts.clothing} clothing, ${processedData.productCounts.accessories} accessories, ${processedData.productCounts.jewelry} jewelry, ${processedData.productCounts.beauty} beauty)`);
-    console.log(`[Worker] Generated ${processedData.seo.keywords.length} keywords`);
+  console.log(`[Worker] Found ${processedData.products.length} products (${processedData.productCounts.clothing} clothing, ${processedData.productCounts.accessories} accessories, ${processedData.productCounts.jewelry} jewelry, ${processedData.productCounts.beauty} beauty)`);
+  console.log(`[Worker] Generated ${processedData.seo.keywords.length} keywords`);
 
+  assertJobActive(fileId, runId);
+  if (job.reprocessOf) {
+    // Compare against the original run instead of creating another store
+    const run = completeReprocessRun(fileId);
+    console.log(`[Worker] Reprocess run ${run?.id || "not found"} ready for review`);
+  } else {
     // Auto-create store from processed data
     try {
       const store = await createStoreFromJob(fileId, processedData);
@@ -168,37 +357,29 @@ async function handleProcessVideo(
       console.error(`[Worker] Failed to create store:`, storeError);
       // Don't fail the job if store creation fails
     }
+  }
 
-    return {
-      success: true,
-      jobId: fileId,
-      status: "completed",
-      message: `Processed: ${processedData.products.length} products, sentiment: ${processedData.sentiment.overall}`,
-      data: processedData,
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    console.error(`[Worker] AI processing failed for ${fileId}:`, errorMessage);
-
-    // Still mark as uploaded so it can be retried
-    updateJob(fileId, {
-      status: "uploaded",
-      error: `AI processing failed: ${errorMessage}`,
-    });
+  // Throws instead if the job was paused or cancelled while the store was built
+  updateRun({ status: "completed" });
+  console.log(`[Worker] Job ${fileId} completed successfully`);
 
-    return {
-      success: false,
-      jobId: fileId,
-      status: "uploaded",
-      message: `AI processing failed: ${errorMessage}. Video is uploaded and can be retried.`,
-    };
-  }
+  return {
+    success: true,
+    jobId: fileId,
+    status: "completed",
+    message: `Processed: ${processedData.products.length} products, sentiment: ${processedData.sentiment.overall}`,
+    data: processedData,
+  };
 }
 
 /**
- * Trigger AI processing for an existing job
+ * Trigger AI processing for an existing job.
+ * Completed stages are reused unless listed in `force` (true: all).
  */
-export async function triggerAIProcessing(jobId: string): Promise<WorkerResult> {
+export async function triggerAIProcessing(
+  jobId: string,
+  force?: CheckpointStage[] | boolean
+): Promise<WorkerResult> {
   const job = getJob(jobId);
 
   if (!job) {
@@ -219,13 +400,48 @@ export async function triggerAIProcessing(jobId: string): Promise<WorkerResult>
     };
   }
 
-  return handleProcessVideo(job, {
-    fileId: job.id,
-    key: job.key,
-    bucket: job.bucket,
-    source: job.source,
-    platform: job.platform,
-    originalUrl: job.originalUrl,
-    size: job.size,
-  });
+  // Refuse to start while another run is processing the job
+  const runId = randomUUID();
+  const started = startJobRun(jobId, runId, "uploaded");
+  if (!started.success) {
+    return {
+      success: false,
+      jobId,
+      status: job.status,
+      message: started.error || "Job cannot be processed",
+    };
+  }
+
+  try {
+    return await handleProcessVideo(job, {
+      fileId: job.id,
+      key: job.key,
+      bucket: job.bucket,
+      source: job.source,
+      platform: job.platform,
+      originalUrl: job.originalUrl,
+      size: job.size,
+    }, runId, force);
+  } catch (error) {
+    if (error instanceof JobInterruptedError) {
+      return handleInterruption(error);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[Worker] AI processing failed for ${jobId}:`, errorMessage);
+
+    // Manual runs are not retried: park the job as uploaded so it can be triggered again
+    updateJobRun(jobId, runId, {
+      status: "uploaded",
+      runId: undefined,
+      error: `AI processing failed: ${errorMessage}`,
+    });
+
+    return {
+      success: false,
+      jobId,
+      status: "uploaded",
+      message: `AI processing failed: ${errorMessage}. Video is uploaded and can be retried.`,
+    };
+  }
 }
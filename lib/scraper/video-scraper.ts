@@ -5,10 +5,12 @@
  * and uploads them directly to DigitalOcean Spaces.
  *
  * Uses API-based approach for reliability (no headless browser needed).
+ * Downloaded bytes are SHA-256 hashed before upload so callers can skip
+ * storing a video that was already ingested (see lib/store/content-store.ts).
  */
 
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { randomUUID } from "crypto";
+import { createHash, randomUUID } from "crypto";
 import { Readable } from "stream";
 import { detectPlatform, Platform, PlatformInfo, getPlatformDisplayName } from "./platforms";
 
@@ -34,9 +36,16 @@ export interface ScraperResult {
   downloadUrl?: string;
   endpoint: string;
   size?: number;
+  contentHash?: string; // SHA-256 of the video bytes
+  skipped?: boolean; // Upload skipped by ScrapeOptions.skipUpload (key is empty)
   error?: string;
 }
 
+export interface ScrapeOptions {
+  // Called with the downloaded video's hash; return true to skip the upload
+  skipUpload?: (contentHash: string) => boolean;
+}
+
 export interface VideoMetadata {
   downloadUrl: string;
   title?: string;
@@ -48,7 +57,7 @@ export interface VideoMetadata {
 /**
  * Main scraper function - detects platform and downloads video to S3
  */
-export async function scrapeAndUpload(videoUrl: string): Promise<ScraperResult> {
+export async function scrapeAndUpload(videoUrl: string, options: ScrapeOptions = {}): Promise<ScraperResult> {
   const fileId = randomUUID();
   const platformInfo = detectPlatform(videoUrl);
 
@@ -72,9 +81,27 @@ export async function scrapeAndUpload(videoUrl: string): Promise<ScraperResult>
       throw new Error("Could not extract video download URL");
     }
 
-    // Download and upload to S3
+    const buffer = await downloadVideo(metadata.downloadUrl);
+    const contentHash = hashVideo(buffer);
+
+    if (options.skipUpload?.(contentHash)) {
+      return {
+        success: true,
+        fileId,
+        key: "",
+        platform: platformInfo.platform,
+        originalUrl: videoUrl,
+        downloadUrl: metadata.downloadUrl,
+        endpoint: "",
+        size: buffer.length,
+        contentHash,
+        skipped: true,
+      };
+    }
+
+    // Upload to S3
     const key = `raw/${fileId}.mp4`;
-    const size = await downloadAndUploadToS3(metadata.downloadUrl, key);
+    const size = await uploadToS3(buffer, key);
 
     return {
       success: true,
@@ -85,6 +112,7 @@ export async function scrapeAndUpload(videoUrl: string): Promise<ScraperResult>
       downloadUrl: metadata.downloadUrl,
       endpoint: `https://${BUCKET_NAME}.sgp1.digitaloceanspaces.com/${key}`,
       size,
+      contentHash,
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
@@ -306,11 +334,9 @@ async function getXiaohongshuVideo(url: string): Promise<VideoMetadata> {
 }
 
 /**
- * Download video from URL and upload directly to S3
- * Uses streaming to minimize memory usage
+ * Download a video into memory (for smaller files this is fine)
  */
-async function downloadAndUploadToS3(videoUrl: string, key: string): Promise<number> {
-  // Fetch the video
+async function downloadVideo(videoUrl: string): Promise<Buffer> {
   const response = await fetch(videoUrl, {
     headers: {
       "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
@@ -322,11 +348,21 @@ async function downloadAndUploadToS3(videoUrl: string, key: string): Promise<num
     throw new Error(`Failed to download video: ${response.status}`);
   }
 
-  // Get the video as buffer (for smaller files this is fine)
   const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
+  return Buffer.from(arrayBuffer);
+}
 
-  // Upload to S3
+/**
+ * SHA-256 of a video's bytes, for content deduplication
+ */
+export function hashVideo(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * Upload a downloaded video to S3
+ */
+async function uploadToS3(buffer: Buffer, key: string): Promise<number> {
   const uploadCommand = new PutObjectCommand({
     Bucket: BUCKET_NAME,
     Key: key,
@@ -8,8 +8,12 @@
  * - Rate limiting
  * - Retry logic
  * - Price extraction
+ *
+ * Requests go through the AI provider (lib/ai/providers), so searches can
+ * be recorded, replayed or mocked like model calls.
  */
 
+import { getAIProvider, isOfflineProvider } from "@/lib/ai/providers";
 import { SHOPPING_CONFIG, isShoppingConfigured } from "./config";
 import {
   ShoppingSearchParams,
@@ -82,8 +86,8 @@ function extractCurrency(priceString?: string): string {
 export async function searchGoogleShopping(
   params: ShoppingSearchParams
 ): Promise<ShoppingSearchResponse> {
-  // Check configuration
-  if (!isShoppingConfigured()) {
+  // Check configuration (replayed and mocked searches need no key)
+  if (!isShoppingConfigured() && !isOfflineProvider()) {
     return {
       success: false,
       query: params.query,
@@ -96,13 +100,13 @@ export async function searchGoogleShopping(
   }
 
   // Apply rate limiting
-  await waitForRateLimit();
+  if (!isOfflineProvider()) {
+    await waitForRateLimit();
+  }
 
-  // Build search parameters
+  // Build search parameters (engine and API key are added by the provider)
   const searchParams = new URLSearchParams({
-    engine: "google_shopping",
     q: params.query,
-    api_key: SHOPPING_CONFIG.serpApiKey,
     gl: params.country || SHOPPING_CONFIG.defaultCountry,
     hl: params.language || SHOPPING_CONFIG.defaultLanguage,
     num: String(params.limit || SHOPPING_CONFIG.defaultResultsPerPage),
@@ -144,24 +148,17 @@ export async function searchGoogleShopping(
 
   for (let attempt = 1; attempt <= SHOPPING_CONFIG.maxRetries; attempt++) {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        SHOPPING_CONFIG.requestTimeoutMs
-      );
-
-      const response = await fetch(
-        `${SHOPPING_CONFIG.serpApiUrl}?${searchParams}`,
-        { signal: controller.signal }
-      );
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const response = await getAIProvider().search({
+        engine: "google_shopping",
+        params: Object.fromEntries(searchParams),
+        timeoutMs: SHOPPING_CONFIG.requestTimeoutMs,
+      });
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`HTTP ${response.status}`);
       }
 
-      const data = (await response.json()) as Record<string, unknown>;
+      const data = response.body;
 
       // Check for API errors
       if (data.error) {
@@ -0,0 +1,203 @@
+/**
+ * Analytics Export
+ *
+ * Raw events or daily rollups for one or many stores, as CSV or NDJSON.
+ * Everything is produced by generators that pull from the event log and
+ * rollup iterators, so an export never holds the whole dataset in memory.
+ */
+
+import { getPersistence } from "@/lib/db";
+import { iterateDailyRollups, metricValue, MetricCounts } from "./analytics-rollups";
+import { listTrackedStoreIds, AnalyticsEvent } from "./analytics-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportKind = "events" | "daily";
+export type ExportFormat = "csv" | "ndjson";
+
+export interface ExportOptions {
+  kind: ExportKind;
+  format: ExportFormat;
+  storeIds: string[] | null; // null = every store with analytics
+  from: Date;
+  to: Date; // exclusive
+  columns: string[];
+  /** Daily exports only: one row per product as well as the store total */
+  byProduct?: boolean;
+}
+
+type CellValue = string | number | undefined;
+
+interface DailyRow {
+  date: string;
+  storeId: string;
+  productId?: string;
+  counts: MetricCounts;
+}
+
+export const EXPORT_KINDS: ExportKind[] = ["events", "daily"];
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "ndjson"];
+
+const EVENT_COLUMNS: Record<string, (event: AnalyticsEvent) => CellValue> = {
+  id: (e) => e.id,
+  timestamp: (e) => e.timestamp,
+  storeId: (e) => e.storeId,
+  productId: (e) => e.productId,
+  eventType: (e) => e.eventType,
+  source: (e) => e.metadata?.source,
+  referrer: (e) => e.metadata?.referrer,
+  device: (e) => e.metadata?.device,
+  country: (e) => e.metadata?.country,
+  sessionId: (e) => e.metadata?.sessionId,
+  visitorId: (e) => e.metadata?.visitorId,
+  utmSource: (e) => e.metadata?.utmSource,
+  utmMedium: (e) => e.metadata?.utmMedium,
+  utmCampaign: (e) => e.metadata?.utmCampaign,
+  shareId: (e) => e.metadata?.shareId,
+  // "experimentId:variantId" pairs separated by ";"
+  experiments: (e) =>
+    e.metadata?.experiments
+      ? Object.entries(e.metadata.experiments)
+          .map(([experimentId, variantId]) => `${experimentId}:${variantId}`)
+          .join(";")
+      : undefined,
+};
+
+const DAILY_COLUMNS: Record<string, (row: DailyRow) => CellValue> = {
+  date: (r) => r.date,
+  storeId: (r) => r.storeId,
+  productId: (r) => r.productId,
+  views: (r) => r.counts.views,
+  uniqueViews: (r) => r.counts.uniqueViews,
+  clicks: (r) => r.counts.clicks,
+  buys: (r) => r.counts.buys,
+  shares: (r) => r.counts.shares,
+  scrolls: (r) => r.counts.scrolls,
+  conversionRate: (r) => Number(metricValue(r.counts, "conversionRate").toFixed(2)),
+};
+
+// ============================================================================
+// Columns
+// ============================================================================
+
+/**
+ * Column names available for an export kind, in default order
+ */
+export function availableColumns(kind: ExportKind): string[] {
+  return Object.keys(kind === "events" ? EVENT_COLUMNS : DAILY_COLUMNS);
+}
+
+/**
+ * Validate a requested column list (empty = all columns)
+ */
+export function resolveColumns(
+  kind: ExportKind,
+  requested: string[]
+): { success: boolean; columns?: string[]; error?: string } {
+  const available = availableColumns(kind);
+  if (requested.length === 0) {
+    return { success: true, columns: available };
+  }
+
+  const unknown = requested.filter((column) => !available.includes(column));
+  if (unknown.length > 0) {
+    return {
+      success: false,
+      error: `Unknown columns: ${unknown.join(", ")}. Available: ${available.join(", ")}`,
+    };
+  }
+  return { success: true, columns: requested };
+}
+
+// ============================================================================
+// Rows
+// ============================================================================
+
+function* eventRows(options: ExportOptions): IterableIterator<Record<string, CellValue>> {
+  const log = getPersistence().eventLog<AnalyticsEvent>("analyticsEvents");
+  const range = { since: options.from.toISOString(), until: options.to.toISOString() };
+  // One pass over the log for "all stores", otherwise an indexed pass per store
+  const passes = options.storeIds ? options.storeIds.map((storeId) => ({ storeId })) : [{}];
+
+  for (const pass of passes) {
+    for (const event of log.iterate({ ...pass, ...range })) {
+      yield pick(EVENT_COLUMNS, event, options.columns);
+    }
+  }
+}
+
+function* dailyRows(options: ExportOptions): IterableIterator<Record<string, CellValue>> {
+  const storeIds = options.storeIds || listTrackedStoreIds();
+
+  for (const storeId of storeIds) {
+    for (const rollup of iterateDailyRollups(storeId, options.from, options.to)) {
+      yield pick(
+        DAILY_COLUMNS,
+        { date: rollup.bucket, storeId, counts: rollup.totals },
+        options.columns
+      );
+
+      if (options.byProduct) {
+        for (const [productId, counts] of Object.entries(rollup.products)) {
+          yield pick(DAILY_COLUMNS, { date: rollup.bucket, storeId, productId, counts }, options.columns);
+        }
+      }
+    }
+  }
+}
+
+function pick<T>(
+  extractors: Record<string, (row: T) => CellValue>,
+  row: T,
+  columns: string[]
+): Record<string, CellValue> {
+  const record: Record<string, CellValue> = {};
+  for (const column of columns) {
+    record[column] = extractors[column](row);
+  }
+  return record;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Escape one CSV cell. Text that a spreadsheet would run as a formula
+ * (leading = + - @) is prefixed with a quote.
+ */
+function csvCell(value: CellValue): string {
+  if (value === undefined) {
+    return "";
+  }
+  if (typeof value === "number") {
+    return String(value);
+  }
+
+  let text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  if (/[",\n\r]/.test(text)) {
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * The export as text chunks: a header (CSV) then one line per row
+ */
+export function* exportChunks(options: ExportOptions): IterableIterator<string> {
+  const rows = options.kind === "events" ? eventRows(options) : dailyRows(options);
+
+  if (options.format === "csv") {
+    yield `${options.columns.map(csvCell).join(",")}\n`;
+    for (const row of rows) {
+      yield `${options.columns.map((column) => csvCell(row[column])).join(",")}\n`;
+    }
+    return;
+  }
+
+  for (const row of rows) {
+    yield `${JSON.stringify(row)}\n`;
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Analytics Event Filter
+ *
+ * Decides whether an incoming storefront event should be counted:
+ *
+ * 1. Bots - crawlers, link-preview fetchers (including our own OG and
+ *    share-card fetches), HTTP tools and headless browsers, by user agent
+ * 2. Rate caps - events per minute per hashed client IP
+ * 3. Duplicates - the same session repeating an event type (same product,
+ *    same scroll depth) inside a short window, e.g. double-clicks
+ *
+ * Dropped events are not logged; the caller records them in the store's
+ * suppressed counters instead (see recordSuppressedEvent).
+ *
+ * Dedupe and rate state is in memory, so limits apply per server process.
+ */
+
+import { createHash } from "crypto";
+import type { AnalyticsEvent, EventType } from "./analytics-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SuppressionReason = "bot" | "rateLimited" | "duplicate";
+
+export type BotKind = "crawler" | "preview" | "tool" | "headless" | "empty";
+
+export interface AgentClassification {
+  isBot: boolean;
+  kind?: BotKind;
+  name?: string;
+}
+
+export interface IngestContext {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+export interface FilterDecision {
+  allowed: boolean;
+  reason?: SuppressionReason;
+  detail?: string; // Bot name, or the dedupe/rate key that tripped
+}
+
+export type IncomingEvent = Pick<AnalyticsEvent, "storeId" | "eventType" | "productId" | "metadata">;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const FILTER_CONFIG = {
+  rateLimitPerMinute: parseInt(process.env.ANALYTICS_RATE_LIMIT_PER_MINUTE || "120"),
+  // Salt so stored hashes cannot be reversed with a table of IPv4 addresses
+  ipSalt: process.env.ANALYTICS_IP_SALT || "velolume-analytics",
+};
+
+// Repeats of the same event by the same session inside this window are dropped
+export const DEDUPE_WINDOWS_MS: Record<EventType, number> = {
+  view: 30000, // Reloads and double-mounted page views
+  click: 2000, // Double-clicks
+  buy: 30000,
+  share: 5000,
+  scroll: 5000,
+};
+
+const BOT_PATTERNS: Array<{ pattern: RegExp; kind: BotKind; name: string }> = [
+  // Link previews (social cards, chat unfurls, our own OG/share fetches)
+  { pattern: /facebookexternalhit|facebookcatalog/i, kind: "preview", name: "facebook" },
+  { pattern: /twitterbot/i, kind: "preview", name: "twitter" },
+  { pattern: /slackbot|slack-imgproxy/i, kind: "preview", name: "slack" },
+  { pattern: /discordbot/i, kind: "preview", name: "discord" },
+  { pattern: /whatsapp/i, kind: "preview", name: "whatsapp" },
+  { pattern: /telegrambot/i, kind: "preview", name: "telegram" },
+  { pattern: /linkedinbot/i, kind: "preview", name: "linkedin" },
+  { pattern: /pinterestbot/i, kind: "preview", name: "pinterest" },
+  { pattern: /embedly|iframely|skypeuripreview|redditbot/i, kind: "preview", name: "unfurler" },
+  { pattern: /velolume|vercel-og|vercel-screenshot/i, kind: "preview", name: "velolume" },
+  // Search and SEO crawlers
+  { pattern: /googlebot|google-inspectiontool|adsbot-google|mediapartners-google/i, kind: "crawler", name: "google" },
+  { pattern: /bingbot|bingpreview/i, kind: "crawler", name: "bing" },
+  { pattern: /yandex|baiduspider|duckduckbot|applebot|petalbot|sogou/i, kind: "crawler", name: "search" },
+  { pattern: /ahrefsbot|semrushbot|mj12bot|dotbot|bytespider|gptbot|ccbot|claudebot/i, kind: "crawler", name: "seo" },
+  // Headless browsers and HTTP tools
+  { pattern: /headlesschrome|phantomjs|puppeteer|playwright|lighthouse/i, kind: "headless", name: "headless" },
+  { pattern: /curl|wget|python-requests|python-urllib|axios|node-fetch|undici|go-http-client|okhttp|java\//i, kind: "tool", name: "http-client" },
+  // Generic catch-all, checked last
+  { pattern: /bot\b|crawler|spider/i, kind: "crawler", name: "generic" },
+];
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Classify a user agent string
+ */
+export function classifyUserAgent(userAgent?: string | null): AgentClassification {
+  if (!userAgent || !userAgent.trim()) {
+    return { isBot: true, kind: "empty", name: "empty" };
+  }
+
+  for (const { pattern, kind, name } of BOT_PATTERNS) {
+    if (pattern.test(userAgent)) {
+      return { isBot: true, kind, name };
+    }
+  }
+
+  return { isBot: false };
+}
+
+/**
+ * Salted SHA-256 of a client IP (raw IPs are never stored)
+ */
+export function hashIp(ip: string): string {
+  return createHash("sha256").update(`${FILTER_CONFIG.ipSalt}:${ip}`).digest("hex").substring(0, 16);
+}
+
+// ============================================================================
+// In-Memory State
+// ============================================================================
+
+// Sweep expired entries once the maps grow past this
+const SWEEP_THRESHOLD = 10000;
+
+const lastSeen = new Map<string, number>(); // dedupe key -> last accepted time
+const rateWindows = new Map<string, { windowStart: number; count: number }>();
+
+function sweep(now: number): void {
+  if (lastSeen.size > SWEEP_THRESHOLD) {
+    const maxWindow = Math.max(...Object.values(DEDUPE_WINDOWS_MS));
+    lastSeen.forEach((time, key) => {
+      if (now - time > maxWindow) {
+        lastSeen.delete(key);
+      }
+    });
+  }
+  if (rateWindows.size > SWEEP_THRESHOLD) {
+    rateWindows.forEach((window, key) => {
+      if (now - window.windowStart > 60000) {
+        rateWindows.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Count one request against the IP's per-minute cap
+ */
+function overRateLimit(ipHash: string, now: number): boolean {
+  const window = rateWindows.get(ipHash);
+  if (!window || now - window.windowStart >= 60000) {
+    rateWindows.set(ipHash, { windowStart: now, count: 1 });
+    return false;
+  }
+  window.count++;
+  return window.count > FILTER_CONFIG.rateLimitPerMinute;
+}
+
+/**
+ * Key identifying "the same event again" for dedupe
+ */
+function dedupeKey(event: IncomingEvent, fallbackClient: string): string {
+  const client = event.metadata?.sessionId || fallbackClient;
+  const depth = (event.metadata as Record<string, unknown> | undefined)?.depth || "";
+  return [event.storeId, client, event.eventType, event.productId || "", depth].join("|");
+}
+
+// ============================================================================
+// Filter
+// ============================================================================
+
+/**
+ * Decide whether to count an event. Accepted events are remembered for
+ * dedupe, so call this once per incoming request.
+ */
+export function filterEvent(
+  event: IncomingEvent,
+  context: IngestContext,
+  now: number = Date.now()
+): FilterDecision {
+  sweep(now);
+
+  const agent = classifyUserAgent(context.userAgent);
+  if (agent.isBot) {
+    return { allowed: false, reason: "bot", detail: agent.name };
+  }
+
+  const ipHash = context.ip ? hashIp(context.ip) : "unknown";
+  if (context.ip && overRateLimit(ipHash, now)) {
+    return { allowed: false, reason: "rateLimited", detail: ipHash };
+  }
+
+  // Without a session, fall back to IP + user agent as the client identity
+  const key = dedupeKey(event, `${ipHash}:${context.userAgent || ""}`);
+  const previous = lastSeen.get(key);
+  if (previous !== undefined && now - previous < DEDUPE_WINDOWS_MS[event.eventType]) {
+    return { allowed: false, reason: "duplicate", detail: event.eventType };
+  }
+
+  lastSeen.set(key, now);
+  return { allowed: true };
+}
+
+/**
+ * Client IP from proxy headers (first hop of X-Forwarded-For)
+ */
+export function getClientIp(headers: Headers): string | null {
+  const forwarded = headers.get("x-forwarded-for");
+  if (forwarded) {
+    return forwarded.split(",")[0].trim() || null;
+  }
+  return headers.get("x-real-ip");
+}
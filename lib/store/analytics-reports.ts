@@ -0,0 +1,374 @@
+/**
+ * Analytics Reports
+ *
+ * Session-level reports built from the raw event log:
+ *
+ * - Funnel: view → product click → buy, stitched by sessionId, with
+ *   breakdowns per product, per referrer and per UTM source
+ * - Attribution: first-touch and last-touch credit for each buy, by
+ *   traffic channel and by the share link that brought the visitor
+ *
+ * Visitors are identified by metadata.visitorId (persists across sessions)
+ * and fall back to sessionId. Events with neither cannot be stitched.
+ */
+
+import { getPersistence } from "@/lib/db";
+import type { AnalyticsEvent } from "./analytics-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FunnelStepName = "view" | "click" | "buy";
+
+export interface FunnelStep {
+  step: FunnelStepName;
+  sessions: number;
+  rate: number; // % of sessions from the previous step
+  overallRate: number; // % of sessions from the first step
+}
+
+export interface FunnelBreakdown {
+  key: string;
+  sessions: number;
+  steps: FunnelStep[];
+}
+
+export interface FunnelReport {
+  storeId: string;
+  from: string;
+  to: string;
+  sessions: number;
+  unstitchedEvents: number;
+  steps: FunnelStep[];
+  byProduct: FunnelBreakdown[];
+  byReferrer: FunnelBreakdown[];
+  bySource: FunnelBreakdown[];
+}
+
+export type AttributionModel = "firstTouch" | "lastTouch";
+
+export interface ChannelAttribution {
+  channel: string;
+  buys: number;
+}
+
+export interface ShareAttribution {
+  shareId: string;
+  productId?: string;
+  sharedAt?: string;
+  firstTouchBuys: number;
+  lastTouchBuys: number;
+}
+
+export interface AttributionReport {
+  storeId: string;
+  from: string;
+  to: string;
+  lookbackDays: number;
+  buys: number;
+  attributedBuys: number;
+  firstTouch: ChannelAttribution[];
+  lastTouch: ChannelAttribution[];
+  shares: ShareAttribution[];
+}
+
+export interface ReportRange {
+  from: Date;
+  to: Date; // exclusive
+}
+
+const FUNNEL_STEPS: FunnelStepName[] = ["view", "click", "buy"];
+
+// How far before a buy we look for the touch that brought the visitor
+export const DEFAULT_ATTRIBUTION_LOOKBACK_DAYS = 30;
+
+function eventLog() {
+  return getPersistence().eventLog<AnalyticsEvent>("analyticsEvents");
+}
+
+function queryRange(storeId: string, since: Date, until: Date): AnalyticsEvent[] {
+  return eventLog().query({ storeId, since: since.toISOString(), until: until.toISOString() });
+}
+
+// ============================================================================
+// Traffic Sources
+// ============================================================================
+
+/**
+ * Referrer hostname, or "direct" when there is none
+ */
+export function referrerHost(event: AnalyticsEvent): string {
+  const referrer = event.metadata?.referrer;
+  if (!referrer) {
+    return "direct";
+  }
+  try {
+    return new URL(referrer).hostname || "direct";
+  } catch {
+    return "unknown";
+  }
+}
+
+/**
+ * UTM source (or the legacy `source` field), "(none)" when untagged
+ */
+export function utmSource(event: AnalyticsEvent): string {
+  return event.metadata?.utmSource || event.metadata?.source || "(none)";
+}
+
+/**
+ * Channel used for attribution: share link, then UTM source, then referrer
+ */
+function channelOf(event: AnalyticsEvent): string {
+  if (event.metadata?.shareId) {
+    return "share";
+  }
+  const source = event.metadata?.utmSource || event.metadata?.source;
+  if (source) {
+    return source;
+  }
+  return referrerHost(event);
+}
+
+// ============================================================================
+// Funnel
+// ============================================================================
+
+/**
+ * Furthest funnel step a session reached, in order.
+ * With a productId, only clicks and buys of that product count.
+ */
+function furthestStep(events: AnalyticsEvent[], productId?: string): number {
+  let reached = 0;
+  for (const event of events) {
+    const step = FUNNEL_STEPS[reached];
+    if (!step || event.eventType !== step) {
+      continue;
+    }
+    if (step !== "view" && productId && event.productId !== productId) {
+      continue;
+    }
+    if (step === "click" && !event.productId) {
+      continue;
+    }
+    reached++;
+  }
+  return reached;
+}
+
+function buildSteps(reached: number[]): FunnelStep[] {
+  const counts = FUNNEL_STEPS.map((_, i) => reached.filter((r) => r > i).length);
+
+  return FUNNEL_STEPS.map((step, i) => ({
+    step,
+    sessions: counts[i],
+    rate: i === 0 ? 100 : percent(counts[i], counts[i - 1]),
+    overallRate: percent(counts[i], counts[0]),
+  }));
+}
+
+function buildBreakdown(groups: Map<string, number[]>): FunnelBreakdown[] {
+  return Array.from(groups.entries())
+    .map(([key, reached]) => ({ key, sessions: reached.length, steps: buildSteps(reached) }))
+    .sort((a, b) => converted(b) - converted(a) || b.sessions - a.sessions);
+}
+
+function converted(breakdown: FunnelBreakdown): number {
+  return breakdown.steps[breakdown.steps.length - 1].sessions;
+}
+
+function pushTo(groups: Map<string, number[]>, key: string, value: number): void {
+  const group = groups.get(key);
+  if (group) {
+    group.push(value);
+  } else {
+    groups.set(key, [value]);
+  }
+}
+
+/**
+ * View → product click → buy funnel for a store
+ */
+export function getFunnelReport(storeId: string, range: ReportRange): FunnelReport {
+  const events = queryRange(storeId, range.from, range.to);
+
+  const sessions = new Map<string, AnalyticsEvent[]>();
+  let unstitchedEvents = 0;
+  for (const event of events) {
+    const sessionId = event.metadata?.sessionId;
+    if (!sessionId) {
+      unstitchedEvents++;
+      continue;
+    }
+    const session = sessions.get(sessionId);
+    if (session) {
+      session.push(event);
+    } else {
+      sessions.set(sessionId, [event]);
+    }
+  }
+
+  const reached: number[] = [];
+  const byProduct = new Map<string, number[]>();
+  const byReferrer = new Map<string, number[]>();
+  const bySource = new Map<string, number[]>();
+
+  const clickedProducts = new Set(
+    events.filter((e) => e.eventType === "click" && e.productId).map((e) => e.productId!)
+  );
+
+  sessions.forEach((sessionEvents) => {
+    sessionEvents.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    const step = furthestStep(sessionEvents);
+    reached.push(step);
+
+    // The landing event decides where the session came from
+    const landing = sessionEvents[0];
+    pushTo(byReferrer, referrerHost(landing), step);
+    pushTo(bySource, utmSource(landing), step);
+
+    // Every session counts toward each product's view step
+    clickedProducts.forEach((productId) => {
+      pushTo(byProduct, productId, furthestStep(sessionEvents, productId));
+    });
+  });
+
+  return {
+    storeId,
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    sessions: sessions.size,
+    unstitchedEvents,
+    steps: buildSteps(reached),
+    byProduct: buildBreakdown(byProduct),
+    byReferrer: buildBreakdown(byReferrer),
+    bySource: buildBreakdown(bySource),
+  };
+}
+
+// ============================================================================
+// Attribution
+// ============================================================================
+
+/**
+ * First-touch and last-touch attribution of buys in a range.
+ * Touches are the visitor's views in the lookback window before each buy.
+ */
+export function getAttributionReport(
+  storeId: string,
+  range: ReportRange,
+  lookbackDays: number = DEFAULT_ATTRIBUTION_LOOKBACK_DAYS
+): AttributionReport {
+  const lookbackMs = lookbackDays * 24 * 60 * 60 * 1000;
+  const events = queryRange(storeId, new Date(range.from.getTime() - lookbackMs), range.to);
+  const fromIso = range.from.toISOString();
+
+  const touchesByVisitor = new Map<string, AnalyticsEvent[]>();
+  const sharesById = new Map<string, AnalyticsEvent>();
+  const buys: AnalyticsEvent[] = [];
+
+  for (const event of events) {
+    if (event.eventType === "share") {
+      sharesById.set(event.id, event);
+    }
+    if (event.eventType === "buy" && event.timestamp >= fromIso) {
+      buys.push(event);
+    }
+    const visitor = visitorKey(event);
+    if (event.eventType === "view" && visitor) {
+      const touches = touchesByVisitor.get(visitor);
+      if (touches) {
+        touches.push(event);
+      } else {
+        touchesByVisitor.set(visitor, [event]);
+      }
+    }
+  }
+
+  const firstTouch = new Map<string, number>();
+  const lastTouch = new Map<string, number>();
+  const shares = new Map<string, ShareAttribution>();
+  let attributedBuys = 0;
+
+  const creditShare = (touch: AnalyticsEvent, model: AttributionModel): void => {
+    const shareId = touch.metadata?.shareId;
+    if (!shareId) {
+      return;
+    }
+    let row = shares.get(shareId);
+    if (!row) {
+      const share = sharesById.get(shareId);
+      row = {
+        shareId,
+        productId: share?.productId,
+        sharedAt: share?.timestamp,
+        firstTouchBuys: 0,
+        lastTouchBuys: 0,
+      };
+      shares.set(shareId, row);
+    }
+    if (model === "firstTouch") {
+      row.firstTouchBuys++;
+    } else {
+      row.lastTouchBuys++;
+    }
+  };
+
+  for (const buy of buys) {
+    const visitor = visitorKey(buy);
+    if (!visitor) {
+      continue;
+    }
+
+    const windowStart = new Date(new Date(buy.timestamp).getTime() - lookbackMs).toISOString();
+    const touches = (touchesByVisitor.get(visitor) || [])
+      .filter((t) => t.timestamp >= windowStart && t.timestamp <= buy.timestamp)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    if (touches.length === 0) {
+      continue;
+    }
+
+    const first = touches[0];
+    const last = touches[touches.length - 1];
+    attributedBuys++;
+
+    increment(firstTouch, channelOf(first));
+    increment(lastTouch, channelOf(last));
+    creditShare(first, "firstTouch");
+    creditShare(last, "lastTouch");
+  }
+
+  return {
+    storeId,
+    from: fromIso,
+    to: range.to.toISOString(),
+    lookbackDays,
+    buys: buys.length,
+    attributedBuys,
+    firstTouch: toChannelRows(firstTouch),
+    lastTouch: toChannelRows(lastTouch),
+    shares: Array.from(shares.values()).sort(
+      (a, b) => b.firstTouchBuys + b.lastTouchBuys - (a.firstTouchBuys + a.lastTouchBuys)
+    ),
+  };
+}
+
+function visitorKey(event: AnalyticsEvent): string | undefined {
+  return event.metadata?.visitorId || event.metadata?.sessionId;
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+function toChannelRows(counts: Map<string, number>): ChannelAttribution[] {
+  return Array.from(counts.entries())
+    .map(([channel, buys]) => ({ channel, buys }))
+    .sort((a, b) => b.buys - a.buys);
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
@@ -0,0 +1,600 @@
+/**
+ * Analytics Rollups
+ *
+ * Compacts the raw analytics event log into hourly, daily and monthly
+ * rollups per store (with per-product breakdowns), and answers time-series
+ * queries from them.
+ *
+ * Compaction works a whole UTC day at a time, once the day is over. It
+ * runs at server start (instrumentation.ts) and then shortly after each
+ * UTC midnight, never on the read path. Days that are not compacted yet
+ * (normally just today) are read from the raw log, so query results are
+ * always current.
+ *
+ * Monthly unique views are the sum of daily unique views, so a visitor who
+ * comes back on another day is counted again.
+ */
+
+import { getPersistence } from "@/lib/db";
+import type { AnalyticsEvent } from "./analytics-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RollupGranularity = "hour" | "day" | "month";
+
+export type RollupMetric =
+  | "views"
+  | "uniqueViews"
+  | "clicks"
+  | "buys"
+  | "shares"
+  | "scrolls"
+  | "conversionRate";
+
+export interface MetricCounts {
+  views: number;
+  uniqueViews: number;
+  clicks: number;
+  buys: number;
+  shares: number;
+  scrolls: number;
+}
+
+export interface AnalyticsRollup {
+  id: string; // storeId:granularity:bucket
+  storeId: string;
+  granularity: RollupGranularity;
+  bucket: string; // YYYY-MM-DDTHH | YYYY-MM-DD | YYYY-MM
+  totals: MetricCounts;
+  products: Record<string, MetricCounts>;
+  compactedAt: string;
+}
+
+interface CompactionState {
+  id: string;
+  compactedThrough: string; // Last fully compacted UTC day (YYYY-MM-DD)
+  lastRunAt: string;
+}
+
+export interface TimeseriesQuery {
+  storeId: string;
+  productId?: string;
+  from: Date;
+  to: Date; // exclusive
+  granularity: RollupGranularity;
+  metric: RollupMetric;
+}
+
+export interface TimeseriesPoint {
+  bucket: string;
+  value: number;
+}
+
+export interface TimeseriesResult {
+  storeId: string;
+  productId?: string;
+  granularity: RollupGranularity;
+  metric: RollupMetric;
+  series: TimeseriesPoint[];
+  total: number;
+}
+
+export const ROLLUP_GRANULARITIES: RollupGranularity[] = ["hour", "day", "month"];
+
+export const ROLLUP_METRICS: RollupMetric[] = [
+  "views",
+  "uniqueViews",
+  "clicks",
+  "buys",
+  "shares",
+  "scrolls",
+  "conversionRate",
+];
+
+// Keeps a single query from materializing years of hourly buckets
+export const MAX_TIMESERIES_BUCKETS = 2000;
+
+const COMPACTION_STATE_ID = "analyticsEvents";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Scheduled runs wait this long past midnight for the day's last writes
+const COMPACTION_DELAY_MS = 60 * 1000;
+
+interface CompactionSchedule {
+  started: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForCompaction = globalThis as unknown as { velolumeAnalyticsCompaction?: CompactionSchedule };
+
+function schedule(): CompactionSchedule {
+  if (!globalForCompaction.velolumeAnalyticsCompaction) {
+    globalForCompaction.velolumeAnalyticsCompaction = { started: false, timer: null };
+  }
+  return globalForCompaction.velolumeAnalyticsCompaction;
+}
+
+function rollupsCollection() {
+  return getPersistence().collection<AnalyticsRollup>("analyticsRollups");
+}
+
+function compactionCollection() {
+  return getPersistence().collection<CompactionState>("analyticsCompaction");
+}
+
+function eventLog() {
+  return getPersistence().eventLog<AnalyticsEvent>("analyticsEvents");
+}
+
+// ============================================================================
+// Buckets
+// ============================================================================
+
+/**
+ * Bucket key for a timestamp
+ */
+export function bucketKey(date: Date, granularity: RollupGranularity): string {
+  const iso = date.toISOString();
+  switch (granularity) {
+    case "hour":
+      return iso.substring(0, 13);
+    case "day":
+      return iso.substring(0, 10);
+    case "month":
+      return iso.substring(0, 7);
+  }
+}
+
+/**
+ * Start of the bucket containing a timestamp
+ */
+function bucketStart(date: Date, granularity: RollupGranularity): Date {
+  const start = new Date(date);
+  start.setUTCMinutes(0, 0, 0);
+  if (granularity !== "hour") {
+    start.setUTCHours(0);
+  }
+  if (granularity === "month") {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+/**
+ * Start of the following bucket
+ */
+function nextBucket(start: Date, granularity: RollupGranularity): Date {
+  const next = new Date(start);
+  switch (granularity) {
+    case "hour":
+      next.setUTCHours(next.getUTCHours() + 1);
+      break;
+    case "day":
+      next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case "month":
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      break;
+  }
+  return next;
+}
+
+/**
+ * Bucket start times covering [from, to), aligned to the granularity
+ */
+export function listBuckets(from: Date, to: Date, granularity: RollupGranularity): Date[] {
+  const buckets: Date[] = [];
+  for (
+    let start = bucketStart(from, granularity);
+    start < to && buckets.length <= MAX_TIMESERIES_BUCKETS;
+    start = nextBucket(start, granularity)
+  ) {
+    buckets.push(start);
+  }
+  return buckets;
+}
+
+function rollupId(storeId: string, granularity: RollupGranularity, bucket: string): string {
+  return `${storeId}:${granularity}:${bucket}`;
+}
+
+// ============================================================================
+// Counting
+// ============================================================================
+
+function emptyCounts(): MetricCounts {
+  return { views: 0, uniqueViews: 0, clicks: 0, buys: 0, shares: 0, scrolls: 0 };
+}
+
+function addCounts(target: MetricCounts, source: MetricCounts): void {
+  target.views += source.views;
+  target.uniqueViews += source.uniqueViews;
+  target.clicks += source.clicks;
+  target.buys += source.buys;
+  target.shares += source.shares;
+  target.scrolls += source.scrolls;
+}
+
+/**
+ * Count a set of events. Unique views are distinct sessions; views
+ * without a session ID each count as unique.
+ */
+function countEvents(events: AnalyticsEvent[]): MetricCounts {
+  const counts = emptyCounts();
+  const sessions = new Set<string>();
+
+  for (const event of events) {
+    switch (event.eventType) {
+      case "view": {
+        counts.views++;
+        const sessionId = event.metadata?.sessionId;
+        if (!sessionId) {
+          counts.uniqueViews++;
+        } else if (!sessions.has(sessionId)) {
+          sessions.add(sessionId);
+          counts.uniqueViews++;
+        }
+        break;
+      }
+      case "click":
+        counts.clicks++;
+        break;
+      case "buy":
+        counts.buys++;
+        break;
+      case "share":
+        counts.shares++;
+        break;
+      case "scroll":
+        counts.scrolls++;
+        break;
+    }
+  }
+
+  return counts;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | undefined): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    if (k === undefined) {
+      continue;
+    }
+    const group = groups.get(k);
+    if (group) {
+      group.push(item);
+    } else {
+      groups.set(k, [item]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Build one rollup from the events of a single store and bucket
+ */
+function buildRollup(
+  storeId: string,
+  granularity: RollupGranularity,
+  bucket: string,
+  events: AnalyticsEvent[],
+  compactedAt: string
+): AnalyticsRollup {
+  const products: Record<string, MetricCounts> = {};
+  groupBy(events, (e) => e.productId).forEach((productEvents, productId) => {
+    products[productId] = countEvents(productEvents);
+  });
+
+  return {
+    id: rollupId(storeId, granularity, bucket),
+    storeId,
+    granularity,
+    bucket,
+    totals: countEvents(events),
+    products,
+    compactedAt,
+  };
+}
+
+/**
+ * Sum daily rollups into a monthly rollup
+ */
+function mergeRollups(
+  storeId: string,
+  month: string,
+  days: AnalyticsRollup[],
+  compactedAt: string
+): AnalyticsRollup {
+  const totals = emptyCounts();
+  const products: Record<string, MetricCounts> = {};
+
+  for (const day of days) {
+    addCounts(totals, day.totals);
+    for (const [productId, counts] of Object.entries(day.products)) {
+      products[productId] = products[productId] || emptyCounts();
+      addCounts(products[productId], counts);
+    }
+  }
+
+  return {
+    id: rollupId(storeId, "month", month),
+    storeId,
+    granularity: "month",
+    bucket: month,
+    totals,
+    products,
+    compactedAt,
+  };
+}
+
+// ============================================================================
+// Compaction
+// ============================================================================
+
+/**
+ * Last fully compacted UTC day, or null before the first compaction
+ */
+export function getCompactedThrough(): string | null {
+  return compactionCollection().get(COMPACTION_STATE_ID)?.compactedThrough || null;
+}
+
+/**
+ * Compact every finished UTC day that has not been compacted yet.
+ * Safe to run repeatedly; a day's rollups are rebuilt from the raw log.
+ */
+export function compactAnalytics(now: Date = new Date()): {
+  daysCompacted: number;
+  rollupsWritten: number;
+  compactedThrough: string | null;
+} {
+  const lastFinishedDay = bucketKey(new Date(bucketStart(now, "day").getTime() - DAY_MS), "day");
+  let compactedThrough = getCompactedThrough();
+
+  if (compactedThrough && compactedThrough >= lastFinishedDay) {
+    return { daysCompacted: 0, rollupsWritten: 0, compactedThrough };
+  }
+
+  let day: Date;
+  if (compactedThrough) {
+    day = new Date(new Date(`${compactedThrough}T00:00:00.000Z`).getTime() + DAY_MS);
+  } else {
+    const [oldest] = eventLog().query({ limit: 1 });
+    if (!oldest) {
+      return { daysCompacted: 0, rollupsWritten: 0, compactedThrough: null };
+    }
+    day = bucketStart(new Date(oldest.timestamp), "day");
+  }
+
+  const compactedAt = now.toISOString();
+  let daysCompacted = 0;
+  let rollupsWritten = 0;
+
+  while (bucketKey(day, "day") <= lastFinishedDay) {
+    const dayKey = bucketKey(day, "day");
+    const nextDay = nextBucket(day, "day");
+    const events = eventLog().query({ since: day.toISOString(), until: nextDay.toISOString() });
+    const rollups: Record<string, AnalyticsRollup> = {};
+
+    groupBy(events, (e) => e.storeId).forEach((storeEvents, storeId) => {
+      const daily = buildRollup(storeId, "day", dayKey, storeEvents, compactedAt);
+      rollups[daily.id] = daily;
+
+      groupBy(storeEvents, (e) => bucketKey(new Date(e.timestamp), "hour")).forEach(
+        (hourEvents, hour) => {
+          const hourly = buildRollup(storeId, "hour", hour, hourEvents, compactedAt);
+          rollups[hourly.id] = hourly;
+        }
+      );
+
+      const month = rebuildMonth(storeId, dayKey.substring(0, 7), daily, compactedAt);
+      rollups[month.id] = month;
+    });
+
+    getPersistence().transaction(() => {
+      rollupsCollection().putMany(rollups);
+      compactionCollection().put(COMPACTION_STATE_ID, {
+        id: COMPACTION_STATE_ID,
+        compactedThrough: dayKey,
+        lastRunAt: compactedAt,
+      });
+    });
+
+    compactedThrough = dayKey;
+    daysCompacted++;
+    rollupsWritten += Object.keys(rollups).length;
+    day = nextDay;
+  }
+
+  if (daysCompacted > 0) {
+    console.log(
+      `[Analytics] Compacted ${daysCompacted} day(s) into ${rollupsWritten} rollups (through ${compactedThrough})`
+    );
+  }
+
+  return { daysCompacted, rollupsWritten, compactedThrough };
+}
+
+/**
+ * Recompute a month rollup from its stored daily rollups plus the day
+ * being compacted (which is not written yet)
+ */
+function rebuildMonth(
+  storeId: string,
+  month: string,
+  newDay: AnalyticsRollup,
+  compactedAt: string
+): AnalyticsRollup {
+  const monthStart = new Date(`${month}-01T00:00:00.000Z`);
+  const dayIds = listBuckets(monthStart, nextBucket(monthStart, "month"), "day")
+    .map((d) => rollupId(storeId, "day", bucketKey(d, "day")))
+    .filter((id) => id !== newDay.id);
+
+  const days = Object.values(rollupsCollection().getMany(dayIds));
+  return mergeRollups(storeId, month, [...days, newDay], compactedAt);
+}
+
+/**
+ * Compact what is due now, then again after every UTC midnight.
+ * Called at server start (instrumentation.ts); safe to call repeatedly.
+ */
+export function startAnalyticsCompaction(): void {
+  const state = schedule();
+  if (state.started) return;
+  state.started = true;
+  runScheduledCompaction();
+}
+
+function runScheduledCompaction(): void {
+  const state = schedule();
+  try {
+    compactAnalytics();
+  } catch (error) {
+    // Queries fall back to the raw log, so a failed run only costs speed
+    console.error("[Analytics] Compaction failed:", error);
+  }
+
+  const now = new Date();
+  const nextRunAt = nextBucket(bucketStart(now, "day"), "day").getTime() + COMPACTION_DELAY_MS;
+  state.timer = setTimeout(() => {
+    state.timer = null;
+    runScheduledCompaction();
+  }, nextRunAt - now.getTime());
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Time series for one metric of a store (or one of its products).
+ * Compacted ranges come from rollups; the uncompacted tail from raw events.
+ */
+export function queryAnalytics(query: TimeseriesQuery): TimeseriesResult {
+  const { storeId, productId, from, to, granularity, metric } = query;
+  const compactedThrough = getCompactedThrough();
+  // Everything before this instant is covered by rollups
+  const rawSince = compactedThrough
+    ? new Date(new Date(`${compactedThrough}T00:00:00.000Z`).getTime() + DAY_MS)
+    : new Date(0);
+
+  const buckets = listBuckets(from, to, granularity);
+  const bucketCounts = new Map<string, MetricCounts>();
+
+  // Rollup lookups: whole buckets for hour/day and finished months,
+  // daily rollups for the compacted part of the current month
+  const rollupIds: string[] = [];
+  for (const start of buckets) {
+    const end = nextBucket(start, granularity);
+    if (end <= rawSince) {
+      rollupIds.push(rollupId(storeId, granularity, bucketKey(start, granularity)));
+    } else if (granularity === "month" && start < rawSince) {
+      for (const day of listBuckets(start, rawSince, "day")) {
+        rollupIds.push(rollupId(storeId, "day", bucketKey(day, "day")));
+      }
+    }
+  }
+
+  const rollups = rollupsCollection().getMany(rollupIds);
+  for (const rollup of Object.values(rollups)) {
+    const counts = productId ? rollup.products[productId] : rollup.totals;
+    if (!counts) {
+      continue;
+    }
+    const key =
+      rollup.granularity === granularity ? rollup.bucket : rollup.bucket.substring(0, 7);
+    const bucketTotal = bucketCounts.get(key) || emptyCounts();
+    addCounts(bucketTotal, counts);
+    bucketCounts.set(key, bucketTotal);
+  }
+
+  // Raw tail
+  const rangeEnd = buckets.length > 0 ? nextBucket(buckets[buckets.length - 1], granularity) : to;
+  if (rangeEnd > rawSince) {
+    const since = buckets.length > 0 && buckets[0] > rawSince ? buckets[0] : rawSince;
+    const events = eventLog()
+      .query({ storeId, since: since.toISOString(), until: rangeEnd.toISOString() })
+      .filter((e) => !productId || e.productId === productId);
+
+    groupBy(events, (e) => bucketKey(new Date(e.timestamp), granularity)).forEach(
+      (bucketEvents, key) => {
+        const bucketTotal = bucketCounts.get(key) || emptyCounts();
+        addCounts(bucketTotal, countEvents(bucketEvents));
+        bucketCounts.set(key, bucketTotal);
+      }
+    );
+  }
+
+  const overall = emptyCounts();
+  const series = buckets.map((start) => {
+    const key = bucketKey(start, granularity);
+    const counts = bucketCounts.get(key) || emptyCounts();
+    addCounts(overall, counts);
+    return { bucket: key, value: metricValue(counts, metric) };
+  });
+
+  return {
+    storeId,
+    productId,
+    granularity,
+    metric,
+    series,
+    total: metricValue(overall, metric),
+  };
+}
+
+/**
+ * Daily rollups for a store over [from, to), oldest first. Days with no
+ * events are skipped; days not compacted yet are built from raw events.
+ * Yields one day at a time so long ranges stay cheap (used by exports).
+ */
+export function* iterateDailyRollups(
+  storeId: string,
+  from: Date,
+  to: Date
+): IterableIterator<AnalyticsRollup> {
+  const compactedThrough = getCompactedThrough();
+  const builtAt = new Date().toISOString();
+
+  for (const day of listDays(from, to)) {
+    const dayKey = bucketKey(day, "day");
+
+    if (compactedThrough && dayKey <= compactedThrough) {
+      const rollup = rollupsCollection().get(rollupId(storeId, "day", dayKey));
+      if (rollup) {
+        yield rollup;
+      }
+      continue;
+    }
+
+    const events = eventLog().query({
+      storeId,
+      since: day.toISOString(),
+      until: nextBucket(day, "day").toISOString(),
+    });
+    if (events.length > 0) {
+      yield buildRollup(storeId, "day", dayKey, events, builtAt);
+    }
+  }
+}
+
+/**
+ * Day starts covering [from, to) without the bucket cap of listBuckets
+ */
+function* listDays(from: Date, to: Date): IterableIterator<Date> {
+  for (let day = bucketStart(from, "day"); day < to; day = nextBucket(day, "day")) {
+    yield day;
+  }
+}
+
+/**
+ * Read one metric from a set of counts
+ */
+export function metricValue(counts: MetricCounts, metric: RollupMetric): number {
+  if (metric === "conversionRate") {
+    return counts.views > 0 ? (counts.buys / counts.views) * 100 : 0;
+  }
+  return counts[metric];
+}
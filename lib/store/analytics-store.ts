@@ -2,14 +2,15 @@
  * Analytics Store
  *
  * Tracks views, clicks, and conversions for Velolume stores.
- * Simple file-based storage, upgradeable to Supabase/ClickHouse.
+ * Events go to an append-only log and per-store aggregates to a collection,
+ * both behind the pluggable persistence layer (lib/db). Hourly and daily
+ * view series are read from rollups (see analytics-rollups.ts).
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { join } from "path";
-
-const DATA_DIR = join(process.cwd(), "data");
-const ANALYTICS_FILE = join(DATA_DIR, "analytics.json");
+import { getPersistence } from "@/lib/db";
+import { publish } from "@/lib/events/event-bus";
+import { queryAnalytics } from "./analytics-rollups";
+import type { SuppressionReason } from "./analytics-filter";
 
 export type EventType = "view" | "click" | "buy" | "share" | "scroll";
 
@@ -25,6 +26,12 @@ export interface AnalyticsEvent {
     device?: string;
     country?: string;
     sessionId?: string;
+    visitorId?: string; // Survives across sessions, used for attribution
+    utmSource?: string;
+    utmMedium?: string;
+    utmCampaign?: string;
+    shareId?: string; // ID of the share event whose link brought the visitor
+    experiments?: Record<string, string>; // experimentId -> variantId the session saw
   };
 }
 
@@ -40,45 +47,26 @@ export interface StoreAnalytics {
   hourlyViews: Record<string, number>;
   dailyViews: Record<string, number>;
   topProducts: Array<{ productId: string; clicks: number; buys: number }>;
+  // Events dropped by the filter (bots, duplicates, rate caps); not in the counts above
+  suppressed?: SuppressedCounts;
 }
 
-interface AnalyticsDatabase {
-  events: AnalyticsEvent[];
-  aggregates: Record<string, StoreAnalytics>;
-  lastUpdated: string;
-}
-
-function ensureDataDir(): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
+export interface SuppressedCounts {
+  total: number;
+  byReason: Record<SuppressionReason, number>;
+  byBot: Record<string, number>;
+  lastSuppressedAt?: string;
 }
 
-function loadAnalytics(): AnalyticsDatabase {
-  ensureDataDir();
-
-  if (!existsSync(ANALYTICS_FILE)) {
-    return { events: [], aggregates: {}, lastUpdated: new Date().toISOString() };
-  }
+// Persisted running totals; view series are derived from rollups on read
+export type StoredAggregate = Omit<StoreAnalytics, "hourlyViews" | "dailyViews">;
 
-  try {
-    const data = readFileSync(ANALYTICS_FILE, "utf-8");
-    return JSON.parse(data);
-  } catch {
-    return { events: [], aggregates: {}, lastUpdated: new Date().toISOString() };
-  }
+function eventLog() {
+  return getPersistence().eventLog<AnalyticsEvent>("analyticsEvents");
 }
 
-function saveAnalytics(db: AnalyticsDatabase): void {
-  ensureDataDir();
-  db.lastUpdated = new Date().toISOString();
-
-  // Keep only last 10,000 events to prevent file bloat
-  if (db.events.length > 10000) {
-    db.events = db.events.slice(-10000);
-  }
-
-  writeFileSync(ANALYTICS_FILE, JSON.stringify(db, null, 2));
+function aggregatesCollection() {
+  return getPersistence().collection<StoredAggregate>("analyticsAggregates");
 }
 
 /**
@@ -88,20 +76,6 @@ function generateEventId(): string {
   return `evt-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
 }
 
-/**
- * Get hour key for bucketing
- */
-function getHourKey(date: Date): string {
-  return date.toISOString().substring(0, 13); // YYYY-MM-DDTHH
-}
-
-/**
- * Get day key for bucketing
- */
-function getDayKey(date: Date): string {
-  return date.toISOString().substring(0, 10); // YYYY-MM-DD
-}
-
 /**
  * Track an analytics event
  */
@@ -111,7 +85,6 @@ export function trackEvent(
   productId?: string,
   metadata?: AnalyticsEvent["metadata"]
 ): AnalyticsEvent {
-  const db = loadAnalytics();
   const now = new Date();
 
   const event: AnalyticsEvent = {
@@ -123,34 +96,51 @@ export function trackEvent(
     metadata,
   };
 
-  db.events.push(event);
-
-  // Update aggregates
-  if (!db.aggregates[storeId]) {
-    db.aggregates[storeId] = {
-      storeId,
-      views: 0,
-      uniqueViews: 0,
-      clicks: 0,
-      buys: 0,
-      shares: 0,
-      conversionRate: 0,
-      lastUpdated: now.toISOString(),
-      hourlyViews: {},
-      dailyViews: {},
-      topProducts: [],
-    };
-  }
+  const totals = getPersistence().transaction(() => {
+    eventLog().append(event);
+
+    const aggregates = aggregatesCollection();
+    const current = aggregates.get(storeId) || createEmptyAggregate(storeId, now);
+    return aggregates.put(storeId, applyEventToAggregate(current, event, now));
+  });
+
+  publish(["analytics", `analytics:${storeId}`], "event", { event, totals });
+
+  return event;
+}
+
+/**
+ * Empty aggregate record for a store's first event
+ */
+function createEmptyAggregate(storeId: string, now: Date): StoredAggregate {
+  return {
+    storeId,
+    views: 0,
+    uniqueViews: 0,
+    clicks: 0,
+    buys: 0,
+    shares: 0,
+    conversionRate: 0,
+    lastUpdated: now.toISOString(),
+    topProducts: [],
+  };
+}
 
-  const agg = db.aggregates[storeId];
-  const hourKey = getHourKey(now);
-  const dayKey = getDayKey(now);
+/**
+ * Fold one event into a store's aggregate record
+ */
+function applyEventToAggregate(
+  stored: StoredAggregate,
+  event: AnalyticsEvent,
+  now: Date
+): StoredAggregate {
+  // Records written before rollups existed still carry their view series
+  const { hourlyViews, dailyViews, ...agg } = stored as StoreAnalytics;
+  const { eventType, productId } = event;
 
   switch (eventType) {
     case "view":
       agg.views++;
-      agg.hourlyViews[hourKey] = (agg.hourlyViews[hourKey] || 0) + 1;
-      agg.dailyViews[dayKey] = (agg.dailyViews[dayKey] || 0) + 1;
       break;
     case "click":
       agg.clicks++;
@@ -187,55 +177,104 @@ export function trackEvent(
   agg.topProducts.sort((a, b) => b.clicks - a.clicks);
   agg.topProducts = agg.topProducts.slice(0, 10);
 
-  // Keep only last 7 days of hourly data
-  const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-  const cutoffHour = getHourKey(sevenDaysAgo);
-  Object.keys(agg.hourlyViews).forEach((key) => {
-    if (key < cutoffHour) {
-      delete agg.hourlyViews[key];
-    }
-  });
+  return agg;
+}
+
+/**
+ * Count an event the filter dropped, for auditing
+ */
+export function recordSuppressedEvent(
+  storeId: string,
+  reason: SuppressionReason,
+  detail?: string
+): void {
+  const now = new Date();
+
+  getPersistence().transaction(() => {
+    const aggregates = aggregatesCollection();
+    const agg = aggregates.get(storeId) || createEmptyAggregate(storeId, now);
+    const suppressed = agg.suppressed || createEmptySuppressed();
 
-  // Keep only last 30 days of daily data
-  const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-  const cutoffDay = getDayKey(thirtyDaysAgo);
-  Object.keys(agg.dailyViews).forEach((key) => {
-    if (key < cutoffDay) {
-      delete agg.dailyViews[key];
+    suppressed.total++;
+    suppressed.byReason[reason] = (suppressed.byReason[reason] || 0) + 1;
+    if (reason === "bot" && detail) {
+      suppressed.byBot[detail] = (suppressed.byBot[detail] || 0) + 1;
     }
+    suppressed.lastSuppressedAt = now.toISOString();
+
+    aggregates.put(storeId, { ...agg, suppressed });
   });
+}
 
-  saveAnalytics(db);
-  return event;
+function createEmptySuppressed(): SuppressedCounts {
+  return { total: 0, byReason: { bot: 0, rateLimited: 0, duplicate: 0 }, byBot: {} };
 }
 
 /**
  * Get analytics for a store
  */
 export function getStoreAnalytics(storeId: string): StoreAnalytics | null {
-  const db = loadAnalytics();
-  return db.aggregates[storeId] || null;
+  const stored = aggregatesCollection().get(storeId);
+  return stored ? withViewSeries(stored) : null;
+}
+
+/**
+ * Attach the last 7 days of hourly and 30 days of daily views
+ */
+function withViewSeries(stored: StoredAggregate): StoreAnalytics {
+  const { hourlyViews, dailyViews, ...agg } = stored as StoreAnalytics;
+  const now = new Date();
+
+  const viewSeries = (granularity: "hour" | "day", days: number): Record<string, number> => {
+    const { series } = queryAnalytics({
+      storeId: agg.storeId,
+      from: new Date(now.getTime() - days * 24 * 60 * 60 * 1000),
+      to: now,
+      granularity,
+      metric: "views",
+    });
+
+    const views: Record<string, number> = {};
+    for (const point of series) {
+      if (point.value > 0) {
+        views[point.bucket] = point.value;
+      }
+    }
+    return views;
+  };
+
+  return {
+    ...agg,
+    hourlyViews: viewSeries("hour", 7),
+    dailyViews: viewSeries("day", 30),
+  };
 }
 
 /**
  * Get recent events for a store
  */
 export function getRecentEvents(storeId: string, limit = 50): AnalyticsEvent[] {
-  const db = loadAnalytics();
-  return db.events
-    .filter((e) => e.storeId === storeId)
-    .slice(-limit)
-    .reverse();
+  return eventLog().query({ storeId, limit, order: "desc" });
 }
 
 /**
  * Get all store analytics (for dashboard)
  */
 export function getAllStoreAnalytics(): StoreAnalytics[] {
-  const db = loadAnalytics();
-  return Object.values(db.aggregates).sort(
-    (a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime()
-  );
+  return aggregatesCollection()
+    .list()
+    .sort((a, b) => new Date(b.lastUpdated).getTime() - new Date(a.lastUpdated).getTime())
+    .map(withViewSeries);
+}
+
+/**
+ * IDs of every store that has recorded analytics
+ */
+export function listTrackedStoreIds(): string[] {
+  return aggregatesCollection()
+    .list()
+    .map((agg) => agg.storeId)
+    .sort();
 }
 
 /**
@@ -246,21 +285,12 @@ export function getPulseData(storeId: string): {
   clicksLastHour: number;
   trend: "up" | "down" | "stable";
 } {
-  const db = loadAnalytics();
   const now = new Date();
-  const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-  const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000);
-
-  const recentEvents = db.events.filter(
-    (e) => e.storeId === storeId && new Date(e.timestamp) >= oneHourAgo
-  );
-
-  const previousEvents = db.events.filter(
-    (e) =>
-      e.storeId === storeId &&
-      new Date(e.timestamp) >= twoHoursAgo &&
-      new Date(e.timestamp) < oneHourAgo
-  );
+  const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000).toISOString();
+  const twoHoursAgo = new Date(now.getTime() - 2 * 60 * 60 * 1000).toISOString();
+
+  const recentEvents = eventLog().query({ storeId, since: oneHourAgo });
+  const previousEvents = eventLog().query({ storeId, since: twoHoursAgo, until: oneHourAgo });
 
   const viewsLastHour = recentEvents.filter((e) => e.eventType === "view").length;
   const clicksLastHour = recentEvents.filter((e) => e.eventType === "click").length;
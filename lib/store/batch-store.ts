@@ -0,0 +1,199 @@
+/**
+ * Batch Store
+ *
+ * A batch is one ingestion request covering many video URLs (e.g. a
+ * creator's last 30 TikToks). Each item records its own ingestion state;
+ * once an item's video is scraped and queued, its progress follows the
+ * job it created. Ingestion itself runs in lib/queue/batch-ingest.ts.
+ */
+
+import { getPersistence } from "@/lib/db";
+import { getJob, JobPriority, JobStatus } from "./job-store";
+import type { DuplicateMatchType } from "./content-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Ingestion state of one URL:
+ * invalid (rejected by validation) | pending → scraping → queued | failed
+ */
+export type BatchItemStatus = "invalid" | "pending" | "scraping" | "queued" | "failed";
+
+export interface BatchItem {
+  index: number; // Position in the submitted list
+  url: string;
+  platform?: string;
+  status: BatchItemStatus;
+  jobId?: string; // Set once queued
+  duplicate?: DuplicateMatchType; // Video was already ingested; jobId is its existing or re-run job
+  error?: string;
+  updatedAt: string;
+}
+
+export interface Batch {
+  id: string;
+  name?: string;
+  source: "urls" | "csv";
+  priority: JobPriority;
+  reprocess?: boolean; // Re-run videos that were already ingested
+  items: BatchItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * ingesting: URLs still being scraped; processing: jobs still running;
+ * completed: every item finished (some may have failed)
+ */
+export type BatchStatus = "ingesting" | "processing" | "completed";
+
+export interface BatchProgress {
+  total: number;
+  invalid: number;
+  ingesting: number; // Pending or being scraped
+  processing: number; // Queued jobs not finished yet
+  completed: number;
+  failed: number; // Scrape or job failed
+  cancelled: number;
+  percent: number; // Finished share of the valid items
+}
+
+export interface BatchSummary {
+  status: BatchStatus;
+  progress: BatchProgress;
+  productsFound: number;
+  failures: Array<{ index: number; url: string; error: string }>;
+}
+
+/**
+ * Batch with each item's job status and the aggregate summary, for the API
+ * and dashboard
+ */
+export interface BatchView extends Omit<Batch, "items"> {
+  items: Array<BatchItem & { jobStatus?: JobStatus }>;
+  summary: BatchSummary;
+}
+
+function batchesCollection() {
+  return getPersistence().collection<Batch>("batches");
+}
+
+/**
+ * Generate batch ID
+ */
+export function generateBatchId(): string {
+  return `batch-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+/**
+ * Save a new batch
+ */
+export function insertBatch(batch: Batch): Batch {
+  return batchesCollection().put(batch.id, batch);
+}
+
+/**
+ * Get a batch by ID
+ */
+export function getBatch(id: string): Batch | null {
+  return batchesCollection().get(id);
+}
+
+/**
+ * List batches, newest first
+ */
+export function listBatches(limit?: number): Batch[] {
+  const batches = batchesCollection()
+    .list()
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return limit ? batches.slice(0, limit) : batches;
+}
+
+/**
+ * Update one item's ingestion state
+ */
+export function updateBatchItem(
+  batchId: string,
+  index: number,
+  changes: Partial<Omit<BatchItem, "index" | "url">>
+): Batch | null {
+  return batchesCollection().update(batchId, (batch) => {
+    const now = new Date().toISOString();
+    return {
+      ...batch,
+      items: batch.items.map((item) => (item.index === index ? { ...item, ...changes, updatedAt: now } : item)),
+      updatedAt: now,
+    };
+  });
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+/**
+ * Attach job statuses to a batch's items and summarize its progress
+ */
+export function describeBatch(batch: Batch): BatchView {
+  const progress: BatchProgress = {
+    total: batch.items.length,
+    invalid: 0,
+    ingesting: 0,
+    processing: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+    percent: 0,
+  };
+  const failures: BatchSummary["failures"] = [];
+  let productsFound = 0;
+
+  const items = batch.items.map((item) => {
+    if (item.status === "invalid") {
+      progress.invalid++;
+      return item;
+    }
+    if (item.status === "pending" || item.status === "scraping") {
+      progress.ingesting++;
+      return item;
+    }
+    if (item.status === "failed" || !item.jobId) {
+      progress.failed++;
+      failures.push({ index: item.index, url: item.url, error: item.error || "Ingestion failed" });
+      return item;
+    }
+
+    const job = getJob(item.jobId);
+    const jobStatus = job?.status;
+
+    if (jobStatus === "completed") {
+      progress.completed++;
+      productsFound += job?.analysis?.products?.length || 0;
+    } else if (jobStatus === "failed" || !job) {
+      progress.failed++;
+      failures.push({ index: item.index, url: item.url, error: job?.error || "Job not found" });
+    } else if (jobStatus === "cancelled") {
+      progress.cancelled++;
+    } else {
+      progress.processing++;
+    }
+
+    return { ...item, jobStatus };
+  });
+
+  const valid = progress.total - progress.invalid;
+  const finished = progress.completed + progress.failed + progress.cancelled;
+  progress.percent = valid === 0 ? 100 : Math.round((finished / valid) * 100);
+
+  const status: BatchStatus =
+    progress.ingesting > 0 ? "ingesting" : progress.processing > 0 ? "processing" : "completed";
+
+  return { ...batch, items, summary: { status, progress, productsFound, failures } };
+}
@@ -0,0 +1,179 @@
+/**
+ * Content Store
+ *
+ * One record per distinct video we have stored, so the same video is not
+ * uploaded and run through the paid pipeline twice. A video is recognized
+ * by either:
+ *
+ * - source: the platform and video ID from detectPlatform (or the
+ *   normalized URL when the platform has no ID in it)
+ * - content hash: SHA-256 of the uploaded bytes, which also catches the
+ *   same file re-uploaded directly or reached through a different URL
+ *
+ * Every processing run of a video is a job; the record lists them oldest
+ * first. Reprocessing adds a run instead of uploading a new copy.
+ */
+
+import { getPersistence } from "@/lib/db";
+import { detectPlatform } from "@/lib/scraper/platforms";
+import { getJob, VideoJob } from "./job-store";
+import { findStoreByJobId, StoreEntry } from "./store-repository";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ContentRecord {
+  id: string; // Job ID of the first run
+  key: string; // Stored video (all runs share it)
+  bucket: string;
+  size?: number;
+  contentType: string;
+  platform?: string;
+  sourceKeys: string[]; // Every source that resolved to this video
+  contentHash?: string;
+  jobIds: string[]; // Processing runs, oldest first
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DuplicateMatchType = "source" | "hash";
+
+/**
+ * What a duplicate submission resolved to
+ */
+export interface DuplicateMatch {
+  contentId: string;
+  matchedBy: DuplicateMatchType;
+  job: VideoJob | null; // Latest run
+  store: StoreEntry | null; // Store created by the latest run, if any
+}
+
+function contentsCollection() {
+  return getPersistence().collection<ContentRecord>("contents");
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Normalize a URL for comparison: lowercase host without www, no query
+ * string, fragment or trailing slash
+ */
+export function normalizeSourceUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+    const path = parsed.pathname.replace(/\/+$/, "");
+    return `${host}${path}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * Dedupe key for a source URL: "<platform>:<videoId>" when the platform
+ * exposes an ID, otherwise "url:<normalized URL>"
+ */
+export function getSourceKey(url: string): string {
+  const { platform, videoId } = detectPlatform(url);
+  if (platform !== "unknown" && videoId) {
+    return `${platform}:${videoId}`;
+  }
+  return `url:${normalizeSourceUrl(url)}`;
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Get a content record by ID
+ */
+export function getContent(id: string): ContentRecord | null {
+  return contentsCollection().get(id);
+}
+
+/**
+ * Content already ingested from this source URL
+ */
+export function findContentBySource(url: string): ContentRecord | null {
+  const sourceKey = getSourceKey(url);
+  return contentsCollection()
+    .list()
+    .find((content) => content.sourceKeys.includes(sourceKey)) || null;
+}
+
+/**
+ * Content with these exact bytes
+ */
+export function findContentByHash(contentHash: string): ContentRecord | null {
+  return contentsCollection()
+    .list()
+    .find((content) => content.contentHash === contentHash) || null;
+}
+
+/**
+ * Latest run of a content record, with the store it produced
+ */
+export function describeDuplicate(content: ContentRecord, matchedBy: DuplicateMatchType): DuplicateMatch {
+  const latestJobId = content.jobIds[content.jobIds.length - 1] || content.id;
+  return {
+    contentId: content.id,
+    matchedBy,
+    job: getJob(latestJobId),
+    store: findStoreByJobId(latestJobId),
+  };
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Record a newly stored video and its first run
+ */
+export function registerContent(
+  job: VideoJob,
+  options: { sourceUrl?: string; contentHash?: string } = {}
+): ContentRecord {
+  const now = new Date().toISOString();
+
+  return contentsCollection().put(job.id, {
+    id: job.id,
+    key: job.key,
+    bucket: job.bucket,
+    size: job.size,
+    contentType: job.contentType,
+    platform: job.platform,
+    sourceKeys: options.sourceUrl ? [getSourceKey(options.sourceUrl)] : [],
+    contentHash: options.contentHash,
+    jobIds: [job.id],
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Remember another source URL that resolved to existing content
+ */
+export function addContentSource(contentId: string, url: string): ContentRecord | null {
+  const sourceKey = getSourceKey(url);
+  return contentsCollection().update(contentId, (content) =>
+    content.sourceKeys.includes(sourceKey)
+      ? content
+      : { ...content, sourceKeys: [...content.sourceKeys, sourceKey], updatedAt: new Date().toISOString() }
+  );
+}
+
+/**
+ * Add a processing run to existing content
+ */
+export function linkContentRun(contentId: string, jobId: string): ContentRecord | null {
+  return contentsCollection().update(contentId, (content) => ({
+    ...content,
+    jobIds: [...content.jobIds, jobId],
+    updatedAt: new Date().toISOString(),
+  }));
+}
@@ -0,0 +1,270 @@
+/**
+ * Cost Ledger
+ *
+ * One entry per paid AI call (vision, text, transcription), attributed to
+ * the job, store and creator it was made for. Entries go to an append-only
+ * log; running totals per job and per creator-month are kept next to it,
+ * so budget checks (lib/ai/cost-budget.ts) never scan the log. The
+ * /api/costs report queries the log by time range.
+ *
+ * A job's first run has no store yet, so store reports also include entries
+ * for the job behind the store.
+ */
+
+import { getPersistence, LoggedEvent } from "@/lib/db";
+import type { VideoJob } from "./job-store";
+import { findStoreByJobId, getStore } from "./store-repository";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Who an AI call is billed to
+ */
+export interface CostScope {
+  jobId?: string;
+  storeId?: string;
+  creator?: string; // Lowercase handle, e.g. "janedoe"
+}
+
+export interface CostEntry extends CostScope {
+  id: string;
+  model: string;
+  task: string; // ExtractionTask or processor stage, e.g. "transcription"
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds?: number; // Transcription is billed per minute
+  costUSD: number;
+  downgradedFrom?: string; // Model the task normally uses, when a budget forced a cheaper one
+  fallbackFrom?: string; // Task's primary model, when it failed and a fallback served the call
+  prompt?: string; // Prompt registry ref the call rendered, e.g. "extraction.hook@1.0.0"
+  at: string;
+}
+
+export interface CostFilter {
+  jobId?: string;
+  storeId?: string;
+  creator?: string;
+  since?: string; // inclusive ISO timestamp
+  until?: string; // exclusive ISO timestamp
+}
+
+export type CostGroupBy = "model" | "task" | "job" | "store" | "creator" | "day" | "prompt";
+
+export interface CostTotals {
+  costUSD: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  downgradedCalls: number;
+}
+
+export interface CostGroup extends CostTotals {
+  key: string;
+}
+
+// Log record: the entry plus the fields the event log indexes
+interface LoggedCost extends LoggedEvent {
+  entry: CostEntry;
+}
+
+// Running spend of a budget scope: "job:<jobId>" or "creator:<handle>:<YYYY-MM>"
+interface SpendTotal {
+  id: string;
+  costUSD: number;
+  calls: number;
+}
+
+function costLog() {
+  return getPersistence().eventLog<LoggedCost>("costEvents");
+}
+
+function totalsCollection() {
+  return getPersistence().collection<SpendTotal>("costTotals");
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Append a cost entry and add it to its job's and creator's running totals
+ */
+export function recordCost(entry: Omit<CostEntry, "id" | "at">): CostEntry {
+  const id = `cost-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  const recorded: CostEntry = { ...entry, id, at: new Date().toISOString() };
+
+  getPersistence().transaction(() => {
+    // Entries without a store are logged under ""
+    costLog().append({ id, storeId: recorded.storeId || "", timestamp: recorded.at, entry: recorded });
+    if (recorded.jobId) {
+      addSpend(`job:${recorded.jobId}`, recorded.costUSD);
+    }
+    if (recorded.creator) {
+      addSpend(creatorMonthKey(recorded.creator, new Date(recorded.at)), recorded.costUSD);
+    }
+  });
+
+  return recorded;
+}
+
+function addSpend(id: string, costUSD: number): void {
+  const totals = totalsCollection();
+  const updated = totals.update(id, (current) => ({
+    ...current,
+    costUSD: current.costUSD + costUSD,
+    calls: current.calls + 1,
+  }));
+  if (!updated) {
+    totals.put(id, { id, costUSD, calls: 1 });
+  }
+}
+
+function creatorMonthKey(creator: string, month: Date): string {
+  return `creator:${creator}:${month.toISOString().slice(0, 7)}`;
+}
+
+/**
+ * Cost scope for a video job: its store (for reprocess runs, the store of
+ * the original job) and creator handle
+ */
+export function jobCostScope(job: VideoJob): CostScope {
+  return {
+    jobId: job.id,
+    storeId: findStoreByJobId(job.reprocessOf || job.id)?.id,
+    creator: getJobCreator(job),
+  };
+}
+
+/**
+ * Creator handle for a job: an explicit "creator:" fairness key, the
+ * @handle in the source URL, or the scraped author
+ */
+export function getJobCreator(job: VideoJob): string | undefined {
+  if (job.fairnessKey?.startsWith("creator:")) {
+    return job.fairnessKey.slice("creator:".length);
+  }
+
+  const handle = job.originalUrl?.match(/\/@([\w.-]+)/)?.[1] || job.metadata?.author;
+  return handle ? handle.replace(/^@/, "").toLowerCase() : undefined;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Entries matching a filter, newest first. Only the partitions of the
+ * since/until range are read.
+ */
+export function listCostEntries(filter: CostFilter = {}): CostEntry[] {
+  const storeJobId = filter.storeId ? getStore(filter.storeId)?.jobId : undefined;
+
+  return costLog()
+    .query({
+      // A store's first-run entries carry no storeId, so those are filtered below
+      storeId: storeJobId ? undefined : filter.storeId,
+      since: filter.since,
+      until: filter.until,
+      order: "desc",
+    })
+    .map((record) => record.entry)
+    .filter((entry) => !filter.jobId || entry.jobId === filter.jobId)
+    .filter(
+      (entry) =>
+        !filter.storeId || entry.storeId === filter.storeId || (!!storeJobId && entry.jobId === storeJobId)
+    )
+    .filter((entry) => !filter.creator || entry.creator === filter.creator);
+}
+
+/**
+ * Total spent on a job across all of its attempts (running total)
+ */
+export function getJobSpend(jobId: string): number {
+  return totalsCollection().get(`job:${jobId}`)?.costUSD ?? 0;
+}
+
+/**
+ * Total spent for a creator in a UTC calendar month (default: this month;
+ * running total)
+ */
+export function getCreatorMonthlySpend(creator: string, month: Date = new Date()): number {
+  return totalsCollection().get(creatorMonthKey(creator, month))?.costUSD ?? 0;
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of the UTC month containing `date`
+ */
+export function monthRange(date: Date): { since: string; until: string } {
+  const since = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const until = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+  return { since: since.toISOString(), until: until.toISOString() };
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Totals over a set of entries
+ */
+export function summarizeCosts(entries: CostEntry[]): CostTotals {
+  return entries.reduce(addEntry, emptyTotals());
+}
+
+/**
+ * Totals per model, task, job, store, creator or UTC day, most expensive first
+ */
+export function groupCosts(entries: CostEntry[], groupBy: CostGroupBy): CostGroup[] {
+  const groups = new Map<string, CostTotals>();
+
+  for (const entry of entries) {
+    const key = groupKey(entry, groupBy);
+    groups.set(key, addEntry(groups.get(key) || emptyTotals(), entry));
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, totals]) => ({ key, ...totals, costUSD: roundUSD(totals.costUSD) }))
+    .sort((a, b) => b.costUSD - a.costUSD);
+}
+
+function groupKey(entry: CostEntry, groupBy: CostGroupBy): string {
+  switch (groupBy) {
+    case "model":
+      return entry.model;
+    case "task":
+      return entry.task;
+    case "job":
+      return entry.jobId || "(none)";
+    case "store":
+      return entry.storeId || "(none)";
+    case "creator":
+      return entry.creator || "(none)";
+    case "day":
+      return entry.at.slice(0, 10);
+    case "prompt":
+      return entry.prompt || "(none)";
+  }
+}
+
+function emptyTotals(): CostTotals {
+  return { costUSD: 0, calls: 0, inputTokens: 0, outputTokens: 0, downgradedCalls: 0 };
+}
+
+function addEntry(totals: CostTotals, entry: CostEntry): CostTotals {
+  return {
+    costUSD: totals.costUSD + entry.costUSD,
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + entry.inputTokens,
+    outputTokens: totals.outputTokens + entry.outputTokens,
+    downgradedCalls: totals.downgradedCalls + (entry.downgradedFrom ? 1 : 0),
+  };
+}
+
+/**
+ * Round to a hundredth of a cent for reporting
+ */
+export function roundUSD(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -5,11 +5,7 @@
  * Enables white-label storefronts for creators.
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { join } from "path";
-
-const DATA_DIR = join(process.cwd(), "data");
-const DOMAINS_FILE = join(DATA_DIR, "domains.json");
+import { getPersistence } from "@/lib/db";
 
 export interface DomainMapping {
   domain: string;
@@ -25,36 +21,8 @@ export interface DomainMapping {
   };
 }
 
-interface DomainsDatabase {
-  domains: Record<string, DomainMapping>;
-  lastUpdated: string;
-}
-
-function ensureDataDir(): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
-}
-
-function loadDomains(): DomainsDatabase {
-  ensureDataDir();
-
-  if (!existsSync(DOMAINS_FILE)) {
-    return { domains: {}, lastUpdated: new Date().toISOString() };
-  }
-
-  try {
-    const data = readFileSync(DOMAINS_FILE, "utf-8");
-    return JSON.parse(data);
-  } catch {
-    return { domains: {}, lastUpdated: new Date().toISOString() };
-  }
-}
-
-function saveDomains(db: DomainsDatabase): void {
-  ensureDataDir();
-  db.lastUpdated = new Date().toISOString();
-  writeFileSync(DOMAINS_FILE, JSON.stringify(db, null, 2));
+function domainsCollection() {
+  return getPersistence().collection<DomainMapping>("domains");
 }
 
 /**
@@ -68,7 +36,6 @@ function generateVerificationToken(): string {
  * Add a custom domain mapping
  */
 export function addDomainMapping(domain: string, storeId: string): DomainMapping {
-  const db = loadDomains();
   const normalizedDomain = domain.toLowerCase().trim();
 
   const mapping: DomainMapping = {
@@ -85,28 +52,25 @@ export function addDomainMapping(domain: string, storeId: string): DomainMapping
     },
   };
 
-  db.domains[normalizedDomain] = mapping;
-  saveDomains(db);
-
-  return mapping;
+  return domainsCollection().put(normalizedDomain, mapping);
 }
 
 /**
  * Get store ID from custom domain
  */
 export function getStoreIdFromDomain(domain: string): string | null {
-  const db = loadDomains();
+  const domains = domainsCollection();
   const normalizedDomain = domain.toLowerCase().trim();
 
   // Check exact match
-  const mapping = db.domains[normalizedDomain];
+  const mapping = domains.get(normalizedDomain);
   if (mapping && mapping.verified) {
     return mapping.storeId;
   }
 
   // Check without www prefix
   const withoutWww = normalizedDomain.replace(/^www\./, "");
-  const mappingWithoutWww = db.domains[withoutWww];
+  const mappingWithoutWww = domains.get(withoutWww);
   if (mappingWithoutWww && mappingWithoutWww.verified) {
     return mappingWithoutWww.storeId;
   }
@@ -118,62 +82,42 @@ export function getStoreIdFromDomain(domain: string): string | null {
  * Get domain mapping by domain
  */
 export function getDomainMapping(domain: string): DomainMapping | null {
-  const db = loadDomains();
-  return db.domains[domain.toLowerCase().trim()] || null;
+  return domainsCollection().get(domain.toLowerCase().trim());
 }
 
 /**
  * Get domain mapping by store ID
  */
 export function getDomainByStoreId(storeId: string): DomainMapping | null {
-  const db = loadDomains();
-  return Object.values(db.domains).find((m) => m.storeId === storeId) || null;
+  return domainsCollection().list().find((m) => m.storeId === storeId) || null;
 }
 
 /**
  * Verify a domain (after DNS check passes)
  */
 export function verifyDomain(domain: string): DomainMapping | null {
-  const db = loadDomains();
   const normalizedDomain = domain.toLowerCase().trim();
 
-  if (!db.domains[normalizedDomain]) {
-    return null;
-  }
-
-  db.domains[normalizedDomain] = {
-    ...db.domains[normalizedDomain],
+  return domainsCollection().update(normalizedDomain, (mapping) => ({
+    ...mapping,
     verified: true,
     sslStatus: "active",
     updatedAt: new Date().toISOString(),
-  };
-
-  saveDomains(db);
-  return db.domains[normalizedDomain];
+  }));
 }
 
 /**
  * Remove a domain mapping
  */
 export function removeDomainMapping(domain: string): boolean {
-  const db = loadDomains();
-  const normalizedDomain = domain.toLowerCase().trim();
-
-  if (!db.domains[normalizedDomain]) {
-    return false;
-  }
-
-  delete db.domains[normalizedDomain];
-  saveDomains(db);
-  return true;
+  return domainsCollection().delete(domain.toLowerCase().trim());
 }
 
 /**
  * Get all domain mappings
  */
 export function getAllDomainMappings(): DomainMapping[] {
-  const db = loadDomains();
-  return Object.values(db.domains);
+  return domainsCollection().list();
 }
 
 /**
@@ -0,0 +1,248 @@
+/**
+ * Experiment Results
+ *
+ * Per-variant conversion for a storefront experiment, from the raw event log.
+ * A session counts as exposed to the variant its events are tagged with
+ * (metadata.experiments) and as converted if it has a buy. Conversion rates
+ * get 95% Wilson intervals; each variant is compared to the control with a
+ * two-proportion z-test.
+ *
+ * A winner is only declared once every variant has enough sessions and
+ * the best variant beats every other variant significantly. Those
+ * comparisons are Holm-corrected, so adding variants does not raise the
+ * chance of a false winner.
+ */
+
+import { getPersistence } from "@/lib/db";
+import type { AnalyticsEvent } from "./analytics-store";
+import type { Experiment } from "./experiment-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface VariantResult {
+  variantId: string;
+  name: string;
+  isControl: boolean;
+  sessions: number;
+  clickedSessions: number;
+  convertedSessions: number;
+  conversionRate: number; // 0-1
+  interval: Interval; // Wilson interval on conversionRate
+  // Against the control (omitted for the control itself)
+  lift?: number; // Relative, e.g. 0.12 = +12%
+  pValue?: number; // Two-sided
+}
+
+export type ExperimentDecision = "winner" | "insufficientData" | "noSignificantDifference";
+
+export interface ExperimentResults {
+  experimentId: string;
+  storeId: string;
+  status: Experiment["status"];
+  from: string;
+  to: string;
+  confidenceLevel: number;
+  minSessionsPerVariant: number;
+  totalSessions: number;
+  variants: VariantResult[];
+  decision: ExperimentDecision;
+  winner: string | null; // variantId
+}
+
+export const EXPERIMENT_RESULTS_CONFIG = {
+  confidenceLevel: 0.95,
+  minSessionsPerVariant: parseInt(process.env.EXPERIMENT_MIN_SESSIONS || "100"),
+};
+
+// Two-sided critical value for the 95% confidence level
+const Z_CRITICAL = 1.959964;
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Wilson score interval for a binomial proportion
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_CRITICAL): Interval {
+  if (trials === 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const margin = (z / denominator) * Math.sqrt((p * (1 - p)) / trials + z2 / (4 * trials * trials));
+
+  return { lower: Math.max(0, center - margin), upper: Math.min(1, center + margin) };
+}
+
+/**
+ * Two-sided p-value of a pooled two-proportion z-test
+ */
+export function twoProportionPValue(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): number {
+  if (trialsA === 0 || trialsB === 0) {
+    return 1;
+  }
+
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+  if (standardError === 0) {
+    return 1;
+  }
+
+  const z = (successesA / trialsA - successesB / trialsB) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Standard normal CDF (Abramowitz-Stegun 7.1.26 erf approximation)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Compute an experiment's results from its tagged events
+ */
+export function getExperimentResults(experiment: Experiment, now: Date = new Date()): ExperimentResults {
+  const from = experiment.startedAt || experiment.createdAt;
+  const to = experiment.stoppedAt || now.toISOString();
+
+  // sessionId -> variant and what the session did
+  const sessions = new Map<string, { variantId: string; clicked: boolean; converted: boolean }>();
+
+  if (experiment.startedAt) {
+    const events = getPersistence()
+      .eventLog<AnalyticsEvent>("analyticsEvents")
+      .iterate({ storeId: experiment.storeId, since: from, until: to, order: "asc" });
+
+    for (const event of events) {
+      const variantId = event.metadata?.experiments?.[experiment.id];
+      const sessionId = event.metadata?.sessionId;
+      if (!variantId || !sessionId) {
+        continue;
+      }
+
+      let session = sessions.get(sessionId);
+      if (!session) {
+        session = { variantId, clicked: false, converted: false };
+        sessions.set(sessionId, session);
+      }
+      if (event.eventType === "click") {
+        session.clicked = true;
+      } else if (event.eventType === "buy") {
+        session.converted = true;
+      }
+    }
+  }
+
+  const tallies = new Map(
+    experiment.variants.map((variant) => [variant.id, { sessions: 0, clicked: 0, converted: 0 }])
+  );
+  sessions.forEach((session) => {
+    const tally = tallies.get(session.variantId);
+    if (!tally) {
+      return; // Variant no longer in the definition
+    }
+    tally.sessions++;
+    if (session.clicked) tally.clicked++;
+    if (session.converted) tally.converted++;
+  });
+
+  const control = tallies.get(experiment.variants[0].id)!;
+  const variants: VariantResult[] = experiment.variants.map((variant, index) => {
+    const tally = tallies.get(variant.id)!;
+    const conversionRate = tally.sessions > 0 ? tally.converted / tally.sessions : 0;
+    const result: VariantResult = {
+      variantId: variant.id,
+      name: variant.name,
+      isControl: index === 0,
+      sessions: tally.sessions,
+      clickedSessions: tally.clicked,
+      convertedSessions: tally.converted,
+      conversionRate,
+      interval: wilsonInterval(tally.converted, tally.sessions),
+    };
+
+    if (index > 0) {
+      const controlRate = control.sessions > 0 ? control.converted / control.sessions : 0;
+      result.lift = controlRate > 0 ? (conversionRate - controlRate) / controlRate : undefined;
+      result.pValue = twoProportionPValue(tally.converted, tally.sessions, control.converted, control.sessions);
+    }
+    return result;
+  });
+
+  const { decision, winner } = decide(variants);
+
+  return {
+    experimentId: experiment.id,
+    storeId: experiment.storeId,
+    status: experiment.status,
+    from,
+    to,
+    confidenceLevel: EXPERIMENT_RESULTS_CONFIG.confidenceLevel,
+    minSessionsPerVariant: EXPERIMENT_RESULTS_CONFIG.minSessionsPerVariant,
+    totalSessions: sessions.size,
+    variants,
+    decision,
+    winner,
+  };
+}
+
+/**
+ * Whether every one of several tests is significant at family-wise error
+ * rate `alpha` under Holm's step-down correction: the i-th smallest of m
+ * p-values (counting from 0) must be below alpha / (m - i)
+ */
+export function holmRejectsAll(pValues: number[], alpha: number): boolean {
+  return [...pValues].sort((a, b) => a - b).every((pValue, index, sorted) => pValue < alpha / (sorted.length - index));
+}
+
+/**
+ * The best variant wins if it beats every other variant at the
+ * confidence level, Holm-corrected over those comparisons (each variant
+ * needing the minimum sample first)
+ */
+function decide(variants: VariantResult[]): { decision: ExperimentDecision; winner: string | null } {
+  if (variants.some((variant) => variant.sessions < EXPERIMENT_RESULTS_CONFIG.minSessionsPerVariant)) {
+    return { decision: "insufficientData", winner: null };
+  }
+
+  const best = variants.reduce((a, b) => (b.conversionRate > a.conversionRate ? b : a));
+  const others = variants.filter((other) => other !== best);
+  const alpha = 1 - EXPERIMENT_RESULTS_CONFIG.confidenceLevel;
+  const beatsAll =
+    others.every((other) => best.conversionRate > other.conversionRate) &&
+    holmRejectsAll(
+      others.map((other) =>
+        twoProportionPValue(best.convertedSessions, best.sessions, other.convertedSessions, other.sessions)
+      ),
+      alpha
+    );
+
+  return beatsAll
+    ? { decision: "winner", winner: best.variantId }
+    : { decision: "noSignificantDifference", winner: null };
+}
@@ -0,0 +1,401 @@
+/**
+ * Storefront Experiment Store
+ *
+ * A/B experiment definitions per store, and sticky variant assignment.
+ * Each experiment changes one thing about the storefront:
+ *
+ * - theme: render with a storefront theme (e.g. "velolume-day")
+ * - productOrder: show the listed product IDs first, in that order
+ * - ctaLabel: replace the OneTapBuyButton label
+ *
+ * A session's variant is a hash of the experiment ID and its
+ * velolume_session ID, so the same session always sees the same variant
+ * without storing assignments. At most one experiment of each kind can run
+ * per store at a time.
+ */
+
+import { createHash } from "crypto";
+import { getPersistence } from "@/lib/db";
+import { getStore } from "./store-repository";
+import { themes } from "@/lib/storefront/themes";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExperimentKind = "theme" | "productOrder" | "ctaLabel";
+
+export type ExperimentStatus = "draft" | "running" | "stopped";
+
+export interface ExperimentVariant {
+  id: string; // e.g. "control", "day"
+  name: string;
+  weight: number; // Relative share of traffic
+  theme?: string; // Theme slug (theme experiments)
+  productOrder?: string[]; // Product IDs to show first (productOrder experiments)
+  ctaLabel?: string; // Buy button label (ctaLabel experiments)
+}
+
+export interface Experiment {
+  id: string;
+  storeId: string;
+  name: string;
+  kind: ExperimentKind;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[]; // First variant is the control
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  stoppedAt?: string;
+}
+
+export interface ExperimentInput {
+  name: string;
+  kind: ExperimentKind;
+  variants: ExperimentVariant[];
+}
+
+export type ExperimentUpdate = Partial<Pick<Experiment, "name" | "status" | "variants">>;
+
+export type ExperimentErrorCode = "not_found" | "invalid" | "conflict";
+
+export interface ExperimentMutationResult {
+  success: boolean;
+  experiment?: Experiment;
+  error?: string;
+  code?: ExperimentErrorCode;
+}
+
+/**
+ * What a session sees on a storefront: the variant of each running
+ * experiment, plus the overrides those variants apply
+ */
+export interface StorefrontVariants {
+  assignments: Record<string, string>; // experimentId -> variantId
+  theme?: string;
+  productOrder?: string[];
+  ctaLabel?: string;
+}
+
+export const EXPERIMENT_KINDS: ExperimentKind[] = ["theme", "productOrder", "ctaLabel"];
+
+const MAX_VARIANTS = 5;
+const MAX_CTA_LABEL_LENGTH = 40;
+
+function experimentsCollection() {
+  return getPersistence().collection<Experiment>("experiments");
+}
+
+/**
+ * Generate experiment ID
+ */
+function generateExperimentId(): string {
+  return `exp-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Get an experiment, scoped to its store
+ */
+export function getExperiment(storeId: string, experimentId: string): Experiment | null {
+  const experiment = experimentsCollection().get(experimentId);
+  return experiment && experiment.storeId === storeId ? experiment : null;
+}
+
+/**
+ * List a store's experiments, newest first
+ */
+export function listExperiments(storeId: string): Experiment[] {
+  return experimentsCollection()
+    .list()
+    .filter((experiment) => experiment.storeId === storeId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/**
+ * Running experiments for a store
+ */
+export function getRunningExperiments(storeId: string): Experiment[] {
+  return listExperiments(storeId).filter((experiment) => experiment.status === "running");
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Create a draft experiment
+ */
+export function createExperiment(storeId: string, input: ExperimentInput): ExperimentMutationResult {
+  if (!getStore(storeId)) {
+    return { success: false, code: "not_found", error: "Store not found" };
+  }
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) {
+    return { success: false, code: "invalid", error: "name is required" };
+  }
+  if (!EXPERIMENT_KINDS.includes(input.kind)) {
+    return {
+      success: false,
+      code: "invalid",
+      error: `kind must be one of: ${EXPERIMENT_KINDS.join(", ")}`,
+    };
+  }
+
+  const invalid = validateVariants(storeId, input.kind, input.variants);
+  if (invalid) {
+    return { success: false, code: "invalid", error: invalid };
+  }
+
+  const now = new Date().toISOString();
+  const experiment: Experiment = {
+    id: generateExperimentId(),
+    storeId,
+    name,
+    kind: input.kind,
+    status: "draft",
+    variants: input.variants.map(normalizeVariant),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return { success: true, experiment: experimentsCollection().put(experiment.id, experiment) };
+}
+
+/**
+ * Rename, edit variants (drafts only) or change status.
+ * draft -> running -> stopped; a stopped experiment cannot restart, since
+ * its results would mix two runs.
+ */
+export function updateExperiment(
+  storeId: string,
+  experimentId: string,
+  updates: ExperimentUpdate
+): ExperimentMutationResult {
+  const current = getExperiment(storeId, experimentId);
+  if (!current) {
+    return { success: false, code: "not_found", error: "Experiment not found" };
+  }
+
+  const next: Experiment = { ...current, updatedAt: new Date().toISOString() };
+
+  if (updates.name !== undefined) {
+    if (typeof updates.name !== "string" || !updates.name.trim()) {
+      return { success: false, code: "invalid", error: "name cannot be empty" };
+    }
+    next.name = updates.name.trim();
+  }
+
+  if (updates.variants !== undefined) {
+    if (current.status !== "draft") {
+      return { success: false, code: "conflict", error: "Variants can only be edited while draft" };
+    }
+    const invalid = validateVariants(storeId, current.kind, updates.variants);
+    if (invalid) {
+      return { success: false, code: "invalid", error: invalid };
+    }
+    next.variants = updates.variants.map(normalizeVariant);
+  }
+
+  if (updates.status !== undefined && updates.status !== current.status) {
+    if (updates.status === "running") {
+      if (current.status !== "draft") {
+        return { success: false, code: "conflict", error: "Only draft experiments can be started" };
+      }
+      const clash = getRunningExperiments(storeId).find((e) => e.kind === current.kind);
+      if (clash) {
+        return {
+          success: false,
+          code: "conflict",
+          error: `Experiment ${clash.id} is already running a ${current.kind} test on this store`,
+        };
+      }
+      next.startedAt = next.updatedAt;
+    } else if (updates.status === "stopped") {
+      if (current.status !== "running") {
+        return { success: false, code: "conflict", error: "Only running experiments can be stopped" };
+      }
+      next.stoppedAt = next.updatedAt;
+    } else {
+      return { success: false, code: "conflict", error: `Cannot move a ${current.status} experiment back to draft` };
+    }
+    next.status = updates.status;
+  }
+
+  return { success: true, experiment: experimentsCollection().put(experimentId, next) };
+}
+
+/**
+ * Delete an experiment (its tagged events are kept)
+ */
+export function deleteExperiment(storeId: string, experimentId: string): boolean {
+  if (!getExperiment(storeId, experimentId)) {
+    return false;
+  }
+  return experimentsCollection().delete(experimentId);
+}
+
+/**
+ * HTTP status for an experiment mutation error
+ */
+export function experimentErrorStatus(code: ExperimentErrorCode | undefined): number {
+  switch (code) {
+    case "not_found":
+      return 404;
+    case "conflict":
+      return 409;
+    case "invalid":
+      return 400;
+    default:
+      return 500;
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check a variant list for an experiment kind. Returns an error message or null.
+ */
+function validateVariants(
+  storeId: string,
+  kind: ExperimentKind,
+  variants: ExperimentVariant[] | undefined
+): string | null {
+  if (!Array.isArray(variants) || variants.length < 2 || variants.length > MAX_VARIANTS) {
+    return `variants must be an array of 2 to ${MAX_VARIANTS} variants`;
+  }
+
+  const ids = new Set<string>();
+  const productIds = new Set((getStore(storeId)?.products || []).map((product) => product.id));
+
+  for (const variant of variants) {
+    if (!variant || typeof variant.id !== "string" || !/^[a-z0-9_-]{1,32}$/i.test(variant.id)) {
+      return "Each variant needs an id of up to 32 letters, digits, - or _";
+    }
+    if (ids.has(variant.id)) {
+      return `Duplicate variant id: ${variant.id}`;
+    }
+    ids.add(variant.id);
+
+    if (variant.weight !== undefined && !(typeof variant.weight === "number" && variant.weight > 0)) {
+      return `Variant ${variant.id}: weight must be a positive number`;
+    }
+
+    switch (kind) {
+      case "theme":
+        if (!variant.theme || !themes[variant.theme]) {
+          return `Variant ${variant.id}: theme must be one of ${Object.keys(themes).join(", ")}`;
+        }
+        break;
+      case "productOrder": {
+        if (!Array.isArray(variant.productOrder)) {
+          return `Variant ${variant.id}: productOrder must be an array of product IDs`;
+        }
+        const unknown = variant.productOrder.filter((id) => !productIds.has(id));
+        if (unknown.length > 0) {
+          return `Variant ${variant.id}: unknown products ${unknown.join(", ")}`;
+        }
+        break;
+      }
+      case "ctaLabel":
+        if (
+          typeof variant.ctaLabel !== "string" ||
+          !variant.ctaLabel.trim() ||
+          variant.ctaLabel.length > MAX_CTA_LABEL_LENGTH
+        ) {
+          return `Variant ${variant.id}: ctaLabel must be 1-${MAX_CTA_LABEL_LENGTH} characters`;
+        }
+        break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the fields a variant's kind uses
+ */
+function normalizeVariant(variant: ExperimentVariant): ExperimentVariant {
+  return {
+    id: variant.id,
+    name: variant.name?.trim() || variant.id,
+    weight: variant.weight ?? 1,
+    ...(variant.theme !== undefined && { theme: variant.theme }),
+    ...(variant.productOrder !== undefined && { productOrder: variant.productOrder }),
+    ...(variant.ctaLabel !== undefined && { ctaLabel: variant.ctaLabel.trim() }),
+  };
+}
+
+// ============================================================================
+// Assignment
+// ============================================================================
+
+/**
+ * Sticky variant for a session: the same experiment and session always
+ * land in the same weighted bucket
+ */
+export function assignVariant(experiment: Experiment, sessionId: string): ExperimentVariant {
+  const hash = createHash("sha256").update(`${experiment.id}:${sessionId}`).digest();
+  const point = hash.readUInt32BE(0) / 0x100000000; // [0, 1)
+
+  const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let cumulative = 0;
+  for (const variant of experiment.variants) {
+    cumulative += variant.weight / totalWeight;
+    if (point < cumulative) {
+      return variant;
+    }
+  }
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+/**
+ * Variants of every running experiment for a session, and what they change
+ */
+export function getStorefrontVariants(storeId: string, sessionId: string | null | undefined): StorefrontVariants {
+  const result: StorefrontVariants = { assignments: {} };
+  if (!sessionId) {
+    return result;
+  }
+
+  for (const experiment of getRunningExperiments(storeId)) {
+    const variant = assignVariant(experiment, sessionId);
+    result.assignments[experiment.id] = variant.id;
+
+    switch (experiment.kind) {
+      case "theme":
+        result.theme = variant.theme;
+        break;
+      case "productOrder":
+        result.productOrder = variant.productOrder;
+        break;
+      case "ctaLabel":
+        result.ctaLabel = variant.ctaLabel;
+        break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reorder items so the listed IDs come first, in the listed order.
+ * Unlisted items keep their original order after them.
+ */
+export function applyProductOrder<T extends { id: string }>(items: T[], order: string[]): T[] {
+  const rank = new Map(order.map((id, index) => [id, index]));
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const rankA = rank.get(a.item.id) ?? order.length + a.index;
+      const rankB = rank.get(b.item.id) ?? order.length + b.index;
+      return rankA - rankB;
+    })
+    .map(({ item }) => item);
+}
@@ -0,0 +1,194 @@
+/**
+ * Job State Machine
+ *
+ * The pipeline stages a video job moves through, which transitions are
+ * allowed, and per-stage timings.
+ *
+ *   queued → processing → uploaded → transcribing → analyzing → generating → completed
+ *
+ * - processing may skip straight to transcribing (simulated jobs never upload)
+ * - an AI stage can fall back to uploaded when processing fails, so the
+ *   job can be retried
+ * - a retryable error moves the job to retrying until its next attempt,
+ *   which starts again from processing
+ * - any non-terminal stage can be paused; resuming puts the job back in
+ *   the queue (completed stages are reused from checkpoints)
+ * - any non-terminal stage can fail or be cancelled
+ * - completed, failed and cancelled are terminal: no further updates are accepted.
+ *   The one exception is requeueing a failed job from the dead-letter
+ *   list, which reopens it as queued (see canReopen)
+ *
+ * Older jobs and log entries may carry statuses from the creator-flow and
+ * "Noir log" vocabularies; toJobStatus maps those onto the stages above.
+ *
+ * Pure module (no persistence) so dashboard components can import it.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JobStatus =
+  | "queued" // Waiting for a worker
+  | "processing" // Picked up; fetching the source video
+  | "uploaded" // Source stored, waiting for AI processing
+  | "transcribing"
+  | "analyzing"
+  | "generating" // Building the storefront from the analysis
+  | "retrying" // Waiting for the next attempt after a retryable error
+  | "paused" // Stopped on request; resumes from the queue
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+/**
+ * Statuses from earlier vocabularies, still found in stored jobs
+ */
+export type LegacyJobStatus =
+  // Creator flow
+  | "fetching_source"
+  | "removing_watermark"
+  | "transcribing_audio"
+  | "generating_soho_vibe"
+  // Velolume Noir technical log
+  | "ingest_start"
+  | "ai_whisper"
+  | "ai_vision"
+  | "soho_gen";
+
+export interface JobStageTiming {
+  stage: JobStatus;
+  startedAt: string;
+  endedAt?: string; // Unset while the job is in this stage
+}
+
+export interface StageDuration {
+  stage: JobStatus;
+  durationMs: number; // Summed over every visit to the stage
+  active: boolean; // The job is currently in this stage
+}
+
+// ============================================================================
+// Transitions
+// ============================================================================
+
+export const INITIAL_JOB_STATUS: JobStatus = "queued";
+
+export const JOB_STATUSES: JobStatus[] = [
+  "queued",
+  "processing",
+  "uploaded",
+  "transcribing",
+  "analyzing",
+  "generating",
+  "retrying",
+  "paused",
+  "completed",
+  "failed",
+  "cancelled",
+];
+
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  queued: ["processing", "retrying", "paused", "failed", "cancelled"],
+  processing: ["uploaded", "transcribing", "retrying", "paused", "failed", "cancelled"],
+  uploaded: ["transcribing", "retrying", "paused", "failed", "cancelled"],
+  transcribing: ["analyzing", "uploaded", "retrying", "paused", "failed", "cancelled"],
+  analyzing: ["generating", "uploaded", "retrying", "paused", "failed", "cancelled"],
+  generating: ["completed", "uploaded", "retrying", "paused", "failed", "cancelled"],
+  retrying: ["processing", "paused", "failed", "cancelled"],
+  paused: ["queued", "cancelled"],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+export const LEGACY_STATUS_MAP: Record<LegacyJobStatus, JobStatus> = {
+  fetching_source: "processing",
+  removing_watermark: "processing",
+  transcribing_audio: "transcribing",
+  generating_soho_vibe: "generating",
+  ingest_start: "processing",
+  ai_whisper: "transcribing",
+  ai_vision: "analyzing",
+  soho_gen: "generating",
+};
+
+/**
+ * Whether a status accepts no further updates
+ */
+export function isTerminalStatus(status: JobStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Whether a job may move from one status to another
+ */
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether a finished job may be reopened as queued (dead-letter requeue)
+ */
+export function canReopen(status: JobStatus): boolean {
+  return status === "failed";
+}
+
+/**
+ * Statuses reachable from a status
+ */
+export function nextStatuses(status: JobStatus): JobStatus[] {
+  return [...TRANSITIONS[status]];
+}
+
+/**
+ * Current or legacy status name to a stage. Null for unknown names.
+ */
+export function toJobStatus(status: string): JobStatus | null {
+  if ((JOB_STATUSES as string[]).includes(status)) {
+    return status as JobStatus;
+  }
+  return LEGACY_STATUS_MAP[status as LegacyJobStatus] || null;
+}
+
+// ============================================================================
+// Stage Timings
+// ============================================================================
+
+/**
+ * Close the open stage and, unless the job is finished, open the next one
+ */
+export function recordStageTransition(
+  stages: JobStageTiming[] | undefined,
+  to: JobStatus,
+  at: string
+): JobStageTiming[] {
+  const next = (stages || []).map((timing) => (timing.endedAt ? timing : { ...timing, endedAt: at }));
+  if (!isTerminalStatus(to)) {
+    next.push({ stage: to, startedAt: at });
+  }
+  return next;
+}
+
+/**
+ * Time spent in each stage, in the order stages were first entered.
+ * The open stage is measured up to `now`.
+ */
+export function getStageDurations(
+  stages: JobStageTiming[] | undefined,
+  now: Date = new Date()
+): StageDuration[] {
+  const durations = new Map<JobStatus, StageDuration>();
+
+  for (const timing of stages || []) {
+    const end = timing.endedAt ? new Date(timing.endedAt) : now;
+    const elapsed = Math.max(0, end.getTime() - new Date(timing.startedAt).getTime());
+
+    const duration = durations.get(timing.stage) || { stage: timing.stage, durationMs: 0, active: false };
+    duration.durationMs += elapsed;
+    duration.active = duration.active || !timing.endedAt;
+    durations.set(timing.stage, duration);
+  }
+
+  return Array.from(durations.values());
+}
@@ -1,34 +1,38 @@
 /**
  * Job Status Store
  *
- * Simple JSON file-based storage for job statuses.
- * Will migrate to Supabase in Phase 2.
+ * Job records behind the pluggable persistence layer (lib/db).
+ * Backed by data/jobs.json or SQLite depending on PERSISTENCE_DRIVER.
+ * Creation, updates (including status changes) and log entries are
+ * published on the event bus (channels `jobs` and `job:<id>`) for live
+ * dashboards.
+ *
+ * Status changes go through the job state machine (job-state-machine.ts):
+ * invalid transitions and any update to a finished job are rejected, and
+ * every transition is recorded in the job's stage timings. Jobs stored
+ * with legacy statuses are mapped onto the current stages when read.
+ * Failed jobs can only come back through reopenJob (dead-letter requeue).
+ * Reaching completed, failed or cancelled also fires the matching webhook
+ * event (job.completed, job.failed, job.cancelled).
  */
 
-import { readFileSync, writeFileSync, existsSync } from "fs";
-import { join } from "path";
-
-const DATA_DIR = join(process.cwd(), "data");
-const JOBS_FILE = join(DATA_DIR, "jobs.json");
-
-export type JobStatus =
-  | "queued"
-  | "processing"
-  | "uploaded"
-  | "transcribing"
-  | "analyzing"
-  | "completed"
-  | "failed"
-  // Velolume-specific statuses for creator flow
-  | "fetching_source"
-  | "removing_watermark"
-  | "transcribing_audio"
-  | "generating_soho_vibe"
-  // Velolume Noir technical log statuses
-  | "ingest_start"
-  | "ai_whisper"
-  | "ai_vision"
-  | "soho_gen";
+import { getPersistence } from "@/lib/db";
+import { publish } from "@/lib/events/event-bus";
+import { emitWebhookEvent } from "@/lib/webhooks/webhook-dispatcher";
+import type { WebhookEventType } from "@/lib/webhooks/webhook-store";
+import {
+  JobStatus,
+  JobStageTiming,
+  INITIAL_JOB_STATUS,
+  JOB_STATUSES,
+  canReopen,
+  canTransition,
+  isTerminalStatus,
+  recordStageTransition,
+  toJobStatus,
+} from "./job-state-machine";
+
+export type { JobStatus, JobStageTiming } from "./job-state-machine";
 
 export interface LogEntry {
   timestamp: string;
@@ -37,6 +41,20 @@ export interface LogEntry {
   details?: string;
 }
 
+/**
+ * Local queue lane: creator-initiated work ahead of backfills
+ */
+export type JobPriority = "high" | "normal" | "low";
+
+export interface JobFailure {
+  attempt: number;
+  at: string;
+  stage: JobStatus; // Where the attempt failed
+  error: string;
+  reason: string; // Classification, e.g. "http_429"
+  retryable: boolean;
+}
+
 export interface VideoJob {
   id: string;
   status: JobStatus;
@@ -51,6 +69,20 @@ export interface VideoJob {
   createdAt: string;
   updatedAt: string;
   error?: string;
+  // One entry per stage visit, for per-stage durations
+  stages?: JobStageTiming[];
+  // Local queue scheduling (see lib/queue/local-queue.ts)
+  priority?: JobPriority;
+  fairnessKey?: string; // Store or creator; jobs with the same key run FIFO
+  batchId?: string; // Batch ingestion that created the job (see batch-store.ts)
+  contentId?: string; // Stored video this job processes (see content-store.ts)
+  reprocessOf?: string; // Job this run re-processes for comparison (see lib/queue/reprocess.ts)
+  // Worker run currently processing the job (see lib/queue/worker.ts)
+  runId?: string;
+  // Retry bookkeeping (see lib/queue/retry-policy.ts)
+  attempts?: number; // Processing attempts started
+  nextAttemptAt?: string; // Set while retrying
+  failures?: JobFailure[];
   // Technical log for Velolume Noir display
   log?: LogEntry[];
   metadata?: {
@@ -119,141 +151,282 @@ export interface VideoJob {
       framesAnalyzed: number;
       audioDuration: number;
       model: string;
+      processorVersion?: string; // Missing on jobs processed before versioning
     };
   };
 }
 
-interface JobsDatabase {
-  jobs: Record<string, VideoJob>;
-  lastUpdated: string;
+export type JobInput = Omit<VideoJob, "status" | "stages" | "createdAt" | "updatedAt">;
+
+// Status and stage timings only change through transitions
+export type JobUpdate = Partial<Omit<VideoJob, "id" | "stages" | "createdAt" | "updatedAt">>;
+
+export type JobErrorCode = "not_found" | "invalid_transition" | "terminal" | "in_progress" | "superseded";
+
+export interface JobMutationResult {
+  success: boolean;
+  job?: VideoJob;
+  error?: string;
+  code?: JobErrorCode;
 }
 
-function ensureDataDir(): void {
-  if (!existsSync(DATA_DIR)) {
-    const { mkdirSync } = require("fs");
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
+interface JobMutationFailure {
+  code: JobErrorCode;
+  error: string;
 }
 
-function loadJobs(): JobsDatabase {
-  ensureDataDir();
+// Moving to these statuses ends the job's worker run, if any
+const RUN_RELEASING_STATUSES: JobStatus[] = ["queued", "retrying", "paused", "completed", "failed", "cancelled"];
 
-  if (!existsSync(JOBS_FILE)) {
-    return { jobs: {}, lastUpdated: new Date().toISOString() };
+const WEBHOOK_EVENTS: Partial<Record<JobStatus, WebhookEventType>> = {
+  completed: "job.completed",
+  failed: "job.failed",
+  cancelled: "job.cancelled",
+};
+
+function jobsCollection() {
+  return getPersistence().collection<VideoJob>("jobs");
+}
+
+/**
+ * Notify live subscribers about a job change
+ */
+function publishJob(type: "created" | "updated" | "log", job: VideoJob | null): void {
+  if (job) {
+    publish(["jobs", `job:${job.id}`], type, { job });
   }
+}
 
-  try {
-    const data = readFileSync(JOBS_FILE, "utf-8");
-    return JSON.parse(data);
-  } catch {
-    return { jobs: {}, lastUpdated: new Date().toISOString() };
+/**
+ * Map legacy statuses on a stored job (and its log) onto current stages.
+ * Unknown statuses read as failed, since nothing can resume them.
+ */
+function normalizeJob(job: VideoJob): VideoJob {
+  const status = toJobStatus(job.status) || "failed";
+  const needsLogMapping = job.log?.some((entry) => !JOB_STATUSES.includes(entry.status));
+  if (status === job.status && !needsLogMapping) {
+    return job;
   }
+
+  return {
+    ...job,
+    status,
+    log: job.log?.map((entry) => ({ ...entry, status: toJobStatus(entry.status) || "failed" })),
+  };
 }
 
-function saveJobs(db: JobsDatabase): void {
-  ensureDataDir();
-  db.lastUpdated = new Date().toISOString();
-  writeFileSync(JOBS_FILE, JSON.stringify(db, null, 2));
+/**
+ * Apply changes to a job, moving it to `status` if given. Rejected if the
+ * job is finished, `guard` objects, or the state machine does not allow
+ * the transition.
+ */
+function mutateJob(
+  id: string,
+  status: JobStatus | undefined,
+  apply: (job: VideoJob, now: string) => VideoJob,
+  guard?: (job: VideoJob) => JobMutationFailure | undefined
+): JobMutationResult {
+  const outcome: { failure?: JobMutationFailure; from?: JobStatus } = {};
+
+  const updated = jobsCollection().update(id, (stored) => {
+    const job = normalizeJob(stored);
+    const now = new Date().toISOString();
+    outcome.from = job.status;
+
+    if (isTerminalStatus(job.status)) {
+      outcome.failure = { code: "terminal", error: `Job is ${job.status} and cannot be updated` };
+      return stored;
+    }
+    const objection = guard?.(job);
+    if (objection) {
+      outcome.failure = objection;
+      return stored;
+    }
+    if (status && status !== job.status && !canTransition(job.status, status)) {
+      outcome.failure = {
+        code: "invalid_transition",
+        error: `Cannot move job from ${job.status} to ${status}`,
+      };
+      return stored;
+    }
+
+    const next = apply(job, now);
+    if (status && status !== job.status) {
+      next.status = status;
+      next.stages = recordStageTransition(job.stages, status, now);
+      if (RUN_RELEASING_STATUSES.includes(status)) {
+        next.runId = undefined;
+      }
+    }
+    return { ...next, updatedAt: now };
+  });
+
+  if (!updated) {
+    return { success: false, code: "not_found", error: "Job not found" };
+  }
+  if (outcome.failure) {
+    return { success: false, ...outcome.failure };
+  }
+
+  const webhookEvent = status && status !== outcome.from ? WEBHOOK_EVENTS[status] : undefined;
+  if (webhookEvent) {
+    emitWebhookEvent(webhookEvent, { job: updated });
+  }
+  return { success: true, job: updated };
 }
 
 /**
- * Create a new job
+ * Create a new job (always starts queued)
  */
-export function createJob(job: Omit<VideoJob, "createdAt" | "updatedAt">): VideoJob {
-  const db = loadJobs();
+export function createJob(job: JobInput): VideoJob {
   const now = new Date().toISOString();
 
   const newJob: VideoJob = {
     ...job,
+    status: INITIAL_JOB_STATUS,
+    stages: [{ stage: INITIAL_JOB_STATUS, startedAt: now }],
     createdAt: now,
     updatedAt: now,
   };
 
-  db.jobs[job.id] = newJob;
-  saveJobs(db);
-
-  return newJob;
+  const created = jobsCollection().put(job.id, newJob);
+  publishJob("created", created);
+  return created;
 }
 
 /**
  * Get a job by ID
  */
 export function getJob(id: string): VideoJob | null {
-  const db = loadJobs();
-  return db.jobs[id] || null;
+  const job = jobsCollection().get(id);
+  return job ? normalizeJob(job) : null;
 }
 
 /**
- * Update a job
+ * Update a job. A `status` in the updates is applied as a transition.
  */
-export function updateJob(id: string, updates: Partial<VideoJob>): VideoJob | null {
-  const db = loadJobs();
+export function updateJob(id: string, updates: JobUpdate): JobMutationResult {
+  const { status, ...fields } = updates;
+  const result = mutateJob(id, status, (job) => ({ ...job, ...fields }));
 
-  if (!db.jobs[id]) {
-    return null;
-  }
+  publishJob("updated", result.job || null);
+  return result;
+}
 
-  db.jobs[id] = {
-    ...db.jobs[id],
-    ...updates,
-    updatedAt: new Date().toISOString(),
-  };
+/**
+ * Start a worker run on a job, moving it to `status`. Rejected while
+ * another run holds the job; runs end when the job is requeued, retried,
+ * paused or finished, or when an update clears `runId`.
+ */
+export function startJobRun(id: string, runId: string, status: JobStatus, updates: JobUpdate = {}): JobMutationResult {
+  const result = mutateJob(
+    id,
+    status,
+    (job) => ({ ...job, ...updates, runId }),
+    (job) => (job.runId ? { code: "in_progress", error: "Job is already being processed" } : undefined)
+  );
+
+  publishJob("updated", result.job || null);
+  return result;
+}
 
-  saveJobs(db);
-  return db.jobs[id];
+/**
+ * Update a job on behalf of a worker run. Rejected once the run no longer
+ * holds the job (paused, cancelled or taken over by another run).
+ */
+export function updateJobRun(id: string, runId: string, updates: JobUpdate): JobMutationResult {
+  const { status, ...fields } = updates;
+  const result = mutateJob(
+    id,
+    status,
+    (job) => ({ ...job, ...fields }),
+    (job) => (job.runId !== runId ? { code: "superseded", error: "Job is no longer held by this run" } : undefined)
+  );
+
+  publishJob("updated", result.job || null);
+  return result;
 }
 
 /**
- * Update job status
+ * Move a job to a new status
  */
-export function updateJobStatus(id: string, status: JobStatus, error?: string): VideoJob | null {
+export function updateJobStatus(id: string, status: JobStatus, error?: string): JobMutationResult {
   return updateJob(id, { status, error });
 }
 
 /**
- * Append a log entry to a job
+ * Append a log entry to a job, moving it to the entry's status
  */
 export function appendJobLog(
   id: string,
   status: JobStatus,
   message: string,
   details?: string
-): VideoJob | null {
-  const db = loadJobs();
-  const job = db.jobs[id];
+): JobMutationResult {
+  const result = mutateJob(id, status, (job, now) => {
+    const logEntry: LogEntry = {
+      timestamp: now,
+      status,
+      message,
+      details,
+    };
 
-  if (!job) {
-    return null;
-  }
+    return {
+      ...job,
+      log: [...(job.log || []), logEntry],
+    };
+  });
 
-  const logEntry: LogEntry = {
-    timestamp: new Date().toISOString(),
-    status,
-    message,
-    details,
-  };
+  publishJob("log", result.job || null);
+  return result;
+}
 
-  const currentLog = job.log || [];
+/**
+ * Reopen a failed job as queued with a fresh attempt budget.
+ * Failure history is kept.
+ */
+export function reopenJob(id: string): JobMutationResult {
+  const rejection: { failure?: JobMutationFailure } = {};
+
+  const updated = jobsCollection().update(id, (stored) => {
+    const job = normalizeJob(stored);
+    if (!canReopen(job.status)) {
+      rejection.failure = { code: "invalid_transition", error: `Cannot requeue a ${job.status} job` };
+      return stored;
+    }
 
-  db.jobs[id] = {
-    ...job,
-    status,
-    log: [...currentLog, logEntry],
-    updatedAt: new Date().toISOString(),
-  };
+    const now = new Date().toISOString();
+    return {
+      ...job,
+      status: INITIAL_JOB_STATUS,
+      stages: recordStageTransition(job.stages, INITIAL_JOB_STATUS, now),
+      attempts: 0,
+      runId: undefined,
+      nextAttemptAt: undefined,
+      error: undefined,
+      updatedAt: now,
+    };
+  });
 
-  saveJobs(db);
-  return db.jobs[id];
+  if (!updated) {
+    return { success: false, code: "not_found", error: "Job not found" };
+  }
+  if (rejection.failure) {
+    return { success: false, ...rejection.failure };
+  }
+
+  publishJob("updated", updated);
+  return { success: true, job: updated };
 }
 
 /**
  * Get all jobs
  */
 export function getAllJobs(): VideoJob[] {
-  const db = loadJobs();
-  return Object.values(db.jobs).sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+  return jobsCollection()
+    .list()
+    .map(normalizeJob)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 }
 
 /**
@@ -267,46 +440,17 @@ export function getJobsByStatus(status: JobStatus): VideoJob[] {
  * Delete a job
  */
 export function deleteJob(id: string): boolean {
-  const db = loadJobs();
-
-  if (!db.jobs[id]) {
-    return false;
-  }
-
-  delete db.jobs[id];
-  saveJobs(db);
-  return true;
+  return jobsCollection().delete(id);
 }
 
 /**
  * Get job statistics
  */
 export function getJobStats(): Record<JobStatus, number> {
-  const jobs = getAllJobs();
-  const stats: Record<JobStatus, number> = {
-    queued: 0,
-    processing: 0,
-    uploaded: 0,
-    transcribing: 0,
-    analyzing: 0,
-    completed: 0,
-    failed: 0,
-    // Velolume-specific
-    fetching_source: 0,
-    removing_watermark: 0,
-    transcribing_audio: 0,
-    generating_soho_vibe: 0,
-    // Velolume Noir technical log statuses
-    ingest_start: 0,
-    ai_whisper: 0,
-    ai_vision: 0,
-    soho_gen: 0,
-  };
+  const stats = Object.fromEntries(JOB_STATUSES.map((status) => [status, 0])) as Record<JobStatus, number>;
 
-  for (const job of jobs) {
-    if (stats[job.status] !== undefined) {
-      stats[job.status]++;
-    }
+  for (const job of getAllJobs()) {
+    stats[job.status]++;
   }
 
   return stats;
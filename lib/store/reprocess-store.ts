@@ -0,0 +1,146 @@
+/**
+ * Reprocess Run Store
+ *
+ * A reprocess run pairs a completed job (the base, usually the run behind
+ * a live store) with a new job that processes the same video again under
+ * the current processor. Both jobs keep their full results side by side;
+ * the run records their diff and whether the new result was accepted into
+ * the store or rejected.
+ */
+
+import { getPersistence } from "@/lib/db";
+import type { ProductData } from "@/lib/ai/processor";
+import type { RunDiff, RunResult } from "@/lib/ai/run-diff";
+import { getJob, VideoJob } from "./job-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * running → pending_review → accepted | rejected
+ * running → failed (the new job failed or was cancelled)
+ */
+export type ReprocessRunStatus = "running" | "pending_review" | "accepted" | "rejected" | "failed";
+
+/**
+ * What accepting a run does to the live store's products beyond the
+ * product diff: creator work that is kept, and live products that go
+ */
+export interface StoreMergeImpact {
+  carried: Array<{ id: string; name: string }>; // Added by the creator (not in the store's AI run), kept as they are
+  preserved: Array<{ id: string; name: string; fields: string[] }>; // Re-detected, with the creator's edits to these fields kept
+  dropped: Array<{ id: string; name: string; edited: boolean; hidden: boolean }>; // Not re-detected, removed on accept
+}
+
+export interface ReprocessRun {
+  id: string;
+  baseJobId: string;
+  candidateJobId: string;
+  storeId?: string; // Live store backed by the base job, if any
+  fromVersion?: string; // Processor version of the base run
+  toVersion?: string; // Set when the new run finishes
+  status: ReprocessRunStatus;
+  diff?: RunDiff;
+  storeImpact?: StoreMergeImpact; // As of the last check; recomputed on accept
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  decidedAt?: string; // Accepted or rejected
+}
+
+export const OPEN_RUN_STATUSES: ReprocessRunStatus[] = ["running", "pending_review"];
+
+function runsCollection() {
+  return getPersistence().collection<ReprocessRun>("reprocessRuns");
+}
+
+/**
+ * Generate reprocess run ID
+ */
+export function generateRunId(): string {
+  return `rerun-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+/**
+ * Save a reprocess run
+ */
+export function saveReprocessRun(run: ReprocessRun): ReprocessRun {
+  return runsCollection().put(run.id, run);
+}
+
+/**
+ * Get a run, marking it failed if its new job failed or was cancelled
+ */
+export function getReprocessRun(id: string): ReprocessRun | null {
+  const run = runsCollection().get(id);
+  return run ? syncRunStatus(run) : null;
+}
+
+/**
+ * List runs, newest first
+ */
+export function listReprocessRuns(
+  filter: { status?: ReprocessRunStatus; storeId?: string; jobId?: string } = {}
+): ReprocessRun[] {
+  return runsCollection()
+    .list()
+    .map(syncRunStatus)
+    .filter((run) => !filter.status || run.status === filter.status)
+    .filter((run) => !filter.storeId || run.storeId === filter.storeId)
+    .filter((run) => !filter.jobId || run.baseJobId === filter.jobId || run.candidateJobId === filter.jobId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/**
+ * Run waiting on this candidate job
+ */
+export function findRunByCandidate(candidateJobId: string): ReprocessRun | null {
+  return runsCollection()
+    .list()
+    .find((run) => run.candidateJobId === candidateJobId) || null;
+}
+
+/**
+ * Update a run's fields
+ */
+export function updateReprocessRun(
+  id: string,
+  changes: Partial<Omit<ReprocessRun, "id" | "createdAt">>
+): ReprocessRun | null {
+  return runsCollection().update(id, (run) => ({ ...run, ...changes, updatedAt: new Date().toISOString() }));
+}
+
+function syncRunStatus(run: ReprocessRun): ReprocessRun {
+  if (run.status !== "running") {
+    return run;
+  }
+
+  const candidate = getJob(run.candidateJobId);
+  if (candidate && candidate.status !== "failed" && candidate.status !== "cancelled") {
+    return run;
+  }
+
+  const error = candidate ? candidate.error || `Job ${candidate.status}` : "Job not found";
+  return updateReprocessRun(run.id, { status: "failed", error }) || run;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * A completed job's results in the shape the diff compares
+ */
+export function jobRunResult(job: VideoJob): RunResult {
+  return {
+    processorVersion: job.analysis?.processingMeta?.processorVersion,
+    // The worker stores full ProductData here
+    products: (job.analysis?.visionData?.productDetails || []) as ProductData[],
+    seo: job.analysis?.seo,
+  };
+}
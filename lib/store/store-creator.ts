@@ -5,15 +5,16 @@
  * Generates Velolume Noir themed storefronts.
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
-import { join } from "path";
 import { ProcessedVideoData } from "@/lib/ai/processor";
+import { VideoJob } from "./job-store";
+import { generateProductId, insertStore, StoreEntry, StoreProduct } from "./store-repository";
 
-const DATA_DIR = join(process.cwd(), "data");
-const STORES_FILE = join(DATA_DIR, "stores.json");
+// Store model and CRUD live in the repository; re-exported for existing callers
+export type { StoreEntry, StoreProduct } from "./store-repository";
+export { getAllStores, getStore, updateStore, deleteStore } from "./store-repository";
 
 // Velolume Noir default theme
-const VELOLUME_NOIR_THEME = {
+export const VELOLUME_NOIR_THEME = {
   name: "Velolume Noir",
   colors: {
     background: "#3D2B3D",
@@ -32,79 +33,6 @@ function selectTheme(dominantColors: string[]): typeof VELOLUME_NOIR_THEME {
   return VELOLUME_NOIR_THEME;
 }
 
-export interface StoreEntry {
-  id: string;
-  name: string;
-  creator: string;
-  creatorHandle?: string;
-  thumbnail?: string;
-  videoUrl?: string;
-  productCount: number;
-  views: number;
-  status: "draft" | "live" | "archived";
-  createdAt: string;
-  updatedAt: string;
-  featured: boolean;
-  jobId: string;
-  theme: {
-    name: string;
-    colors: Record<string, string>;
-  };
-  products?: Array<{
-    name: string;
-    category: string;
-    subcategory: string;
-    colors: string[];
-    material: string | null;
-    style: string | null;
-    pattern: string | null;
-    brand: string | null;
-    location: string;
-    description: string;
-    searchTerms: string[];
-    estimatedPriceUSD: string | null;
-    confidence: number;
-    identifiability: "high" | "medium" | "low";
-    frameIndices: number[];
-  }>;
-  seo?: {
-    title: string;
-    description: string;
-    keywords: string[];
-    tags: string[];
-  };
-}
-
-interface StoresDatabase {
-  stores: Record<string, StoreEntry>;
-  lastUpdated: string;
-}
-
-function loadStores(): StoresDatabase {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
-
-  if (!existsSync(STORES_FILE)) {
-    return { stores: {}, lastUpdated: new Date().toISOString() };
-  }
-
-  try {
-    const data = readFileSync(STORES_FILE, "utf-8");
-    return JSON.parse(data);
-  } catch {
-    return { stores: {}, lastUpdated: new Date().toISOString() };
-  }
-}
-
-function saveStores(db: StoresDatabase): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
-  }
-  db.lastUpdated = new Date().toISOString();
-  writeFileSync(STORES_FILE, JSON.stringify(db, null, 2));
-}
-
 /**
  * Create a store from processed video data
  */
@@ -112,8 +40,6 @@ export async function createStoreFromJob(
   jobId: string,
   processedData: ProcessedVideoData
 ): Promise<StoreEntry> {
-  const db = loadStores();
-
   // Generate store ID
   const storeId = `store-${Date.now()}`;
 
@@ -125,15 +51,14 @@ export async function createStoreFromJob(
     ? `${processedData.visual.aestheticStyle} Creator`
     : "Content Creator";
 
-  // Create store entry
-  const store: StoreEntry = {
+  // Save to database
+  return insertStore({
     id: storeId,
     name: processedData.seo.title,
     creator: creatorName,
     creatorHandle: `@${storeId.replace("store-", "creator")}`,
     thumbnail: undefined, // Could extract from first frame
     videoUrl: undefined, // Original video URL if available
-    productCount: processedData.products.length,
     views: 0,
     status: "live",
     createdAt: new Date().toISOString(),
@@ -144,66 +69,74 @@ export async function createStoreFromJob(
       name: theme.name,
       colors: theme.colors,
     },
-    products: processedData.products,
+    products: processedData.products.map((product) => ({ ...product, id: generateProductId() })),
     seo: processedData.seo,
-  };
-
-  // Save to database
-  db.stores[storeId] = store;
-  saveStores(db);
-
-  return store;
+  });
 }
 
 /**
- * Get all stores
+ * Build a store entry from a stored job record (not saved).
+ * Used for stores created by hand from the dashboard and for draft previews.
  */
-export function getAllStores(): StoreEntry[] {
-  const db = loadStores();
-  return Object.values(db.stores).sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+export function buildStoreFromJob(
+  job: VideoJob,
+  options: { id?: string; name?: string; featured?: boolean } = {}
+): StoreEntry {
+  const now = new Date().toISOString();
+  const dominantColors = job.analysis?.visionData?.dominantColors || [];
+  const products: StoreProduct[] = (job.analysis?.visionData?.productDetails || []).map(
+    (product) => ({
+      subcategory: "",
+      material: null,
+      style: null,
+      pattern: null,
+      brand: null,
+      location: "",
+      description: "",
+      searchTerms: [],
+      estimatedPriceUSD: null,
+      identifiability: "medium",
+      frameIndices: [],
+      // Worker stores full ProductData here, so real values override the defaults above
+      ...product,
+      id: generateProductId(),
+    })
   );
-}
-
-/**
- * Get a store by ID
- */
-export function getStore(id: string): StoreEntry | null {
-  const db = loadStores();
-  return db.stores[id] || null;
-}
-
-/**
- * Update a store
- */
-export function updateStore(id: string, updates: Partial<StoreEntry>): StoreEntry | null {
-  const db = loadStores();
 
-  if (!db.stores[id]) {
-    return null;
-  }
-
-  db.stores[id] = {
-    ...db.stores[id],
-    ...updates,
-    updatedAt: new Date().toISOString(),
+  return {
+    id: options.id || `store-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    name: options.name || job.metadata?.title || "Untitled Store",
+    creator: job.metadata?.author || "Unknown",
+    creatorHandle: `@${job.metadata?.author || "creator"}`,
+    thumbnail: job.metadata?.thumbnail,
+    videoUrl: job.key ? `https://sgp1.digitaloceanspaces.com/auto-storefront-media/${job.key}` : undefined,
+    productCount: products.length,
+    views: 0,
+    status: "draft",
+    createdAt: now,
+    updatedAt: now,
+    featured: options.featured || false,
+    jobId: job.id,
+    version: 1,
+    theme: {
+      name: VELOLUME_NOIR_THEME.name,
+      colors: {
+        ...VELOLUME_NOIR_THEME.colors,
+        background: dominantColors[0] || VELOLUME_NOIR_THEME.colors.background,
+        accent: dominantColors[1] || VELOLUME_NOIR_THEME.colors.accent,
+      },
+    },
+    products,
+    seo: job.analysis?.seo,
   };
-
-  saveStores(db);
-  return db.stores[id];
 }
 
 /**
- * Delete a store
+ * Create and save a draft store from a stored job record
  */
-export function deleteStore(id: string): boolean {
-  const db = loadStores();
-
-  if (!db.stores[id]) {
-    return false;
-  }
-
-  delete db.stores[id];
-  saveStores(db);
-  return true;
+export function createStoreFromJobRecord(
+  job: VideoJob,
+  options: { name?: string; featured?: boolean } = {}
+): StoreEntry {
+  return insertStore(buildStoreFromJob(job, options));
 }
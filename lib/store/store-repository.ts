@@ -0,0 +1,614 @@
+/**
+ * Store Repository
+ *
+ * The single storefront model (StoreEntry) and every read/write against it.
+ * Each write bumps `version`; mutations that are given an expected version
+ * fail with a conflict instead of silently overwriting a newer edit.
+ * Inserts, updates and deletes fire store.created / store.updated /
+ * store.deleted webhook events.
+ */
+
+import { getPersistence } from "@/lib/db";
+import { emitWebhookEvent } from "@/lib/webhooks/webhook-dispatcher";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StoreStatus = "draft" | "live" | "archived";
+
+export interface StoreProduct {
+  id: string;
+  name: string;
+  category: string;
+  subcategory: string;
+  colors: string[];
+  material: string | null;
+  style: string | null;
+  pattern: string | null;
+  brand: string | null;
+  location: string;
+  description: string;
+  searchTerms: string[];
+  estimatedPriceUSD: string | null;
+  confidence: number;
+  identifiability: "high" | "medium" | "low";
+  frameIndices: number[];
+  // Hidden products stay in the store but are not shown to shoppers
+  hidden?: boolean;
+}
+
+export interface StoreEntry {
+  id: string;
+  name: string;
+  creator: string;
+  creatorHandle?: string;
+  thumbnail?: string;
+  videoUrl?: string;
+  productCount: number; // Visible products only
+  views: number;
+  status: StoreStatus;
+  createdAt: string;
+  updatedAt: string;
+  featured: boolean;
+  jobId: string;
+  version: number; // Incremented on every write (optimistic concurrency)
+  theme: {
+    name: string;
+    colors: Record<string, string>;
+  };
+  products?: StoreProduct[]; // Display order
+  seo?: {
+    title: string;
+    description: string;
+    keywords: string[];
+    tags: string[];
+  };
+}
+
+/**
+ * Store fields editable through the API
+ */
+export type StoreUpdate = Partial<
+  Pick<
+    StoreEntry,
+    "name" | "creator" | "creatorHandle" | "thumbnail" | "videoUrl" | "status" | "featured" | "theme" | "seo"
+  >
+>;
+
+export type StoreProductInput = Omit<StoreProduct, "id">;
+export type StoreProductUpdate = Partial<StoreProductInput>;
+
+export type StoreErrorCode = "not_found" | "product_not_found" | "version_conflict" | "invalid";
+
+export interface StoreMutationResult {
+  success: boolean;
+  store?: StoreEntry;
+  error?: string;
+  code?: StoreErrorCode;
+  currentVersion?: number;
+}
+
+interface StoreMutationFailure {
+  code: StoreErrorCode;
+  error: string;
+}
+
+export const STORE_UPDATE_FIELDS: (keyof StoreUpdate)[] = [
+  "name",
+  "creator",
+  "creatorHandle",
+  "thumbnail",
+  "videoUrl",
+  "status",
+  "featured",
+  "theme",
+  "seo",
+];
+
+export const STORE_STATUSES: StoreStatus[] = ["draft", "live", "archived"];
+
+/**
+ * Product fields editable through the API
+ */
+export const STORE_PRODUCT_FIELDS: (keyof StoreProductInput)[] = [
+  "name",
+  "category",
+  "subcategory",
+  "colors",
+  "material",
+  "style",
+  "pattern",
+  "brand",
+  "location",
+  "description",
+  "searchTerms",
+  "estimatedPriceUSD",
+  "confidence",
+  "identifiability",
+  "frameIndices",
+  "hidden",
+];
+
+const IDENTIFIABILITY_LEVELS: StoreProduct["identifiability"][] = ["high", "medium", "low"];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function storesCollection() {
+  return getPersistence().collection<StoreEntry>("stores");
+}
+
+/**
+ * Generate a product ID (unique within a store)
+ */
+export function generateProductId(): string {
+  return `prod-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Fill fields missing from stores written before versioning and product IDs.
+ * Position-based IDs stay stable because the first write persists them.
+ */
+function normalizeStore(store: StoreEntry): StoreEntry {
+  return {
+    ...store,
+    version: store.version || 1,
+    products: store.products?.map((product, index) => ({
+      ...product,
+      id: product.id || `prod-${index + 1}`,
+    })),
+  };
+}
+
+/**
+ * Recompute fields derived from the product list
+ */
+function withDerivedFields(store: StoreEntry): StoreEntry {
+  return {
+    ...store,
+    productCount: store.products ? getVisibleProducts(store).length : store.productCount,
+  };
+}
+
+function isFailure(value: StoreEntry | StoreMutationFailure): value is StoreMutationFailure {
+  return "code" in value;
+}
+
+/**
+ * Apply a mutation atomically, checking the expected version first
+ */
+function mutateStore(
+  id: string,
+  expectedVersion: number | undefined,
+  mutate: (store: StoreEntry) => StoreEntry | StoreMutationFailure
+): StoreMutationResult {
+  const result = getPersistence().transaction((): StoreMutationResult => {
+    const stores = storesCollection();
+    const existing = stores.get(id);
+
+    if (!existing) {
+      return { success: false, code: "not_found", error: "Store not found" };
+    }
+
+    const current = normalizeStore(existing);
+
+    if (expectedVersion !== undefined && expectedVersion !== current.version) {
+      return {
+        success: false,
+        code: "version_conflict",
+        error: `Store was modified (expected version ${expectedVersion}, current ${current.version})`,
+        currentVersion: current.version,
+      };
+    }
+
+    const next = mutate(current);
+    if (isFailure(next)) {
+      return { success: false, ...next, currentVersion: current.version };
+    }
+
+    const store = stores.put(
+      id,
+      withDerivedFields({
+        ...next,
+        version: current.version + 1,
+        updatedAt: new Date().toISOString(),
+      })
+    );
+
+    return { success: true, store };
+  });
+
+  if (result.success) {
+    emitWebhookEvent("store.updated", { store: result.store });
+  }
+  return result;
+}
+
+// ============================================================================
+// Store CRUD
+// ============================================================================
+
+/**
+ * Insert a new store
+ */
+export function insertStore(store: Omit<StoreEntry, "version" | "productCount">): StoreEntry {
+  const created = storesCollection().put(
+    store.id,
+    withDerivedFields({ ...store, version: 1, productCount: 0 })
+  );
+
+  emitWebhookEvent("store.created", { store: created });
+  return created;
+}
+
+/**
+ * Get all stores
+ */
+export function getAllStores(): StoreEntry[] {
+  return storesCollection()
+    .list()
+    .map(normalizeStore)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/**
+ * Get a store by ID
+ */
+export function getStore(id: string): StoreEntry | null {
+  const store = storesCollection().get(id);
+  return store ? normalizeStore(store) : null;
+}
+
+/**
+ * Get the store created from a job
+ */
+export function findStoreByJobId(jobId: string): StoreEntry | null {
+  const store = storesCollection()
+    .list()
+    .find((entry) => entry.jobId === jobId);
+  return store ? normalizeStore(store) : null;
+}
+
+/**
+ * Update a store (unchecked - last write wins)
+ */
+export function updateStore(id: string, updates: Partial<StoreEntry>): StoreEntry | null {
+  return mutateStore(id, undefined, (store) => ({ ...store, ...updates })).store || null;
+}
+
+/**
+ * Update editable store fields, optionally checking the expected version
+ */
+export function patchStore(
+  id: string,
+  updates: StoreUpdate,
+  expectedVersion?: number
+): StoreMutationResult {
+  const invalid = validateStoreFields(updates);
+  if (invalid) {
+    return { success: false, code: "invalid", error: invalid };
+  }
+
+  return mutateStore(id, expectedVersion, (store) => ({ ...store, ...pickStoreUpdate(updates) }));
+}
+
+/**
+ * Delete a store
+ */
+export function deleteStore(id: string): boolean {
+  const deleted = storesCollection().delete(id);
+  if (deleted) {
+    emitWebhookEvent("store.deleted", { storeId: id });
+  }
+  return deleted;
+}
+
+/**
+ * Delete a store, optionally checking the expected version
+ */
+export function removeStore(id: string, expectedVersion?: number): StoreMutationResult {
+  return getPersistence().transaction(() => {
+    const store = getStore(id);
+
+    if (!store) {
+      return { success: false, code: "not_found", error: "Store not found" };
+    }
+
+    if (expectedVersion !== undefined && expectedVersion !== store.version) {
+      return {
+        success: false,
+        code: "version_conflict",
+        error: `Store was modified (expected version ${expectedVersion}, current ${store.version})`,
+        currentVersion: store.version,
+      };
+    }
+
+    deleteStore(id);
+    return { success: true, store };
+  });
+}
+
+/**
+ * Point a store at a different processing run, replacing its products
+ * and SEO (see lib/queue/reprocess.ts)
+ */
+export function replaceStoreRun(
+  id: string,
+  run: { jobId: string; products: StoreProduct[]; seo?: StoreEntry["seo"] },
+  expectedVersion?: number
+): StoreMutationResult {
+  return mutateStore(id, expectedVersion, (store) => ({
+    ...store,
+    jobId: run.jobId,
+    products: run.products,
+    seo: run.seo || store.seo,
+  }));
+}
+
+/**
+ * Keep only editable fields from an update payload
+ */
+export function pickStoreUpdate(input: Record<string, unknown>): StoreUpdate {
+  const updates: Record<string, unknown> = {};
+  for (const field of STORE_UPDATE_FIELDS) {
+    if (input[field] !== undefined) {
+      updates[field] = input[field];
+    }
+  }
+  return updates as StoreUpdate;
+}
+
+/**
+ * Why a store update cannot be stored, or null when every field it sets
+ * has the type the storefront renders
+ */
+export function validateStoreFields(fields: StoreUpdate): string | null {
+  const values = fields as Record<string, unknown>;
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === "string");
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+  for (const field of Object.keys(values) as (keyof StoreUpdate)[]) {
+    const value = values[field];
+    switch (field) {
+      case "name":
+      case "creator":
+      case "creatorHandle":
+      case "thumbnail":
+      case "videoUrl":
+        if (typeof value !== "string") return `${field} must be a string`;
+        break;
+      case "status":
+        if (!STORE_STATUSES.includes(value as StoreStatus)) {
+          return `Invalid status. Must be one of: ${STORE_STATUSES.join(", ")}`;
+        }
+        break;
+      case "featured":
+        if (typeof value !== "boolean") return "featured must be true or false";
+        break;
+      case "theme":
+        if (
+          !isObject(value) ||
+          typeof value.name !== "string" ||
+          !isObject(value.colors) ||
+          !Object.values(value.colors).every((color) => typeof color === "string")
+        ) {
+          return "theme must have a string name and a colors object of strings";
+        }
+        break;
+      case "seo":
+        if (
+          !isObject(value) ||
+          typeof value.title !== "string" ||
+          typeof value.description !== "string" ||
+          !isStringArray(value.keywords) ||
+          !isStringArray(value.tags)
+        ) {
+          return "seo must have a string title and description and string arrays of keywords and tags";
+        }
+        break;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Products
+// ============================================================================
+
+/**
+ * Why a product payload cannot be stored, or null when every field it
+ * sets has the type the storefront renders
+ */
+export function validateStoreProductFields(fields: StoreProductUpdate): string | null {
+  const values = fields as Record<string, unknown>;
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === "string");
+
+  for (const field of Object.keys(values) as (keyof StoreProductInput)[]) {
+    const value = values[field];
+    switch (field) {
+      case "name":
+      case "category":
+      case "subcategory":
+      case "location":
+      case "description":
+        if (typeof value !== "string") return `${field} must be a string`;
+        break;
+      case "material":
+      case "style":
+      case "pattern":
+      case "brand":
+      case "estimatedPriceUSD":
+        if (value !== null && typeof value !== "string") return `${field} must be a string or null`;
+        break;
+      case "colors":
+      case "searchTerms":
+        if (!isStringArray(value)) return `${field} must be an array of strings`;
+        break;
+      case "frameIndices":
+        if (!Array.isArray(value) || !value.every((item) => Number.isInteger(item) && item >= 0)) {
+          return "frameIndices must be an array of non-negative integers";
+        }
+        break;
+      case "confidence":
+        if (typeof value !== "number" || !(value >= 0 && value <= 1)) return "confidence must be a number from 0 to 1";
+        break;
+      case "identifiability":
+        if (!IDENTIFIABILITY_LEVELS.includes(value as StoreProduct["identifiability"])) {
+          return `identifiability must be one of: ${IDENTIFIABILITY_LEVELS.join(", ")}`;
+        }
+        break;
+      case "hidden":
+        if (typeof value !== "boolean") return "hidden must be true or false";
+        break;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Products shown to shoppers, in display order
+ */
+export function getVisibleProducts(store: StoreEntry): StoreProduct[] {
+  return (store.products || []).filter((product) => !product.hidden);
+}
+
+/**
+ * Add a product to a store (appended unless a position is given)
+ */
+export function addStoreProduct(
+  storeId: string,
+  product: StoreProductInput,
+  options: { expectedVersion?: number; position?: number } = {}
+): StoreMutationResult {
+  if (!product.name) {
+    return { success: false, code: "invalid", error: "Product name is required" };
+  }
+  const invalid = validateStoreProductFields(product);
+  if (invalid) {
+    return { success: false, code: "invalid", error: invalid };
+  }
+
+  return mutateStore(storeId, options.expectedVersion, (store) => {
+    const products = [...(store.products || [])];
+    const position =
+      options.position === undefined
+        ? products.length
+        : Math.max(0, Math.min(options.position, products.length));
+
+    products.splice(position, 0, { ...product, id: generateProductId() });
+    return { ...store, products };
+  });
+}
+
+/**
+ * Edit a product (including hiding/unhiding it)
+ */
+export function updateStoreProduct(
+  storeId: string,
+  productId: string,
+  updates: StoreProductUpdate,
+  expectedVersion?: number
+): StoreMutationResult {
+  const invalid = validateStoreProductFields(updates);
+  if (invalid) {
+    return { success: false, code: "invalid", error: invalid };
+  }
+
+  return mutateStore(storeId, expectedVersion, (store) => {
+    const products = store.products || [];
+    if (!products.some((p) => p.id === productId)) {
+      return { code: "product_not_found", error: "Product not found" };
+    }
+
+    return {
+      ...store,
+      products: products.map((p) => (p.id === productId ? { ...p, ...updates, id: p.id } : p)),
+    };
+  });
+}
+
+/**
+ * Remove a product from a store
+ */
+export function removeStoreProduct(
+  storeId: string,
+  productId: string,
+  expectedVersion?: number
+): StoreMutationResult {
+  return mutateStore(storeId, expectedVersion, (store) => {
+    const products = store.products || [];
+    if (!products.some((p) => p.id === productId)) {
+      return { code: "product_not_found", error: "Product not found" };
+    }
+
+    return { ...store, products: products.filter((p) => p.id !== productId) };
+  });
+}
+
+/**
+ * Reorder products. `productIds` must list every product exactly once.
+ */
+export function reorderStoreProducts(
+  storeId: string,
+  productIds: string[],
+  expectedVersion?: number
+): StoreMutationResult {
+  return mutateStore(storeId, expectedVersion, (store) => {
+    const products = store.products || [];
+    const byId = new Map(products.map((p) => [p.id, p]));
+
+    const isPermutation =
+      productIds.length === products.length &&
+      new Set(productIds).size === productIds.length &&
+      productIds.every((id) => byId.has(id));
+
+    if (!isPermutation) {
+      return { code: "invalid", error: "productIds must list every product in the store exactly once" };
+    }
+
+    return { ...store, products: productIds.map((id) => byId.get(id)!) };
+  });
+}
+
+// ============================================================================
+// API Helpers
+// ============================================================================
+
+/**
+ * Parse an expected version from a request body field or If-Match header.
+ * Accepts numbers, numeric strings and quoted ETag-style values ("3").
+ */
+export function parseExpectedVersion(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return value;
+  }
+
+  if (typeof value === "string") {
+    const parsed = parseInt(value.replace(/^W\//, "").replace(/"/g, ""), 10);
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * HTTP status for a failed store mutation
+ */
+export function storeErrorStatus(code: StoreErrorCode | undefined): number {
+  switch (code) {
+    case "not_found":
+    case "product_not_found":
+      return 404;
+    case "version_conflict":
+      return 409;
+    case "invalid":
+      return 400;
+    default:
+      return 500;
+  }
+}
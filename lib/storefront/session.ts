@@ -0,0 +1,19 @@
+/**
+ * Storefront Session
+ *
+ * The shopper session ID shared by the analytics hook (sessionStorage) and
+ * the server (a session cookie set by middleware), so experiment variants
+ * picked during server rendering match the ones tagged on tracked events.
+ *
+ * No Node or browser dependencies: imported by middleware, server pages
+ * and client hooks alike.
+ */
+
+export const SESSION_COOKIE = "velolume_session";
+
+/**
+ * New session ID ("sess-<ms>-<random>")
+ */
+export function generateSessionId(): string {
+  return `sess-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
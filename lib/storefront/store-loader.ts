@@ -0,0 +1,192 @@
+/**
+ * Storefront Loader
+ *
+ * Server-side data access for the public storefront and product pages.
+ * Applies shopper visibility rules on top of the store repository:
+ * - live stores render normally
+ * - draft stores only render in preview mode (?preview=true)
+ * - archived stores render an "unavailable" state without products
+ * - hidden products are never shown
+ * - live stores apply the shopper's variants of running experiments
+ *   (theme, product order, buy button label)
+ */
+
+import { getStore, getVisibleProducts, StoreEntry, StoreProduct } from "@/lib/store/store-repository";
+import { getStoreAnalytics } from "@/lib/store/analytics-store";
+import { getJob } from "@/lib/store/job-store";
+import { getStorefrontVariants, applyProductOrder, StorefrontVariants } from "@/lib/store/experiment-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StorefrontAvailability = "live" | "preview" | "archived";
+
+export interface StorefrontProduct {
+  id: string;
+  name: string;
+  category: string;
+  price: string;
+  description: string;
+  colors: string[];
+  materials: string[];
+  confidence: number;
+  buyUrl: string;
+  platform: "tiktok" | "shopee" | "taobao" | "generic";
+  aiHooks: string[];
+  aiNotes: string;
+  imageUrl?: string;
+}
+
+export interface Storefront {
+  store: StoreEntry;
+  availability: StorefrontAvailability;
+  products: StorefrontProduct[];
+  stats: {
+    views: number;
+    products: number;
+    averageConfidence: number; // 0-1
+  };
+  processing?: {
+    framesAnalyzed: number;
+    audioDuration: number; // seconds
+  };
+  variants: StorefrontVariants;
+}
+
+export interface StorefrontOptions {
+  preview?: boolean;
+  sessionId?: string | null; // velolume_session, for experiment variants
+}
+
+// ============================================================================
+// Loaders
+// ============================================================================
+
+/**
+ * Load a store for shoppers. Returns null when the store should 404.
+ */
+export function loadStorefront(storeId: string, options: StorefrontOptions = {}): Storefront | null {
+  const store = getStore(storeId);
+  if (!store) {
+    return null;
+  }
+
+  let availability: StorefrontAvailability;
+  if (store.status === "archived") {
+    availability = "archived";
+  } else if (store.status === "draft") {
+    if (!options.preview) {
+      return null;
+    }
+    availability = "preview";
+  } else {
+    availability = "live";
+  }
+
+  // Previews are not enrolled, so creators do not skew their own experiments
+  const variants: StorefrontVariants =
+    availability === "live" ? getStorefrontVariants(store.id, options.sessionId) : { assignments: {} };
+
+  let products = availability === "archived" ? [] : getVisibleProducts(store).map(toStorefrontProduct);
+  if (variants.productOrder) {
+    products = applyProductOrder(products, variants.productOrder);
+  }
+  const analytics = getStoreAnalytics(store.id);
+  const processingMeta = getJob(store.jobId)?.analysis?.processingMeta;
+
+  return {
+    store,
+    availability,
+    products,
+    stats: {
+      views: analytics?.views ?? store.views,
+      products: products.length,
+      averageConfidence:
+        products.length > 0
+          ? products.reduce((sum, p) => sum + p.confidence, 0) / products.length
+          : 0,
+    },
+    processing: processingMeta
+      ? {
+          framesAnalyzed: processingMeta.framesAnalyzed,
+          audioDuration: processingMeta.audioDuration,
+        }
+      : undefined,
+    variants,
+  };
+}
+
+/**
+ * Load a single visible product and its siblings. Returns null when it should 404.
+ */
+export function loadStorefrontProduct(
+  storeId: string,
+  productId: string,
+  options: StorefrontOptions = {}
+): { storefront: Storefront; product: StorefrontProduct; related: StorefrontProduct[] } | null {
+  const storefront = loadStorefront(storeId, options);
+  if (!storefront) {
+    return null;
+  }
+
+  const product = storefront.products.find((p) => p.id === productId);
+  if (!product) {
+    return null;
+  }
+
+  return {
+    storefront,
+    product,
+    related: storefront.products.filter((p) => p.id !== productId),
+  };
+}
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+/**
+ * Map a stored product to what the storefront renders
+ */
+export function toStorefrontProduct(product: StoreProduct): StorefrontProduct {
+  const searchQuery = product.searchTerms[0] || [product.brand, product.name].filter(Boolean).join(" ");
+
+  return {
+    id: product.id,
+    name: product.name,
+    category: product.category,
+    price: formatPrice(product.estimatedPriceUSD),
+    description: product.description,
+    colors: product.colors,
+    materials: product.material ? [product.material] : [],
+    confidence: product.confidence,
+    buyUrl: `https://www.google.com/search?tbm=shop&q=${encodeURIComponent(searchQuery)}`,
+    platform: "generic",
+    aiHooks: [product.style, product.pattern, product.brand, product.subcategory].filter(
+      (hook): hook is string => !!hook
+    ),
+    aiNotes: buildAiNotes(product),
+  };
+}
+
+/**
+ * Format an AI price estimate ("45", "$45", "30-50") for display
+ */
+export function formatPrice(estimate: string | null): string {
+  if (!estimate) {
+    return "Price varies";
+  }
+  return /^\d/.test(estimate.trim()) ? `$${estimate.trim()}` : estimate.trim();
+}
+
+function buildAiNotes(product: StoreProduct): string {
+  const seenIn = product.frameIndices.length;
+  const parts = [
+    seenIn > 0 ? `Detected in ${seenIn} frame${seenIn === 1 ? "" : "s"}` : "Detected in the video",
+    product.location ? `worn/placed: ${product.location}` : null,
+    `${product.identifiability} identifiability`,
+  ].filter(Boolean);
+
+  return `${parts.join(", ")}.`;
+}
@@ -0,0 +1,314 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Sends lifecycle events to subscribed URLs.
+ *
+ * - Every event gets one delivery per subscribed webhook, recorded in the
+ *   delivery log with each attempt's status code or error.
+ * - Requests are signed with the webhook's secret:
+ *     X-Velolume-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *   Receivers recompute the HMAC over the raw body and reject stale
+ *   timestamps (see verifyWebhookSignature).
+ * - Any non-2xx response, timeout or network error is retried with
+ *   exponential backoff until WEBHOOK_MAX_ATTEMPTS is used up.
+ * - Pending deliveries are persisted; retry timers run in this process and
+ *   are re-armed on the next start if it stops. Receivers should dedupe on
+ *   the event ID (delivery is at-least-once).
+ *
+ * Emitting never throws: a webhook problem must not fail the job or store
+ * change that triggered it.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { backoffDelayMs } from "@/lib/queue/retry-policy";
+import {
+  getDelivery,
+  getPendingDeliveries,
+  getSubscribers,
+  getWebhook,
+  saveDelivery,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventType,
+} from "./webhook-store";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const WEBHOOK_CONFIG = {
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "6"),
+  baseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || "10000"),
+  maxDelayMs: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || "3600000"),
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000"),
+};
+
+export const SIGNATURE_HEADER = "X-Velolume-Signature";
+
+// Receivers should reject signatures older than this
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export interface RedeliverResult {
+  success: boolean;
+  delivery?: WebhookDelivery;
+  error?: string;
+  code?: "not_found";
+}
+
+interface DispatcherState {
+  started: boolean;
+  inFlight: Set<string>; // Delivery IDs being sent
+  timer: ReturnType<typeof setTimeout> | null;
+  timerAt: number | null;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForWebhooks = globalThis as unknown as { velolumeWebhooks?: DispatcherState };
+
+function state(): DispatcherState {
+  if (!globalForWebhooks.velolumeWebhooks) {
+    globalForWebhooks.velolumeWebhooks = { started: false, inFlight: new Set(), timer: null, timerAt: null };
+  }
+  return globalForWebhooks.velolumeWebhooks;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+/**
+ * Signature header value for a body
+ */
+export function signPayload(secret: string, body: string, timestamp: number = Math.floor(Date.now() / 1000)): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against the raw body (for receivers and tests)
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  if (!header) return false;
+
+  const parts = Object.fromEntries(header.split(",").map((part) => part.split("=", 2) as [string, string]));
+  const timestamp = parseInt(parts.t);
+  if (!parts.v1 || Number.isNaN(timestamp) || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, body, timestamp).split("v1=")[1], "hex");
+  const received = Buffer.from(parts.v1, "hex");
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// ============================================================================
+// Emitting
+// ============================================================================
+
+/**
+ * Queue an event for every subscribed webhook
+ */
+export function emitWebhookEvent<T>(type: WebhookEventType, data: T): void {
+  try {
+    startWebhookDeliveries();
+
+    const subscribers = getSubscribers(type);
+    if (subscribers.length === 0) return;
+
+    const event: WebhookEvent<T> = {
+      id: generateId("evt"),
+      type,
+      createdAt: new Date().toISOString(),
+      data,
+    };
+
+    for (const webhook of subscribers) {
+      queueDelivery(webhook, event);
+    }
+  } catch (error) {
+    console.error(`[Webhooks] Failed to emit ${type}:`, error);
+  }
+}
+
+/**
+ * Send an earlier delivery's event again, as a new delivery to the
+ * webhook's current URL
+ */
+export function redeliver(deliveryId: string): RedeliverResult {
+  const original = getDelivery(deliveryId);
+  if (!original) {
+    return { success: false, code: "not_found", error: "Delivery not found" };
+  }
+
+  const webhook = getWebhook(original.webhookId);
+  if (!webhook) {
+    return { success: false, code: "not_found", error: "Webhook no longer exists" };
+  }
+
+  startWebhookDeliveries();
+  return { success: true, delivery: queueDelivery(webhook, original.event, original.id) };
+}
+
+/**
+ * Re-arm retries for deliveries left pending by a previous process.
+ * Called at server start (instrumentation.ts) and by every emit or
+ * redelivery; safe to call repeatedly.
+ */
+export function startWebhookDeliveries(): void {
+  const dispatcher = state();
+  if (dispatcher.started) return;
+  dispatcher.started = true;
+  scheduleWake();
+}
+
+function queueDelivery(webhook: Webhook, event: WebhookEvent, redeliveryOf?: string): WebhookDelivery {
+  const now = new Date().toISOString();
+  const delivery = saveDelivery({
+    id: generateId("dlv"),
+    webhookId: webhook.id,
+    url: webhook.url,
+    event,
+    status: "pending",
+    attempts: [],
+    nextAttemptAt: now,
+    redeliveryOf,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  attempt(delivery.id);
+  return delivery;
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+/**
+ * Make one attempt; on failure schedule the next or give up
+ */
+function attempt(deliveryId: string): void {
+  const dispatcher = state();
+  if (dispatcher.inFlight.has(deliveryId)) return;
+  dispatcher.inFlight.add(deliveryId);
+
+  send(deliveryId)
+    .catch((error) => console.error(`[Webhooks] Delivery ${deliveryId} crashed:`, error))
+    .finally(() => {
+      dispatcher.inFlight.delete(deliveryId);
+      scheduleWake();
+    });
+}
+
+async function send(deliveryId: string): Promise<void> {
+  const delivery = getDelivery(deliveryId);
+  if (!delivery || delivery.status !== "pending") return;
+
+  const webhook = getWebhook(delivery.webhookId);
+  if (!webhook) {
+    saveDelivery({
+      ...delivery,
+      status: "failed",
+      nextAttemptAt: undefined,
+      attempts: [...delivery.attempts, { at: new Date().toISOString(), error: "Webhook deleted", durationMs: 0 }],
+      updatedAt: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.event);
+  const startedAt = Date.now();
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Velolume-Webhooks/1.0",
+        [SIGNATURE_HEADER]: signPayload(webhook.secret, body),
+        "X-Velolume-Event": delivery.event.type,
+        "X-Velolume-Delivery": delivery.id,
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_CONFIG.timeoutMs),
+    });
+    statusCode = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Unknown error";
+  }
+
+  const now = new Date();
+  const attempts = [
+    ...delivery.attempts,
+    { at: now.toISOString(), statusCode, error, durationMs: now.getTime() - startedAt },
+  ];
+
+  if (!error) {
+    saveDelivery({ ...delivery, status: "succeeded", attempts, nextAttemptAt: undefined, updatedAt: now.toISOString() });
+    return;
+  }
+
+  const exhausted = attempts.length >= WEBHOOK_CONFIG.maxAttempts;
+  const nextAttemptAt = exhausted
+    ? undefined
+    : new Date(now.getTime() + backoffDelayMs(attempts.length, WEBHOOK_CONFIG)).toISOString();
+
+  console.warn(
+    `[Webhooks] Delivery ${delivery.id} to ${delivery.url} failed (${error}), attempt ${attempts.length}/${WEBHOOK_CONFIG.maxAttempts}` +
+      (nextAttemptAt ? `; retrying at ${nextAttemptAt}` : "; giving up")
+  );
+
+  saveDelivery({
+    ...delivery,
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    nextAttemptAt,
+    updatedAt: now.toISOString(),
+  });
+}
+
+/**
+ * Attempt deliveries that are due, and set a timer for the next one
+ */
+function scheduleWake(): void {
+  const dispatcher = state();
+  const now = Date.now();
+  let nextAt: number | undefined;
+
+  for (const delivery of getPendingDeliveries()) {
+    if (dispatcher.inFlight.has(delivery.id)) continue;
+    const at = delivery.nextAttemptAt ? new Date(delivery.nextAttemptAt).getTime() : now;
+    if (at <= now) {
+      attempt(delivery.id);
+    } else if (nextAt === undefined || at < nextAt) {
+      nextAt = at;
+    }
+  }
+
+  if (nextAt === undefined || (dispatcher.timerAt !== null && dispatcher.timerAt <= nextAt)) {
+    return;
+  }
+
+  if (dispatcher.timer) clearTimeout(dispatcher.timer);
+  dispatcher.timerAt = nextAt;
+  dispatcher.timer = setTimeout(() => {
+    dispatcher.timer = null;
+    dispatcher.timerAt = null;
+    scheduleWake();
+  }, nextAt - now);
+}
@@ -0,0 +1,323 @@
+/**
+ * Webhook Subscriptions and Delivery Log
+ *
+ * Downstream systems subscribe a URL to job and store lifecycle events
+ * instead of polling /api/jobs. Each subscription has its own signing
+ * secret (see webhook-dispatcher.ts for signing and delivery).
+ *
+ * Secrets are only returned when a subscription is created or its secret
+ * is rotated; everywhere else they are masked.
+ */
+
+import { randomBytes } from "crypto";
+import { getPersistence } from "@/lib/db";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WebhookEventType =
+  | "job.completed"
+  | "job.failed"
+  | "job.cancelled"
+  | "store.created"
+  | "store.updated"
+  | "store.deleted";
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[] | ["*"]; // "*" subscribes to every event
+  active: boolean;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookInput {
+  url: string;
+  events: string[];
+  description?: string;
+  secret?: string; // Generated when omitted
+}
+
+export type WebhookUpdate = Partial<Pick<Webhook, "url" | "active" | "description">> & {
+  events?: string[];
+  rotateSecret?: boolean;
+};
+
+/**
+ * Body sent to subscribers
+ */
+export interface WebhookEvent<T = unknown> {
+  id: string; // Same for every delivery (and redelivery) of the event
+  type: WebhookEventType;
+  createdAt: string;
+  data: T;
+}
+
+export type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface DeliveryAttempt {
+  at: string;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: WebhookEvent;
+  status: DeliveryStatus; // failed: every attempt used up
+  attempts: DeliveryAttempt[];
+  nextAttemptAt?: string; // Set while pending
+  redeliveryOf?: string; // Delivery this one repeats
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookErrorCode = "not_found" | "invalid";
+
+export interface WebhookMutationResult {
+  success: boolean;
+  webhook?: Webhook;
+  error?: string;
+  code?: WebhookErrorCode;
+}
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  "job.completed",
+  "job.failed",
+  "job.cancelled",
+  "store.created",
+  "store.updated",
+  "store.deleted",
+];
+
+function webhooksCollection() {
+  return getPersistence().collection<Webhook>("webhooks");
+}
+
+function deliveriesCollection() {
+  return getPersistence().collection<WebhookDelivery>("webhookDeliveries");
+}
+
+/**
+ * Generate webhook ID
+ */
+function generateWebhookId(): string {
+  return `wh-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+// ============================================================================
+// Subscriptions
+// ============================================================================
+
+/**
+ * Get a webhook (with its secret)
+ */
+export function getWebhook(id: string): Webhook | null {
+  return webhooksCollection().get(id);
+}
+
+/**
+ * List webhooks, newest first
+ */
+export function listWebhooks(): Webhook[] {
+  return webhooksCollection()
+    .list()
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+/**
+ * Active webhooks subscribed to an event type
+ */
+export function getSubscribers(type: WebhookEventType): Webhook[] {
+  return listWebhooks().filter(
+    (webhook) =>
+      webhook.active && (webhook.events[0] === "*" || (webhook.events as WebhookEventType[]).includes(type))
+  );
+}
+
+/**
+ * Subscribe a URL to events
+ */
+export function createWebhook(input: WebhookInput): WebhookMutationResult {
+  const invalid = validateUrl(input.url) || validateEvents(input.events) || validateDescription(input.description);
+  if (invalid) {
+    return { success: false, code: "invalid", error: invalid };
+  }
+  if (input.secret !== undefined && (typeof input.secret !== "string" || input.secret.length < 16)) {
+    return { success: false, code: "invalid", error: "secret must be at least 16 characters" };
+  }
+
+  const now = new Date().toISOString();
+  const webhook: Webhook = {
+    id: generateWebhookId(),
+    url: input.url,
+    secret: input.secret || generateSecret(),
+    events: normalizeEvents(input.events),
+    active: true,
+    description: input.description?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return { success: true, webhook: webhooksCollection().put(webhook.id, webhook) };
+}
+
+/**
+ * Change a webhook's URL, events, description or active flag,
+ * or rotate its secret
+ */
+export function updateWebhook(id: string, updates: WebhookUpdate): WebhookMutationResult {
+  const invalid =
+    (updates.url !== undefined && validateUrl(updates.url)) ||
+    (updates.events !== undefined && validateEvents(updates.events)) ||
+    (updates.active !== undefined && typeof updates.active !== "boolean" && "active must be a boolean") ||
+    validateDescription(updates.description);
+  if (invalid) {
+    return { success: false, code: "invalid", error: invalid };
+  }
+
+  // Applied to the stored webhook as one read-modify-write, so concurrent updates are not lost
+  const webhook = webhooksCollection().update(id, (current) => {
+    const next: Webhook = { ...current, updatedAt: new Date().toISOString() };
+    if (updates.url !== undefined) next.url = updates.url;
+    if (updates.events !== undefined) next.events = normalizeEvents(updates.events);
+    if (updates.active !== undefined) next.active = updates.active;
+    if (updates.description !== undefined) next.description = updates.description?.trim() || undefined;
+    if (updates.rotateSecret) next.secret = generateSecret();
+    return next;
+  });
+
+  if (!webhook) {
+    return { success: false, code: "not_found", error: "Webhook not found" };
+  }
+  return { success: true, webhook };
+}
+
+/**
+ * Delete a webhook (its delivery log is kept)
+ */
+export function deleteWebhook(id: string): boolean {
+  return webhooksCollection().delete(id);
+}
+
+/**
+ * Webhook without its secret, for API responses
+ */
+export function maskWebhook(webhook: Webhook): Webhook {
+  return { ...webhook, secret: `${webhook.secret.slice(0, 10)}…` };
+}
+
+/**
+ * HTTP status for a webhook mutation error
+ */
+export function webhookErrorStatus(code: WebhookErrorCode | undefined): number {
+  switch (code) {
+    case "not_found":
+      return 404;
+    case "invalid":
+      return 400;
+    default:
+      return 500;
+  }
+}
+
+// ============================================================================
+// Delivery Log
+// ============================================================================
+
+/**
+ * Get a delivery
+ */
+export function getDelivery(id: string): WebhookDelivery | null {
+  return deliveriesCollection().get(id);
+}
+
+/**
+ * Deliveries for a webhook, newest first
+ */
+export function listDeliveries(
+  webhookId: string,
+  options: { status?: DeliveryStatus; limit?: number } = {}
+): WebhookDelivery[] {
+  const deliveries = deliveriesCollection()
+    .list()
+    .filter((delivery) => delivery.webhookId === webhookId)
+    .filter((delivery) => !options.status || delivery.status === options.status)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return options.limit ? deliveries.slice(0, options.limit) : deliveries;
+}
+
+/**
+ * Deliveries still waiting for an attempt
+ */
+export function getPendingDeliveries(): WebhookDelivery[] {
+  return deliveriesCollection()
+    .list()
+    .filter((delivery) => delivery.status === "pending");
+}
+
+/**
+ * Save a delivery record
+ */
+export function saveDelivery(delivery: WebhookDelivery): WebhookDelivery {
+  return deliveriesCollection().put(delivery.id, delivery);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateUrl(url: unknown): string | null {
+  if (typeof url !== "string") {
+    return "url is required";
+  }
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+      return "url must be http or https";
+    }
+  } catch {
+    return "url is not a valid URL";
+  }
+  return null;
+}
+
+function validateEvents(events: unknown): string | null {
+  if (!Array.isArray(events) || events.length === 0) {
+    return `events must be a non-empty array of: *, ${WEBHOOK_EVENTS.join(", ")}`;
+  }
+  const unknown = events.filter((event) => event !== "*" && !WEBHOOK_EVENTS.includes(event));
+  if (unknown.length > 0) {
+    return `Unknown events: ${unknown.join(", ")}`;
+  }
+  return null;
+}
+
+function validateDescription(description: unknown): string | null {
+  if (description === undefined || description === null || typeof description === "string") {
+    return null;
+  }
+  return "description must be a string";
+}
+
+/**
+ * A list containing "*" collapses to ["*"]; otherwise de-duplicated
+ */
+function normalizeEvents(events: string[]): Webhook["events"] {
+  if (events.includes("*")) {
+    return ["*"];
+  }
+  return Array.from(new Set(events)) as WebhookEventType[];
+}
@@ -3,10 +3,12 @@
  *
  * Handles custom domain routing for white-label storefronts.
  * Routes requests from shop.creatorname.com to the correct store.
+ * Also issues the velolume_session cookie storefront experiments are keyed on.
  */
 
 import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
+import { SESSION_COOKIE, generateSessionId } from "@/lib/storefront/session";
 
 // Main app domains that should not be treated as custom domains
 const MAIN_DOMAINS = [
@@ -75,6 +77,31 @@ async function getStoreIdFromDomain(domain: string): Promise<string | null> {
   return null;
 }
 
+/**
+ * Make sure the request carries a session cookie, so server rendering can
+ * pick experiment variants on the very first page view. Returns the new
+ * session ID to set on the response, or null if one already existed.
+ */
+function ensureSessionCookie(request: NextRequest): string | null {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return null;
+  }
+  const sessionId = generateSessionId();
+  request.cookies.set(SESSION_COOKIE, sessionId);
+  return sessionId;
+}
+
+/**
+ * Persist a newly issued session cookie (browser-session lifetime).
+ * Readable from JS so the analytics hook tags events with the same ID.
+ */
+function withSessionCookie(response: NextResponse, sessionId: string | null): NextResponse {
+  if (sessionId) {
+    response.cookies.set(SESSION_COOKIE, sessionId, { path: "/", sameSite: "lax" });
+  }
+  return response;
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   const host = request.headers.get("host") || "";
@@ -84,6 +111,8 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  const newSessionId = ensureSessionCookie(request);
+
   // Check if this is a custom domain
   if (isCustomDomain(host)) {
     // For custom domains, we need to rewrite to the store page
@@ -106,17 +135,17 @@ export async function middleware(request: NextRequest) {
       }
 
       // Add custom domain header for downstream use
-      const response = NextResponse.rewrite(url);
+      const response = NextResponse.rewrite(url, { request: { headers: request.headers } });
       response.headers.set("x-custom-domain", host);
       response.headers.set("x-store-id", storeId);
-      return response;
+      return withSessionCookie(response, newSessionId);
     }
 
     // Domain not found - redirect to main site
     return NextResponse.redirect(new URL("https://velolume.com", request.url));
   }
 
-  return NextResponse.next();
+  return withSessionCookie(NextResponse.next({ request: { headers: request.headers } }), newSessionId);
 }
 
 export const config = {
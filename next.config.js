@@ -37,6 +37,9 @@ const nextConfig = {
 
   // Experimental features for edge runtime
   experimental: {
+    // Run instrumentation.ts at server start (starts the local job queue)
+    instrumentationHook: true,
+
     // Enable server actions for form handling
     serverActions: {
       allowedOrigins: ["localhost:3000", "velolume.com", "*.velolume.com"],
@@ -0,0 +1,27 @@
+/**
+ * Compact Analytics Events
+ *
+ * Rolls finished UTC days of the raw analytics event log into hourly,
+ * daily and monthly rollups. The server compacts at start and after each
+ * UTC midnight, so this is only needed to backfill a large history ahead
+ * of time (e.g. from cron).
+ *
+ * Usage:
+ *   npx tsx scripts/compact-analytics.ts
+ */
+
+import { compactAnalytics } from "../lib/store/analytics-rollups";
+
+function main(): void {
+  console.log("=".repeat(60));
+  console.log("Compacting analytics events");
+  console.log("=".repeat(60));
+
+  const result = compactAnalytics();
+
+  console.log(`  Days compacted:    ${result.daysCompacted}`);
+  console.log(`  Rollups written:   ${result.rollupsWritten}`);
+  console.log(`  Compacted through: ${result.compactedThrough || "(nothing yet)"}`);
+}
+
+main();
@@ -0,0 +1,139 @@
+/**
+ * Evaluate Against a Golden Dataset
+ *
+ * Runs detection and matching over a labelled dataset and prints precision,
+ * recall, attribute accuracy, top-1/top-3 match accuracy and confidence
+ * calibration. The report is stored per commit in GOLDEN_EVAL_DIR (default
+ * data/evals) and its summary added to the dataset's history.
+ *
+ * Usage:
+ *   npx tsx scripts/eval-golden.ts --set tests/fixtures/golden/ootd.json
+ *   npx tsx scripts/eval-golden.ts --set tests/fixtures/golden/ootd.json --only matching
+ *   npx tsx scripts/eval-golden.ts --history ootd
+ *
+ * The datasets' inputs are not committed. Each video's videoKey must exist
+ * in the Spaces bucket (SPACES_* in .env.local), and its framesDir
+ * (frame-NNN.jpg under the gitignored test-output/) must be extracted
+ * locally first, or matching is skipped. Matching also needs SERP_API_KEY.
+ *
+ * AI_PROVIDER_MODE=replay only replaces the model calls, and only once a
+ * run with AI_PROVIDER_MODE=record has saved their fixtures to
+ * AI_FIXTURES_DIR; none are committed for the golden datasets.
+ */
+
+import { join } from "path";
+import { config } from "dotenv";
+import { Calibration } from "../lib/evaluation/metrics";
+import {
+  GoldenEvalStage,
+  GoldenEvalSummary,
+  loadGoldenDataset,
+  loadGoldenHistory,
+  runGoldenEval,
+  saveGoldenEvalReport,
+} from "../lib/evaluation/golden-eval";
+
+// Load environment variables
+config({ path: join(process.cwd(), ".env.local") });
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function printCalibration(label: string, result: Calibration): void {
+  console.log(`\n  ${label}: ${result.samples} predictions, ECE ${result.ece}, Brier ${result.brier}`);
+  for (const bin of result.bins) {
+    const range = `${bin.from.toFixed(1)}-${bin.to.toFixed(1)}`;
+    console.log(`    ${range.padEnd(10)} n=${String(bin.count).padStart(3)}  confidence ${percent(bin.meanConfidence).padStart(6)}  correct ${percent(bin.accuracy).padStart(6)}`);
+  }
+}
+
+function printHistory(dataset: string): void {
+  const history = loadGoldenHistory(dataset);
+  if (history.length === 0) {
+    console.log(`  No stored runs for ${dataset}`);
+    return;
+  }
+
+  const columns: Array<[string, keyof GoldenEvalSummary, GoldenEvalStage]> = [
+    ["Prec", "precision", "detection"],
+    ["Recall", "recall", "detection"],
+    ["Attr", "attributeAccuracy", "matching"],
+    ["Top-1", "top1Accuracy", "matching"],
+    ["Top-3", "top3Accuracy", "matching"],
+    ["Det ECE", "detectionECE", "detection"],
+    ["Match ECE", "matchECE", "matching"],
+  ];
+  console.log(`  ${"Commit".padEnd(20)} ${"Ran at".padEnd(20)} ${columns.map(([label]) => label.padStart(9)).join(" ")}`);
+  for (const entry of history) {
+    const commit = `${entry.commit}${entry.dirty ? "-dirty" : ""}`;
+    const values = columns.map(([, key, stage]) => (entry.stages.includes(stage) ? String(entry.summary[key]) : "-").padStart(9));
+    console.log(`  ${commit.padEnd(20)} ${entry.ranAt.slice(0, 19).replace("T", " ").padEnd(20)} ${values.join(" ")}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const historyDataset = argValue("history");
+  if (historyDataset) {
+    printHistory(historyDataset);
+    return;
+  }
+
+  const setPath = argValue("set");
+  const only = argValue("only");
+  if (!setPath || (only && only !== "detection" && only !== "matching")) {
+    console.error("Usage: npx tsx scripts/eval-golden.ts --set <file> [--only detection|matching]");
+    console.error("       npx tsx scripts/eval-golden.ts --history <dataset>");
+    process.exit(1);
+  }
+
+  const dataset = loadGoldenDataset(setPath);
+
+  console.log("=".repeat(60));
+  console.log(`Golden eval: ${dataset.name}`);
+  console.log("=".repeat(60));
+
+  const report = await runGoldenEval(dataset, {
+    detection: only !== "matching",
+    matching: only !== "detection",
+  });
+  const { detection, attributes, matching } = report;
+
+  console.log(`\n  Commit: ${report.commit}${report.dirty ? " (uncommitted changes)" : ""}, provider ${report.providerMode}`);
+  console.log(`  Prompts: ${report.prompts.join(", ") || "-"}`);
+
+  console.log(`\n  Detection`);
+  console.log(`    Precision ${percent(detection.precision)}  Recall ${percent(detection.recall)}  F1 ${percent(detection.f1)}`);
+  console.log(`    ${detection.truePositives} found, ${detection.falsePositives} extra, ${detection.falseNegatives} missed`);
+  for (const video of detection.videos) {
+    if (video.missed.length > 0) console.log(`    ${video.videoId} missed: ${video.missed.join(", ")}`);
+  }
+
+  console.log(`\n  Attributes: ${percent(attributes.accuracy)} (${attributes.correct}/${attributes.labelled}, answered ${attributes.predicted})`);
+  for (const stats of attributes.bySchema) {
+    const label = `${stats.schema} ${stats.attribute}`;
+    console.log(`    ${label.padEnd(40)} ${percent(stats.accuracy).padStart(7)}  (${stats.correct}/${stats.labelled}, coverage ${percent(stats.coverage)})`);
+  }
+
+  console.log(`\n  Matching: top-1 ${percent(matching.top1Accuracy)}  top-3 ${percent(matching.top3Accuracy)} over ${matching.evaluated} products`);
+  for (const product of matching.products) {
+    const outcome = product.error ? `failed: ${product.error}` : `accepted rank ${product.acceptedRank ?? "-"}`;
+    console.log(`    ${product.productId.padEnd(24)} ${outcome}`);
+  }
+
+  printCalibration("Detection confidence", detection.calibration);
+  printCalibration("Match confidence", matching.calibration);
+
+  console.log(`\n  Detection cost: $${report.summary.detectionCostUSD.toFixed(4)}`);
+  console.log(`  Report: ${saveGoldenEvalReport(report)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,87 @@
+/**
+ * Evaluate Prompt Versions
+ *
+ * Runs two versions of a registered prompt over a fixture set and prints
+ * their field-level agreement, cost and latency. The full report is saved
+ * to PROMPT_EVAL_DIR (default data/prompt-evals).
+ *
+ * Usage:
+ *   npx tsx scripts/eval-prompts.ts --set tests/fixtures/prompt-eval/visual-ranking.json --a 1.0.0 --b 3.0.0
+ *   npx tsx scripts/eval-prompts.ts --list
+ *
+ * Without --a and --b, the active version is compared with the one before
+ * it. Set AI_PROVIDER_MODE=replay to rerun a set recorded with
+ * AI_PROVIDER_MODE=record, or mock, without API calls. Recorded fixtures
+ * and the images a set reads from disk are not committed; see the set's
+ * description for what it needs.
+ */
+
+import { join } from "path";
+import { config } from "dotenv";
+import { getPrompt, getPromptVersions, listPrompts } from "../lib/prompts";
+import { loadPromptEvalSet, runPromptEval, savePromptEvalReport } from "../lib/prompts/evaluation";
+
+// Load environment variables
+config({ path: join(process.cwd(), ".env.local") });
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+async function main(): Promise<void> {
+  if (process.argv.includes("--list")) {
+    for (const prompt of listPrompts()) {
+      console.log(`  ${prompt.id.padEnd(32)} ${prompt.versions.join(", ")} (active ${prompt.active})`);
+    }
+    return;
+  }
+
+  const setPath = argValue("set");
+  if (!setPath) {
+    console.error("Usage: npx tsx scripts/eval-prompts.ts --set <file> [--a <version>] [--b <version>]");
+    process.exit(1);
+  }
+
+  const set = loadPromptEvalSet(setPath);
+  const versions = getPromptVersions(set.promptId);
+  const versionB = argValue("b") || getPrompt(set.promptId).version;
+  const versionA = argValue("a") || versions[versions.indexOf(versionB) - 1];
+  if (!versionA) {
+    console.error(`  ${set.promptId} has no version before ${versionB}; pass --a`);
+    process.exit(1);
+  }
+
+  console.log("=".repeat(60));
+  console.log(`Prompt eval: ${set.name} (${set.promptId} ${versionA} vs ${versionB})`);
+  console.log("=".repeat(60));
+
+  const report = await runPromptEval(set, versionA, versionB);
+  const { a, b } = report.versions;
+
+  console.log(`\n  ${"".padEnd(22)} ${"A".padStart(14)} ${"B".padStart(14)}`);
+  console.log(`  ${"Prompt".padEnd(22)} ${a.ref.split("@")[1].padStart(14)} ${b.ref.split("@")[1].padStart(14)}`);
+  console.log(`  ${"Failed calls".padEnd(22)} ${`${a.failed}/${a.calls}`.padStart(14)} ${`${b.failed}/${b.calls}`.padStart(14)}`);
+  console.log(`  ${"Total cost".padEnd(22)} ${`$${a.costUSD.toFixed(4)}`.padStart(14)} ${`$${b.costUSD.toFixed(4)}`.padStart(14)}`);
+  console.log(`  ${"Avg cost / case".padEnd(22)} ${`$${a.avgCostUSD.toFixed(4)}`.padStart(14)} ${`$${b.avgCostUSD.toFixed(4)}`.padStart(14)}`);
+  console.log(`  ${"Avg latency".padEnd(22)} ${`${a.avgLatencyMs}ms`.padStart(14)} ${`${b.avgLatencyMs}ms`.padStart(14)}`);
+  console.log(`  ${"Max latency".padEnd(22)} ${`${a.maxLatencyMs}ms`.padStart(14)} ${`${b.maxLatencyMs}ms`.padStart(14)}`);
+
+  console.log(`\n  Overall agreement: ${percent(report.agreement.overall)}`);
+  for (const field of report.agreement.fields) {
+    const only = field.onlyA + field.onlyB > 0 ? ` (only A: ${field.onlyA}, only B: ${field.onlyB})` : "";
+    const diff = field.meanAbsDiff !== undefined ? ` mean |A-B| ${field.meanAbsDiff}` : "";
+    console.log(`    ${field.field.padEnd(36)} ${percent(field.agreement).padStart(7)}${diff}${only}`);
+  }
+
+  console.log(`\n  Report: ${savePromptEvalReport(report)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
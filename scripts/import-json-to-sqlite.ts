@@ -0,0 +1,51 @@
+/**
+ * Import JSON Data into SQLite
+ *
+ * One-shot migration of data/jobs.json, stores.json, analytics.json,
+ * analytics-rollups.json, domains.json, experiments.json, dead-letters.json,
+ * queue.json, webhooks.json, batches.json, contents.json,
+ * reprocess-runs.json, cost-ledger.json and the data/events/ logs into the
+ * SQLite database used by PERSISTENCE_DRIVER=sqlite.
+ * Safe to re-run: documents are upserted and events are only copied into
+ * an empty event log.
+ *
+ * Usage:
+ *   npx tsx scripts/import-json-to-sqlite.ts [sqlite-path]
+ *   npx tsx scripts/import-json-to-sqlite.ts                    # data/velolume.db
+ *   npx tsx scripts/import-json-to-sqlite.ts /var/lib/velolume.db
+ */
+
+import { createDriver, importAll, DATA_DIR, PERSISTENCE_CONFIG } from "../lib/db";
+
+function main(): void {
+  const sqlitePath = process.argv[2] || PERSISTENCE_CONFIG.sqlitePath;
+
+  console.log("=".repeat(60));
+  console.log("Importing JSON data into SQLite");
+  console.log("=".repeat(60));
+  console.log(`  Source: ${DATA_DIR}/*.json`);
+  console.log(`  Target: ${sqlitePath}`);
+
+  const source = createDriver("json");
+  const target = createDriver("sqlite", { sqlitePath });
+
+  try {
+    const summary = importAll(source, target);
+
+    console.log("\nCollections:");
+    for (const [name, count] of Object.entries(summary.collections)) {
+      console.log(`  ✓ ${name}: ${count}`);
+    }
+
+    console.log("\nEvent logs:");
+    for (const [name, count] of Object.entries(summary.events)) {
+      console.log(`  ✓ ${name}: ${count}`);
+    }
+
+    console.log("\nDone. Set PERSISTENCE_DRIVER=sqlite to use the imported database.");
+  } finally {
+    target.close();
+  }
+}
+
+main();
@@ -0,0 +1,40 @@
+/**
+ * Unit Test Harness
+ *
+ * Shared by the scripts/test-*.ts unit tests (npm run test:unit): checks
+ * print ✓ or ✗ as they run, and finish() exits non-zero if any failed.
+ */
+
+let failures = 0;
+
+/**
+ * Record one check, printing what was received when it fails
+ */
+export function check(label: string, passed: boolean, detail?: unknown): void {
+  console.log(`  ${passed ? "✓" : "✗"} ${label}`);
+  if (!passed) {
+    failures++;
+    if (detail !== undefined) console.log(`    Got: ${JSON.stringify(detail)}`);
+  }
+}
+
+/**
+ * Print a test file's banner
+ */
+export function begin(title: string): void {
+  console.log("=".repeat(60));
+  console.log(`Testing ${title}`);
+  console.log("=".repeat(60));
+}
+
+/**
+ * Print the outcome and exit with status 1 if any check failed
+ */
+export function finish(subject: string): void {
+  console.log("\n" + "=".repeat(60));
+  if (failures > 0) {
+    console.log(`${failures} check(s) failed`);
+    process.exit(1);
+  }
+  console.log(`All ${subject} tests passed`);
+}
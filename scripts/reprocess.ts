@@ -0,0 +1,63 @@
+/**
+ * Reprocess Jobs
+ *
+ * Starts reprocess runs through the running app's API, so the new jobs are
+ * picked up by its queue. Results wait for review at /api/reprocess.
+ *
+ * Usage:
+ *   npx tsx scripts/reprocess.ts --job <jobId>
+ *   npx tsx scripts/reprocess.ts --store <storeId>
+ *   npx tsx scripts/reprocess.ts --below <version> [--limit <n>]
+ *
+ * Without arguments, every job below the current processor version is
+ * re-run. VELOLUME_URL sets the app's address (default http://localhost:3000).
+ */
+
+const BASE_URL = process.env.VELOLUME_URL || "http://localhost:3000";
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main(): Promise<void> {
+  const limit = argValue("limit");
+  const body = {
+    jobId: argValue("job"),
+    storeId: argValue("store"),
+    belowVersion: argValue("below"),
+    limit: limit ? parseInt(limit) : undefined,
+  };
+
+  console.log("=".repeat(60));
+  console.log("Reprocessing");
+  console.log("=".repeat(60));
+
+  const response = await fetch(`${BASE_URL}/api/reprocess`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    console.error(`  Failed (${response.status}): ${result.error}`);
+    process.exit(1);
+  }
+
+  const runs = result.run ? [result.run] : result.started;
+  for (const run of runs) {
+    console.log(`  ${run.id}: job ${run.baseJobId} -> ${run.candidateJobId}`);
+  }
+  for (const failure of result.failed || []) {
+    console.log(`  Skipped ${failure.jobId}: ${failure.error}`);
+  }
+  if (result.belowVersion) {
+    console.log(`  Jobs below ${result.belowVersion}: ${runs.length} started`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+/**
+ * Experiment Statistics Test
+ *
+ * Checks the Wilson interval and two-proportion z-test behind A/B
+ * experiment results (lib/store/experiment-results.ts) against reference
+ * values. No server or API keys needed.
+ *
+ * Usage: npm run test:experiment-stats
+ */
+
+import { holmRejectsAll, twoProportionPValue, wilsonInterval } from "../lib/store/experiment-results";
+import { begin, check, finish } from "./lib/check";
+
+function near(actual: number, expected: number, tolerance: number = 1e-4): boolean {
+  return Math.abs(actual - expected) <= tolerance;
+}
+
+function main(): void {
+  begin("Experiment Statistics");
+
+  console.log("\n[Test 1] Wilson interval (95%)");
+  const tenPercent = wilsonInterval(10, 100);
+  check("10/100 is 5.52%-17.44%", near(tenPercent.lower, 0.05523) && near(tenPercent.upper, 0.17437), tenPercent);
+  const none = wilsonInterval(0, 10);
+  check("0/10 starts at 0 and is not degenerate", none.lower === 0 && near(none.upper, 0.27753), none);
+  const all = wilsonInterval(10, 10);
+  check("10/10 ends at 1 and is not degenerate", near(all.lower, 0.72247) && near(all.upper, 1), all);
+  const empty = wilsonInterval(0, 0);
+  check("No trials gives an empty interval", empty.lower === 0 && empty.upper === 0, empty);
+  const small = wilsonInterval(5, 50);
+  const large = wilsonInterval(50, 500);
+  check("More trials narrow the interval", large.upper - large.lower < small.upper - small.lower, { small, large });
+
+  console.log("\n[Test 2] Two-proportion z-test");
+  const significant = twoProportionPValue(20, 100, 10, 100);
+  check("20/100 vs 10/100 gives p = 0.0477", near(significant, 0.04767, 1e-3), significant);
+  const notSignificant = twoProportionPValue(120, 1000, 100, 1000);
+  check("12% vs 10% over 1000 sessions gives p = 0.153", near(notSignificant, 0.15292, 1e-3), notSignificant);
+  const strong = twoProportionPValue(30, 1000, 60, 1000);
+  check("3% vs 6% over 1000 sessions gives p = 0.0012", near(strong, 0.00121, 1e-4), strong);
+  check("The test is symmetric", near(twoProportionPValue(10, 100, 20, 100), significant, 1e-12));
+  check("Equal rates give p = 1", near(twoProportionPValue(50, 1000, 50, 1000), 1, 1e-6));
+  check("No variance (all or nothing) gives p = 1", twoProportionPValue(0, 100, 0, 100) === 1 && twoProportionPValue(100, 100, 50, 50) === 1);
+  check("A variant without sessions gives p = 1", twoProportionPValue(10, 100, 0, 0) === 1);
+
+  console.log("\n[Test 3] Holm correction");
+  check("A single test is compared to alpha", holmRejectsAll([0.049], 0.05) && !holmRejectsAll([0.05], 0.05));
+  check("Three tests need the smallest below alpha / 3", !holmRejectsAll([0.02, 0.03, 0.04], 0.05));
+  check("Then the next below alpha / 2 and the last below alpha", holmRejectsAll([0.04, 0.016, 0.02], 0.05));
+  check("A middle test above alpha / 2 keeps them all", !holmRejectsAll([0.001, 0.03, 0.04], 0.05));
+  check("No tests reject trivially", holmRejectsAll([], 0.05));
+
+  finish("experiment statistics");
+}
+
+main();
@@ -0,0 +1,103 @@
+/**
+ * Golden Metrics Test
+ *
+ * Checks the scoring helpers behind the golden-dataset evaluation
+ * (lib/evaluation/metrics.ts): name similarity and pairing, precision and
+ * recall, attribute and listing comparison, and confidence calibration.
+ * No server or API keys needed.
+ *
+ * Usage: npm run test:golden-metrics
+ */
+
+import {
+  attributeMatches,
+  calibration,
+  nameSimilarity,
+  normalizeValue,
+  pairBySimilarity,
+  precisionRecall,
+  ratio,
+  sameListingTitle,
+} from "../lib/evaluation/metrics";
+import { begin, check, finish } from "./lib/check";
+
+function main(): void {
+  begin("Golden Metrics");
+
+  console.log("\n[Test 1] Name similarity");
+  check("Word order and case are ignored", nameSimilarity("Olive Green Sweater", "sweater green OLIVE") === 1);
+  check("Plurals are folded", nameSimilarity("Black Sunglasses", "black sunglass") === 1 && nameSimilarity("Red Dresses", "red dress") === 1);
+  check("Stop words are ignored", nameSimilarity("The Sweater for Women", "sweater") === 1);
+  const partial = nameSimilarity("Light Blue Denim Shorts", "Denim Shorts");
+  check("Shared words score 2 * shared / total", partial === 0.667, partial);
+  check("Empty names score 0", nameSimilarity("", "sweater") === 0 && nameSimilarity("the", "the") === 0);
+
+  console.log("\n[Test 2] Pairing");
+  const detected = ["Denim Shorts", "Olive Sweater", "Gold Necklace"];
+  const labelled = ["Olive Green Sweater", "Light Blue Denim Shorts", "White Sneakers"];
+  const paired = pairBySimilarity(detected, labelled, nameSimilarity, 0.5);
+  check(
+    "Each prediction pairs with its most similar label",
+    JSON.stringify(paired.pairs.map((pair) => [pair.prediction, pair.label])) === JSON.stringify([[1, 0], [0, 1]]),
+    paired.pairs
+  );
+  check(
+    "Pairs below the threshold stay unpaired",
+    paired.unpairedPredictions.join() === "2" && paired.unpairedLabels.join() === "2",
+    paired
+  );
+  const contested = pairBySimilarity(["Sweater", "Green Sweater"], ["Green Sweater"], nameSimilarity, 0.5);
+  check(
+    "A label pairs only once, with the better prediction",
+    contested.pairs.length === 1 && contested.pairs[0].prediction === 1 && contested.unpairedPredictions.join() === "0",
+    contested
+  );
+
+  console.log("\n[Test 3] Precision and recall");
+  const scores = precisionRecall(8, 2, 4);
+  check("8 right, 2 extra, 4 missed", scores.precision === 0.8 && scores.recall === 0.667 && scores.f1 === 0.727, scores);
+  const nothing = precisionRecall(0, 0, 0);
+  check("No predictions or labels give zeros", nothing.precision === 0 && nothing.recall === 0 && nothing.f1 === 0, nothing);
+  check("Ratios round and guard zero denominators", ratio(1, 3) === 0.333 && ratio(1, 0) === 0);
+
+  console.log("\n[Test 4] Attribute values and listings");
+  check("Case, spaces and hyphens are ignored", attributeMatches("Olive-Green", "olive green") && attributeMatches("crew_neck", "crew neck"));
+  check("Any listed value is accepted", attributeMatches("olive", ["olive green", "olive"]) && !attributeMatches("green", ["olive green", "olive"]));
+  check("Booleans equal their strings", attributeMatches(true, "true") && attributeMatches("false", false));
+  check(
+    "Unknown answers never match",
+    normalizeValue("Unknown") === null && normalizeValue("not visible") === null && !attributeMatches(undefined, "unknown")
+  );
+  check(
+    "Listing titles ignore case and punctuation",
+    sameListingTitle("Cable-Knit Sweater (Olive)!", "cable knit sweater olive")
+  );
+  check("Different listings differ", !sameListingTitle("Cable Knit Sweater", "Cable Knit Cardigan"));
+
+  console.log("\n[Test 5] Calibration");
+  const perfect = calibration([
+    { confidence: 1, correct: true },
+    { confidence: 0, correct: false },
+  ]);
+  check("Certain and right is perfectly calibrated", perfect.ece === 0 && perfect.brier === 0 && perfect.bins.length === 2, perfect);
+  const overconfident = calibration([
+    { confidence: 0.9, correct: true },
+    { confidence: 0.9, correct: false },
+    { confidence: 0.95, correct: false },
+    { confidence: 0.3, correct: false },
+  ]);
+  const top = overconfident.bins[overconfident.bins.length - 1];
+  check(
+    "Bins hold their predictions' mean confidence and accuracy",
+    overconfident.bins.length === 2 && top.from === 0.9 && top.count === 3 && top.meanConfidence === 0.917 && top.accuracy === 0.333,
+    overconfident.bins
+  );
+  // ECE = 3/4 * |0.333 - 0.917| + 1/4 * |0 - 0.3|; Brier = (0.01 + 0.81 + 0.9025 + 0.09) / 4
+  check("ECE weights each bin by its share", overconfident.ece === 0.513 && overconfident.brier === 0.453, overconfident);
+  check("Out-of-range confidence is clamped", calibration([{ confidence: 1.4, correct: true }]).bins[0].from === 0.9);
+  check("No predictions give an empty report", calibration([]).samples === 0 && calibration([]).bins.length === 0);
+
+  finish("golden metrics");
+}
+
+main();
@@ -0,0 +1,81 @@
+/**
+ * Job State Machine Test
+ *
+ * Checks the allowed job status transitions, terminal statuses, legacy
+ * status names and stage timings (lib/store/job-state-machine.ts).
+ * No server or API keys needed.
+ *
+ * Usage: npm run test:job-state-machine
+ */
+
+import {
+  canReopen,
+  canTransition,
+  getStageDurations,
+  isTerminalStatus,
+  JOB_STATUSES,
+  JobStatus,
+  recordStageTransition,
+  toJobStatus,
+} from "../lib/store/job-state-machine";
+import { begin, check, finish } from "./lib/check";
+
+function main(): void {
+  begin("Job State Machine");
+
+  console.log("\n[Test 1] Happy path");
+  const path: JobStatus[] = ["queued", "processing", "uploaded", "transcribing", "analyzing", "generating", "completed"];
+  const broken = path.slice(1).filter((to, index) => !canTransition(path[index], to));
+  check("Every pipeline step is allowed", broken.length === 0, broken);
+  check("Simulated jobs may skip the upload", canTransition("processing", "transcribing"));
+  check("Stages cannot be skipped", !canTransition("queued", "analyzing") && !canTransition("transcribing", "completed"));
+
+  console.log("\n[Test 2] Retries, pauses and fallbacks");
+  check("A retry restarts from processing", canTransition("analyzing", "retrying") && canTransition("retrying", "processing"));
+  check("A retry cannot jump back into an AI stage", !canTransition("retrying", "analyzing"));
+  check("AI stages can fall back to uploaded", canTransition("generating", "uploaded") && canTransition("transcribing", "uploaded"));
+  check("Resuming a paused job requeues it", canTransition("paused", "queued") && !canTransition("paused", "processing"));
+
+  console.log("\n[Test 3] Terminal statuses");
+  const terminal = JOB_STATUSES.filter(isTerminalStatus);
+  check("completed, failed and cancelled are terminal", terminal.join() === "completed,failed,cancelled", terminal);
+  const escapes = terminal.flatMap((from) => JOB_STATUSES.filter((to) => canTransition(from, to)).map((to) => `${from}->${to}`));
+  check("Terminal statuses accept no transition", escapes.length === 0, escapes);
+  const unstoppable = JOB_STATUSES.filter((status) => !isTerminalStatus(status) && !canTransition(status, "cancelled"));
+  check("Every other status can be cancelled", unstoppable.length === 0, unstoppable);
+  check("Only failed jobs can be reopened", canReopen("failed") && !canReopen("completed") && !canReopen("cancelled"));
+
+  console.log("\n[Test 4] Legacy statuses");
+  check("Current names map to themselves", toJobStatus("analyzing") === "analyzing");
+  check("Creator-flow names map to stages", toJobStatus("transcribing_audio") === "transcribing" && toJobStatus("fetching_source") === "processing");
+  check("Noir log names map to stages", toJobStatus("ai_vision") === "analyzing" && toJobStatus("soho_gen") === "generating");
+  check("Unknown names map to null", toJobStatus("exploded") === null);
+
+  console.log("\n[Test 5] Stage timings");
+  let stages = recordStageTransition(undefined, "queued", "2026-01-01T00:00:00.000Z");
+  stages = recordStageTransition(stages, "processing", "2026-01-01T00:00:02.000Z");
+  stages = recordStageTransition(stages, "retrying", "2026-01-01T00:00:05.000Z");
+  stages = recordStageTransition(stages, "processing", "2026-01-01T00:00:15.000Z");
+  const open = getStageDurations(stages, new Date("2026-01-01T00:00:16.000Z"));
+  check(
+    "Repeated stages are summed and the open one measured to now",
+    JSON.stringify(open) ===
+      JSON.stringify([
+        { stage: "queued", durationMs: 2000, active: false },
+        { stage: "processing", durationMs: 4000, active: true },
+        { stage: "retrying", durationMs: 10000, active: false },
+      ]),
+    open
+  );
+  stages = recordStageTransition(stages, "failed", "2026-01-01T00:00:20.000Z");
+  const closed = getStageDurations(stages, new Date("2026-01-01T01:00:00.000Z"));
+  check(
+    "A terminal status closes the last stage without opening one",
+    stages.length === 4 && closed.every((duration) => !duration.active) && closed[1].durationMs === 8000,
+    closed
+  );
+
+  finish("job state machine");
+}
+
+main();
@@ -0,0 +1,183 @@
+/**
+ * Model Fallback Test
+ *
+ * Checks the provider circuit breakers (lib/ai/circuit-breaker.ts) through
+ * closed, open and half-open with an injected clock, and the model router's
+ * fallback chain and budget downgrades (lib/ai/model-router.ts) against a
+ * scripted mock provider. Costs go to a temporary data directory.
+ * No server or API keys needed.
+ *
+ * Usage: npm run test:model-fallback
+ */
+
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createDriver, setPersistence } from "../lib/db";
+import {
+  canRequest,
+  CIRCUIT_BREAKER_CONFIG,
+  getCircuitStatus,
+  recordFailure,
+  recordSuccess,
+  resetCircuits,
+} from "../lib/ai/circuit-breaker";
+import { BudgetExceededError, COST_BUDGET_CONFIG } from "../lib/ai/cost-budget";
+import { MODEL_RETRY_CONFIG, ModelChainError, ModelRouter, selectModel, TaskResult } from "../lib/ai/model-router";
+import { MockProvider, MockRule, setAIProvider } from "../lib/ai/providers";
+import { begin, check, finish } from "./lib/check";
+
+const ANSWER = { ok: true };
+
+/**
+ * Router whose calls are answered by the given mock rules
+ */
+function mockedRouter(rules: MockRule[]): { router: ModelRouter; provider: MockProvider } {
+  const provider = new MockProvider({ rules });
+  setAIProvider(provider);
+  resetCircuits();
+  return { router: new ModelRouter(), provider };
+}
+
+function attemptSummary(result: TaskResult<unknown> | ModelChainError): string[] {
+  return result.attempts.map(
+    (attempt) => `${attempt.model}${attempt.skipped ? `:${attempt.skipped}` : attempt.reason ? `:${attempt.reason}` : ""}`
+  );
+}
+
+async function main(): Promise<void> {
+  begin("Model Fallback");
+
+  const dataDir = mkdtempSync(join(tmpdir(), "model-fallback-"));
+  setPersistence(createDriver("json", { dataDir }));
+  CIRCUIT_BREAKER_CONFIG.failureThreshold = 3;
+  CIRCUIT_BREAKER_CONFIG.cooldownMs = 1000;
+  MODEL_RETRY_CONFIG.maxAttempts = 2;
+  MODEL_RETRY_CONFIG.baseDelayMs = 1;
+  MODEL_RETRY_CONFIG.maxDelayMs = 1;
+
+  try {
+    console.log("\n[Test 1] Circuit breaker");
+    resetCircuits();
+    const t = 1_000_000;
+    recordFailure("openai", t);
+    recordFailure("openai", t);
+    check("Stays closed below the threshold", canRequest("openai", t) && getCircuitStatus().openai.state === "closed");
+    recordSuccess("openai");
+    recordFailure("openai", t);
+    recordFailure("openai", t);
+    check("A success resets the failure count", getCircuitStatus().openai.consecutiveFailures === 2);
+    recordFailure("openai", t);
+    check("Opens at the threshold", getCircuitStatus().openai.state === "open" && !canRequest("openai", t + 999));
+    check("Lets one trial through after the cooldown", canRequest("openai", t + 1000) && getCircuitStatus().openai.state === "half_open");
+    check("Refuses other requests while the trial runs", !canRequest("openai", t + 1001));
+    recordFailure("openai", t + 1200);
+    check(
+      "A failed trial opens it again for a full cooldown",
+      getCircuitStatus().openai.state === "open" && !canRequest("openai", t + 2199) && canRequest("openai", t + 2200)
+    );
+    recordSuccess("openai");
+    check(
+      "A successful trial closes it",
+      getCircuitStatus().openai.state === "closed" && canRequest("openai", t + 2201) && canRequest("openai", t + 2202)
+    );
+    check("Providers have separate breakers", canRequest("google", t) && getCircuitStatus().google.state === "closed");
+
+    console.log("\n[Test 2] Fallback chain");
+    const outage = mockedRouter([
+      { kind: "chat", match: { model: "gpt-4o-mini" }, error: { status: 503 } },
+      { kind: "chat", match: { model: "gemini-2.0-flash" }, response: ANSWER },
+    ]);
+    const fellBack = await outage.router.executeTextTask("seo_generation", "system", "prompt");
+    check(
+      "A 5xx is retried, then the next model serves the task",
+      JSON.stringify(attemptSummary(fellBack)) ===
+        JSON.stringify(["gpt-4o-mini:http_503", "gpt-4o-mini:http_503", "gemini-2.0-flash"]),
+      attemptSummary(fellBack)
+    );
+    check("The fallback is reported against the primary", fellBack.cost.fallbackFrom === "gpt-4o-mini", fellBack.cost);
+
+    const rejected = mockedRouter([
+      { kind: "chat", match: { model: "gpt-4o-mini" }, error: { status: 401 } },
+      { kind: "chat", match: { model: "gemini-2.0-flash" }, response: ANSWER },
+    ]);
+    const permanent = await rejected.router.executeTextTask("seo_generation", "system", "prompt");
+    check(
+      "A permanent error moves on without retrying",
+      JSON.stringify(attemptSummary(permanent)) === JSON.stringify(["gpt-4o-mini:http_401", "gemini-2.0-flash"]),
+      attemptSummary(permanent)
+    );
+
+    const tripped = mockedRouter([{ kind: "chat", response: ANSWER }]);
+    for (let i = 0; i < CIRCUIT_BREAKER_CONFIG.failureThreshold; i++) recordFailure("openai");
+    const skipped = await tripped.router.executeTextTask("seo_generation", "system", "prompt");
+    check(
+      "An open breaker skips its provider without calling it",
+      skipped.model === "gemini-2.0-flash" &&
+        attemptSummary(skipped)[0] === "gpt-4o-mini:circuit_open" &&
+        tripped.provider.calls.length === 1,
+      attemptSummary(skipped)
+    );
+
+    const down = mockedRouter([{ kind: "chat", error: { status: 500 } }]);
+    let chainError: unknown;
+    try {
+      await down.router.executeTextTask("seo_generation", "system", "prompt");
+    } catch (error) {
+      chainError = error;
+    }
+    check(
+      "Exhausting the chain throws ModelChainError with every attempt",
+      chainError instanceof ModelChainError && chainError.attempts.length === 4,
+      chainError instanceof ModelChainError ? attemptSummary(chainError) : String(chainError)
+    );
+
+    console.log("\n[Test 3] Budget downgrades");
+    const scope = { jobId: "job-budget" };
+    const budgeted = mockedRouter([
+      { kind: "chat", match: { model: "gpt-4o-mini" }, error: { status: 503 } },
+      { kind: "chat", response: ANSWER, usage: { inputTokens: 1000, outputTokens: 100 } },
+    ]);
+    check("Under budget the task's model is selected", selectModel("gpt-4o", scope).config.model === "gpt-4o");
+    COST_BUDGET_CONFIG.jobBudgetUSD = 0.001;
+    await budgeted.router.executeVisionTask("product_detection", [], "system", "prompt", undefined, { scope });
+    const selection = selectModel("gpt-4o", scope);
+    check(
+      "Over budget the cheaper model of the same provider is selected",
+      selection.config.model === "gpt-4o-mini" && selection.downgradedFrom === "gpt-4o",
+      selection
+    );
+    const downgraded = await budgeted.router.executeVisionTask("product_detection", [], "system", "prompt", undefined, {
+      scope,
+    });
+    check(
+      "Fallbacks are downgraded too, in chain order",
+      JSON.stringify(attemptSummary(downgraded)) ===
+        JSON.stringify(["gpt-4o-mini:http_503", "gpt-4o-mini:http_503", "gemini-2.0-flash"]),
+      attemptSummary(downgraded)
+    );
+
+    COST_BUDGET_CONFIG.jobHardCapUSD = 0.001;
+    const capped = mockedRouter([{ kind: "chat", response: ANSWER }]);
+    let capError: unknown;
+    try {
+      await capped.router.executeVisionTask("product_detection", [], "system", "prompt", undefined, { scope });
+    } catch (error) {
+      capError = error;
+    }
+    check(
+      "Over the hard cap the task is refused without a call",
+      capError instanceof BudgetExceededError && capped.provider.calls.length === 0,
+      String(capError)
+    );
+  } finally {
+    rmSync(dataDir, { recursive: true, force: true });
+  }
+
+  finish("model fallback");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -16,11 +16,13 @@ import { join } from "path";
 import { readFileSync, writeFileSync, existsSync } from "fs";
 import OpenAI from "openai";
 import {
+  categoryPromptId,
   getSchema,
   ProductCategory,
   Subcategory,
   CategorySchema,
 } from "../lib/matching/category-schemas";
+import { renderPrompt } from "../lib/prompts";
 
 config({ path: join(process.cwd(), ".env.local") });
 
@@ -178,7 +180,7 @@ async function extractMultiFrameAttributes(
             content: [
               {
                 type: "text",
-                text: `${schema.extractionPrompt}\n\nProduct context: ${productName}`,
+                text: renderPrompt(categoryPromptId(schema), { context: `Product context: ${productName}` }).text,
               },
               {
                 type: "image_url",
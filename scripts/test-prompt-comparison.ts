@@ -9,6 +9,9 @@
  * - V2: Attribute-focused with weighted scoring
  * - V3: Stricter verification criteria
  *
+ * The prompts are versions 1-3 of matching.visual_ranking in the prompt
+ * registry; scripts/eval-prompts.ts compares any two of them on a fixture set.
+ *
  * Usage: npx tsx scripts/test-prompt-comparison.ts
  */
 
@@ -16,6 +19,7 @@ import OpenAI from "openai";
 import { readFileSync, writeFileSync, existsSync } from "fs";
 import { join } from "path";
 import { config } from "dotenv";
+import { renderPrompt } from "../lib/prompts";
 
 // Load environment variables
 config({ path: join(process.cwd(), ".env.local") });
@@ -57,115 +61,21 @@ interface PromptResult {
 // PROMPT DEFINITIONS
 // ============================================================================
 
+// Versions of matching.visual_ranking (lib/prompts/templates/matching.ts)
 const PROMPTS = {
-  V1_CURRENT: (candidateCount: number) => `Image 1 is a product from a creator's video (an olive green knit crop sweater). Images 2-${candidateCount + 1} are shopping results.
-
-Rank images 2-${candidateCount + 1} by how closely they visually match the product in Image 1.
-
-For each shopping result, provide:
-- Rank (1-${candidateCount}, where 1 is best match)
-- Similarity score (0-100, where 100 is identical)
-- Reasoning (1 sentence explaining why)
-
-Consider: color match, knit texture/pattern, crop length, sleeve style, neckline, overall silhouette.
-
-Respond in this exact JSON format:
-{
-  "rankings": [
-    {
-      "imageNumber": 2,
-      "rank": 1,
-      "similarityScore": 85,
-      "reasoning": "Very close color match and similar cable knit texture"
-    }
-  ]
-}`,
-
-  V2_ATTRIBUTE_FOCUSED: (candidateCount: number) => `Image 1 shows an olive green knit crop sweater from a creator's video. Images 2-${candidateCount + 1} are shopping results.
-
-For each shopping result (Images 2-${candidateCount + 1}), score 0-100 based on these weighted criteria:
-
-**Color Match (40 points max):**
-- 40: Exact same shade of olive green
-- 30: Very close shade (slightly lighter/darker)
-- 20: Similar green family but noticeably different
-- 10: Different color family
-- 0: Completely different color
-
-**Style Match (30 points max):**
-- 30: Same neckline, sleeve length, and crop length
-- 20: 2 of 3 match
-- 10: 1 of 3 match
-- 0: None match
-
-**Material/Texture Match (20 points max):**
-- 20: Same knit pattern and texture
-- 15: Similar knit style
-- 10: Different knit but same category (sweater)
-- 0: Different material entirely
-
-**Overall Vibe (10 points max):**
-- 10: A fan would definitely think this is the same item
-- 5: A fan might think it's similar
-- 0: A fan would not confuse these items
-
-Provide the total score (sum of all categories) and a brief breakdown.
-
-Respond in JSON format:
-{
-  "rankings": [
-    {
-      "imageNumber": 2,
-      "totalScore": 75,
-      "breakdown": {
-        "color": 35,
-        "style": 20,
-        "material": 15,
-        "vibe": 5
-      },
-      "reasoning": "Close color match but different neckline style"
-    }
-  ]
-}`,
-
-  V3_STRICT_VERIFICATION: (candidateCount: number) => `You are a strict product verification system. Your job is to determine if shopping results match a product shown in a creator's video.
-
-**Reference Product (Image 1):** Olive green knit crop sweater
-
-**Shopping Results:** Images 2-${candidateCount + 1}
-
-**Scoring Guidelines (BE STRICT):**
-- 90-100: NEARLY IDENTICAL - A fan would be 95%+ confident this is the exact same item
-- 70-89: VERY SIMILAR - Same style, very close color, minor differences only
-- 50-69: SOMEWHAT SIMILAR - Same category, some shared features, but noticeable differences
-- 30-49: LOOSELY RELATED - Same general type but clearly different item
-- 0-29: NOT A MATCH - Different product entirely
-
-**Penalty Triggers (deduct points heavily):**
-- Wrong color shade (not olive green): -30 points
-- Wrong neckline (crew vs mock vs v-neck): -20 points
-- Wrong sleeve style (long vs short vs 3/4): -15 points
-- Wrong length (crop vs regular vs long): -20 points
-- Wrong material look (cable knit vs ribbed vs waffle): -15 points
-
-Start at 100 and deduct for each difference you observe.
-
-Respond in JSON format:
-{
-  "rankings": [
-    {
-      "imageNumber": 2,
-      "score": 65,
-      "penalties": [
-        { "issue": "neckline is mock neck instead of crew", "deduction": -20 },
-        { "issue": "slightly different shade of green", "deduction": -15 }
-      ],
-      "reasoning": "Good color and crop length but wrong neckline style"
-    }
-  ]
-}`
+  V1_CURRENT: "1.0.0",
+  V2_ATTRIBUTE_FOCUSED: "2.0.0",
+  V3_STRICT_VERIFICATION: "3.0.0",
 };
 
+function rankingPrompt(version: string, candidateCount: number): string {
+  return renderPrompt(
+    "matching.visual_ranking",
+    { candidateCount, lastImage: candidateCount + 1 },
+    version
+  ).text;
+}
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -320,7 +230,7 @@ async function runTest() {
     // Run all 3 prompts
     const v1Result = await runPrompt(
       "V1_CURRENT",
-      PROMPTS.V1_CURRENT(candidates.length),
+      rankingPrompt(PROMPTS.V1_CURRENT, candidates.length),
       cropBase64,
       candidates
     );
@@ -328,7 +238,7 @@ async function runTest() {
 
     const v2Result = await runPrompt(
       "V2_ATTRIBUTE_FOCUSED",
-      PROMPTS.V2_ATTRIBUTE_FOCUSED(candidates.length),
+      rankingPrompt(PROMPTS.V2_ATTRIBUTE_FOCUSED, candidates.length),
       cropBase64,
       candidates
     );
@@ -336,7 +246,7 @@ async function runTest() {
 
     const v3Result = await runPrompt(
       "V3_STRICT_VERIFICATION",
-      PROMPTS.V3_STRICT_VERIFICATION(candidates.length),
+      rankingPrompt(PROMPTS.V3_STRICT_VERIFICATION, candidates.length),
       cropBase64,
       candidates
     );
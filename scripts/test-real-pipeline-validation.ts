@@ -21,11 +21,13 @@ import { join } from "path";
 import { readFileSync, writeFileSync, existsSync } from "fs";
 import OpenAI from "openai";
 import {
+  categoryPromptId,
   getSchema,
   ProductCategory,
   Subcategory,
   CategorySchema,
 } from "../lib/matching/category-schemas";
+import { renderPrompt } from "../lib/prompts";
 
 config({ path: join(process.cwd(), ".env.local") });
 
@@ -171,7 +173,7 @@ async function extractAttributesFromFrame(
           content: [
             {
               type: "text",
-              text: `${schema.extractionPrompt}\n\nProduct context: ${context}`,
+              text: renderPrompt(categoryPromptId(schema), { context: `Product context: ${context}` }).text,
             },
             {
               type: "image_url",
@@ -230,7 +232,7 @@ async function extractAttributesFromCandidateImage(
           content: [
             {
               type: "text",
-              text: `${schema.extractionPrompt}\n\nProduct: ${productTitle}`,
+              text: renderPrompt(categoryPromptId(schema), { context: `Product: ${productTitle}` }).text,
             },
             {
               type: "image_url",
@@ -16,6 +16,7 @@ import { join } from "path";
 import { readFileSync, writeFileSync, existsSync } from "fs";
 import OpenAI from "openai";
 import {
+  categoryPromptId,
   CATEGORY_SCHEMAS,
   getSchema,
   inferSubcategory,
@@ -23,6 +24,7 @@ import {
   Subcategory,
   CategorySchema,
 } from "../lib/matching/category-schemas";
+import { renderPrompt } from "../lib/prompts";
 
 config({ path: join(process.cwd(), ".env.local") });
 
@@ -101,7 +103,7 @@ async function extractAttributesWithSchema(
           content: [
             {
               type: "text",
-              text: `${schema.extractionPrompt}\n\nProduct context: ${productDescription}`,
+              text: renderPrompt(categoryPromptId(schema), { context: `Product context: ${productDescription}` }).text,
             },
             {
               type: "image_url",
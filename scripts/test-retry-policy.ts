@@ -0,0 +1,74 @@
+/**
+ * Retry Policy Test
+ *
+ * Checks which job failures classifyError treats as retryable, the
+ * backoff between attempts and the attempt limit. No server or API keys
+ * needed.
+ *
+ * Usage: npm run test:retry-policy
+ */
+
+import { backoffDelayMs, classifyError, RETRY_CONFIG, shouldRetry } from "../lib/queue/retry-policy";
+import { begin, check, finish } from "./lib/check";
+
+function expectClassification(label: string, error: unknown, retryable: boolean, reason: string): void {
+  const result = classifyError(error);
+  check(label, result.retryable === retryable && result.reason === reason, result);
+}
+
+function named(name: string, message: string = name): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+function main(): void {
+  begin("Retry Policy");
+
+  console.log("\n[Test 1] Status fields");
+  expectClassification("OpenAI 429 is retried", Object.assign(new Error("Rate limited"), { status: 429 }), true, "http_429");
+  expectClassification("OpenAI 401 is permanent", Object.assign(new Error("Bad key"), { status: 401 }), false, "http_401");
+  expectClassification("AWS 503 is retried", Object.assign(new Error("x"), { $metadata: { httpStatusCode: 503 } }), true, "http_503");
+  expectClassification("Unlisted 5xx is retried", Object.assign(new Error("x"), { statusCode: 507 }), true, "http_507");
+  expectClassification("404 is permanent", Object.assign(new Error("x"), { statusCode: 404 }), false, "http_404");
+
+  console.log("\n[Test 2] Status in the message");
+  expectClassification("\"HTTP 503\" is retried", new Error("HTTP 503"), true, "http_503");
+  expectClassification("\"status: 429\" is retried", new Error("Request failed with status: 429"), true, "http_429");
+  expectClassification("\"code 400\" is permanent", new Error("Upstream error code 400"), false, "http_400");
+  expectClassification("\"processed 500 frames\" is not a status", new Error("Vision failed after processed 500 frames"), false, "unknown");
+  expectClassification("A bare number is not a status", new Error("Store 404 has no products"), false, "unknown");
+  expectClassification("Digits inside an ID are not a status", new Error("Job job-5031 failed"), false, "unknown");
+
+  console.log("\n[Test 3] Network codes, error names and causes");
+  expectClassification("ECONNRESET is retried", Object.assign(new Error("socket"), { code: "ECONNRESET" }), true, "ECONNRESET");
+  expectClassification("Timeout message is retried", new Error("Request timed out"), true, "timeout");
+  expectClassification("Budget hard cap is permanent", named("BudgetExceededError"), false, "budget_exceeded");
+  expectClassification("Missing fixture is permanent", named("MissingFixtureError"), false, "fixture_missing");
+  expectClassification("Invalid model output is permanent", named("OutputValidationError"), false, "invalid_output");
+  expectClassification("Open circuit is retried", named("CircuitOpenError"), true, "circuit_open");
+  expectClassification("AWS SlowDown is retried", named("SlowDown"), true, "SlowDown");
+  expectClassification(
+    "fetch() cause is classified",
+    new TypeError("fetch failed", { cause: Object.assign(new Error("refused"), { code: "ECONNREFUSED" }) }),
+    true,
+    "ECONNREFUSED"
+  );
+  expectClassification("Unknown errors are permanent", new Error("Cannot read properties of undefined"), false, "unknown");
+  expectClassification("Non-errors are permanent", "boom", false, "unknown");
+
+  console.log("\n[Test 4] Backoff");
+  const config = { baseDelayMs: 1000, maxDelayMs: 10000 };
+  check("First retry waits half to all of the base delay", backoffDelayMs(1, config, () => 0) === 500 && backoffDelayMs(1, config, () => 1) === 1000);
+  check("Delay doubles per attempt", backoffDelayMs(3, config, () => 1) === 4000);
+  check("Delay is capped", backoffDelayMs(10, config, () => 1) === 10000 && backoffDelayMs(10, config, () => 0) === 5000);
+
+  console.log("\n[Test 5] Attempt limit");
+  check("Retryable errors retry below the limit", shouldRetry({ retryable: true, reason: "timeout" }, RETRY_CONFIG.maxAttempts - 1));
+  check("No retry at the limit", !shouldRetry({ retryable: true, reason: "timeout" }, RETRY_CONFIG.maxAttempts));
+  check("Permanent errors never retry", !shouldRetry({ retryable: false, reason: "http_401" }, 1));
+
+  finish("retry policy");
+}
+
+main();
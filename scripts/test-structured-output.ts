@@ -0,0 +1,175 @@
+/**
+ * Structured Output Test
+ *
+ * Checks model output validation (lib/ai/output-schema.ts) and the repair
+ * loop (lib/ai/structured-output.ts) against a scripted model: issue
+ * paths, optional fallbacks, re-asks, giving up, and the tokens billed.
+ * No server or API keys needed.
+ *
+ * Usage: npm run test:structured-output
+ */
+
+import { schema, validateOutput, ValidationIssue } from "../lib/ai/output-schema";
+import {
+  getOutputValidationStats,
+  OutputValidationError,
+  parseModelOutput,
+  resetOutputValidationStats,
+  validatedChat,
+} from "../lib/ai/structured-output";
+import type { ChatRequest, ChatResponse } from "../lib/ai/providers";
+import { begin, check, finish } from "./lib/check";
+
+function issuePaths(issues: ValidationIssue[]): string[] {
+  return issues.map((issue) => issue.path);
+}
+
+const PRODUCTS = schema.object({
+  products: schema.array(
+    schema.object({
+      name: schema.string(),
+      confidence: schema.number({ min: 0, max: 1 }),
+      frameIndices: schema.array(schema.number({ min: 0, integer: true }), { min: 1 }),
+      brand: schema.nullable(schema.string()),
+      colors: schema.optional(schema.array(schema.string()), []),
+      note: schema.optional(schema.string()),
+    })
+  ),
+  meta: schema.object({ source: schema.enum(["video", "image"] as const) }, { passthrough: true }),
+});
+
+const REQUEST: ChatRequest = { provider: "openai", model: "gpt-4o", prompt: "List the products.", maxTokens: 100, temperature: 0 };
+
+const VALID_ANSWER = JSON.stringify({
+  products: [{ name: "Red dress", confidence: 0.9, frameIndices: [0], brand: null }],
+  meta: { source: "video" },
+});
+const INVALID_ANSWER = JSON.stringify({
+  products: [{ name: "Red dress", confidence: "high", frameIndices: [0], brand: null }],
+  meta: { source: "video" },
+});
+
+/**
+ * A model that gives the scripted answers in order, 100 input and 10
+ * output tokens each
+ */
+function scriptedModel(answers: Array<string | null>): { send: (request: ChatRequest) => Promise<ChatResponse>; requests: ChatRequest[] } {
+  const requests: ChatRequest[] = [];
+  return {
+    requests,
+    send: async (request) => {
+      requests.push(request);
+      const content = answers[Math.min(requests.length - 1, answers.length - 1)];
+      return { content, inputTokens: 100, outputTokens: 10 };
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  begin("Structured Output");
+
+  console.log("\n[Test 1] Issue paths");
+  const nested = validateOutput(PRODUCTS, {
+    products: [
+      { name: "Dress", confidence: 0.8, frameIndices: [0, 1], brand: "Zara" },
+      { name: 42, confidence: 1.5, frameIndices: [0, -1], brand: null },
+    ],
+    meta: { source: "tv" },
+  });
+  const paths = nested.ok ? [] : issuePaths(nested.issues);
+  check(
+    "Every problem is reported at its path",
+    JSON.stringify(paths) ===
+      JSON.stringify(["products[1].name", "products[1].confidence", "products[1].frameIndices[1]", "meta.source"]),
+    paths
+  );
+  const tooFew = validateOutput(PRODUCTS, { products: [{ name: "Dress", confidence: 0.5, frameIndices: [], brand: null }], meta: { source: "video" } });
+  check(
+    "Array minimum is reported on the array",
+    !tooFew.ok && tooFew.issues[0].path === "products[0].frameIndices" && tooFew.issues[0].message.includes("at least 1"),
+    tooFew
+  );
+  const missing = validateOutput(PRODUCTS, { meta: { source: "image" } });
+  check("A missing required field is an issue", !missing.ok && issuePaths(missing.issues).join() === "products", missing);
+
+  console.log("\n[Test 2] Optional, nullable and unknown keys");
+  const defaults = validateOutput(PRODUCTS, JSON.parse(VALID_ANSWER));
+  const product = defaults.ok ? defaults.value.products[0] : undefined;
+  check("A missing optional field takes its fallback", JSON.stringify(product?.colors) === "[]", product);
+  check("A missing optional field without a fallback stays absent", !!product && !("note" in product), product);
+  check("Null passes a nullable field", product?.brand === null, product);
+  const wrongOptional = validateOutput(PRODUCTS, {
+    products: [{ name: "Dress", confidence: 0.5, frameIndices: [0], brand: null, colors: "red" }],
+    meta: { source: "video" },
+  });
+  check(
+    "A present but invalid optional field is an issue, not the fallback",
+    !wrongOptional.ok && issuePaths(wrongOptional.issues).join() === "products[0].colors",
+    wrongOptional
+  );
+  const extras = validateOutput(PRODUCTS, {
+    products: [{ name: "Dress", confidence: 0.5, frameIndices: [0], brand: null, extra: 1 }],
+    meta: { source: "video", fps: 30 },
+  });
+  check(
+    "Unknown keys are dropped, or kept with passthrough",
+    extras.ok && !("extra" in extras.value.products[0]) && (extras.value.meta as Record<string, unknown>).fps === 30,
+    extras
+  );
+
+  console.log("\n[Test 3] Parsing raw answers");
+  const notJson = parseModelOutput("Sure! Here are the products: ...", PRODUCTS);
+  check("Malformed JSON is an issue at the root", !notJson.ok && notJson.issues[0].path === "$", notJson);
+  const empty = parseModelOutput(null, PRODUCTS);
+  check("An empty answer is an issue at the root", !empty.ok && empty.issues[0].message.includes("empty"), empty);
+
+  console.log("\n[Test 4] Repair");
+  resetOutputValidationStats();
+  const repairing = scriptedModel([INVALID_ANSWER, VALID_ANSWER]);
+  const repaired = await validatedChat(REQUEST, PRODUCTS, { task: "test_repair", send: repairing.send, repairAttempts: 2 });
+  check("An invalid answer is re-asked and the valid one returned", repaired.repairs === 1 && repaired.data.products[0].confidence === 0.9, repaired);
+  check(
+    "The re-ask lists the problem and keeps the original prompt",
+    repairing.requests.length === 2 &&
+      repairing.requests[1].prompt.startsWith(REQUEST.prompt) &&
+      repairing.requests[1].prompt.includes("products[0].confidence"),
+    repairing.requests.map((request) => request.prompt)
+  );
+  check("Tokens are summed over both answers", repaired.inputTokens === 200 && repaired.outputTokens === 20, repaired);
+  const valid = await validatedChat(REQUEST, PRODUCTS, { task: "test_repair", send: scriptedModel([VALID_ANSWER]).send });
+  check("A valid first answer needs no re-ask", valid.repairs === 0 && valid.inputTokens === 100, valid);
+  const repairStats = getOutputValidationStats().byTask.test_repair;
+  check(
+    "Counters record one repaired and one valid call",
+    repairStats?.calls === 2 && repairStats.repaired === 1 && repairStats.valid === 1 && repairStats.invalidAnswers === 1,
+    repairStats
+  );
+
+  console.log("\n[Test 5] Exhaustion");
+  const stubborn = scriptedModel([INVALID_ANSWER]);
+  let thrown: unknown;
+  try {
+    await validatedChat(REQUEST, PRODUCTS, { task: "test_exhaustion", send: stubborn.send, repairAttempts: 2 });
+  } catch (error) {
+    thrown = error;
+  }
+  check("Gives up with OutputValidationError", thrown instanceof OutputValidationError, String(thrown));
+  if (thrown instanceof OutputValidationError) {
+    check("Asked once plus two re-asks", stubborn.requests.length === 3 && thrown.repairs === 2, stubborn.requests.length);
+    check("The error carries the tokens of every attempt", thrown.inputTokens === 300 && thrown.outputTokens === 30, thrown);
+    check("The error carries the last problems", issuePaths(thrown.issues).join() === "products[0].confidence", thrown.issues);
+  }
+  const exhaustionStats = getOutputValidationStats().byTask.test_exhaustion;
+  check(
+    "Counters record the failure",
+    exhaustionStats?.failed === 1 && exhaustionStats.invalidAnswers === 3 && exhaustionStats.lastFailureAt !== null,
+    exhaustionStats
+  );
+
+  finish("structured output");
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+/**
+ * Webhook Signature Test
+ *
+ * Checks the X-Velolume-Signature header outbound webhooks carry
+ * (lib/webhooks/webhook-dispatcher.ts): its format, and that verification
+ * rejects tampered bodies, wrong secrets, stale timestamps and malformed
+ * headers. No server or API keys needed.
+ *
+ * Usage: npm run test:webhook-signature
+ */
+
+import { createHmac } from "crypto";
+import { signPayload, verifyWebhookSignature } from "../lib/webhooks/webhook-dispatcher";
+import { begin, check, finish } from "./lib/check";
+
+const SECRET = "whsec_test_secret";
+const BODY = JSON.stringify({ id: "evt-1", type: "job.completed", data: { jobId: "job-1" } });
+const NOW = 1767225600; // 2026-01-01T00:00:00Z
+
+function main(): void {
+  begin("Webhook Signatures");
+
+  console.log("\n[Test 1] Signing");
+  const header = signPayload(SECRET, BODY, NOW);
+  const expected = createHmac("sha256", SECRET).update(`${NOW}.${BODY}`).digest("hex");
+  check("Header is t=<seconds>,v1=<HMAC-SHA256 of \"<t>.<body>\">", header === `t=${NOW},v1=${expected}`, header);
+
+  console.log("\n[Test 2] Verification");
+  check("A fresh signature verifies", verifyWebhookSignature(SECRET, header, BODY, NOW));
+  check("A signature within five minutes verifies", verifyWebhookSignature(SECRET, header, BODY, NOW + 300));
+  check("A tampered body is rejected", !verifyWebhookSignature(SECRET, header, BODY.replace("job-1", "job-2"), NOW));
+  check("Another secret is rejected", !verifyWebhookSignature("whsec_other", header, BODY, NOW));
+  check("A stale timestamp is rejected", !verifyWebhookSignature(SECRET, header, BODY, NOW + 301));
+  check("A timestamp from the future is rejected", !verifyWebhookSignature(SECRET, signPayload(SECRET, BODY, NOW + 600), BODY, NOW));
+  check(
+    "Moving the timestamp breaks the signature",
+    !verifyWebhookSignature(SECRET, header.replace(`t=${NOW}`, `t=${NOW + 10}`), BODY, NOW)
+  );
+
+  console.log("\n[Test 3] Malformed headers");
+  check("A missing header is rejected", !verifyWebhookSignature(SECRET, null, BODY, NOW));
+  check("A header without v1 is rejected", !verifyWebhookSignature(SECRET, `t=${NOW}`, BODY, NOW));
+  check("A header without t is rejected", !verifyWebhookSignature(SECRET, `v1=${expected}`, BODY, NOW));
+  check("A truncated digest is rejected", !verifyWebhookSignature(SECRET, `t=${NOW},v1=${expected.slice(0, 32)}`, BODY, NOW));
+  check("A non-hex digest is rejected", !verifyWebhookSignature(SECRET, `t=${NOW},v1=not-a-digest`, BODY, NOW));
+
+  finish("webhook signature");
+}
+
+main();